@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import {
   Toolbar,
   StatusBar,
+  AttributeEditor,
   GridView,
   Filmstrip,
   GridControls,
@@ -71,15 +72,29 @@ const IMAGES: ImageSource[] = [
   },
 ];
 
+const IMAGE_IDS = IMAGES.map((image) => image.id);
+
 const CONTEXTS: AnnotationContext[] = [
   {
     id: 'ctx-1' as AnnotationContextId,
     label: 'Fracture',
     imageIds: [createImageId('highsmith'), createImageId('duomo')],
     tools: [
-      { type: 'line', maxCount: 3, countScope: 'per-image' },
+      { type: 'line', maxCount: 3, minCount: 1, countScope: 'per-image' },
       { type: 'rectangle', maxCount: 2 },
     ],
+    attributes: [
+      {
+        key: 'severity',
+        label: 'Severity',
+        type: 'enum',
+        options: ['mild', 'moderate', 'severe'],
+        required: true,
+      },
+      { key: 'displaced', label: 'Displaced', type: 'boolean', default: false },
+      { key: 'lengthMm', label: 'Length (mm)', type: 'number', min: 0, max: 500 },
+      { key: 'notes', label: 'Notes', type: 'text', maxLength: 200 },
+    ],
   },
   {
     id: 'ctx-2' as AnnotationContextId,
@@ -87,7 +102,11 @@ const CONTEXTS: AnnotationContext[] = [
     tools: [
       { type: 'polyline', maxCount: 3 },
       { type: 'freeHandPath', maxCount: 3 },
-      { type: 'circle', maxCount: 2 },
+      {
+        type: 'circle',
+        maxCount: 2,
+        geometryRules: { minArea: 100, insideImage: true, policy: 'warn' },
+      },
     ],
   },
   {
@@ -96,11 +115,30 @@ const CONTEXTS: AnnotationContext[] = [
     tools: [
       { type: 'rectangle' },
       { type: 'circle' },
+      { type: 'ellipse' },
       { type: 'line' },
       { type: 'point' },
       { type: 'polyline' },
       { type: 'freeHandPath' },
     ],
+    labels: [
+      { id: 'nodule', name: 'Nodule', color: '#e53935', hotkey: 'n', maxCount: 5, required: true },
+      {
+        id: 'vessel',
+        name: 'Vessel',
+        color: '#1e88e5',
+        hotkey: 'b',
+        tools: ['line', 'polyline', 'freeHandPath'],
+      },
+      {
+        id: 'artifact',
+        name: 'Artifact',
+        color: '#9e9e9e',
+        hotkey: 'a',
+        maxCount: 1,
+        countScope: 'per-image',
+      },
+    ],
   },
 ];
 
@@ -139,7 +177,7 @@ function AppContent() {
   };
 
   const handleExportJson = () => {
-    const doc = serialize(annotationState);
+    const doc = serialize(annotationState, { images: IMAGES, contexts: CONTEXTS });
     const json = JSON.stringify(doc, null, 2);
     setExportedJson(json);
   };
@@ -278,6 +316,7 @@ function AppContent() {
             images={IMAGES}
           />
         </div>
+        <AttributeEditor style={{ width: '200px', overflow: 'auto' }} />
       </div>
 
       {/* Status bar */}
@@ -413,6 +452,9 @@ export default function App() {
     <AnnotatorProvider
       onAnnotationsChange={(anns) => console.log('Annotations changed:', anns.length, 'total')}
       onConstraintChange={(status) => console.log('Constraint status changed:', status)}
+      onCompletionChange={(status) => console.log('Completion changed:', status.complete)}
+      onGeometryViolation={(report) => console.log('Geometry rules broken:', report)}
+      imageIds={IMAGE_IDS}
       testMode={true}
       decorationProviders={[createLabelProvider(), domBadgeProvider]}
       renderDomDecoration={(decoration) => {
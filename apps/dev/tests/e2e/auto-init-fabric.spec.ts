@@ -24,7 +24,7 @@ interface SerializedAnnotation {
 }
 
 interface OsdTestHooks {
-  serialize: () => SerializedAnnotation[];
+  serialize: () => { readonly annotations: SerializedAnnotation[] };
   fabricCustomProperties: () => string[];
 }
 
@@ -35,8 +35,8 @@ function customProperties(page: Page): Promise<string[]> {
 }
 
 function serializedAnnotations(page: Page): Promise<SerializedAnnotation[]> {
-  return page.evaluate(() =>
-    (window as unknown as { __osdTest: OsdTestHooks }).__osdTest.serialize(),
+  return page.evaluate(
+    () => (window as unknown as { __osdTest: OsdTestHooks }).__osdTest.serialize().annotations,
   );
 }
 
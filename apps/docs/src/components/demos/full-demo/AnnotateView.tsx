@@ -94,7 +94,7 @@ function AppContent(props: AnnotateViewProps & { toggles: DecorationToggles }) {
   };
 
   const handleExportJson = () => {
-    const doc = serialize(annotationState);
+    const doc = serialize(annotationState, { images: props.images, contexts: props.contexts });
     setExportedJson(JSON.stringify(doc, null, 2));
   };
 
@@ -0,0 +1,89 @@
+import type { AttributeValue } from '@osdlabel/annotation';
+import type { AttributeDefinition } from './types.js';
+
+/** A value that does not satisfy its attribute definition */
+export interface AttributeIssue {
+  readonly key: string;
+  readonly message: string;
+}
+
+/**
+ * Returns why `value` is invalid for `definition`, or `null` if it is valid.
+ * `undefined` (no value) is always valid here; required attributes are
+ * checked by {@link getMissingAttributeKeys}.
+ */
+export function validateAttributeValue(
+  definition: AttributeDefinition,
+  value: AttributeValue | undefined,
+): string | null {
+  if (value === undefined) return null;
+  switch (definition.type) {
+    case 'enum':
+      if (typeof value !== 'string' || !definition.options.includes(value)) {
+        return `must be one of ${definition.options.map((o) => `"${o}"`).join(', ')}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (definition.integer && !Number.isInteger(value)) return 'must be an integer';
+      if (definition.min !== undefined && value < definition.min) {
+        return `must be at least ${definition.min}`;
+      }
+      if (definition.max !== undefined && value > definition.max) {
+        return `must be at most ${definition.max}`;
+      }
+      return null;
+    case 'text':
+      if (typeof value !== 'string') return 'must be a string';
+      if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+        return `must be at most ${definition.maxLength} characters`;
+      }
+      return null;
+  }
+}
+
+/**
+ * Checks attribute values against a context's definitions. Keys without a
+ * definition are left alone, so values survive a move between contexts.
+ */
+export function validateAttributes(
+  definitions: readonly AttributeDefinition[],
+  attributes: Readonly<Record<string, AttributeValue>> | undefined,
+): AttributeIssue[] {
+  const issues: AttributeIssue[] = [];
+  for (const definition of definitions) {
+    const message = validateAttributeValue(definition, attributes?.[definition.key]);
+    if (message) issues.push({ key: definition.key, message });
+  }
+  return issues;
+}
+
+/** Keys of the required attributes that have no value (or an empty string). */
+export function getMissingAttributeKeys(
+  definitions: readonly AttributeDefinition[],
+  attributes: Readonly<Record<string, AttributeValue>> | undefined,
+): string[] {
+  return definitions
+    .filter((d) => {
+      if (!d.required) return false;
+      const value = attributes?.[d.key];
+      return value === undefined || value === '';
+    })
+    .map((d) => d.key);
+}
+
+/**
+ * The initial attributes of a new annotation: each definition's `default`,
+ * or `undefined` when no definition has one.
+ */
+export function getDefaultAttributes(
+  definitions: readonly AttributeDefinition[],
+): Record<string, AttributeValue> | undefined {
+  const defaults: Record<string, AttributeValue> = {};
+  for (const definition of definitions) {
+    if (definition.default !== undefined) defaults[definition.key] = definition.default;
+  }
+  return Object.keys(defaults).length > 0 ? defaults : undefined;
+}
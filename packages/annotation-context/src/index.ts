@@ -1,2 +1,3 @@
 export * from './types.js';
 export * from './context-scoping.js';
+export * from './attributes.js';
@@ -1,4 +1,4 @@
-import type { ToolType, AnnotationStyle } from '@osdlabel/annotation';
+import type { AnnotationId, AnnotationStyle, ToolType } from '@osdlabel/annotation';
 import type { ImageId } from '@osdlabel/viewer-api';
 
 // ── Branded ID Type ─────────────────────────────────────────────────────
@@ -28,16 +28,158 @@ export type CountScope = 'per-image' | 'global';
 export interface ToolConstraint {
   readonly type: ToolType;
   readonly maxCount?: number | undefined;
+  /** Annotations needed before the context counts as complete, counted per `countScope`. */
+  readonly minCount?: number | undefined;
+  /** Shorthand for `minCount: 1`. */
+  readonly required?: boolean | undefined;
   readonly countScope?: CountScope | undefined;
   readonly defaultStyle?: Partial<AnnotationStyle> | undefined;
+  /** Checks the shapes this tool draws must pass, on add and on every move or resize. */
+  readonly geometryRules?: GeometryRules | undefined;
 }
 
+// ── Geometry Rules ──────────────────────────────────────────────────────
+
+/**
+ * What happens to a change that breaks a geometry rule: `'reject'` drops it,
+ * `'warn'` keeps it and only reports it, `'clamp'` pulls shapes that leave
+ * the image back inside (and rejects on any other broken rule).
+ */
+export type GeometryRulePolicy = 'reject' | 'clamp' | 'warn';
+
+/** Declarative checks on the geometry of a tool's annotations. Lengths are in image px. */
+export interface GeometryRules {
+  /** Smallest area (px²) of closed shapes. */
+  readonly minArea?: number | undefined;
+  /** Largest area (px²) of closed shapes. */
+  readonly maxArea?: number | undefined;
+  /** Shortest length of lines and polylines, or perimeter of closed shapes. */
+  readonly minLength?: number | undefined;
+  /** Shapes must lie within the image. Skipped until the image's size is known. */
+  readonly insideImage?: boolean | undefined;
+  /** Polygon edges must not cross each other. */
+  readonly noSelfIntersection?: boolean | undefined;
+  /** Closed shapes must not overlap others in the context with the same label. */
+  readonly noOverlapWithSameLabel?: boolean | undefined;
+  /** Defaults to `'reject'`. */
+  readonly policy?: GeometryRulePolicy | undefined;
+}
+
+/** The name of one geometry rule */
+export type GeometryRule = Exclude<keyof GeometryRules, 'policy'>;
+
+/** One geometry rule an annotation breaks */
+export interface GeometryViolation {
+  readonly rule: GeometryRule;
+  readonly message: string;
+  /** For `noOverlapWithSameLabel`, the annotations overlapped. */
+  readonly annotationIds?: readonly AnnotationId[] | undefined;
+}
+
+/** The geometry rules an added or modified annotation broke, and what was done about it */
+export interface GeometryViolationReport {
+  readonly annotationId: AnnotationId;
+  readonly imageId: ImageId;
+  readonly contextId: AnnotationContextId;
+  readonly toolType: ToolType;
+  /**
+   * `'rejected'`: the change was dropped. `'clamped'`: it was made with the
+   * shape pulled inside the image. `'warned'`: it was made as is.
+   */
+  readonly outcome: 'rejected' | 'clamped' | 'warned';
+  readonly violations: readonly GeometryViolation[];
+}
+
+// ── Label Taxonomy ──────────────────────────────────────────────────────
+
+/** A class that annotations in a context can be labelled with */
+export interface LabelDefinition {
+  /** Stable id, stored as the annotation's `label`. */
+  readonly id: string;
+  /** Display name. */
+  readonly name: string;
+  /**
+   * Stroke and fill color of annotations with this label. `labelStyles`
+   * and the annotation's own `style` take precedence.
+   */
+  readonly color?: string | undefined;
+  /** Key that makes this the active label. */
+  readonly hotkey?: string | undefined;
+  /** Tools that may draw this label. Defaults to all of the context's tools. */
+  readonly tools?: readonly ToolType[] | undefined;
+  /** Maximum number of annotations with this label, whatever tool drew them */
+  readonly maxCount?: number | undefined;
+  /** Annotations with this label needed before the context counts as complete */
+  readonly minCount?: number | undefined;
+  /** Shorthand for `minCount: 1`. */
+  readonly required?: boolean | undefined;
+  readonly countScope?: CountScope | undefined;
+}
+
+// ── Attribute Schemas ───────────────────────────────────────────────────
+
+/** Fields shared by every attribute definition */
+interface AttributeDefinitionBase {
+  /** Key the value is stored under in the annotation's `attributes`. */
+  readonly key: string;
+  /** Display name in the attribute editor. Defaults to `key`. */
+  readonly label?: string | undefined;
+  /** Annotations without a value are reported by `findMissingAttributes`. */
+  readonly required?: boolean | undefined;
+}
+
+/** One value out of a fixed list, e.g. a class */
+export interface EnumAttributeDefinition extends AttributeDefinitionBase {
+  readonly type: 'enum';
+  readonly options: readonly string[];
+  readonly default?: string | undefined;
+}
+
+/** A yes/no flag */
+export interface BooleanAttributeDefinition extends AttributeDefinitionBase {
+  readonly type: 'boolean';
+  readonly default?: boolean | undefined;
+}
+
+/** A number, optionally limited to a range and/or to integers */
+export interface NumberAttributeDefinition extends AttributeDefinitionBase {
+  readonly type: 'number';
+  readonly min?: number | undefined;
+  readonly max?: number | undefined;
+  readonly integer?: boolean | undefined;
+  readonly default?: number | undefined;
+}
+
+/** Free text */
+export interface TextAttributeDefinition extends AttributeDefinitionBase {
+  readonly type: 'text';
+  readonly maxLength?: number | undefined;
+  readonly default?: string | undefined;
+}
+
+/** A typed attribute annotations in a context carry */
+export type AttributeDefinition =
+  | EnumAttributeDefinition
+  | BooleanAttributeDefinition
+  | NumberAttributeDefinition
+  | TextAttributeDefinition;
+
 /** An annotation context defining tool constraints for a particular annotation task */
 export interface AnnotationContext {
   readonly id: AnnotationContextId;
   readonly label: string;
   readonly tools: readonly ToolConstraint[];
   readonly imageIds?: readonly ImageId[] | undefined;
+  /**
+   * Style overrides per annotation label, e.g. to recolor a class after the
+   * fact. Layered over the tool's `defaultStyle`; an annotation's own
+   * `style` still wins.
+   */
+  readonly labelStyles?: Readonly<Record<string, Partial<AnnotationStyle>>> | undefined;
+  /** The labels annotations in this context are classified with, in picker order. */
+  readonly labels?: readonly LabelDefinition[] | undefined;
+  /** Attributes annotations in this context carry, in editor order. */
+  readonly attributes?: readonly AttributeDefinition[] | undefined;
   readonly metadata?: Readonly<Record<string, unknown>> | undefined;
 }
 
@@ -50,12 +192,52 @@ export interface ContextState {
   displayedContextIds: AnnotationContextId[];
 }
 
+/** An annotation lacking values for required attributes */
+export interface MissingAttributes {
+  readonly annotationId: AnnotationId;
+  readonly imageId: ImageId;
+  /** Keys of the required attributes without a value. */
+  readonly keys: readonly string[];
+}
+
+/** Whether one more annotation of a tool or label fits under its `maxCount` */
+export interface CountStatus {
+  readonly enabled: boolean;
+  readonly currentCount: number;
+  readonly maxCount: number | null;
+}
+
 /** Derived state showing which tools are enabled/disabled for the active context */
-export type ConstraintStatus = Record<
-  ToolType,
-  {
-    readonly enabled: boolean;
-    readonly currentCount: number;
-    readonly maxCount: number | null;
-  }
->;
+export type ConstraintStatus = Record<ToolType, CountStatus>;
+
+/** Derived state showing which labels of the active context have room, keyed by label id */
+export type LabelStatus = Readonly<Record<string, CountStatus>>;
+
+/** A tool's or label's `minCount` that has not been reached yet */
+export interface UnmetRequirement {
+  readonly contextId: AnnotationContextId;
+  /** Whether the requirement is on a tool type or a label. */
+  readonly kind: 'tool' | 'label';
+  /** The tool type or label id. */
+  readonly id: string;
+  readonly currentCount: number;
+  readonly minCount: number;
+}
+
+/** Whether a set of requirements is met, and which ones are not */
+export interface RequirementsStatus {
+  readonly complete: boolean;
+  readonly unmet: readonly UnmetRequirement[];
+}
+
+/** Derived state showing whether the contexts' `minCount`s are reached */
+export interface CompletionStatus {
+  /** Whether every requirement is met, on every image and across images. */
+  readonly complete: boolean;
+  /** Whether any context declares a requirement at all. */
+  readonly hasRequirements: boolean;
+  /** `'per-image'` requirements, for each image checked. */
+  readonly byImage: Readonly<Record<ImageId, RequirementsStatus>>;
+  /** `'global'` requirements, counted across each context's images. */
+  readonly global: RequirementsStatus;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDefaultAttributes,
+  getMissingAttributeKeys,
+  validateAttributeValue,
+  validateAttributes,
+} from '../../src/attributes.js';
+import type { AttributeDefinition } from '../../src/types.js';
+
+const definitions: AttributeDefinition[] = [
+  { key: 'class', type: 'enum', options: ['benign', 'malignant'], required: true },
+  { key: 'confirmed', type: 'boolean', default: false },
+  { key: 'grade', type: 'number', min: 1, max: 3, integer: true },
+  { key: 'notes', type: 'text', maxLength: 5, required: true },
+];
+
+describe('validateAttributeValue', () => {
+  it('accepts missing values', () => {
+    for (const definition of definitions) {
+      expect(validateAttributeValue(definition, undefined)).toBeNull();
+    }
+  });
+
+  it('checks enum options', () => {
+    expect(validateAttributeValue(definitions[0]!, 'benign')).toBeNull();
+    expect(validateAttributeValue(definitions[0]!, 'other')).toMatch(/one of "benign"/);
+    expect(validateAttributeValue(definitions[0]!, 1)).not.toBeNull();
+  });
+
+  it('checks booleans', () => {
+    expect(validateAttributeValue(definitions[1]!, true)).toBeNull();
+    expect(validateAttributeValue(definitions[1]!, 'true')).toBe('must be a boolean');
+  });
+
+  it('checks number range and integrality', () => {
+    expect(validateAttributeValue(definitions[2]!, 2)).toBeNull();
+    expect(validateAttributeValue(definitions[2]!, 0)).toBe('must be at least 1');
+    expect(validateAttributeValue(definitions[2]!, 4)).toBe('must be at most 3');
+    expect(validateAttributeValue(definitions[2]!, 1.5)).toBe('must be an integer');
+    expect(validateAttributeValue(definitions[2]!, Number.NaN)).toBe('must be a number');
+  });
+
+  it('checks text length', () => {
+    expect(validateAttributeValue(definitions[3]!, 'ok')).toBeNull();
+    expect(validateAttributeValue(definitions[3]!, 'too long')).toMatch(/at most 5/);
+  });
+});
+
+describe('validateAttributes', () => {
+  it('reports one issue per invalid value and ignores undeclared keys', () => {
+    expect(validateAttributes(definitions, { class: 'benign', other: 'x' })).toEqual([]);
+    expect(validateAttributes(definitions, { class: 'x', grade: 9 })).toEqual([
+      { key: 'class', message: expect.any(String) },
+      { key: 'grade', message: 'must be at most 3' },
+    ]);
+  });
+});
+
+describe('getMissingAttributeKeys', () => {
+  it('lists required attributes without a value, treating empty text as missing', () => {
+    expect(getMissingAttributeKeys(definitions, undefined)).toEqual(['class', 'notes']);
+    expect(getMissingAttributeKeys(definitions, { class: 'benign', notes: '' })).toEqual(['notes']);
+    expect(getMissingAttributeKeys(definitions, { class: 'benign', notes: 'n' })).toEqual([]);
+  });
+});
+
+describe('getDefaultAttributes', () => {
+  it('collects defaults, or returns undefined when there are none', () => {
+    expect(getDefaultAttributes(definitions)).toEqual({ confirmed: false });
+    expect(getDefaultAttributes([])).toBeUndefined();
+  });
+});
@@ -1,3 +1,65 @@
+import type { GeometryType } from './geometry';
+
+/** The tool types osdlabel ships with. */
+export type BuiltInToolType =
+  | 'rectangle'
+  | 'circle'
+  | 'ellipse'
+  | 'line'
+  | 'point'
+  | 'polyline'
+  | 'freeHandPath';
+
+/**
+ * Tool types added by plugins, as keys. Augment it next to the tool's
+ * registration so its id type-checks wherever a `ToolType` is expected —
+ * through whichever package you import osdlabel from:
+ *
+ * ```ts
+ * declare module '@osdlabel/solid' {
+ *   interface CustomToolTypes {
+ *     caliper: true;
+ *   }
+ * }
+ * ```
+ */
+export interface CustomToolTypes {}
+
 /** The type of the annotation tool used to create an annotation.
  * Multiple tools may produce the same geometry type. */
-export type ToolType = 'rectangle' | 'circle' | 'line' | 'point' | 'polyline' | 'freeHandPath';
+export type ToolType = BuiltInToolType | (keyof CustomToolTypes & string);
+
+/** Registered tool types and the geometry type each produces. */
+const toolGeometryTypes = new Map<string, GeometryType>([
+  ['rectangle', 'rectangle'],
+  ['circle', 'circle'],
+  ['ellipse', 'ellipse'],
+  ['line', 'line'],
+  ['point', 'point'],
+  ['polyline', 'polyline'],
+  ['freeHandPath', 'polyline'],
+]);
+
+/**
+ * Records a tool type and the geometry type it produces, making it valid for
+ * `ToolTypeSchema` and `toolTypeToGeometryType`. Plugins normally call
+ * `registerTool` from `osdlabel`, which does this for them.
+ */
+export function registerToolType(type: ToolType, geometryType: GeometryType): void {
+  toolGeometryTypes.set(type, geometryType);
+}
+
+/** Whether `value` is a registered tool type. */
+export function isToolType(value: unknown): value is ToolType {
+  return typeof value === 'string' && toolGeometryTypes.has(value);
+}
+
+/** The geometry type a registered tool type produces. */
+export function getToolGeometryType(type: ToolType): GeometryType | undefined {
+  return toolGeometryTypes.get(type);
+}
+
+/** All registered tool types, built-ins first, then in registration order. */
+export function getToolTypes(): readonly ToolType[] {
+  return [...toolGeometryTypes.keys()] as ToolType[];
+}
@@ -7,6 +7,27 @@ export interface BaseAnnotation {
   readonly geometry: Geometry;
   readonly toolType: ToolType;
   readonly label?: string | undefined;
+  /**
+   * Per-annotation style. When omitted the style is resolved from the
+   * context: label style, then the tool's `defaultStyle`, then
+   * `DEFAULT_ANNOTATION_STYLE`.
+   */
+  readonly style?: AnnotationStyle | undefined;
+  /**
+   * Values for the attributes declared by the annotation's context, keyed by
+   * attribute key.
+   */
+  readonly attributes?: Readonly<Record<string, AttributeValue>> | undefined;
+  /** A locked annotation cannot be selected, edited or deleted on the canvas. */
+  readonly locked?: boolean | undefined;
+  /** A hidden annotation is kept in state but not drawn or decorated. */
+  readonly hidden?: boolean | undefined;
+  /**
+   * Stacking position on the canvas; higher is drawn on top. Missing counts
+   * as `0`, and ties stack by `createdAt`, then id, so newer annotations
+   * are on top.
+   */
+  readonly zIndex?: number | undefined;
   readonly createdAt: string;
   readonly updatedAt: string;
 }
@@ -17,6 +38,9 @@ export interface BaseAnnotation {
  */
 export type Annotation<E extends object = Record<string, never>> = BaseAnnotation & E;
 
+/** The value of a single annotation attribute. */
+export type AttributeValue = string | number | boolean;
+
 /** Visual styling for an annotation */
 export interface AnnotationStyle {
   readonly strokeColor: string;
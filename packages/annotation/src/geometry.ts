@@ -18,6 +18,18 @@ export interface CircleGeometry {
   readonly radius: number;
 }
 
+/**
+ * An ellipse with semi-axes `radiusX` and `radiusY`, rotated by `rotation`
+ * degrees about its `center`.
+ */
+export interface EllipseGeometry {
+  readonly type: 'ellipse';
+  readonly center: Point;
+  readonly radiusX: number;
+  readonly radiusY: number;
+  readonly rotation: number;
+}
+
 export interface LineGeometry {
   readonly type: 'line';
   readonly start: Point;
@@ -39,14 +51,34 @@ export interface PolygonGeometry {
   readonly points: readonly Point[];
 }
 
+/**
+ * A polygon with holes: an `outer` boundary ring and any number of `holes`.
+ * Rings are implicitly closed (the first point is not repeated).
+ */
+export interface PolygonWithHoles {
+  readonly outer: readonly Point[];
+  readonly holes: readonly (readonly Point[])[];
+}
+
+/**
+ * One or more disjoint polygons, each of which may have holes (e.g. a tissue
+ * region with lumens, in several islands). Filled with the even-odd rule.
+ */
+export interface MultiPolygonGeometry {
+  readonly type: 'multiPolygon';
+  readonly polygons: readonly PolygonWithHoles[];
+}
+
 /** Discriminated union of annotation geometries */
 export type Geometry =
   | RectangleGeometry
   | CircleGeometry
+  | EllipseGeometry
   | LineGeometry
   | PointGeometry
   | PolylineGeometry
-  | PolygonGeometry;
+  | PolygonGeometry
+  | MultiPolygonGeometry;
 /** Geometry discriminator values — derived from the Geometry union */
 
 export type GeometryType = Geometry['type'];
@@ -1,12 +1,19 @@
 import type { AnnotationId } from './annotation';
-import type { ToolType } from './annotation-tool';
+import { getToolGeometryType, type ToolType } from './annotation-tool';
 import type { GeometryType } from './geometry';
 
-/** Maps a ToolType to the GeometryType it produces */
+/**
+ * The tool an imported geometry is attributed to when the source names none:
+ * the tool of the same name, or `polyline` for (multi-)polygons.
+ */
+export function geometryTypeToDefaultToolType(geometryType: GeometryType): ToolType {
+  return geometryType === 'polygon' || geometryType === 'multiPolygon' ? 'polyline' : geometryType;
+}
+
+/** Maps a ToolType to the GeometryType it produces, as registered */
 
 export function toolTypeToGeometryType(toolType: ToolType): GeometryType {
-  if (toolType === 'freeHandPath') return 'polyline';
-  return toolType as GeometryType;
+  return getToolGeometryType(toolType) ?? (toolType as GeometryType);
 } // ── ID Factory Functions ─────────────────────────────────────────────────
 
 export function createAnnotationId(value: string): AnnotationId {
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createAnnotationId } from '../../src/util.js';
+import { createAnnotationId, geometryTypeToDefaultToolType } from '../../src/util.js';
 import type { AnnotationId } from '../../src';
 
 describe('Branded ID types', () => {
@@ -27,4 +27,9 @@ describe('Helper functions', () => {
     const acceptsAnnotationId = (aid: AnnotationId) => aid;
     expect(acceptsAnnotationId(id)).toBe('test-id');
   });
+  it('geometryTypeToDefaultToolType draws polygons with the polyline tool', () => {
+    expect(geometryTypeToDefaultToolType('polygon')).toBe('polyline');
+    expect(geometryTypeToDefaultToolType('multiPolygon')).toBe('polyline');
+    expect(geometryTypeToDefaultToolType('ellipse')).toBe('ellipse');
+  });
 });
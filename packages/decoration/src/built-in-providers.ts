@@ -108,7 +108,9 @@ interface ResolvedAnchor {
 function anchorPlacementFor(geometry: Geometry): ResolvedAnchor {
   switch (geometry.type) {
     case 'rectangle':
+    case 'ellipse':
     case 'polygon':
+    case 'multiPolygon':
       return { anchor: geom.centroid(geometry), placement: 'center' };
     case 'circle':
       return {
@@ -1,20 +1,20 @@
 import type { DecorationProvider } from './provider.js';
-import type { TextDecorationStyle, LineDecorationStyle } from './decoration.js';
+import type { Decoration, TextDecorationStyle, LineDecorationStyle } from './decoration.js';
 
 export interface SelectionEmphasisOptions {
-  /** Style overrides applied to text decorations associated with the selected annotation. */
+  /** Style overrides applied to text decorations associated with a selected annotation. */
   readonly selectedTextStyle?: Partial<TextDecorationStyle> | undefined;
-  /** Style overrides applied to line decorations associated with the selected annotation. */
+  /** Style overrides applied to line decorations associated with a selected annotation. */
   readonly selectedLineStyle?: Partial<LineDecorationStyle> | undefined;
 }
 
 /**
  * Wraps a decoration provider to apply emphasis styling to decorations
- * associated with the currently selected annotation.
+ * associated with the currently selected annotations.
  *
- * It checks if `DecorationContext.selectedAnnotationId` is present in the
- * decoration's `relatedAnnotationIds`. If so, it merges the provided styles
- * into the decoration's style object.
+ * It checks if any of `DecorationContext.selectedAnnotationIds` is present in
+ * the decoration's `relatedAnnotationIds`. If so, it merges the provided
+ * styles into the decoration's style object.
  *
  * @param provider The base provider to wrap.
  * @param options The style overrides to apply when selected.
@@ -25,16 +25,17 @@ export function withSelectionEmphasis<E extends object = Record<string, never>>(
 ): DecorationProvider<E> {
   return (ctx) => {
     const decorations = provider(ctx);
-    const selectedId = ctx.selectedAnnotationId;
-    if (!selectedId) return decorations;
+    if (ctx.selectedAnnotationIds.length === 0) return decorations;
 
-    const idx = decorations.findIndex((d) => d.relatedAnnotationIds.includes(selectedId));
+    const selected = new Set(ctx.selectedAnnotationIds);
+    const isEmphasized = (d: Decoration) => d.relatedAnnotationIds.some((id) => selected.has(id));
+    const idx = decorations.findIndex(isEmphasized);
     if (idx === -1) return decorations;
 
     const next = [...decorations];
     for (let i = idx; i < next.length; i++) {
       const dec = next[i]!;
-      if (!dec.relatedAnnotationIds.includes(selectedId)) continue;
+      if (!isEmphasized(dec)) continue;
 
       if (dec.type === 'text' && options.selectedTextStyle) {
         next[i] = {
@@ -23,6 +23,11 @@ export {
   midpoint,
   boundingBox,
   circleToBoundingRectangle,
+  rectangleToPolygon,
+  circleToPolygon,
+  ellipseToPolygon,
+  multiPolygonFromRings,
+  DEFAULT_POLYGON_TOLERANCE,
 } from '@osdlabel/geometry';
 export {
   createMeasurementProvider,
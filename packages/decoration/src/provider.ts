@@ -12,8 +12,8 @@ export interface DecorationContext<E extends object = Record<string, never>> {
   readonly annotations: readonly Annotation<E>[];
   /** Calibration for the cell's image; `undefined` if no calibration is set. */
   readonly pixelSpacing?: PixelSpacing | undefined;
-  /** The currently selected annotation ID, if any. Used for selection emphasis. */
-  readonly selectedAnnotationId: AnnotationId | null;
+  /** The currently selected annotation IDs (empty if none). Used for selection emphasis. */
+  readonly selectedAnnotationIds: readonly AnnotationId[];
 }
 
 /**
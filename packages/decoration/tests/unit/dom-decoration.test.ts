@@ -48,7 +48,7 @@ describe('DomDecoration', () => {
           label: 'Cell',
         },
       ],
-      selectedAnnotationId: null,
+      selectedAnnotationIds: [],
     });
 
     expect(result).toHaveLength(1);
@@ -21,7 +21,7 @@ describe('withSelectionEmphasis', () => {
     const provider: DecorationProvider = vi.fn().mockReturnValue(baseDecorations);
     const wrapped = withSelectionEmphasis(provider, { selectedTextStyle: { zIndex: 10 } });
 
-    const result = wrapped({ annotations: [], selectedAnnotationId: null });
+    const result = wrapped({ annotations: [], selectedAnnotationIds: [] });
     expect(result).toBe(baseDecorations);
   });
 
@@ -38,7 +38,7 @@ describe('withSelectionEmphasis', () => {
     const provider: DecorationProvider = vi.fn().mockReturnValue(baseDecorations);
     const wrapped = withSelectionEmphasis(provider, { selectedTextStyle: { zIndex: 10 } });
 
-    const result = wrapped({ annotations: [], selectedAnnotationId: annId('a2') });
+    const result = wrapped({ annotations: [], selectedAnnotationIds: [annId('a2')] });
     expect(result).toBe(baseDecorations);
   });
 
@@ -65,7 +65,7 @@ describe('withSelectionEmphasis', () => {
       selectedTextStyle: { zIndex: 10, color: 'blue' },
     });
 
-    const result = wrapped({ annotations: [], selectedAnnotationId: annId('a1') });
+    const result = wrapped({ annotations: [], selectedAnnotationIds: [annId('a1')] });
     expect(result).not.toBe(baseDecorations);
     expect(result[0]).toEqual({
       id: '1',
@@ -94,7 +94,7 @@ describe('withSelectionEmphasis', () => {
       selectedLineStyle: { strokeWidth: 5, stroke: 'red' },
     });
 
-    const result = wrapped({ annotations: [], selectedAnnotationId: annId('a2') });
+    const result = wrapped({ annotations: [], selectedAnnotationIds: [annId('a2')] });
     expect(result[0]).toEqual({
       id: '1',
       type: 'line',
@@ -104,4 +104,37 @@ describe('withSelectionEmphasis', () => {
       style: { strokeWidth: 5, stroke: 'red' },
     });
   });
+
+  it('emphasizes decorations related to any of several selected annotations', () => {
+    const baseDecorations: Decoration[] = [
+      {
+        id: '1',
+        type: 'text',
+        text: 'A',
+        relatedAnnotationIds: [annId('a1')],
+        anchor: { x: 0, y: 0 },
+      },
+      {
+        id: '2',
+        type: 'text',
+        text: 'B',
+        relatedAnnotationIds: [annId('a2')],
+        anchor: { x: 0, y: 0 },
+      },
+      {
+        id: '3',
+        type: 'text',
+        text: 'C',
+        relatedAnnotationIds: [annId('a3')],
+        anchor: { x: 0, y: 0 },
+      },
+    ];
+    const provider: DecorationProvider = vi.fn().mockReturnValue(baseDecorations);
+    const wrapped = withSelectionEmphasis(provider, { selectedTextStyle: { zIndex: 10 } });
+
+    const result = wrapped({ annotations: [], selectedAnnotationIds: [annId('a1'), annId('a3')] });
+    expect(result[0]).toMatchObject({ style: { zIndex: 10 } });
+    expect(result[1]).toBe(baseDecorations[1]);
+    expect(result[2]).toMatchObject({ style: { zIndex: 10 } });
+  });
 });
@@ -1,6 +1,7 @@
-import { Rect, Circle, Line, Polyline, Polygon, type FabricObject } from 'fabric';
+import { Rect, Circle, Ellipse, Line, Path, Polyline, Polygon, type FabricObject } from 'fabric';
 import type { Geometry } from '@osdlabel/annotation';
 import type { FabricShapeOptions } from './fabric-utils.js';
+import { multiPolygonToPathCommands } from './path-rings.js';
 
 /** Screen-pixel radius used to render `point` geometry (mirrors PointTool). */
 const POINT_RADIUS = 5;
@@ -11,10 +12,12 @@ const POINT_RADIUS = 5;
  * through that function reproduces the input geometry.
  *
  * Construction mirrors the per-shape tools (`RectangleTool`, `CircleTool`,
- * `LineTool`, `PointTool`, `PolylineTool`, `FreeHandPathTool`) so imported
+ * `EllipseTool`, `LineTool`, `PointTool`, `PolylineTool`, `FreeHandPathTool`) so imported
  * geometry behaves identically to user-drawn geometry. The object is created
  * committed (`selectable`/`evented` true) — callers that need a preview object
- * should adjust those flags afterwards.
+ * should adjust those flags afterwards. Multi-polygons, which no tool draws,
+ * become a single `Path` with one subpath per ring, filled even-odd so holes
+ * stay empty.
  */
 export function buildFabricObjectFromGeometry(
   geometry: Geometry,
@@ -43,6 +46,19 @@ export function buildFabricObjectFromGeometry(
         selectable: true,
         evented: true,
       });
+    case 'ellipse':
+      return new Ellipse({
+        ...options,
+        left: geometry.center.x,
+        top: geometry.center.y,
+        rx: geometry.radiusX,
+        ry: geometry.radiusY,
+        angle: geometry.rotation,
+        originX: 'center',
+        originY: 'center',
+        selectable: true,
+        evented: true,
+      });
     case 'line':
       return new Line([geometry.start.x, geometry.start.y, geometry.end.x, geometry.end.y], {
         ...options,
@@ -73,5 +89,12 @@ export function buildFabricObjectFromGeometry(
         geometry.points.map((p) => ({ x: p.x, y: p.y })),
         { ...options, selectable: true, evented: true },
       );
+    case 'multiPolygon':
+      return new Path(multiPolygonToPathCommands(geometry), {
+        ...options,
+        fillRule: 'evenodd',
+        selectable: true,
+        evented: true,
+      });
   }
 }
@@ -5,6 +5,12 @@ declare module 'fabric' {
     id?: string;
     /** When true, setMode('annotation') will not make this object interactive. Not serialized. */
     _readOnly?: boolean;
+    /**
+     * Set while the object is in vertex-edit mode: one key per edit session,
+     * which hosts pass as the history `coalesceKey` so the session's vertex
+     * edits undo as one step. Not serialized.
+     */
+    _editSession?: string;
   }
   interface SerializedObjectProps {
     id?: string;
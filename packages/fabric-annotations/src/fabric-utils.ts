@@ -1,7 +1,9 @@
 import {
   Rect,
   Circle,
+  Ellipse,
   Line,
+  Path,
   Polyline,
   Polygon,
   util,
@@ -10,7 +12,11 @@ import {
   version as FABRIC_VERSION,
 } from 'fabric';
 import type { Annotation, AnnotationStyle, Geometry, GeometryType } from '@osdlabel/annotation';
+import { DEFAULT_ANNOTATION_STYLE } from '@osdlabel/annotation';
+import { multiPolygonFromRings } from '@osdlabel/geometry';
 import type { FabricFields, FabricRawAnnotationData } from './types.js';
+import { buildFabricObjectFromGeometry } from './build-fabric-object.js';
+import { pathCommandVertex, pathRingCommandIndices } from './path-rings.js';
 
 export function getFabricOptions(style: AnnotationStyle, id: string) {
   const fill = new Color(style.fillColor);
@@ -55,13 +61,24 @@ export async function deserializeFabricObject(
   return objects[0] as FabricObject;
 }
 
+/**
+ * Whether raw data written by Fabric `fabricVersion` can be restored by the
+ * running Fabric. Serialized objects are compatible within a major version.
+ */
+export function isCompatibleFabricVersion(fabricVersion: string): boolean {
+  const major = (version: string) => version.split('.')[0];
+  return major(fabricVersion) === major(FABRIC_VERSION);
+}
+
 /**
  * Create a Fabric object from an Annotation's rawAnnotationData.
  * Sets selectable/evented to true for committed annotations.
+ * Returns null when the annotation has no raw data.
  */
 export async function createFabricObjectFromRawData(
   annotation: Annotation<FabricFields>,
 ): Promise<FabricObject | null> {
+  if (!annotation.rawAnnotationData) return null;
   const obj = await deserializeFabricObject(annotation.rawAnnotationData);
   if (!obj) return null;
 
@@ -74,6 +91,84 @@ export async function createFabricObjectFromRawData(
   return obj;
 }
 
+/**
+ * Restyle a live Fabric object in place. Open polylines keep their
+ * transparent fill, as when drawn.
+ */
+export function applyAnnotationStyle(obj: FabricObject, style: AnnotationStyle): void {
+  const { id: _id, ...options } = getFabricOptions(style, '');
+  const isOpenPath = obj instanceof Polyline && !(obj instanceof Polygon);
+  obj.set(isOpenPath ? { ...options, fill: 'transparent' } : options);
+}
+
+/**
+ * Create the Fabric object that renders an annotation. Compatible
+ * `rawAnnotationData` is restored; otherwise — no raw data, data from an
+ * incompatible Fabric version, or data that fails to load — the object is
+ * built from `geometry`.
+ *
+ * `style` (typically the resolved style, see `resolveAnnotationStyle`)
+ * defaults to the annotation's own `style`. When either is set it is applied
+ * to restored objects too, overriding the style baked into the raw data.
+ */
+export async function createFabricObjectFromAnnotation(
+  annotation: Annotation<FabricFields>,
+  style: AnnotationStyle | undefined = annotation.style,
+): Promise<FabricObject> {
+  const raw = annotation.rawAnnotationData;
+  if (raw && isCompatibleFabricVersion(raw.fabricVersion)) {
+    try {
+      const obj = await createFabricObjectFromRawData(annotation);
+      if (obj) {
+        if (style) applyAnnotationStyle(obj, style);
+        return obj;
+      }
+    } catch {
+      // Unloadable data: fall through and render from geometry.
+    }
+  }
+  return buildFabricObjectFromGeometry(
+    annotation.geometry,
+    getFabricOptions(style ?? DEFAULT_ANNOTATION_STYLE, annotation.id),
+  );
+}
+
+/**
+ * The Fabric objects a selection event or transform targets: the members of
+ * an `ActiveSelection` (multi-select), or just `target` otherwise. Detected
+ * via duck-typing on `getObjects()` to avoid coupling to Fabric's `type`
+ * string casing.
+ */
+export function getSelectionMembers(target: FabricObject): readonly FabricObject[] {
+  const maybeGroup = target as FabricObject & { getObjects?: () => FabricObject[] };
+  if (target.id === undefined && typeof maybeGroup.getObjects === 'function') {
+    return maybeGroup.getObjects();
+  }
+  return [target];
+}
+
+/**
+ * Runs `fn` with `obj` temporarily lifted out of its parent group, with the
+ * group's transform baked into its own. Members of an `ActiveSelection`
+ * report `left`/`top`/`angle` relative to the selection; reading geometry or
+ * serializing them inside `fn` yields image coordinates instead. The
+ * object's transform and group are restored afterwards.
+ */
+export function withSceneTransform<T>(obj: FabricObject, fn: (obj: FabricObject) => T): T {
+  const group = obj.group;
+  if (!group) return fn(obj);
+  const saved = util.saveObjectTransform(obj);
+  const matrix = obj.calcTransformMatrix();
+  delete obj.group;
+  util.applyTransformToObject(obj, matrix);
+  try {
+    return fn(obj);
+  } finally {
+    obj.set(saved);
+    obj.group = group;
+  }
+}
+
 export function getGeometryFromFabricObject(
   obj: FabricObject,
   type: GeometryType,
@@ -103,6 +198,17 @@ export function getGeometryFromFabricObject(
     };
   }
 
+  if (type === 'ellipse' && obj instanceof Ellipse) {
+    const center = obj.getCenterPoint();
+    return {
+      type: 'ellipse',
+      center: { x: center.x, y: center.y },
+      radiusX: obj.rx * Math.abs(obj.scaleX),
+      radiusY: obj.ry * Math.abs(obj.scaleY),
+      rotation: obj.angle,
+    };
+  }
+
   if (type === 'line' && obj instanceof Line) {
     const matrix = obj.calcTransformMatrix();
     const cx = (obj.x1 + obj.x2) / 2;
@@ -143,6 +249,24 @@ export function getGeometryFromFabricObject(
     }
   }
 
+  if (type === 'multiPolygon' && obj instanceof Path) {
+    // Ring nesting is re-derived from the edited shape, so a hole dragged out
+    // of its boundary becomes a polygon of its own (as even-odd renders it).
+    const matrix = obj.calcTransformMatrix();
+    const rings = pathRingCommandIndices(obj.path).map((indices) =>
+      indices.map((i) => {
+        const p = pathCommandVertex(obj.path[i]!);
+        const tp = util.transformPoint(
+          { x: p.x - obj.pathOffset.x, y: p.y - obj.pathOffset.y },
+          matrix,
+        );
+        return { x: tp.x, y: tp.y };
+      }),
+    );
+    const geometry = multiPolygonFromRings(rings);
+    return geometry.polygons.length > 0 ? geometry : null;
+  }
+
   return null;
 }
 
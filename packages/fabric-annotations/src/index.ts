@@ -7,6 +7,7 @@ export { BaseTool } from './tools/base-tool.js';
 export { ShapeTool } from './tools/shape-tool.js';
 export { RectangleTool } from './tools/rectangle-tool.js';
 export { CircleTool } from './tools/circle-tool.js';
+export { EllipseTool } from './tools/ellipse-tool.js';
 export { LineTool } from './tools/line-tool.js';
 export { PointTool } from './tools/point-tool.js';
 export { PolylineTool } from './tools/polyline-tool.js';
@@ -18,3 +19,5 @@ export {
   DEFAULT_VERTEX_EDIT_MOVE_TOLERANCE_PX,
 } from './poly-vertex-editor.js';
 export type { PolyVertexEditorOptions, VertexEditConfig } from './poly-vertex-editor.js';
+export { snapPoint } from './snapping.js';
+export type { SnapEnvironment } from './snapping.js';
@@ -0,0 +1,48 @@
+import type { Path } from 'fabric';
+import type { MultiPolygonGeometry } from '@osdlabel/annotation';
+
+/** A single simplified path command (`['M', x, y]`, `['L', x, y]`, `['Z']`, …). */
+type PathCommand = Path['path'][number];
+
+/**
+ * The path commands that draw a multi-polygon: one `M … L … Z` subpath per
+ * ring, each polygon's outer ring followed by its holes.
+ */
+export function multiPolygonToPathCommands(geometry: MultiPolygonGeometry): PathCommand[] {
+  const commands: PathCommand[] = [];
+  for (const polygon of geometry.polygons) {
+    for (const ring of [polygon.outer, ...polygon.holes]) {
+      ring.forEach((p, i) => commands.push(i === 0 ? ['M', p.x, p.y] : ['L', p.x, p.y]));
+      commands.push(['Z']);
+    }
+  }
+  return commands;
+}
+
+/**
+ * Groups a path's vertex-bearing commands into rings: one array of indices
+ * into `path` per subpath. A command's vertex is its end point (its last two
+ * values), so curves contribute their end point only.
+ */
+export function pathRingCommandIndices(path: readonly PathCommand[]): number[][] {
+  const rings: number[][] = [];
+  let current: number[] | null = null;
+  path.forEach((command, i) => {
+    if (command[0] === 'Z') {
+      current = null;
+      return;
+    }
+    if (command[0] === 'M' || !current) {
+      current = [];
+      rings.push(current);
+    }
+    current.push(i);
+  });
+  return rings;
+}
+
+/** The end point of a path command, in the path's own coordinates. */
+export function pathCommandVertex(command: PathCommand): { x: number; y: number } {
+  const values = command.slice(1) as number[];
+  return { x: values[values.length - 2] ?? 0, y: values[values.length - 1] ?? 0 };
+}
@@ -1,4 +1,4 @@
-import { Control, Point, Polygon, Polyline, controlsUtils, util } from 'fabric';
+import { Control, Path, Point, Polygon, Polyline, controlsUtils, util } from 'fabric';
 import type {
   Canvas,
   FabricObject,
@@ -8,11 +8,18 @@ import type {
   Transform,
 } from 'fabric';
 import type { ToolOverlay } from './types.js';
+import { pathCommandVertex, pathRingCommandIndices } from './path-rings.js';
 
 /** Minimum vertices required to keep a shape valid. */
 const MIN_POLYGON_POINTS = 3;
 const MIN_POLYLINE_POINTS = 2;
 
+/** Shapes the editor can edit: polygons / polylines, and multi-polygon paths. */
+type EditableShape = Polyline | Path;
+
+/** Numbers vertex-edit sessions across editors, for `FabricObject._editSession`. */
+let editSessionCount = 0;
+
 /** Default long-press duration (ms) before vertex-edit mode engages. */
 export const DEFAULT_VERTEX_EDIT_LONG_PRESS_MS = 500;
 /** Default pointer travel (screen px) that cancels the long-press. */
@@ -36,10 +43,23 @@ export interface PolyVertexEditorOptions {
    * existing shape mid-draw never hijacks the gesture.
    */
   readonly isDrawing?: () => boolean;
+  /**
+   * Snaps a dragged vertex to where it should land (scene px). The host
+   * tools pass their own snapping; `id` is the edited annotation's, so it
+   * can leave its own outline out.
+   */
+  readonly snapPoint?: (
+    event: TPointerEvent,
+    point: { readonly x: number; readonly y: number },
+    id: string | undefined,
+  ) => { readonly x: number; readonly y: number };
 }
 
+/** Maps a vertex drag's pointer position (scene px) to where the vertex goes. */
+type VertexSnap = (eventData: TPointerEvent, x: number, y: number) => Point;
+
 /**
- * Interactive vertex editing for polygon / polyline annotations, built on
+ * Interactive vertex editing for polygon / polyline / multi-polygon annotations, built on
  * Fabric v7's native poly controls (`controlsUtils.createPolyControls`, which
  * already moves vertices and fires `object:modified`). On top of that this adds:
  *
@@ -47,17 +67,29 @@ export interface PolyVertexEditorOptions {
  * - **edge-insertion** handles at edge midpoints that splice a new vertex and
  *   continue the same drag, and
  * - **vertex deletion** (Delete/Backspace) honoring per-shape minimums.
+ * - **snapping** of dragged vertices through the host tool's `snapPoint`.
+ *
+ * Multi-polygons render as a Fabric `Path` with one subpath per ring, which
+ * has no native poly controls. Those are edited one ring at a time: the ring
+ * nearest the long-press gets equivalent vertex / insert handles, and pressing
+ * the shape's body near another ring switches to it.
  *
  * Vertex moves commit through the host's existing `object:modified` →
- * `getGeometryFromFabricObject` path. The editor is Fabric-only (SolidJS / OSD
- * agnostic) and is owned by the Select / Polyline / Free-draw tools.
+ * `getGeometryFromFabricObject` path; the edited object's `_editSession`
+ * lets the host undo a whole edit session as one step. The editor is
+ * Fabric-only (SolidJS / OSD agnostic) and is owned by the Select /
+ * Polyline / Free-draw tools.
  */
 export class PolyVertexEditor {
   private canvas: Canvas | null = null;
 
   /** The object currently in edit mode, and its annotation id (for re-attach). */
-  private editingObject: Polyline | null = null;
+  private editingObject: EditableShape | null = null;
   private editingId: string | null = null;
+  /** For a multi-polygon path, the index of the ring being edited. */
+  private editingRing = 0;
+  /** Stamped on the edited object as `_editSession`; see `fabric-module.ts`. */
+  private editSession: string | null = null;
   /**
    * The vertex control last pressed (e.g. `'p2'`), used as the Delete/Backspace
    * target. Tracked here because Fabric clears `obj.__corner` on mouse up, so by
@@ -67,12 +99,17 @@ export class PolyVertexEditor {
 
   /** Long-press bookkeeping. */
   private pressTimer: ReturnType<typeof setTimeout> | null = null;
-  private pressTarget: Polyline | null = null;
+  private pressTarget: EditableShape | null = null;
   private pressViewportPoint: { x: number; y: number } | null = null;
+  private pressScenePoint: { x: number; y: number } | null = null;
 
   private readonly longPressMs: number;
   private readonly moveTolerancePx: number;
   private readonly isDrawing: (() => boolean) | undefined;
+  private readonly snapPoint: PolyVertexEditorOptions['snapPoint'];
+
+  private readonly snapVertex: VertexSnap = (eventData, x, y) =>
+    new Point(this.snapPoint?.(eventData, { x, y }, this.editingId ?? undefined) ?? { x, y });
 
   private readonly onMouseDown = (e: TPointerEventInfo<TPointerEvent>) => this.handleMouseDown(e);
   private readonly onMouseMove = (e: TPointerEventInfo<TPointerEvent>) => this.handleMouseMove(e);
@@ -84,6 +121,7 @@ export class PolyVertexEditor {
     this.longPressMs = options.longPressMs;
     this.moveTolerancePx = options.moveTolerancePx;
     this.isDrawing = options.isDrawing;
+    this.snapPoint = options.snapPoint;
   }
 
   activate(overlay: ToolOverlay): void {
@@ -143,6 +181,9 @@ export class PolyVertexEditor {
         // `__corner` for this mouse:down (cleared again on the matching mouse:up).
         const corner = this.editingObject.__corner;
         this.activeVertexKey = corner && corner.startsWith('p') ? corner : null;
+        if (!corner && this.editingObject instanceof Path && e.scenePoint) {
+          this.selectRing(this.editingObject, nearestRing(this.editingObject, e.scenePoint));
+        }
         return; // let Fabric's control pipeline handle the interaction
       }
       // Clicked away from the edited shape — leave edit mode.
@@ -155,6 +196,7 @@ export class PolyVertexEditor {
 
     this.pressTarget = poly;
     this.pressViewportPoint = { x: e.viewportPoint.x, y: e.viewportPoint.y };
+    this.pressScenePoint = e.scenePoint ? { x: e.scenePoint.x, y: e.scenePoint.y } : null;
     this.pressTimer = setTimeout(() => {
       if (this.pressTarget) this.enterEditMode(this.pressTarget);
       this.clearPress();
@@ -177,24 +219,41 @@ export class PolyVertexEditor {
     }
     this.pressTarget = null;
     this.pressViewportPoint = null;
+    this.pressScenePoint = null;
   }
 
   // ── Edit-mode lifecycle ────────────────────────────────────────────────────
 
-  private enterEditMode(poly: Polyline): void {
+  private enterEditMode(poly: EditableShape): void {
     if (!this.canvas || poly === this.editingObject) return;
     this.editingObject = poly;
     this.editingId = poly.id ?? null;
+    this.editSession = `vertex-edit:${++editSessionCount}`;
+    this.editingRing =
+      poly instanceof Path && this.pressScenePoint ? nearestRing(poly, this.pressScenePoint) : 0;
     this.activeVertexKey = null;
     this.applyEditControls(poly);
   }
 
+  /** Moves a multi-polygon's edit handles to another ring. */
+  private selectRing(path: Path, ring: number): void {
+    if (ring === this.editingRing) return;
+    this.editingRing = ring;
+    this.activeVertexKey = null;
+    path.controls = buildPathRingEditControls(path, ring, this.snapVertex);
+    path.setCoords();
+    path.set('dirty', true);
+    this.canvas?.requestRenderAll();
+  }
+
   private exitEditMode(): void {
     const poly = this.editingObject;
     this.editingObject = null;
     this.editingId = null;
+    this.editSession = null;
     this.activeVertexKey = null;
     if (!poly) return;
+    delete poly._editSession;
     poly.controls = controlsUtils.createObjectDefaultControls();
     // Refresh oCoords so hit-testing matches the restored default control keys.
     poly.setCoords();
@@ -210,7 +269,8 @@ export class PolyVertexEditor {
   private handleObjectAdded(target: FabricObject): void {
     if (!this.editingId || !this.canvas) return;
     if (target === this.editingObject) return;
-    if (target.id !== this.editingId || !(target instanceof Polyline)) return;
+    if (target.id !== this.editingId) return;
+    if (!(target instanceof Polyline) && !(target instanceof Path)) return;
     this.editingObject = target;
     this.applyEditControls(target);
   }
@@ -220,15 +280,24 @@ export class PolyVertexEditor {
    * source store, installs the vertex + insert controls, and refreshes the
    * control hit-test coords.
    */
-  private applyEditControls(poly: Polyline): void {
+  private applyEditControls(poly: EditableShape): void {
     if (!this.canvas) return;
+    if (this.editSession) poly._editSession = this.editSession;
     // The Fabric object's `points` array is deserialized straight from the
     // framework store (Solid/Immer), so it is immutable. Fabric's vertex / insert
     // / delete handlers mutate `points` in place, which would throw "Cannot mutate
     // a Store directly". Copy to a plain, detached array first.
-    poly.points = poly.points.map((p) => new Point(p.x, p.y));
-    poly.setDimensions();
-    poly.controls = buildEditControls(poly);
+    if (poly instanceof Path) {
+      poly.path = poly.path.map((command) => [...command]) as Path['path'];
+      poly.setDimensions();
+      const ringCount = pathRingCommandIndices(poly.path).length;
+      this.editingRing = Math.min(this.editingRing, Math.max(ringCount - 1, 0));
+      poly.controls = buildPathRingEditControls(poly, this.editingRing, this.snapVertex);
+    } else {
+      poly.points = poly.points.map((p) => new Point(p.x, p.y));
+      poly.setDimensions();
+      poly.controls = buildEditControls(poly, this.snapVertex);
+    }
     // oCoords is computed from the control set; without this, control hit-testing
     // (findControl) still iterates the previous default keys and crashes.
     poly.setCoords();
@@ -245,14 +314,20 @@ export class PolyVertexEditor {
     const corner = this.activeVertexKey ?? poly.__corner;
     if (!corner || !corner.startsWith('p')) return false;
     const index = Number.parseInt(corner.slice(1), 10);
-    if (!Number.isInteger(index) || index < 0 || index >= poly.points.length) return false;
-
-    const min = poly instanceof Polygon ? MIN_POLYGON_POINTS : MIN_POLYLINE_POINTS;
-    if (poly.points.length <= min) return false;
-
-    poly.points.splice(index, 1);
-    poly.setDimensions();
-    poly.controls = buildEditControls(poly);
+    if (poly instanceof Path) {
+      if (!deletePathRingVertex(poly, this.editingRing, index)) return false;
+      poly.setDimensions();
+      poly.controls = buildPathRingEditControls(poly, this.editingRing, this.snapVertex);
+    } else {
+      if (!Number.isInteger(index) || index < 0 || index >= poly.points.length) return false;
+
+      const min = poly instanceof Polygon ? MIN_POLYGON_POINTS : MIN_POLYLINE_POINTS;
+      if (poly.points.length <= min) return false;
+
+      poly.points.splice(index, 1);
+      poly.setDimensions();
+      poly.controls = buildEditControls(poly, this.snapVertex);
+    }
     poly.setCoords();
     this.activeVertexKey = null;
     delete poly.__corner;
@@ -263,9 +338,9 @@ export class PolyVertexEditor {
     return true;
   }
 
-  private editablePoly(target: FabricObject | undefined): Polyline | null {
+  private editablePoly(target: FabricObject | undefined): EditableShape | null {
     if (!target || !target.id || target._readOnly) return null;
-    return target instanceof Polyline ? target : null;
+    return target instanceof Polyline || target instanceof Path ? target : null;
   }
 }
 
@@ -276,8 +351,9 @@ export class PolyVertexEditor {
  * controls (`p0`, `p1`, …) plus edge-midpoint insertion controls (`ins0`, …).
  * Index-keyed, so it must be rebuilt after any splice.
  */
-function buildEditControls(poly: Polyline): Record<string, Control> {
+function buildEditControls(poly: Polyline, snap: VertexSnap): Record<string, Control> {
   const vertexControls = controlsUtils.createPolyControls(poly);
+  for (const control of Object.values(vertexControls)) withSnap(control, snap);
   const isClosed = poly instanceof Polygon;
   const edgeCount = isClosed ? poly.points.length : poly.points.length - 1;
 
@@ -287,7 +363,7 @@ function buildEditControls(poly: Polyline): Record<string, Control> {
       actionName: 'insertPoint',
       cursorStyle: 'cell',
       positionHandler: makeInsertPositionHandler(edge),
-      mouseDownHandler: makeInsertMouseDownHandler(edge),
+      mouseDownHandler: makeInsertMouseDownHandler(edge, snap),
       // Movement after insertion is driven by the redirected vertex handler.
       actionHandler: () => false,
       render: controlsUtils.renderCircleControl,
@@ -297,6 +373,16 @@ function buildEditControls(poly: Polyline): Record<string, Control> {
   return { ...vertexControls, ...insertControls };
 }
 
+/** Routes a vertex control's drags through `snap`, so the vertex lands where it snaps. */
+function withSnap(control: Control, snap: VertexSnap): Control {
+  const actionHandler = control.actionHandler;
+  control.actionHandler = (eventData, transform, x, y) => {
+    const point = snap(eventData, x, y);
+    return actionHandler(eventData, transform, point.x, point.y);
+  };
+  return control;
+}
+
 /** Locates an edge-insert handle at the midpoint of edge (i, i+1), in canvas space. */
 function makeInsertPositionHandler(edge: number) {
   return function positionHandler(
@@ -320,7 +406,7 @@ function makeInsertPositionHandler(edge: number) {
  * rebuild controls, then redirect the in-flight transform to the new vertex's
  * move handler so the same drag rubber-bands the freshly inserted point.
  */
-function makeInsertMouseDownHandler(edge: number) {
+function makeInsertMouseDownHandler(edge: number, snap: VertexSnap) {
   return function mouseDownHandler(
     eventData: TPointerEvent,
     transform: Transform,
@@ -335,7 +421,7 @@ function makeInsertMouseDownHandler(edge: number) {
 
     poly.points.splice(insertIndex, 0, new Point((a.x + b.x) / 2, (a.y + b.y) / 2));
     poly.setDimensions();
-    poly.controls = buildEditControls(poly);
+    poly.controls = buildEditControls(poly, snap);
     poly.setCoords();
 
     const key = `p${insertIndex}`;
@@ -355,3 +441,208 @@ function makeInsertMouseDownHandler(edge: number) {
     return true;
   };
 }
+
+// ── Multi-polygon ring controls ────────────────────────────────────────────
+
+/**
+ * Builds the edit-mode control set for one ring of a multi-polygon path:
+ * vertex move controls (`p0`, `p1`, …) and, since rings are closed, one
+ * insertion control per edge (`ins0`, …). Keys are ring-relative and, like
+ * {@link buildEditControls}, must be rebuilt after any splice.
+ */
+function buildPathRingEditControls(
+  path: Path,
+  ring: number,
+  snap: VertexSnap,
+): Record<string, Control> {
+  const indices = pathRingCommandIndices(path.path)[ring] ?? [];
+  const controls: Record<string, Control> = {};
+  indices.forEach((commandIndex, k) => {
+    const anchorIndex = indices[(k > 0 ? k : indices.length) - 1]!;
+    controls[`p${k}`] = withSnap(
+      new Control({
+        actionName: 'modifyPoly',
+        positionHandler: makePathPositionHandler(commandIndex),
+        actionHandler: controlsUtils.wrapWithFireEvent(
+          'modifyPoly',
+          makePathVertexActionHandler(commandIndex, anchorIndex),
+        ),
+      }),
+      snap,
+    );
+  });
+  indices.forEach((_, edge) => {
+    controls[`ins${edge}`] = new Control({
+      actionName: 'insertPoint',
+      cursorStyle: 'cell',
+      positionHandler: makePathInsertPositionHandler(ring, edge),
+      mouseDownHandler: makePathInsertMouseDownHandler(ring, edge, snap),
+      actionHandler: () => false,
+      render: controlsUtils.renderCircleControl,
+    });
+  });
+  return controls;
+}
+
+/** A path-local point (as stored in `path.path`) mapped to canvas space. */
+function pathPointToCanvas(path: Path, p: { x: number; y: number }): Point {
+  return new Point(p)
+    .subtract(path.pathOffset)
+    .transform(
+      util.multiplyTransformMatrices(path.getViewportTransform(), path.calcTransformMatrix()),
+    );
+}
+
+function makePathPositionHandler(commandIndex: number) {
+  return function positionHandler(
+    _dim: Point,
+    _finalMatrix: TMat2D,
+    fabricObject: FabricObject,
+  ): Point {
+    const path = fabricObject as Path;
+    return pathPointToCanvas(path, pathCommandVertex(path.path[commandIndex]!));
+  };
+}
+
+/**
+ * Moves a path vertex to the pointer, keeping the shape in place while its
+ * bounding box (and so `pathOffset`) changes — the path counterpart of
+ * Fabric's `factoryPolyActionHandler(polyActionHandler)`.
+ */
+function makePathVertexActionHandler(commandIndex: number, anchorIndex: number) {
+  return function actionHandler(
+    _eventData: TPointerEvent,
+    transform: Transform,
+    x: number,
+    y: number,
+  ): boolean {
+    const path = transform.target as Path;
+    const anchor = new Point(pathCommandVertex(path.path[anchorIndex]!));
+    const anchorBefore = anchor.subtract(path.pathOffset).transform(path.calcOwnMatrix());
+
+    const local = util
+      .sendPointToPlane(new Point(x, y), undefined, path.calcOwnMatrix())
+      .add(path.pathOffset);
+    setPathCommandVertex(path, commandIndex, local);
+    path.setDimensions();
+
+    const anchorAfter = anchor.subtract(path.pathOffset).transform(path.calcOwnMatrix());
+    const diff = anchorAfter.subtract(anchorBefore);
+    path.left -= diff.x;
+    path.top -= diff.y;
+    path.set('dirty', true);
+    return true;
+  };
+}
+
+/** The midpoint of a ring edge (vertex `edge` to the next, wrapping), in path coordinates. */
+function pathEdgeMidpoint(path: Path, ring: number, edge: number): Point {
+  const indices = pathRingCommandIndices(path.path)[ring] ?? [];
+  const a = pathCommandVertex(path.path[indices[edge]!]!);
+  const b = pathCommandVertex(path.path[indices[(edge + 1) % indices.length]!]!);
+  return new Point((a.x + b.x) / 2, (a.y + b.y) / 2);
+}
+
+function makePathInsertPositionHandler(ring: number, edge: number) {
+  return function positionHandler(
+    _dim: Point,
+    _finalMatrix: TMat2D,
+    fabricObject: FabricObject,
+  ): Point {
+    const path = fabricObject as Path;
+    return pathPointToCanvas(path, pathEdgeMidpoint(path, ring, edge));
+  };
+}
+
+/** The path counterpart of {@link makeInsertMouseDownHandler}, for one ring. */
+function makePathInsertMouseDownHandler(ring: number, edge: number, snap: VertexSnap) {
+  return function mouseDownHandler(
+    eventData: TPointerEvent,
+    transform: Transform,
+    x: number,
+    y: number,
+  ): boolean {
+    const path = transform.target as Path;
+    const indices = pathRingCommandIndices(path.path)[ring] ?? [];
+    const mid = pathEdgeMidpoint(path, ring, edge);
+    // The new vertex follows vertex `edge`; after the ring's last vertex that
+    // is just before its closing `Z`.
+    path.path.splice(indices[edge]! + 1, 0, ['L', mid.x, mid.y]);
+    path.setDimensions();
+    path.controls = buildPathRingEditControls(path, ring, snap);
+    path.setCoords();
+
+    const key = `p${edge + 1}`;
+    const vertexControl = path.controls[key];
+    if (!vertexControl) return true;
+
+    transform.corner = key;
+    transform.action = vertexControl.actionName;
+    transform.actionHandler = vertexControl.actionHandler;
+    path.__corner = key;
+
+    vertexControl.actionHandler(eventData, transform, x, y);
+    path.set('dirty', true);
+    path.canvas?.requestRenderAll();
+    return true;
+  };
+}
+
+/**
+ * Removes vertex `index` of a ring, keeping at least three vertices. Deleting
+ * the ring's first vertex promotes the next one to the subpath's `M`.
+ */
+function deletePathRingVertex(path: Path, ring: number, index: number): boolean {
+  const indices = pathRingCommandIndices(path.path)[ring] ?? [];
+  if (!Number.isInteger(index) || index < 0 || index >= indices.length) return false;
+  if (indices.length <= MIN_POLYGON_POINTS) return false;
+  if (index === 0) {
+    const next = pathCommandVertex(path.path[indices[1]!]!);
+    path.path[indices[1]!] = ['M', next.x, next.y];
+  }
+  path.path.splice(indices[index]!, 1);
+  return true;
+}
+
+/** Overwrites a command's end point (its last two values). */
+function setPathCommandVertex(path: Path, commandIndex: number, p: Point): void {
+  const command = path.path[commandIndex] as (string | number)[] | undefined;
+  if (!command || command.length < 3) return;
+  command[command.length - 2] = p.x;
+  command[command.length - 1] = p.y;
+}
+
+/** The index of the ring whose edges pass closest to a scene point. */
+function nearestRing(path: Path, scenePoint: { x: number; y: number }): number {
+  const matrix = path.calcTransformMatrix();
+  let best = 0;
+  let bestDistance = Infinity;
+  pathRingCommandIndices(path.path).forEach((indices, ring) => {
+    const points = indices.map((i) =>
+      new Point(pathCommandVertex(path.path[i]!)).subtract(path.pathOffset).transform(matrix),
+    );
+    points.forEach((a, k) => {
+      const distance = distanceToSegment(scenePoint, a, points[(k + 1) % points.length]!);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = ring;
+      }
+    });
+  });
+  return best;
+}
+
+function distanceToSegment(
+  p: { x: number; y: number },
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
@@ -0,0 +1,145 @@
+import type { BaseAnnotation, Geometry, Point } from '@osdlabel/annotation';
+import { circleToPolygon, ellipseToPolygon, rectangleToPolygon } from '@osdlabel/geometry';
+import type { BoundingBox } from '@osdlabel/geometry';
+import type { SnapSettings } from '@osdlabel/viewer-api';
+
+/** What {@link snapPoint} snaps against. */
+export interface SnapEnvironment {
+  readonly settings: SnapSettings;
+  /** Maps image px to screen px, for the screen-space tolerance. */
+  readonly imageToScreen: (point: Point) => Point;
+  /** The annotations whose outlines may attract points in `region` (image px). */
+  readonly getTargets: (region: BoundingBox) => readonly BaseAnnotation[];
+  /** An annotation left out of the targets, e.g. the one being edited. */
+  readonly excludeId?: string | undefined;
+}
+
+/** A ring or open chain of an annotation's outline. */
+interface SnapOutline {
+  readonly points: readonly Point[];
+  readonly closed: boolean;
+  /**
+   * Whether `points` are real vertices. Circles and ellipses are traced by
+   * a polygon whose corners are not, so only their edges attract.
+   */
+  readonly vertices: boolean;
+}
+
+/**
+ * `point` (image px) snapped per `env.settings`: to the nearest vertex of
+ * another annotation within the tolerance, else to the nearest point on one
+ * of their edges, else onto the grid and whole pixels. Returned unchanged
+ * when snapping is off.
+ */
+export function snapPoint(point: Point, env: SnapEnvironment): Point {
+  const { settings } = env;
+  if (!settings.enabled) return point;
+
+  if (settings.vertices || settings.edges) {
+    const snapped = snapToOutlines(point, env);
+    if (snapped) return snapped;
+  }
+
+  let { x, y } = point;
+  if (settings.gridSize && settings.gridSize > 0) {
+    x = Math.round(x / settings.gridSize) * settings.gridSize;
+    y = Math.round(y / settings.gridSize) * settings.gridSize;
+  }
+  if (settings.pixels) {
+    x = Math.round(x);
+    y = Math.round(y);
+  }
+  return x === point.x && y === point.y ? point : { x, y };
+}
+
+/**
+ * The nearest vertex within the tolerance, or failing one the nearest
+ * point on an edge, or null. Distances are measured on screen, so the
+ * pull is the same at every zoom.
+ */
+function snapToOutlines(point: Point, env: SnapEnvironment): Point | null {
+  const { settings, imageToScreen } = env;
+  const screen = imageToScreen(point);
+  const unit = imageToScreen({ x: point.x + 1, y: point.y });
+  const screenPerImagePx = Math.hypot(unit.x - screen.x, unit.y - screen.y);
+  if (!(screenPerImagePx > 0)) return null;
+
+  const radius = settings.tolerancePx / screenPerImagePx;
+  const region: BoundingBox = {
+    min: { x: point.x - radius, y: point.y - radius },
+    max: { x: point.x + radius, y: point.y + radius },
+  };
+  const screenDistance = (p: Point): number => {
+    const s = imageToScreen(p);
+    return Math.hypot(s.x - screen.x, s.y - screen.y);
+  };
+
+  let vertex: Point | null = null;
+  let vertexDistance = settings.tolerancePx;
+  let edge: Point | null = null;
+  let edgeDistance = settings.tolerancePx;
+
+  for (const target of env.getTargets(region)) {
+    if (target.id === env.excludeId) continue;
+    for (const outline of geometryOutlines(target.geometry)) {
+      const { points, closed } = outline;
+      for (let i = 0; i < points.length; i++) {
+        const a = points[i]!;
+        if (settings.vertices && outline.vertices) {
+          const distance = screenDistance(a);
+          if (distance <= vertexDistance) {
+            vertex = a;
+            vertexDistance = distance;
+          }
+        }
+        if (settings.edges && points.length > 1 && (closed || i < points.length - 1)) {
+          const nearest = nearestPointOnSegment(point, a, points[(i + 1) % points.length]!);
+          const distance = screenDistance(nearest);
+          if (distance <= edgeDistance) {
+            edge = nearest;
+            edgeDistance = distance;
+          }
+        }
+      }
+    }
+  }
+  return vertex ?? edge;
+}
+
+function geometryOutlines(geometry: Geometry): SnapOutline[] {
+  switch (geometry.type) {
+    case 'rectangle':
+      return [{ points: rectangleToPolygon(geometry).points, closed: true, vertices: true }];
+    case 'circle':
+      return [{ points: circleToPolygon(geometry).points, closed: true, vertices: false }];
+    case 'ellipse':
+      return [{ points: ellipseToPolygon(geometry).points, closed: true, vertices: false }];
+    case 'line':
+      return [{ points: [geometry.start, geometry.end], closed: false, vertices: true }];
+    case 'point':
+      return [{ points: [geometry.position], closed: false, vertices: true }];
+    case 'polyline':
+      return [{ points: geometry.points, closed: false, vertices: true }];
+    case 'polygon':
+      return [{ points: geometry.points, closed: true, vertices: true }];
+    case 'multiPolygon':
+      return geometry.polygons.flatMap((polygon) =>
+        [polygon.outer, ...polygon.holes].map((ring) => ({
+          points: ring,
+          closed: true,
+          vertices: true,
+        })),
+      );
+  }
+}
+
+function nearestPointOnSegment(p: Point, a: Point, b: Point): Point {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
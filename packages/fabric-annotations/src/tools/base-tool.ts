@@ -2,9 +2,11 @@ import { FabricObject } from 'fabric';
 import type { ToolOverlay } from '../types.js';
 import type { ToolType, Point, AnnotationId, BaseAnnotation } from '@osdlabel/annotation';
 import type { ImageId } from '@osdlabel/viewer-api';
-import type { KeyboardShortcutMap } from '@osdlabel/viewer-api';
+import type { KeyboardShortcutMap, SnapSettings } from '@osdlabel/viewer-api';
 import type { AnnotationContextId } from '@osdlabel/annotation-context';
 import type { ToolConstraint } from '@osdlabel/annotation-context';
+import type { BoundingBox } from '@osdlabel/geometry';
+import { snapPoint } from '../snapping.js';
 /** Parameters for adding an annotation via a tool */
 export interface AddAnnotationParams {
   readonly fabricObject: FabricObject;
@@ -26,8 +28,15 @@ export interface ToolCallbacks {
     fabricObject: FabricObject,
   ) => void;
   readonly deleteAnnotation: (id: AnnotationId, imageId: ImageId) => void;
-  readonly setSelectedAnnotation: (id: AnnotationId | null) => void;
+  /** Deletes several annotations as one change (one undo step). */
+  readonly deleteAnnotations: (ids: readonly AnnotationId[], imageId: ImageId) => void;
+  /** Replaces the selection; an empty array clears it. */
+  readonly setSelectedAnnotations: (ids: readonly AnnotationId[]) => void;
   readonly getAnnotation: (id: AnnotationId, imageId: ImageId) => BaseAnnotation | undefined;
+  /** How placed points snap. Hosts that leave it out never snap. */
+  readonly getSnapSettings?: () => SnapSettings;
+  /** The shown annotations of `imageId` whose bounds meet `region` (image px), to snap to. */
+  readonly getSnapTargets?: (imageId: ImageId, region: BoundingBox) => readonly BaseAnnotation[];
 }
 
 export interface AnnotationTool {
@@ -80,7 +89,13 @@ export abstract class BaseTool implements AnnotationTool {
     this.shortcuts = shortcuts;
   }
 
+  /**
+   * Deletes the selection on Delete / Backspace. Keys held with Ctrl/Cmd are
+   * never consumed, here or in subclasses: they belong to the global shortcut
+   * map (Ctrl+C copies rather than closing a polyline).
+   */
   onKeyDown(event: KeyboardEvent): boolean {
+    if (event.ctrlKey || event.metaKey) return false;
     if (
       this.shortcuts &&
       (event.key === this.shortcuts.delete || event.key === this.shortcuts.deleteAlt)
@@ -99,25 +114,54 @@ export abstract class BaseTool implements AnnotationTool {
     this.shortcuts = null;
   }
 
+  /**
+   * `imagePoint` snapped to other annotations, the grid or whole pixels per
+   * the host's snap settings, or as is while `Alt` is held. `excludeId`
+   * keeps an annotation from snapping to its own outline.
+   */
+  protected snapPoint(
+    event: { readonly altKey?: boolean } | undefined,
+    imagePoint: Point,
+    excludeId?: string,
+  ): Point {
+    const { overlay, imageId, callbacks } = this;
+    const settings = callbacks?.getSnapSettings?.();
+    if (!overlay || !imageId || !callbacks || !settings || event?.altKey) return imagePoint;
+    return snapPoint(imagePoint, {
+      settings,
+      imageToScreen: (point) => overlay.imageToScreen(point),
+      getTargets: (region) => callbacks.getSnapTargets?.(imageId, region) ?? [],
+      excludeId,
+    });
+  }
+
   abstract onPointerDown(event: PointerEvent, imagePoint: Point): void;
   abstract onPointerMove(event: PointerEvent, imagePoint: Point): void;
   abstract onPointerUp(event: PointerEvent, imagePoint: Point): void;
   abstract cancel(): void;
 
   private deleteSelected() {
-    if (!this.callbacks || !this.imageId || !this.overlay) return;
+    const callbacks = this.callbacks;
+    const imageId = this.imageId;
+    if (!callbacks || !imageId || !this.overlay) return;
     const activeObjects = this.overlay.canvas.getActiveObjects().slice();
-    if (!activeObjects || activeObjects.length === 0) return;
+
+    // Locked and hidden annotations are never deleted from the canvas.
+    const ids = activeObjects.flatMap((obj) => {
+      if (!obj.id || obj._readOnly) return [];
+      const annotation = callbacks.getAnnotation(obj.id as AnnotationId, imageId);
+      return annotation?.locked || annotation?.hidden ? [] : [obj.id as AnnotationId];
+    });
+    if (ids.length === 0) return;
 
     // Discard selection first to prevent Fabric from errors when objects are removed
     this.overlay.canvas.discardActiveObject();
     this.overlay.canvas.requestRenderAll();
 
-    for (const obj of activeObjects) {
-      const annotationId = obj.id as AnnotationId | undefined;
-      if (annotationId) {
-        this.callbacks.deleteAnnotation(annotationId, this.imageId);
-      }
+    if (ids.length === 1) {
+      callbacks.deleteAnnotation(ids[0]!, imageId);
+    } else {
+      callbacks.deleteAnnotations(ids, imageId);
     }
   }
 }
@@ -0,0 +1,37 @@
+import { Ellipse } from 'fabric';
+import { ShapeTool } from './shape-tool.js';
+import type { FabricShapeOptions } from '../fabric-utils.js';
+import type { ToolType, Point } from '@osdlabel/annotation';
+
+/**
+ * Draws an axis-aligned ellipse inscribed in the dragged box. Rotate it
+ * afterwards with the select tool's rotation control.
+ */
+export class EllipseTool extends ShapeTool<Ellipse> {
+  readonly type: ToolType = 'ellipse';
+
+  protected createPreview(imagePoint: Point, options: FabricShapeOptions): Ellipse {
+    return new Ellipse({
+      ...options,
+      left: imagePoint.x,
+      top: imagePoint.y,
+      rx: 0,
+      ry: 0,
+      originX: 'center',
+      originY: 'center',
+      selectable: false,
+      evented: false,
+    });
+  }
+
+  protected updatePreview(imagePoint: Point, startPoint: Point): void {
+    if (!this.preview) return;
+
+    this.preview.set({
+      left: (startPoint.x + imagePoint.x) / 2,
+      top: (startPoint.y + imagePoint.y) / 2,
+      rx: Math.abs(imagePoint.x - startPoint.x) / 2,
+      ry: Math.abs(imagePoint.y - startPoint.y) / 2,
+    });
+  }
+}
@@ -41,7 +41,11 @@ export class FreeHandPathTool extends BaseTool {
     super();
     this.minSampleDistancePx =
       options?.minSampleDistancePx ?? DEFAULT_MIN_SAMPLE_DISTANCE_SCREEN_PX;
-    this.editor = new PolyVertexEditor({ ...config, isDrawing: () => this.isDrawing });
+    this.editor = new PolyVertexEditor({
+      ...config,
+      isDrawing: () => this.isDrawing,
+      snapPoint: (event, point, id) => this.snapPoint(event, point, id),
+    });
   }
 
   activate(
@@ -124,6 +128,7 @@ export class FreeHandPathTool extends BaseTool {
   }
 
   onKeyDown(event: KeyboardEvent): boolean {
+    if (event.ctrlKey || event.metaKey) return false;
     if (this.editor.onKeyDown(event)) return true;
     if (this.isDrawing && event.key === this.shortcuts?.cancel) {
       this.cancel();
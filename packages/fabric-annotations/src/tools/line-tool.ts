@@ -5,6 +5,7 @@ import type { ToolType, Point } from '@osdlabel/annotation';
 
 export class LineTool extends ShapeTool<Line> {
   readonly type: ToolType = 'line';
+  protected override readonly snaps = true;
 
   protected createPreview(imagePoint: Point, options: FabricShapeOptions): Line {
     return new Line([imagePoint.x, imagePoint.y, imagePoint.x, imagePoint.y], {
@@ -36,7 +36,11 @@ export class PolylineTool extends BaseTool {
     },
   ) {
     super();
-    this.editor = new PolyVertexEditor({ ...config, isDrawing: () => this.vertices.length > 0 });
+    this.editor = new PolyVertexEditor({
+      ...config,
+      isDrawing: () => this.vertices.length > 0,
+      snapPoint: (event, point, id) => this.snapPoint(event, point, id),
+    });
   }
 
   activate(
@@ -54,7 +58,7 @@ export class PolylineTool extends BaseTool {
     super.deactivate();
   }
 
-  onPointerDown(event: PointerEvent, imagePoint: Point): void {
+  onPointerDown(event: PointerEvent, pointerPoint: Point): void {
     if (!this.overlay) return;
 
     // Handle double click to finish as open polyline
@@ -63,6 +67,7 @@ export class PolylineTool extends BaseTool {
       return;
     }
 
+    const imagePoint = this.snapPoint(event, pointerPoint);
     if (this.vertices.length === 0) {
       // First point — start a new path
       this.vertices.push({ x: imagePoint.x, y: imagePoint.y });
@@ -85,8 +90,11 @@ export class PolylineTool extends BaseTool {
       );
       this.overlay.canvas.add(this.preview);
     } else {
-      // Check if clicking near the first point to close
-      if (this.vertices.length >= 3 && this.isNearFirstPoint(imagePoint)) {
+      // Check if clicking near the first point, or snapping onto it, to close
+      if (
+        this.vertices.length >= 3 &&
+        (this.isNearFirstPoint(pointerPoint) || this.isNearFirstPoint(imagePoint))
+      ) {
         this.finish(true);
         return;
       }
@@ -107,8 +115,9 @@ export class PolylineTool extends BaseTool {
     this.overlay.canvas.requestRenderAll();
   }
 
-  onPointerMove(_event: PointerEvent, imagePoint: Point): void {
+  onPointerMove(event: PointerEvent, pointerPoint: Point): void {
     if (!this.overlay || !this.preview || this.vertices.length === 0) return;
+    const imagePoint = this.snapPoint(event, pointerPoint);
 
     // Update the last (live cursor) point in the preview
     const previewPoints = [
@@ -124,6 +133,7 @@ export class PolylineTool extends BaseTool {
   }
 
   onKeyDown(event: KeyboardEvent): boolean {
+    if (event.ctrlKey || event.metaKey) return false;
     if (this.editor.onKeyDown(event)) return true;
     const shortcuts = this.shortcuts;
     const isDrawing = this.vertices.length > 0;
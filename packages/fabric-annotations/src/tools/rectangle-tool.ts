@@ -5,6 +5,7 @@ import type { ToolType, Point } from '@osdlabel/annotation';
 
 export class RectangleTool extends ShapeTool<Rect> {
   readonly type: ToolType = 'rectangle';
+  protected override readonly snaps = true;
 
   protected createPreview(imagePoint: Point, options: FabricShapeOptions): Rect {
     return new Rect({
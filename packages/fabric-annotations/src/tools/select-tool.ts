@@ -20,6 +20,12 @@ interface SelectionClearedEvent {
   readonly e?: Event;
 }
 
+/**
+ * Selects and transforms existing annotations. Click selects one; Shift-click
+ * adds or removes an annotation and dragging on empty canvas rubber-band
+ * selects, both via Fabric's `ActiveSelection`, which moves, scales and
+ * rotates its members together.
+ */
 export class SelectTool extends BaseTool {
   readonly type = 'select' as const;
 
@@ -36,7 +42,10 @@ export class SelectTool extends BaseTool {
     },
   ) {
     super();
-    this.editor = new PolyVertexEditor(config);
+    this.editor = new PolyVertexEditor({
+      ...config,
+      snapPoint: (event, point, id) => this.snapPoint(event, point, id),
+    });
   }
 
   activate(
@@ -48,6 +57,7 @@ export class SelectTool extends BaseTool {
     super.activate(overlay, imageId, callbacks, shortcuts);
     if (!this.overlay) return;
 
+    this.overlay.canvas.selectionKey = 'shiftKey';
     this.overlay.canvas.on('selection:created', this.handleSelectionCreated);
     this.overlay.canvas.on('selection:updated', this.handleSelectionCreated);
     this.overlay.canvas.on('selection:cleared', this.handleSelectionCleared);
@@ -68,6 +78,7 @@ export class SelectTool extends BaseTool {
   }
 
   onKeyDown(event: KeyboardEvent): boolean {
+    if (event.ctrlKey || event.metaKey) return false;
     if (this.editor.onKeyDown(event)) return true;
     return super.onKeyDown(event);
   }
@@ -81,22 +92,18 @@ export class SelectTool extends BaseTool {
     this.overlay?.canvas.requestRenderAll();
   }
 
-  private onSelectionCreated(e: SelectionEvent) {
-    if (!this.callbacks) return;
-    const selected = e.selected || [];
-    if (selected.length === 1) {
-      const obj = selected[0]!;
-      const annotationId = obj.id as AnnotationId | undefined;
-      if (annotationId) {
-        this.callbacks.setSelectedAnnotation(annotationId);
-      }
-    } else {
-      this.callbacks.setSelectedAnnotation(null);
-    }
+  // `selection:updated` reports only the objects added to the selection, so
+  // the full set is read from the canvas.
+  private onSelectionCreated(_e: SelectionEvent) {
+    if (!this.callbacks || !this.overlay) return;
+    const ids = this.overlay.canvas
+      .getActiveObjects()
+      .flatMap((obj) => (obj.id ? [obj.id as AnnotationId] : []));
+    this.callbacks.setSelectedAnnotations(ids);
   }
 
   private onSelectionCleared(_e: SelectionClearedEvent) {
     if (!this.callbacks) return;
-    this.callbacks.setSelectedAnnotation(null);
+    this.callbacks.setSelectedAnnotations([]);
   }
 }
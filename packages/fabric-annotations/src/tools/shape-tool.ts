@@ -20,8 +20,13 @@ export abstract class ShapeTool<T extends FabricObject> extends BaseTool {
   protected preview: T | null = null;
   protected startPoint: Point | null = null;
   protected activeContextId: AnnotationContextId | null = null;
+  /**
+   * Whether the pointer snaps (see `snapPoint`). On for shapes whose drag
+   * places boundary points, off for those whose drag sets a radius.
+   */
+  protected readonly snaps: boolean = false;
 
-  onPointerDown(_event: PointerEvent, imagePoint: Point): void {
+  onPointerDown(event: PointerEvent, pointerPoint: Point): void {
     if (!this.overlay || !this.imageId || !this.callbacks) return;
 
     // Fail fast: check constraints before starting
@@ -33,6 +38,7 @@ export abstract class ShapeTool<T extends FabricObject> extends BaseTool {
     if (!this.callbacks.canAddAnnotation(this.type)) return;
 
     this.activeContextId = contextId;
+    const imagePoint = this.snaps ? this.snapPoint(event, pointerPoint) : pointerPoint;
     this.startPoint = imagePoint;
 
     const toolConstraint = this.callbacks.getToolConstraint(this.type);
@@ -52,9 +58,10 @@ export abstract class ShapeTool<T extends FabricObject> extends BaseTool {
 
   protected abstract createPreview(imagePoint: Point, options: FabricShapeOptions): T;
 
-  onPointerMove(_event: PointerEvent, imagePoint: Point): void {
+  onPointerMove(event: PointerEvent, imagePoint: Point): void {
     if (!this.overlay || !this.preview || !this.startPoint) return;
-    this.updatePreview(imagePoint, this.startPoint);
+    const point = this.snaps ? this.snapPoint(event, imagePoint) : imagePoint;
+    this.updatePreview(point, this.startPoint);
     this.overlay.canvas.requestRenderAll();
   }
 
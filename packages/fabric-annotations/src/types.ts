@@ -11,7 +11,12 @@ export interface FabricRawAnnotationData extends RawAnnotationData<'fabric'> {
   fabricVersion: string;
 }
 
-/** Extension fields added by the Fabric rendering layer. */
+/**
+ * Extension fields added by the Fabric rendering layer. Optional: annotations
+ * without `rawAnnotationData`, or whose data was written by an incompatible
+ * Fabric version, are rendered from `geometry` and `style`.
+ */
 export interface FabricFields {
-  readonly rawAnnotationData: FabricRawAnnotationData;
+  /** The serialized Fabric object, restored when compatible. */
+  readonly rawAnnotationData?: FabricRawAnnotationData | undefined;
 }
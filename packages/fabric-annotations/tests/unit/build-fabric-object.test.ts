@@ -70,6 +70,24 @@ describe('buildFabricObjectFromGeometry', () => {
     expect(back.radius).toBeCloseTo(40);
   });
 
+  it('round-trips a rotated ellipse', () => {
+    const geometry: Geometry = {
+      type: 'ellipse',
+      center: { x: 200, y: 150 },
+      radiusX: 60,
+      radiusY: 25,
+      rotation: 40,
+    };
+    const back = roundTrip(geometry);
+    expect(back.type).toBe('ellipse');
+    if (back.type !== 'ellipse') return;
+    expect(back.center.x).toBeCloseTo(200);
+    expect(back.center.y).toBeCloseTo(150);
+    expect(back.radiusX).toBeCloseTo(60);
+    expect(back.radiusY).toBeCloseTo(25);
+    expect(back.rotation).toBeCloseTo(40);
+  });
+
   it('round-trips line geometry', () => {
     const geometry: Geometry = {
       type: 'line',
@@ -126,6 +144,53 @@ describe('buildFabricObjectFromGeometry', () => {
     });
   });
 
+  it('round-trips a multi-polygon with a hole as an even-odd path', () => {
+    const geometry: Geometry = {
+      type: 'multiPolygon',
+      polygons: [
+        {
+          outer: [
+            { x: 0, y: 0 },
+            { x: 100, y: 0 },
+            { x: 100, y: 100 },
+            { x: 0, y: 100 },
+          ],
+          holes: [
+            [
+              { x: 40, y: 40 },
+              { x: 60, y: 40 },
+              { x: 60, y: 60 },
+            ],
+          ],
+        },
+        {
+          outer: [
+            { x: 200, y: 0 },
+            { x: 250, y: 0 },
+            { x: 250, y: 50 },
+          ],
+          holes: [],
+        },
+      ],
+    };
+    const obj = buildFabricObjectFromGeometry(geometry, options);
+    expect(obj.fillRule).toBe('evenodd');
+
+    const back = roundTrip(geometry);
+    expect(back.type).toBe('multiPolygon');
+    if (back.type !== 'multiPolygon' || geometry.type !== 'multiPolygon') return;
+    expect(back.polygons).toHaveLength(2);
+    expect(back.polygons[0]!.holes).toHaveLength(1);
+    expect(back.polygons[1]!.holes).toHaveLength(0);
+    back.polygons.forEach((polygon, i) => {
+      const original = geometry.polygons[i]!;
+      polygon.outer.forEach((p, j) => {
+        expect(p.x).toBeCloseTo(original.outer[j]!.x);
+        expect(p.y).toBeCloseTo(original.outer[j]!.y);
+      });
+    });
+  });
+
   it('sets the id on the built object so it serializes', () => {
     const obj = buildFabricObjectFromGeometry({ type: 'point', position: { x: 1, y: 2 } }, options);
     expect((obj.toObject() as { id?: string }).id).toBe(id);
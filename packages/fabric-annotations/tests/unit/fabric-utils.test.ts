@@ -1,7 +1,23 @@
 import { describe, it, expect } from 'vitest';
-import { Circle } from 'fabric';
+import {
+  ActiveSelection,
+  Circle,
+  Polygon,
+  Polyline,
+  Rect,
+  version as FABRIC_VERSION,
+} from 'fabric';
 import { createAnnotationId } from '@osdlabel/annotation';
-import { createFabricObjectFromRawData, serializeFabricObject } from '../../src/fabric-utils.js';
+import {
+  applyAnnotationStyle,
+  createFabricObjectFromAnnotation,
+  createFabricObjectFromRawData,
+  getGeometryFromFabricObject,
+  getSelectionMembers,
+  isCompatibleFabricVersion,
+  serializeFabricObject,
+  withSceneTransform,
+} from '../../src/fabric-utils.js';
 import type { FabricFields } from '../../src/types.js';
 import type { Annotation } from '@osdlabel/annotation';
 import type { ImageIdFields } from '@osdlabel/viewer-api';
@@ -93,3 +109,137 @@ describe('createFabricObjectFromRawData', () => {
     expect(obj!.evented).toBe(true);
   });
 });
+
+describe('isCompatibleFabricVersion', () => {
+  it('accepts versions with the running major version only', () => {
+    const major = Number(FABRIC_VERSION.split('.')[0]);
+    expect(isCompatibleFabricVersion(FABRIC_VERSION)).toBe(true);
+    expect(isCompatibleFabricVersion(`${major}.0.0`)).toBe(true);
+    expect(isCompatibleFabricVersion(`${major - 1}.9.9`)).toBe(false);
+  });
+});
+
+describe('createFabricObjectFromAnnotation', () => {
+  it('restores compatible raw data', async () => {
+    const obj = await createFabricObjectFromAnnotation(makeCircleAnnotation());
+    expect(obj).toBeInstanceOf(Circle);
+    expect((obj as Circle).radius).toBe(30);
+  });
+
+  it('applies the given style over the style baked into raw data', async () => {
+    const obj = await createFabricObjectFromAnnotation(makeCircleAnnotation(), {
+      strokeColor: '#123456',
+      strokeWidth: 4,
+      fillColor: '#ffffff',
+      fillOpacity: 0,
+      opacity: 0.5,
+    });
+    expect((obj as Circle).radius).toBe(30);
+    expect(obj.stroke).toBe('#123456');
+    expect(obj.strokeWidth).toBe(4);
+    expect(obj.opacity).toBe(0.5);
+  });
+
+  it('renders geometry with the stored style when raw data is missing', async () => {
+    const { rawAnnotationData: _raw, ...annotation } = makeCircleAnnotation();
+    const obj = await createFabricObjectFromAnnotation(annotation);
+    expect(obj).toBeInstanceOf(Circle);
+    expect(obj.getCenterPoint()).toMatchObject({ x: 50, y: 50 });
+    expect(obj.stroke).toBe('#000000');
+    expect(obj.id).toBe(annotation.id);
+  });
+
+  it('renders geometry when raw data comes from an incompatible Fabric version', async () => {
+    const annotation = makeCircleAnnotation();
+    const obj = await createFabricObjectFromAnnotation({
+      ...annotation,
+      geometry: { type: 'rectangle', origin: { x: 1, y: 2 }, width: 3, height: 4, rotation: 0 },
+      rawAnnotationData: { ...annotation.rawAnnotationData!, fabricVersion: '1.0.0' },
+    });
+    expect(obj).toBeInstanceOf(Rect);
+  });
+});
+
+describe('applyAnnotationStyle', () => {
+  const style = {
+    strokeColor: '#ff0000',
+    strokeWidth: 3,
+    strokeDashArray: [4, 2],
+    fillColor: '#00ff00',
+    fillOpacity: 0.5,
+    opacity: 0.8,
+  };
+
+  it('restyles a live object in place without touching its id', () => {
+    const rect = new Rect({ width: 10, height: 10 });
+    (rect as unknown as { id: string }).id = 'keep-me';
+    applyAnnotationStyle(rect, style);
+    expect(rect.stroke).toBe('#ff0000');
+    expect(rect.strokeWidth).toBe(3);
+    expect(rect.strokeDashArray).toEqual([4, 2]);
+    expect(rect.fill).toBe('rgba(0,255,0,0.5)');
+    expect(rect.opacity).toBe(0.8);
+    expect(rect.id).toBe('keep-me');
+  });
+
+  it('keeps open polylines unfilled', () => {
+    const polyline = new Polyline([
+      { x: 0, y: 0 },
+      { x: 10, y: 10 },
+    ]);
+    applyAnnotationStyle(polyline, style);
+    expect(polyline.fill).toBe('transparent');
+    expect(polyline.stroke).toBe('#ff0000');
+  });
+});
+
+describe('ActiveSelection members', () => {
+  function makeSelection() {
+    const rect = new Rect({
+      left: 10,
+      top: 20,
+      width: 30,
+      height: 40,
+      originX: 'left',
+      originY: 'top',
+    });
+    const polygon = new Polygon([
+      { x: 100, y: 100 },
+      { x: 110, y: 100 },
+      { x: 110, y: 110 },
+    ]);
+    (rect as unknown as { id: string }).id = 'r1';
+    (polygon as unknown as { id: string }).id = 'p1';
+    const selection = new ActiveSelection([rect, polygon]);
+    // Move the whole selection by (5, 7)
+    selection.set({ left: selection.left + 5, top: selection.top + 7 });
+    return { rect, polygon, selection };
+  }
+
+  it('getSelectionMembers returns the children of a selection, or the object itself', () => {
+    const { rect, polygon, selection } = makeSelection();
+    expect(getSelectionMembers(selection)).toEqual([rect, polygon]);
+    expect(getSelectionMembers(rect)).toEqual([rect]);
+  });
+
+  it('withSceneTransform reads members in image coordinates and restores them', () => {
+    const { rect, polygon, selection } = makeSelection();
+    const relativeLeft = rect.left;
+
+    const geometry = withSceneTransform(rect, (o) => getGeometryFromFabricObject(o, 'rectangle'));
+    expect(geometry).toMatchObject({ origin: { x: 15, y: 27 }, width: 30, height: 40 });
+    expect(withSceneTransform(rect, (o) => serializeFabricObject(o).data['left'])).toBeCloseTo(15);
+    expect(
+      withSceneTransform(polygon, (o) => getGeometryFromFabricObject(o, 'polygon')),
+    ).toMatchObject({
+      points: [
+        { x: 105, y: 107 },
+        { x: 115, y: 107 },
+        { x: 115, y: 117 },
+      ],
+    });
+
+    expect(rect.left).toBe(relativeLeft);
+    expect(rect.group).toBe(selection);
+  });
+});
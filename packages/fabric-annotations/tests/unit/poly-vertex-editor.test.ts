@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { Polygon, Polyline, type FabricObject, type Transform } from 'fabric';
+import { Path, Polygon, Polyline, type FabricObject, type Transform } from 'fabric';
 import { PolyVertexEditor } from '../../src/poly-vertex-editor.js';
 import { initFabricModule } from '../../src/fabric-module.js';
 import type { ToolOverlay } from '../../src/types.js';
@@ -27,6 +27,14 @@ function makePolygon(id: string): Polygon {
   return poly;
 }
 
+/** A 100×100 square with a 20×20 square hole, as built for multi-polygons. */
+function makeDonut(id: string): Path {
+  return new Path('M 0 0 L 100 0 L 100 100 L 0 100 Z M 40 40 L 60 40 L 60 60 L 40 60 Z', {
+    id,
+    fillRule: 'evenodd',
+  });
+}
+
 describe('PolyVertexEditor', () => {
   let canvas: MockCanvas;
   let overlay: ToolOverlay;
@@ -208,6 +216,27 @@ describe('PolyVertexEditor', () => {
     expect(editor.isEditing()).toBe(false);
   });
 
+  it('stamps one edit session on the edited object and its rebuilt copies', () => {
+    const poly = makePolygon('poly-1');
+    fire('mouse:down', downEvent(poly, 100, 100));
+    vi.advanceTimersByTime(500);
+    const session = poly._editSession;
+    expect(session).toBeDefined();
+
+    // The host rebuilds the object from state after each commit.
+    const rebuilt = makePolygon('poly-1');
+    fire('object:added', { target: rebuilt });
+    expect(rebuilt._editSession).toBe(session);
+
+    editor.onKeyDown({ key: 'Escape' } as KeyboardEvent);
+    expect(rebuilt._editSession).toBeUndefined();
+
+    fire('mouse:down', downEvent(rebuilt, 100, 100));
+    vi.advanceTimersByTime(500);
+    expect(rebuilt._editSession).toBeDefined();
+    expect(rebuilt._editSession).not.toBe(session);
+  });
+
   it('builds one fewer insert handle for an open polyline', () => {
     const line = new Polyline(
       [
@@ -224,4 +253,90 @@ describe('PolyVertexEditor', () => {
     // 3 points → 2 edges (no closing edge for a polyline).
     expect(insertKeys.length).toBe(2);
   });
+
+  it('moves a dragged vertex to the snapped point', () => {
+    const snapPoint = vi.fn(() => ({ x: 20, y: 20 }));
+    const snapping = new PolyVertexEditor({ longPressMs: 500, moveTolerancePx: 8, snapPoint });
+    handlers = {}; // leave out the editor the other tests share
+    snapping.activate(overlay);
+    const poly = makePolygon('poly-1');
+    fire('mouse:down', downEvent(poly, 100, 100));
+    vi.advanceTimersByTime(500);
+
+    const event = new MouseEvent('mousemove');
+    const transform = { target: poly, corner: 'p2' } as unknown as Transform;
+    poly.controls['p2']!.actionHandler(event, transform, 12, 11);
+
+    expect(snapPoint).toHaveBeenCalledWith(event, { x: 12, y: 11 }, 'poly-1');
+    expect(poly.points[2]!.x).toBeCloseTo(20);
+    expect(poly.points[2]!.y).toBeCloseTo(20);
+  });
+
+  describe('multi-polygon paths', () => {
+    const downAt = (target: FabricObject, x: number, y: number) => ({
+      target,
+      viewportPoint: { x, y },
+      scenePoint: { x, y },
+    });
+
+    it('edits the ring nearest the long press', () => {
+      const donut = makeDonut('donut');
+      fire('mouse:down', downAt(donut, 45, 41));
+      vi.advanceTimersByTime(500);
+
+      expect(editor.isEditing()).toBe(true);
+      expect(Object.keys(donut.controls).sort()).toEqual(
+        ['ins0', 'ins1', 'ins2', 'ins3', 'p0', 'p1', 'p2', 'p3'].sort(),
+      );
+      // Handles sit on the hole's vertices.
+      const p0 = donut.controls['p0']!.positionHandler(
+        {} as never,
+        [1, 0, 0, 1, 0, 0],
+        donut,
+        donut.controls['p0']!,
+      );
+      expect(p0.x).toBeCloseTo(40);
+      expect(p0.y).toBeCloseTo(40);
+    });
+
+    it('switches rings when the body is pressed near another ring', () => {
+      const donut = makeDonut('donut');
+      fire('mouse:down', downAt(donut, 45, 41));
+      vi.advanceTimersByTime(500);
+
+      fire('mouse:down', downAt(donut, 99, 50));
+      const p0 = donut.controls['p0']!.positionHandler(
+        {} as never,
+        [1, 0, 0, 1, 0, 0],
+        donut,
+        donut.controls['p0']!,
+      );
+      expect(p0.x).toBeCloseTo(0);
+      expect(p0.y).toBeCloseTo(0);
+    });
+
+    it('inserts into and deletes from the edited ring only', () => {
+      const donut = makeDonut('donut');
+      fire('mouse:down', downAt(donut, 45, 41));
+      vi.advanceTimersByTime(500);
+
+      const transform = { target: donut, corner: 'ins3' } as unknown as Transform;
+      donut.controls['ins3']!.mouseDownHandler!(new MouseEvent('mousedown'), transform, 40, 50);
+      expect(transform.corner).toBe('p4');
+      // The new vertex closes the hole, before its `Z`.
+      expect(donut.path.map((c) => c[0]).join('')).toBe('MLLLZMLLLLZ');
+
+      donut.__corner = 'p0';
+      editor.onKeyDown({ key: 'Delete' } as KeyboardEvent);
+      expect(donut.path.map((c) => c[0]).join('')).toBe('MLLLZMLLLZ');
+      expect(donut.path[5]).toEqual(['M', 60, 40]);
+      expect(canvas.fire).toHaveBeenCalledWith('object:modified', { target: donut });
+
+      // Three vertices is the minimum for a ring.
+      donut.__corner = 'p0';
+      editor.onKeyDown({ key: 'Delete' } as KeyboardEvent);
+      editor.onKeyDown({ key: 'Delete' } as KeyboardEvent);
+      expect(donut.path.map((c) => c[0]).join('')).toBe('MLLLZMLLZ');
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { BaseAnnotation, Geometry, Point } from '@osdlabel/annotation';
+import { DEFAULT_SNAP_SETTINGS } from '@osdlabel/viewer-api';
+import type { SnapSettings } from '@osdlabel/viewer-api';
+import { snapPoint } from '../../src/snapping.js';
+
+function annotation(id: string, geometry: Geometry): BaseAnnotation {
+  return { id, geometry } as unknown as BaseAnnotation;
+}
+
+const square = annotation('square', {
+  type: 'polygon',
+  points: [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 },
+  ],
+});
+
+function snap(
+  point: Point,
+  settings: Partial<SnapSettings> = {},
+  targets: readonly BaseAnnotation[] = [square],
+  zoom = 1,
+  excludeId?: string,
+): Point {
+  return snapPoint(point, {
+    settings: { ...DEFAULT_SNAP_SETTINGS, enabled: true, ...settings },
+    imageToScreen: (p) => ({ x: p.x * zoom, y: p.y * zoom }),
+    getTargets: () => targets,
+    excludeId,
+  });
+}
+
+describe('snapPoint', () => {
+  it('leaves the point alone when snapping is off', () => {
+    const point = { x: 3, y: 2 };
+    expect(snap(point, { enabled: false })).toBe(point);
+  });
+
+  it('snaps to a vertex in preference to a nearer edge', () => {
+    expect(snap({ x: 104, y: 3 })).toEqual({ x: 100, y: 0 });
+    expect(snap({ x: 50, y: 5 })).toEqual({ x: 50, y: 0 });
+    expect(snap({ x: 50, y: 5 }, { edges: false })).toEqual({ x: 50, y: 5 });
+    expect(snap({ x: 104, y: 3 }, { vertices: false })).toEqual({ x: 100, y: 3 });
+  });
+
+  it('measures the tolerance in screen px', () => {
+    expect(snap({ x: 50, y: 6 }, {}, [square], 1)).toEqual({ x: 50, y: 0 });
+    expect(snap({ x: 50, y: 6 }, {}, [square], 2)).toEqual({ x: 50, y: 6 });
+    expect(snap({ x: 50, y: 6 }, { tolerancePx: 12 }, [square], 2)).toEqual({ x: 50, y: 0 });
+  });
+
+  it('skips the excluded annotation and the corners traced around circles', () => {
+    expect(snap({ x: 2, y: 50 }, {}, [square], 1, 'square')).toEqual({ x: 2, y: 50 });
+    const circle = annotation('circle', { type: 'circle', center: { x: 0, y: 0 }, radius: 50 });
+    const snapped = snap({ x: 53, y: 1 }, {}, [circle]);
+    expect(Math.hypot(snapped.x, snapped.y)).toBeCloseTo(50, 0);
+    expect(snapped.y).not.toBe(0);
+  });
+
+  it('falls back to the grid, then whole pixels', () => {
+    expect(snap({ x: 23.4, y: 38.2 }, { gridSize: 10 }, [])).toEqual({ x: 20, y: 40 });
+    expect(snap({ x: 23.4, y: 38.6 }, { pixels: true }, [])).toEqual({ x: 23, y: 39 });
+    expect(snap({ x: 23.4, y: 38.6 }, { gridSize: 2.5, pixels: true }, [])).toEqual({
+      x: 23,
+      y: 38,
+    });
+  });
+});
@@ -6,6 +6,7 @@ export function createTestKeyboardShortcuts(): KeyboardShortcutMap {
     selectTool: 'v',
     rectangleTool: 'r',
     circleTool: 'c',
+    ellipseTool: 'e',
     lineTool: 'l',
     pointTool: 'p',
     polylineTool: 'd',
@@ -34,8 +35,19 @@ export function createTestKeyboardShortcuts(): KeyboardShortcutMap {
     flipHorizontal: 'H',
     flipVertical: 'V',
     resetView: ')',
+    fitAllAnnotations: 'A',
     toggleNegative: 'N',
     increaseExposure: 'E',
     decreaseExposure: 'D',
+    undo: 'z',
+    redo: 'z',
+    copy: 'c',
+    cut: 'x',
+    paste: 'v',
+    duplicate: 'd',
+    bringToFront: '}',
+    sendToBack: '{',
+    bringForward: ']',
+    sendBackward: '[',
   };
 }
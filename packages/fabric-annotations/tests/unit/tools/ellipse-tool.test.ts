@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EllipseTool } from '../../../src/tools/ellipse-tool.js';
+import type { ToolOverlay } from '../../../src/types.js';
+import type { ToolCallbacks, AddAnnotationParams } from '../../../src/tools/base-tool.js';
+import { createImageId } from '@osdlabel/viewer-api';
+import type { KeyboardShortcutMap } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import { Ellipse } from 'fabric';
+import { createTestKeyboardShortcuts } from '../test-helpers.js';
+
+describe('EllipseTool', () => {
+  let tool: EllipseTool;
+  let mockOverlay: ToolOverlay;
+  let mockCanvas: {
+    add: ReturnType<typeof vi.fn>;
+    remove: ReturnType<typeof vi.fn>;
+    requestRenderAll: ReturnType<typeof vi.fn>;
+    getZoom: ReturnType<typeof vi.fn>;
+  };
+  let mockCallbacks: ToolCallbacks;
+  let addedParams: AddAnnotationParams[];
+  const imageId = createImageId('test-image');
+  const contextId = createAnnotationContextId('test-context');
+  const mockShortcuts: KeyboardShortcutMap = createTestKeyboardShortcuts();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    addedParams = [];
+
+    mockCanvas = {
+      add: vi.fn(),
+      remove: vi.fn(),
+      requestRenderAll: vi.fn(),
+      getZoom: vi.fn().mockReturnValue(1),
+    };
+
+    mockOverlay = {
+      canvas: mockCanvas,
+    } as unknown as ToolOverlay;
+
+    mockCallbacks = {
+      getActiveContextId: () => contextId,
+      getToolConstraint: (type) => ({ type }),
+      canAddAnnotation: () => true,
+      addAnnotation: (params) => {
+        addedParams.push(params);
+      },
+      updateAnnotation: vi.fn(),
+      deleteAnnotation: vi.fn(),
+      deleteAnnotations: vi.fn(),
+      setSelectedAnnotations: vi.fn(),
+      getAnnotation: vi.fn().mockReturnValue(undefined),
+    };
+  });
+
+  it('should create a preview ellipse on pointer down', () => {
+    tool = new EllipseTool();
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 10, y: 10 });
+
+    expect(mockCanvas.add).toHaveBeenCalled();
+    const addedObj = mockCanvas.add.mock.calls[0][0];
+    expect(addedObj).toBeInstanceOf(Ellipse);
+    expect(addedObj.rx).toBe(0);
+    expect(addedObj.ry).toBe(0);
+  });
+
+  it('should inscribe the preview in the dragged box', () => {
+    tool = new EllipseTool();
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 50, y: 40 });
+    const preview = mockCanvas.add.mock.calls[0][0];
+
+    // Dragging up and to the left works the same as down and to the right.
+    tool.onPointerMove({ type: 'pointermove' } as PointerEvent, { x: 10, y: 20 });
+
+    expect(preview.left).toBe(30);
+    expect(preview.top).toBe(30);
+    expect(preview.rx).toBe(20);
+    expect(preview.ry).toBe(10);
+    expect(mockCanvas.requestRenderAll).toHaveBeenCalled();
+  });
+
+  it('should commit annotation on pointer up with fabricObject', () => {
+    tool = new EllipseTool();
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 10, y: 10 });
+    tool.onPointerMove({ type: 'pointermove' } as PointerEvent, { x: 50, y: 30 });
+    tool.onPointerUp({ type: 'pointerup' } as PointerEvent, { x: 50, y: 30 });
+
+    expect(addedParams).toHaveLength(1);
+    const params = addedParams[0]!;
+
+    expect(params.type).toBe('ellipse');
+    expect(params.imageId).toBe(imageId);
+    expect(params.contextId).toBe(contextId);
+    expect(params.fabricObject).toBeInstanceOf(Ellipse);
+    expect(params.fabricObject.get('selectable')).toBe(true);
+
+    // Object stays on canvas
+    expect(mockCanvas.remove).not.toHaveBeenCalled();
+  });
+
+  it('should not create annotation when the constraint is exhausted', () => {
+    tool = new EllipseTool();
+    tool.activate(
+      mockOverlay,
+      imageId,
+      { ...mockCallbacks, canAddAnnotation: () => false },
+      mockShortcuts,
+    );
+
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 10, y: 10 });
+    tool.onPointerUp({ type: 'pointerup' } as PointerEvent, { x: 30, y: 30 });
+
+    expect(addedParams).toHaveLength(0);
+    expect(mockCanvas.add).not.toHaveBeenCalled();
+  });
+});
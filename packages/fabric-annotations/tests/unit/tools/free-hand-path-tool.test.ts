@@ -52,7 +52,8 @@ describe('FreeHandPathTool', () => {
       },
       updateAnnotation: vi.fn(),
       deleteAnnotation: vi.fn(),
-      setSelectedAnnotation: vi.fn(),
+      deleteAnnotations: vi.fn(),
+      setSelectedAnnotations: vi.fn(),
       getAnnotation: vi.fn().mockReturnValue(undefined),
     };
   });
@@ -47,7 +47,8 @@ describe('LineTool', () => {
       },
       updateAnnotation: vi.fn(),
       deleteAnnotation: vi.fn(),
-      setSelectedAnnotation: vi.fn(),
+      deleteAnnotations: vi.fn(),
+      setSelectedAnnotations: vi.fn(),
       getAnnotation: vi.fn().mockReturnValue(undefined),
     };
   });
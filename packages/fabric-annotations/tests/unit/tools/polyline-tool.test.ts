@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PolylineTool } from '../../../src/tools/polyline-tool.js';
 import type { ToolOverlay } from '../../../src/types.js';
 import type { ToolCallbacks, AddAnnotationParams } from '../../../src/tools/base-tool.js';
-import { createImageId } from '@osdlabel/viewer-api';
+import { DEFAULT_SNAP_SETTINGS, createImageId } from '@osdlabel/viewer-api';
 import type { KeyboardShortcutMap } from '@osdlabel/viewer-api';
 import { createAnnotationContextId } from '@osdlabel/annotation-context';
 import { Polyline, Polygon } from 'fabric';
@@ -52,7 +52,8 @@ describe('PolylineTool', () => {
       },
       updateAnnotation: vi.fn(),
       deleteAnnotation: vi.fn(),
-      setSelectedAnnotation: vi.fn(),
+      deleteAnnotations: vi.fn(),
+      setSelectedAnnotations: vi.fn(),
       getAnnotation: vi.fn().mockReturnValue(undefined),
     };
   });
@@ -176,6 +177,19 @@ describe('PolylineTool', () => {
     expect(addedParams).toHaveLength(0);
   });
 
+  it('leaves Ctrl/Cmd+C to the global shortcuts while drawing', () => {
+    tool = new PolylineTool();
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 10, y: 10 });
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 50, y: 10 });
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 50, y: 50 });
+
+    expect(tool.onKeyDown({ key: 'c', ctrlKey: true } as KeyboardEvent)).toBe(false);
+    expect(tool.onKeyDown({ key: 'c', metaKey: true } as KeyboardEvent)).toBe(false);
+    expect(addedParams).toHaveLength(0);
+  });
+
   it('should close polygon when clicking near first point', () => {
     tool = new PolylineTool();
     tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
@@ -191,6 +205,34 @@ describe('PolylineTool', () => {
     expect(params.fabricObject).toBeInstanceOf(Polygon);
   });
 
+  it('places vertices on the snap grid and closes on one that snaps onto the first', () => {
+    tool = new PolylineTool();
+    tool.activate(
+      mockOverlay,
+      imageId,
+      {
+        ...mockCallbacks,
+        getSnapSettings: () => ({ ...DEFAULT_SNAP_SETTINGS, enabled: true, gridSize: 50 }),
+      },
+      mockShortcuts,
+    );
+
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 104, y: 96 });
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 190, y: 110 });
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 210, y: 180 });
+    // Too far from the first vertex itself, but it snaps onto it.
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 120, y: 100 });
+
+    expect(addedParams).toHaveLength(1);
+    const polygon = addedParams[0]!.fabricObject as Polygon;
+    expect(polygon).toBeInstanceOf(Polygon);
+    expect(polygon.points).toEqual([
+      { x: 100, y: 100 },
+      { x: 200, y: 100 },
+      { x: 200, y: 200 },
+    ]);
+  });
+
   it('should cancel path with only one point on Enter', () => {
     tool = new PolylineTool();
     tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
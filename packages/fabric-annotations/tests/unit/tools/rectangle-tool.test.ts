@@ -2,9 +2,10 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { RectangleTool } from '../../../src/tools/rectangle-tool.js';
 import type { ToolOverlay } from '../../../src/types.js';
 import type { ToolCallbacks, AddAnnotationParams } from '../../../src/tools/base-tool.js';
-import { createImageId } from '@osdlabel/viewer-api';
+import { DEFAULT_SNAP_SETTINGS, createImageId } from '@osdlabel/viewer-api';
 import type { KeyboardShortcutMap } from '@osdlabel/viewer-api';
 import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { BaseAnnotation } from '@osdlabel/annotation';
 import { Rect } from 'fabric';
 import { createTestKeyboardShortcuts } from '../test-helpers.js';
 
@@ -47,7 +48,8 @@ describe('RectangleTool', () => {
       },
       updateAnnotation: vi.fn(),
       deleteAnnotation: vi.fn(),
-      setSelectedAnnotation: vi.fn(),
+      deleteAnnotations: vi.fn(),
+      setSelectedAnnotations: vi.fn(),
       getAnnotation: vi.fn().mockReturnValue(undefined),
     };
   });
@@ -157,4 +159,33 @@ describe('RectangleTool', () => {
     // No preview should have been added either
     expect(mockCanvas.add).not.toHaveBeenCalled();
   });
+
+  it('snaps its corners to other annotations unless Alt is held', () => {
+    const line = {
+      id: 'other',
+      geometry: { type: 'line', start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+    } as unknown as BaseAnnotation;
+    const overlay = { ...mockOverlay, imageToScreen: (p: { x: number; y: number }) => p };
+    tool = new RectangleTool();
+    tool.activate(
+      overlay,
+      imageId,
+      {
+        ...mockCallbacks,
+        getSnapSettings: () => ({ ...DEFAULT_SNAP_SETTINGS, enabled: true }),
+        getSnapTargets: () => [line],
+      },
+      mockShortcuts,
+    );
+
+    tool.onPointerDown({ type: 'pointerdown' } as PointerEvent, { x: 3, y: 2 });
+    const preview = mockCanvas.add.mock.calls[0][0];
+    expect(preview.left).toBe(0);
+    expect(preview.top).toBe(0);
+
+    tool.onPointerMove({ type: 'pointermove' } as PointerEvent, { x: 40, y: 4 });
+    expect(preview.height).toBe(0);
+    tool.onPointerMove({ type: 'pointermove', altKey: true } as PointerEvent, { x: 40, y: 4 });
+    expect(preview.height).toBe(4);
+  });
 });
@@ -59,7 +59,8 @@ describe('SelectTool', () => {
       addAnnotation: vi.fn(),
       updateAnnotation: vi.fn(),
       deleteAnnotation: vi.fn(),
-      setSelectedAnnotation: vi.fn(),
+      deleteAnnotations: vi.fn(),
+      setSelectedAnnotations: vi.fn(),
       getAnnotation: vi.fn().mockReturnValue(undefined),
     };
 
@@ -80,34 +81,60 @@ describe('SelectTool', () => {
     expect(mockCanvas.discardActiveObject).toHaveBeenCalled();
   });
 
-  it('should trigger setSelectedAnnotation on selection:created with single object', () => {
+  it('should select the single annotation on selection:created', () => {
     tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
 
     const annId = createAnnotationId('ann-1');
     const mockObj = { id: annId } as unknown as FabricObject;
+    mockCanvas.getActiveObjects.mockReturnValue([mockObj]);
 
     fire('selection:created', { selected: [mockObj] });
 
-    expect(mockCallbacks.setSelectedAnnotation).toHaveBeenCalledWith(annId);
+    expect(mockCallbacks.setSelectedAnnotations).toHaveBeenCalledWith([annId]);
   });
 
-  it('should trigger setSelectedAnnotation(null) on selection:created with multiple objects', () => {
+  it('should select every member of a rubber-band selection', () => {
     tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
 
     const mockObj1 = { id: createAnnotationId('ann-1') } as unknown as FabricObject;
     const mockObj2 = { id: createAnnotationId('ann-2') } as unknown as FabricObject;
+    mockCanvas.getActiveObjects.mockReturnValue([mockObj1, mockObj2]);
 
     fire('selection:created', { selected: [mockObj1, mockObj2] });
 
-    expect(mockCallbacks.setSelectedAnnotation).toHaveBeenCalledWith(null);
+    expect(mockCallbacks.setSelectedAnnotations).toHaveBeenCalledWith([
+      createAnnotationId('ann-1'),
+      createAnnotationId('ann-2'),
+    ]);
   });
 
-  it('should trigger setSelectedAnnotation(null) on selection:cleared', () => {
+  it('should report the whole selection when Shift-click adds to it', () => {
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+
+    const mockObj1 = { id: createAnnotationId('ann-1') } as unknown as FabricObject;
+    const mockObj2 = { id: createAnnotationId('ann-2') } as unknown as FabricObject;
+    mockCanvas.getActiveObjects.mockReturnValue([mockObj1, mockObj2]);
+
+    // Fabric reports only the newly added object on selection:updated.
+    fire('selection:updated', { selected: [mockObj2] });
+
+    expect(mockCallbacks.setSelectedAnnotations).toHaveBeenCalledWith([
+      createAnnotationId('ann-1'),
+      createAnnotationId('ann-2'),
+    ]);
+  });
+
+  it('should use Shift as the multi-select key', () => {
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+    expect((mockCanvas as unknown as { selectionKey: string }).selectionKey).toBe('shiftKey');
+  });
+
+  it('should clear the selection on selection:cleared', () => {
     tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
 
     fire('selection:cleared', { deselected: [] });
 
-    expect(mockCallbacks.setSelectedAnnotation).toHaveBeenCalledWith(null);
+    expect(mockCallbacks.setSelectedAnnotations).toHaveBeenCalledWith([]);
   });
 
   it('should trigger deleteAnnotation on Delete key', () => {
@@ -136,4 +163,55 @@ describe('SelectTool', () => {
 
     expect(mockCallbacks.deleteAnnotation).toHaveBeenCalledWith(annId, imageId);
   });
+
+  it('leaves Ctrl/Cmd+Backspace alone', () => {
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+    mockCanvas.getActiveObjects.mockReturnValue([
+      { id: createAnnotationId('ann-1'), type: 'rect' } as unknown as FabricObject,
+    ]);
+
+    expect(tool.onKeyDown({ key: 'Backspace', ctrlKey: true } as KeyboardEvent)).toBe(false);
+    expect(tool.onKeyDown({ key: 'Delete', metaKey: true } as KeyboardEvent)).toBe(false);
+    expect(mockCallbacks.deleteAnnotation).not.toHaveBeenCalled();
+  });
+
+  it('should delete a multi-selection as one change', () => {
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+
+    const ids = [createAnnotationId('ann-1'), createAnnotationId('ann-2')];
+    mockCanvas.getActiveObjects.mockReturnValue(
+      ids.map((id) => ({ id, type: 'rect' }) as unknown as FabricObject),
+    );
+
+    tool.onKeyDown({ key: 'Delete' } as KeyboardEvent);
+
+    expect(mockCallbacks.deleteAnnotations).toHaveBeenCalledWith(ids, imageId);
+    expect(mockCallbacks.deleteAnnotation).not.toHaveBeenCalled();
+  });
+
+  it('should not delete locked, hidden or read-only annotations', () => {
+    tool.activate(mockOverlay, imageId, mockCallbacks, mockShortcuts);
+
+    const [free, locked, hidden, readOnly] = ['free', 'locked', 'hidden', 'read-only'].map(
+      createAnnotationId,
+    );
+    vi.mocked(mockCallbacks.getAnnotation).mockImplementation((id) =>
+      id === locked
+        ? ({ locked: true } as never)
+        : id === hidden
+          ? ({ hidden: true } as never)
+          : undefined,
+    );
+    mockCanvas.getActiveObjects.mockReturnValue([
+      { id: free, type: 'rect' } as unknown as FabricObject,
+      { id: locked, type: 'rect' } as unknown as FabricObject,
+      { id: hidden, type: 'rect' } as unknown as FabricObject,
+      { id: readOnly, type: 'rect', _readOnly: true } as unknown as FabricObject,
+    ]);
+
+    tool.onKeyDown({ key: 'Delete' } as KeyboardEvent);
+
+    expect(mockCallbacks.deleteAnnotation).toHaveBeenCalledWith(free, imageId);
+    expect(mockCallbacks.deleteAnnotations).not.toHaveBeenCalled();
+  });
 });
@@ -1,4 +1,4 @@
-export { FabricOverlay, computeViewportTransform } from './overlay/fabric-overlay.js';
+export { FabricOverlay, computeViewportTransform, padImageRect } from './overlay/fabric-overlay.js';
 export type {
   OverlayOptions,
   OverlayMode,
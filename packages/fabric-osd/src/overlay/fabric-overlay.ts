@@ -2,6 +2,7 @@ import OpenSeadragon from 'openseadragon';
 import { Canvas as FabricCanvas } from 'fabric';
 import type { TMat2D } from 'fabric';
 import type { Point } from '@osdlabel/annotation';
+import type { BoundingBox } from '@osdlabel/geometry';
 import type { CellTransform } from '@osdlabel/viewer-api';
 import { DEFAULT_CELL_TRANSFORM } from '@osdlabel/viewer-api';
 import { initFabricModule } from '@osdlabel/fabric-annotations';
@@ -146,6 +147,41 @@ export function screenToImageFlipAware(viewer: OpenSeadragon.Viewer, screenPoint
   return { x: osdPoint.x, y: osdPoint.y };
 }
 
+/**
+ * Grows the image-space rectangle `rect` so that, fitted to the viewer, it
+ * keeps `padding` screen pixels clear around the original along its tighter
+ * axis. Sides of zero length (a point, a horizontal line) count as 1px.
+ *
+ * Only the rect's extent on screen depends on the view transform: a quarter
+ * turn swaps its sides, while a flip mirrors the view about its center and
+ * leaves a centered fit where it is.
+ *
+ * Exported for unit testing.
+ */
+export function padImageRect(
+  viewer: OpenSeadragon.Viewer,
+  rect: BoundingBox,
+  padding: number,
+): BoundingBox {
+  const width = Math.max(rect.max.x - rect.min.x, 1);
+  const height = Math.max(rect.max.y - rect.min.y, 1);
+  const quarterTurn = Math.round(viewer.viewport.getRotation() / 90) % 2 !== 0;
+  const [spanX, spanY] = quarterTurn ? [height, width] : [width, height];
+  const container = viewer.viewport.getContainerSize();
+  // Screen pixels per image pixel once fitted, then the padding at that scale.
+  const scale = Math.min(
+    Math.max(container.x - 2 * padding, 1) / spanX,
+    Math.max(container.y - 2 * padding, 1) / spanY,
+  );
+  const margin = padding / scale;
+  const cx = (rect.min.x + rect.max.x) / 2;
+  const cy = (rect.min.y + rect.max.y) / 2;
+  return {
+    min: { x: cx - width / 2 - margin, y: cy - height / 2 - margin },
+    max: { x: cx + width / 2 + margin, y: cy + height / 2 + margin },
+  };
+}
+
 /**
  * A Fabric.js canvas overlay synchronized with an OpenSeaDragon viewer.
  *
@@ -380,6 +416,22 @@ export class FabricOverlay {
     this.applyViewTransform(DEFAULT_CELL_TRANSFORM);
   }
 
+  /**
+   * Pans and zooms so the image-space `rect` fills the view with `padding`
+   * screen pixels around it, within the viewer's zoom limits. Animates
+   * unless `immediately`. OSD fits rotated bounds itself; {@link padImageRect}
+   * sizes the padding for the current rotation and flip.
+   */
+  fitImageRect(rect: BoundingBox, padding = 0, immediately = false): void {
+    const item = this._viewer.world.getItemAt(0);
+    if (!item) return;
+    const { min, max } = padImageRect(this._viewer, rect, padding);
+    this._viewer.viewport.fitBoundsWithConstraints(
+      item.imageToViewportRectangle(min.x, min.y, max.x - min.x, max.y - min.y),
+      immediately,
+    );
+  }
+
   /**
    * Force a re-sync of the overlay transform with the current OSD viewport.
    *
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   computeViewportTransform,
   imageToScreenFlipAware,
+  padImageRect,
   screenToImageFlipAware,
 } from '../../../src/overlay/fabric-overlay.js';
 import type OpenSeadragon from 'openseadragon';
@@ -30,6 +31,7 @@ function createMockViewer(options: {
   return {
     viewport: {
       getFlip: () => flip,
+      getRotation: () => rotationDeg,
       getContainerSize: () => ({ x: containerWidth, y: 600 }),
       imageToViewerElementCoordinates: vi.fn((point: { x: number; y: number }) => {
         // Rotation + scale + translate — NO flip (matches real OSD behavior)
@@ -362,3 +364,33 @@ describe('imageToScreenFlipAware / screenToImageFlipAware', () => {
     expect(back.y).toBeCloseTo(original.y, 6);
   });
 });
+
+describe('padImageRect', () => {
+  const rect = { min: { x: 0, y: 0 }, max: { x: 100, y: 50 } };
+
+  it('pads by the screen padding at the fitted scale', () => {
+    // 800x600 container: the 100px width limits the fit at 700 / 100 = 7x.
+    const viewer = createMockViewer({ scale: 1, offsetX: 0, offsetY: 0 });
+    const padded = padImageRect(viewer, rect, 50);
+    expect(padded.min.x).toBeCloseTo(-50 / 7);
+    expect(padded.max.y).toBeCloseTo(50 + 50 / 7);
+  });
+
+  it('swaps the sides on screen after a quarter turn', () => {
+    // Rotated, the 100px side runs vertically: 500 / 100 = 5x.
+    const viewer = createMockViewer({ scale: 1, offsetX: 0, offsetY: 0, rotationDeg: 270 });
+    expect(padImageRect(viewer, rect, 50)).toEqual({
+      min: { x: -10, y: -10 },
+      max: { x: 110, y: 60 },
+    });
+  });
+
+  it('gives a point a 1px extent so the fit stays finite', () => {
+    const viewer = createMockViewer({ scale: 1, offsetX: 0, offsetY: 0, flip: true });
+    const point = { min: { x: 10, y: 20 }, max: { x: 10, y: 20 } };
+    expect(padImageRect(viewer, point, 0)).toEqual({
+      min: { x: 9.5, y: 19.5 },
+      max: { x: 10.5, y: 20.5 },
+    });
+  });
+});
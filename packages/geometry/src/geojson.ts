@@ -0,0 +1,144 @@
+import type { Geometry, Point, PolygonWithHoles } from '@osdlabel/annotation';
+import {
+  circleToPolygon,
+  ellipseToPolygon,
+  DEFAULT_POLYGON_TOLERANCE,
+  rectangleToPolygon,
+} from './geometry-conversion.js';
+
+/** A GeoJSON position: `[x, y]` in image pixels (extra ordinates are ignored). */
+export type GeoJsonPosition = readonly number[];
+
+export interface GeoJsonPoint {
+  readonly type: 'Point';
+  readonly coordinates: GeoJsonPosition;
+}
+
+export interface GeoJsonLineString {
+  readonly type: 'LineString';
+  readonly coordinates: readonly GeoJsonPosition[];
+}
+
+/** Rings are closed: the last position repeats the first. The first ring is the outer boundary. */
+export interface GeoJsonPolygon {
+  readonly type: 'Polygon';
+  readonly coordinates: readonly (readonly GeoJsonPosition[])[];
+}
+
+/** Each polygon is a list of closed rings, outer boundary first. */
+export interface GeoJsonMultiPolygon {
+  readonly type: 'MultiPolygon';
+  readonly coordinates: readonly (readonly (readonly GeoJsonPosition[])[])[];
+}
+
+/** The GeoJSON geometry types osdlabel geometries map onto. */
+export type GeoJsonGeometry =
+  | GeoJsonPoint
+  | GeoJsonLineString
+  | GeoJsonPolygon
+  | GeoJsonMultiPolygon;
+
+function toPosition(p: Point): GeoJsonPosition {
+  return [p.x, p.y];
+}
+
+function toPoint(position: GeoJsonPosition): Point {
+  return { x: position[0] ?? NaN, y: position[1] ?? NaN };
+}
+
+function closedRing(points: readonly Point[]): GeoJsonPosition[] {
+  const ring = points.map(toPosition);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first && last && (first.x !== last.x || first.y !== last.y)) ring.push(toPosition(first));
+  return ring;
+}
+
+/** Drops a ring's closing position, if present. */
+function openRing(positions: readonly GeoJsonPosition[]): Point[] {
+  const points = positions.map(toPoint);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first && last && first.x === last.x && first.y === last.y) {
+    points.pop();
+  }
+  return points;
+}
+
+function polygonRings(polygon: PolygonWithHoles): GeoJsonPosition[][] {
+  return [closedRing(polygon.outer), ...polygon.holes.map(closedRing)];
+}
+
+function polygonWithHoles(rings: readonly (readonly GeoJsonPosition[])[]): PolygonWithHoles {
+  const [outer = [], ...holes] = rings.map(openRing);
+  return { outer, holes };
+}
+
+/**
+ * Convert a geometry to GeoJSON. Points and lines map directly, polylines to
+ * `LineString`, polygons to `Polygon`, and multi-polygons to a `Polygon` with
+ * holes (one part) or a `MultiPolygon`. Rectangles become the polygon of
+ * their (rotated) corners; circles and ellipses an inscribed polygon deviating
+ * at most `tolerance` image px from the curve.
+ */
+export function geometryToGeoJson(
+  geometry: Geometry,
+  tolerance: number = DEFAULT_POLYGON_TOLERANCE,
+): GeoJsonGeometry {
+  switch (geometry.type) {
+    case 'point':
+      return { type: 'Point', coordinates: toPosition(geometry.position) };
+    case 'line':
+      return { type: 'LineString', coordinates: [geometry.start, geometry.end].map(toPosition) };
+    case 'polyline':
+      return { type: 'LineString', coordinates: geometry.points.map(toPosition) };
+    case 'polygon':
+      return { type: 'Polygon', coordinates: [closedRing(geometry.points)] };
+    case 'rectangle':
+      return { type: 'Polygon', coordinates: [closedRing(rectangleToPolygon(geometry).points)] };
+    case 'circle':
+      return {
+        type: 'Polygon',
+        coordinates: [closedRing(circleToPolygon(geometry, tolerance).points)],
+      };
+    case 'ellipse':
+      return {
+        type: 'Polygon',
+        coordinates: [closedRing(ellipseToPolygon(geometry, tolerance).points)],
+      };
+    case 'multiPolygon': {
+      const [only, ...rest] = geometry.polygons;
+      if (only && rest.length === 0) return { type: 'Polygon', coordinates: polygonRings(only) };
+      return { type: 'MultiPolygon', coordinates: geometry.polygons.map(polygonRings) };
+    }
+  }
+}
+
+/**
+ * Convert GeoJSON to a geometry: `Point` → point, a two-position
+ * `LineString` → line, longer ones → polyline, a `Polygon` without holes →
+ * polygon, and a `Polygon` with holes or a `MultiPolygon` → multi-polygon.
+ * Closing positions are dropped.
+ *
+ * Coordinates are not checked here — validate the result (e.g. with
+ * `GeometrySchema`) before use.
+ */
+export function geoJsonToGeometry(geoJson: GeoJsonGeometry): Geometry {
+  switch (geoJson.type) {
+    case 'Point':
+      return { type: 'point', position: toPoint(geoJson.coordinates) };
+    case 'LineString': {
+      const points = geoJson.coordinates.map(toPoint);
+      if (points.length === 2) return { type: 'line', start: points[0]!, end: points[1]! };
+      return { type: 'polyline', points };
+    }
+    case 'Polygon': {
+      if (geoJson.coordinates.length > 1) {
+        return { type: 'multiPolygon', polygons: [polygonWithHoles(geoJson.coordinates)] };
+      }
+      return { type: 'polygon', points: openRing(geoJson.coordinates[0] ?? []) };
+    }
+    case 'MultiPolygon':
+      return { type: 'multiPolygon', polygons: geoJson.coordinates.map(polygonWithHoles) };
+  }
+}
@@ -1,4 +1,11 @@
-import type { CircleGeometry, RectangleGeometry } from '@osdlabel/annotation';
+import type {
+  CircleGeometry,
+  EllipseGeometry,
+  MultiPolygonGeometry,
+  Point,
+  PolygonGeometry,
+  RectangleGeometry,
+} from '@osdlabel/annotation';
 import { boundingBox } from './geometry-math.js';
 
 /**
@@ -17,3 +24,124 @@ export function circleToBoundingRectangle(circle: CircleGeometry): RectangleGeom
     rotation: 0,
   };
 }
+
+/** Default maximum deviation (image px) between a curve and its polygon approximation. */
+export const DEFAULT_POLYGON_TOLERANCE = 0.5;
+
+/** Fewest vertices {@link circleToPolygon} will emit, however coarse the tolerance. */
+const MIN_CIRCLE_SEGMENTS = 8;
+
+/**
+ * Convert a rectangle to the polygon of its four corners, honouring
+ * `rotation` (degrees, about `origin`). Corners run clockwise on screen
+ * (y down), starting at `origin`.
+ */
+export function rectangleToPolygon(rect: RectangleGeometry): PolygonGeometry {
+  const theta = (rect.rotation * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const points: Point[] = [
+    { x: 0, y: 0 },
+    { x: rect.width, y: 0 },
+    { x: rect.width, y: rect.height },
+    { x: 0, y: rect.height },
+  ].map((c) => ({
+    x: rect.origin.x + c.x * cos - c.y * sin,
+    y: rect.origin.y + c.x * sin + c.y * cos,
+  }));
+  return { type: 'polygon', points };
+}
+
+/**
+ * Approximate a circle with an inscribed regular polygon. The vertex count is
+ * the smallest for which no point of the circle lies more than `tolerance`
+ * image px from the polygon (the chord sagitta), with a floor of 8.
+ */
+export function circleToPolygon(
+  circle: CircleGeometry,
+  tolerance: number = DEFAULT_POLYGON_TOLERANCE,
+): PolygonGeometry {
+  const { center, radius } = circle;
+  let segments = MIN_CIRCLE_SEGMENTS;
+  if (tolerance > 0 && tolerance < radius) {
+    segments = Math.max(segments, Math.ceil(Math.PI / Math.acos(1 - tolerance / radius)));
+  }
+  const points: Point[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments;
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  return { type: 'polygon', points };
+}
+
+/**
+ * Approximate an ellipse with an inscribed polygon, honouring `rotation`
+ * (degrees, about `center`). Vertices are evenly spaced in the parametric
+ * angle; the count is the one {@link circleToPolygon} picks for the larger
+ * semi-axis, since squashing that circle onto the ellipse only shrinks the
+ * deviation.
+ */
+export function ellipseToPolygon(
+  ellipse: EllipseGeometry,
+  tolerance: number = DEFAULT_POLYGON_TOLERANCE,
+): PolygonGeometry {
+  const { center, radiusX, radiusY } = ellipse;
+  const maxRadius = Math.max(radiusX, radiusY);
+  let segments = MIN_CIRCLE_SEGMENTS;
+  if (tolerance > 0 && tolerance < maxRadius) {
+    segments = Math.max(segments, Math.ceil(Math.PI / Math.acos(1 - tolerance / maxRadius)));
+  }
+  const theta = (ellipse.rotation * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const points: Point[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t = (2 * Math.PI * i) / segments;
+    const x = radiusX * Math.cos(t);
+    const y = radiusY * Math.sin(t);
+    points.push({ x: center.x + x * cos - y * sin, y: center.y + x * sin + y * cos });
+  }
+  return { type: 'polygon', points };
+}
+
+/**
+ * Build a multi-polygon from unstructured rings (e.g. the subpaths of an SVG
+ * path), following the even-odd rule: a ring nested inside an even number of
+ * other rings is an outer boundary, inside an odd number a hole of the
+ * innermost boundary around it. Rings with fewer than three points are
+ * dropped. Polygons and holes keep the order their rings were given in.
+ */
+export function multiPolygonFromRings(rings: readonly (readonly Point[])[]): MultiPolygonGeometry {
+  const valid = rings.filter((ring) => ring.length >= 3);
+  const containers = valid.map((ring, i) =>
+    valid.flatMap((other, j) => (j !== i && pointInRing(ring[0]!, other) ? [j] : [])),
+  );
+  const depth = (i: number): number => containers[i]!.length;
+
+  const outerIndices = valid.flatMap((_, i) => (depth(i) % 2 === 0 ? [i] : []));
+  const polygons = outerIndices.map((i) => ({
+    outer: valid[i]!,
+    holes: [] as (readonly Point[])[],
+  }));
+  valid.forEach((ring, i) => {
+    if (depth(i) % 2 === 0) return;
+    // The innermost enclosing ring is the one nested exactly one level up.
+    const parent = containers[i]!.find((j) => depth(j) === depth(i) - 1);
+    const polygon = polygons[outerIndices.indexOf(parent ?? -1)];
+    polygon?.holes.push(ring);
+  });
+  return { type: 'multiPolygon', polygons };
+}
+
+/** Even-odd ray cast: whether `p` lies inside the closed `ring`. */
+export function pointInRing(p: Point, ring: readonly Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]!;
+    const b = ring[j]!;
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -1,4 +1,4 @@
-import type { Geometry, Point } from '@osdlabel/annotation';
+import type { Geometry, Point, PolygonWithHoles } from '@osdlabel/annotation';
 
 const DEG_TO_RAD = Math.PI / 180;
 
@@ -12,7 +12,8 @@ export function distance(a: Point, b: Point): number {
 /**
  * Area of a geometry in image-px². Returns `0` for zero-area geometries
  * (points, lines, single-point polylines). Polygon area is the absolute
- * value of the signed shoelace area (so winding direction doesn't matter).
+ * value of the signed shoelace area (so winding direction doesn't matter);
+ * multi-polygons subtract their holes.
  */
 export function area(geometry: Geometry): number {
   switch (geometry.type) {
@@ -20,8 +21,12 @@ export function area(geometry: Geometry): number {
       return geometry.width * geometry.height;
     case 'circle':
       return Math.PI * geometry.radius * geometry.radius;
+    case 'ellipse':
+      return Math.PI * geometry.radiusX * geometry.radiusY;
     case 'polygon':
       return polygonShoelaceArea(geometry.points);
+    case 'multiPolygon':
+      return geometry.polygons.reduce((sum, polygon) => sum + polygonWithHolesArea(polygon), 0);
     case 'line':
     case 'point':
     case 'polyline':
@@ -31,7 +36,10 @@ export function area(geometry: Geometry): number {
 
 /**
  * Closed-perimeter of a geometry in image-px. For open shapes (lines,
- * polylines, points) returns `0` — use {@link length} for those.
+ * polylines, points) returns `0` — use {@link length} for those. Ellipse
+ * perimeter uses Ramanujan's second approximation, exact for circles and
+ * within 0.5% even for very flat ellipses. Multi-polygon perimeter includes
+ * the hole boundaries.
  */
 export function perimeter(geometry: Geometry): number {
   switch (geometry.type) {
@@ -39,8 +47,18 @@ export function perimeter(geometry: Geometry): number {
       return 2 * (geometry.width + geometry.height);
     case 'circle':
       return 2 * Math.PI * geometry.radius;
+    case 'ellipse':
+      return ellipsePerimeter(geometry.radiusX, geometry.radiusY);
     case 'polygon':
       return polygonPerimeter(geometry.points);
+    case 'multiPolygon':
+      return geometry.polygons.reduce(
+        (sum, polygon) =>
+          sum +
+          polygonPerimeter(polygon.outer) +
+          polygon.holes.reduce((holeSum, hole) => holeSum + polygonPerimeter(hole), 0),
+        0,
+      );
     case 'line':
     case 'point':
     case 'polyline':
@@ -50,7 +68,7 @@ export function perimeter(geometry: Geometry): number {
 
 /**
  * Open-curve length of a geometry in image-px. For closed shapes
- * (rectangle, circle, polygon) this equals {@link perimeter}; for points
+ * (rectangle, circle, ellipse, polygon, multi-polygon) this equals {@link perimeter}; for points
  * returns `0`.
  */
 export function length(geometry: Geometry): number {
@@ -61,7 +79,9 @@ export function length(geometry: Geometry): number {
       return polylineLength(geometry.points);
     case 'rectangle':
     case 'circle':
+    case 'ellipse':
     case 'polygon':
+    case 'multiPolygon':
       return perimeter(geometry);
     case 'point':
       return 0;
@@ -76,6 +96,7 @@ export function radius(geometry: Geometry): number | undefined {
 /**
  * Geometric centroid in image-px. For rectangles, accounts for the
  * `rotation` field rotating the rect about its `origin` (top-left).
+ * Multi-polygons average their parts' outer-ring centroids, weighted by area.
  */
 export function centroid(geometry: Geometry): Point {
   switch (geometry.type) {
@@ -91,6 +112,7 @@ export function centroid(geometry: Geometry): Point {
       };
     }
     case 'circle':
+    case 'ellipse':
       return geometry.center;
     case 'line':
       return midpoint(geometry.start, geometry.end);
@@ -99,11 +121,19 @@ export function centroid(geometry: Geometry): Point {
     case 'polyline':
     case 'polygon':
       return pointsCentroid(geometry.points);
+    case 'multiPolygon':
+      return multiPolygonCentroid(geometry.polygons);
   }
 }
 
+/** An axis-aligned box, from its `min` corner to its `max` corner. */
+export interface BoundingBox {
+  readonly min: Point;
+  readonly max: Point;
+}
+
 /** Axis-aligned bounding box in image-px. */
-export function boundingBox(geometry: Geometry): { readonly min: Point; readonly max: Point } {
+export function boundingBox(geometry: Geometry): BoundingBox {
   switch (geometry.type) {
     case 'rectangle':
       return rectangleBoundingBox(
@@ -117,6 +147,13 @@ export function boundingBox(geometry: Geometry): { readonly min: Point; readonly
         min: { x: geometry.center.x - geometry.radius, y: geometry.center.y - geometry.radius },
         max: { x: geometry.center.x + geometry.radius, y: geometry.center.y + geometry.radius },
       };
+    case 'ellipse':
+      return ellipseBoundingBox(
+        geometry.center,
+        geometry.radiusX,
+        geometry.radiusY,
+        geometry.rotation,
+      );
     case 'line':
       return pointsBoundingBox([geometry.start, geometry.end]);
     case 'point':
@@ -124,6 +161,8 @@ export function boundingBox(geometry: Geometry): { readonly min: Point; readonly
     case 'polyline':
     case 'polygon':
       return pointsBoundingBox(geometry.points);
+    case 'multiPolygon':
+      return pointsBoundingBox(geometry.polygons.flatMap((polygon) => polygon.outer));
   }
 }
 
@@ -145,6 +184,11 @@ function polygonShoelaceArea(points: readonly Point[]): number {
   return Math.abs(sum) / 2;
 }
 
+function polygonWithHolesArea(polygon: PolygonWithHoles): number {
+  const holes = polygon.holes.reduce((sum, hole) => sum + polygonShoelaceArea(hole), 0);
+  return Math.max(0, polygonShoelaceArea(polygon.outer) - holes);
+}
+
 function polygonPerimeter(points: readonly Point[]): number {
   if (points.length < 2) return 0;
   let total = 0;
@@ -154,6 +198,10 @@ function polygonPerimeter(points: readonly Point[]): number {
   return total;
 }
 
+function ellipsePerimeter(a: number, b: number): number {
+  return Math.PI * (3 * (a + b) - Math.sqrt((3 * a + b) * (a + 3 * b)));
+}
+
 function polylineLength(points: readonly Point[]): number {
   if (points.length < 2) return 0;
   let total = 0;
@@ -178,7 +226,22 @@ function pointsCentroid(points: readonly Point[]): Point {
   return { x: sx / points.length, y: sy / points.length };
 }
 
-function pointsBoundingBox(points: readonly Point[]): { readonly min: Point; readonly max: Point } {
+function multiPolygonCentroid(polygons: readonly PolygonWithHoles[]): Point {
+  let total = 0;
+  let sx = 0;
+  let sy = 0;
+  for (const polygon of polygons) {
+    const weight = polygonWithHolesArea(polygon);
+    const c = pointsCentroid(polygon.outer);
+    total += weight;
+    sx += c.x * weight;
+    sy += c.y * weight;
+  }
+  if (total === 0) return pointsCentroid(polygons.flatMap((polygon) => polygon.outer));
+  return { x: sx / total, y: sy / total };
+}
+
+function pointsBoundingBox(points: readonly Point[]): BoundingBox {
   if (points.length === 0) {
     return { min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
   }
@@ -200,7 +263,7 @@ function rectangleBoundingBox(
   width: number,
   height: number,
   rotationDeg: number,
-): { readonly min: Point; readonly max: Point } {
+): BoundingBox {
   const theta = rotationDeg * DEG_TO_RAD;
   const cos = Math.cos(theta);
   const sin = Math.sin(theta);
@@ -215,3 +278,21 @@ function rectangleBoundingBox(
   }));
   return pointsBoundingBox(corners);
 }
+
+function ellipseBoundingBox(
+  center: Point,
+  radiusX: number,
+  radiusY: number,
+  rotationDeg: number,
+): BoundingBox {
+  const theta = rotationDeg * DEG_TO_RAD;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  // Half-extents of a rotated ellipse along the image axes.
+  const halfWidth = Math.sqrt(radiusX * radiusX * cos * cos + radiusY * radiusY * sin * sin);
+  const halfHeight = Math.sqrt(radiusX * radiusX * sin * sin + radiusY * radiusY * cos * cos);
+  return {
+    min: { x: center.x - halfWidth, y: center.y - halfHeight },
+    max: { x: center.x + halfWidth, y: center.y + halfHeight },
+  };
+}
@@ -0,0 +1,219 @@
+import type { Geometry, Point } from '@osdlabel/annotation';
+import {
+  circleToPolygon,
+  ellipseToPolygon,
+  pointInRing,
+  rectangleToPolygon,
+} from './geometry-conversion.js';
+import { boundingBox } from './geometry-math.js';
+import type { BoundingBox } from './geometry-math.js';
+
+/** Slack (image px) for floating-point error when comparing against bounds. */
+const BOUNDS_EPSILON = 1e-9;
+
+/**
+ * Whether any two non-adjacent edges of a polygon (each ring of a
+ * multi-polygon on its own) or polyline cross. Edges that only touch or
+ * overlap collinearly do not count. Other geometries never self-intersect.
+ */
+export function isSelfIntersecting(geometry: Geometry): boolean {
+  switch (geometry.type) {
+    case 'polygon':
+      return chainSelfIntersects(geometry.points, true);
+    case 'multiPolygon':
+      return geometry.polygons.some(
+        (polygon) =>
+          chainSelfIntersects(polygon.outer, true) ||
+          polygon.holes.some((hole) => chainSelfIntersects(hole, true)),
+      );
+    case 'polyline':
+      return chainSelfIntersects(geometry.points, false);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether the interiors of two closed shapes (rectangle, circle, ellipse,
+ * polygon, multi-polygon) overlap. Circles and ellipses are approximated
+ * with polygons; shapes that only share an edge do not overlap. Open shapes
+ * and points never overlap anything.
+ */
+export function geometriesOverlap(a: Geometry, b: Geometry): boolean {
+  const ringsA = toRings(a);
+  const ringsB = toRings(b);
+  if (!ringsA || !ringsB) return false;
+  const boxA = boundingBox(a);
+  const boxB = boundingBox(b);
+  if (
+    boxA.max.x <= boxB.min.x ||
+    boxB.max.x <= boxA.min.x ||
+    boxA.max.y <= boxB.min.y ||
+    boxB.max.y <= boxA.min.y
+  ) {
+    return false;
+  }
+  for (const ringA of ringsA) {
+    for (const ringB of ringsB) {
+      if (ringsCross(ringA, ringB)) return true;
+    }
+  }
+  // No edges cross: one shape lies within the other, or they are apart. A
+  // vertex strictly inside the other shape, or a shared interior point (for
+  // identical shapes), settles it.
+  const inBoth = (p: Point) => insideRings(p, ringsA) && insideRings(p, ringsB);
+  return (
+    ringsA.some(
+      (ring) => ring.some((p) => insideRings(p, ringsB)) || inBoth(vertexAverage(ring)),
+    ) ||
+    ringsB.some((ring) => ring.some((p) => insideRings(p, ringsA)) || inBoth(vertexAverage(ring)))
+  );
+}
+
+/** Whether a geometry's bounding box lies within `bounds`. */
+export function isWithinBounds(geometry: Geometry, bounds: BoundingBox): boolean {
+  const box = boundingBox(geometry);
+  return (
+    box.min.x >= bounds.min.x - BOUNDS_EPSILON &&
+    box.min.y >= bounds.min.y - BOUNDS_EPSILON &&
+    box.max.x <= bounds.max.x + BOUNDS_EPSILON &&
+    box.max.y <= bounds.max.y + BOUNDS_EPSILON
+  );
+}
+
+/**
+ * Pull a geometry inside `bounds`. Points, lines and polygon vertices are
+ * clamped one by one and unrotated rectangles are cropped; circles shrink
+ * to fit and, like ellipses and rotated rectangles, are moved inside. A
+ * shape too large to move inside stays partly outside, so check the result
+ * with {@link isWithinBounds}.
+ */
+export function clampGeometry(geometry: Geometry, bounds: BoundingBox): Geometry {
+  const clampPoint = (p: Point): Point => ({
+    x: Math.min(Math.max(p.x, bounds.min.x), bounds.max.x),
+    y: Math.min(Math.max(p.y, bounds.min.y), bounds.max.y),
+  });
+  switch (geometry.type) {
+    case 'point':
+      return { ...geometry, position: clampPoint(geometry.position) };
+    case 'line':
+      return { ...geometry, start: clampPoint(geometry.start), end: clampPoint(geometry.end) };
+    case 'polyline':
+    case 'polygon':
+      return { ...geometry, points: geometry.points.map(clampPoint) };
+    case 'multiPolygon':
+      return {
+        ...geometry,
+        polygons: geometry.polygons.map((polygon) => ({
+          outer: polygon.outer.map(clampPoint),
+          holes: polygon.holes.map((hole) => hole.map(clampPoint)),
+        })),
+      };
+    case 'rectangle': {
+      if (geometry.rotation % 360 !== 0) return translateInside(geometry, bounds);
+      const min = clampPoint(geometry.origin);
+      const max = clampPoint({
+        x: geometry.origin.x + geometry.width,
+        y: geometry.origin.y + geometry.height,
+      });
+      return { ...geometry, origin: min, width: max.x - min.x, height: max.y - min.y };
+    }
+    case 'circle': {
+      const fit = Math.min(bounds.max.x - bounds.min.x, bounds.max.y - bounds.min.y) / 2;
+      return translateInside({ ...geometry, radius: Math.min(geometry.radius, fit) }, bounds);
+    }
+    case 'ellipse':
+      return translateInside(geometry, bounds);
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Moves a geometry the least distance that brings its bounding box inside `bounds`. */
+function translateInside<G extends Geometry & { type: 'rectangle' | 'circle' | 'ellipse' }>(
+  geometry: G,
+  bounds: BoundingBox,
+): G {
+  const box = boundingBox(geometry);
+  const shift = (lo: number, hi: number, min: number, max: number) =>
+    lo < min ? min - lo : hi > max ? max - hi : 0;
+  const dx = shift(box.min.x, box.max.x, bounds.min.x, bounds.max.x);
+  const dy = shift(box.min.y, box.max.y, bounds.min.y, bounds.max.y);
+  if (dx === 0 && dy === 0) return geometry;
+  const move = (p: Point): Point => ({ x: p.x + dx, y: p.y + dy });
+  return 'origin' in geometry
+    ? { ...geometry, origin: move(geometry.origin) }
+    : { ...geometry, center: move(geometry.center) };
+}
+
+/** The boundary rings of a closed shape, or `null` for open shapes and points. */
+function toRings(geometry: Geometry): readonly (readonly Point[])[] | null {
+  switch (geometry.type) {
+    case 'rectangle':
+      return [rectangleToPolygon(geometry).points];
+    case 'circle':
+      return [circleToPolygon(geometry).points];
+    case 'ellipse':
+      return [ellipseToPolygon(geometry).points];
+    case 'polygon':
+      return geometry.points.length >= 3 ? [geometry.points] : null;
+    case 'multiPolygon':
+      return geometry.polygons.flatMap((polygon) => [polygon.outer, ...polygon.holes]);
+    default:
+      return null;
+  }
+}
+
+/** Even-odd rule over several rings, matching how multi-polygons are filled. */
+function insideRings(p: Point, rings: readonly (readonly Point[])[]): boolean {
+  return rings.filter((ring) => pointInRing(p, ring)).length % 2 === 1;
+}
+
+function vertexAverage(ring: readonly Point[]): Point {
+  let sx = 0;
+  let sy = 0;
+  for (const p of ring) {
+    sx += p.x;
+    sy += p.y;
+  }
+  return { x: sx / ring.length, y: sy / ring.length };
+}
+
+function ringsCross(a: readonly Point[], b: readonly Point[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    const a1 = a[i]!;
+    const a2 = a[(i + 1) % a.length]!;
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsCross(a1, a2, b[j]!, b[(j + 1) % b.length]!)) return true;
+    }
+  }
+  return false;
+}
+
+function chainSelfIntersects(points: readonly Point[], closed: boolean): boolean {
+  const n = points.length;
+  const edges = closed ? n : n - 1;
+  for (let i = 0; i < edges; i++) {
+    // Skip the edge itself and its neighbours, which always share a vertex.
+    for (let j = i + 2; j < edges; j++) {
+      if (closed && i === 0 && j === edges - 1) continue;
+      if (segmentsCross(points[i]!, points[(i + 1) % n]!, points[j]!, points[(j + 1) % n]!)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/** Whether segments `ab` and `cd` cross at a single point interior to both. */
+function segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+  const d1 = orientation(a, b, c);
+  const d2 = orientation(a, b, d);
+  const d3 = orientation(c, d, a);
+  const d4 = orientation(c, d, b);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function orientation(a: Point, b: Point, c: Point): number {
+  return Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+}
@@ -0,0 +1,51 @@
+import type { Geometry, Point } from '@osdlabel/annotation';
+
+/** Moves a geometry by `offset` (image px). */
+export function translateGeometry(geometry: Geometry, offset: Point): Geometry {
+  return mapGeometry(geometry, (p) => ({ x: p.x + offset.x, y: p.y + offset.y }), 1);
+}
+
+/**
+ * Scales a geometry by `factor` about the image origin. The scale is uniform
+ * so circles stay circles and rotations are kept.
+ */
+export function scaleGeometry(geometry: Geometry, factor: number): Geometry {
+  return mapGeometry(geometry, (p) => ({ x: p.x * factor, y: p.y * factor }), factor);
+}
+
+/** Maps every anchor point through `move` and multiplies sizes by `scale`. */
+function mapGeometry(geometry: Geometry, move: (p: Point) => Point, scale: number): Geometry {
+  switch (geometry.type) {
+    case 'point':
+      return { ...geometry, position: move(geometry.position) };
+    case 'line':
+      return { ...geometry, start: move(geometry.start), end: move(geometry.end) };
+    case 'polyline':
+    case 'polygon':
+      return { ...geometry, points: geometry.points.map(move) };
+    case 'multiPolygon':
+      return {
+        ...geometry,
+        polygons: geometry.polygons.map((polygon) => ({
+          outer: polygon.outer.map(move),
+          holes: polygon.holes.map((hole) => hole.map(move)),
+        })),
+      };
+    case 'rectangle':
+      return {
+        ...geometry,
+        origin: move(geometry.origin),
+        width: geometry.width * scale,
+        height: geometry.height * scale,
+      };
+    case 'circle':
+      return { ...geometry, center: move(geometry.center), radius: geometry.radius * scale };
+    case 'ellipse':
+      return {
+        ...geometry,
+        center: move(geometry.center),
+        radiusX: geometry.radiusX * scale,
+        radiusY: geometry.radiusY * scale,
+      };
+  }
+}
@@ -8,4 +8,29 @@ export {
   midpoint,
   boundingBox,
 } from './geometry-math.js';
-export { circleToBoundingRectangle } from './geometry-conversion.js';
+export type { BoundingBox } from './geometry-math.js';
+export {
+  circleToBoundingRectangle,
+  rectangleToPolygon,
+  circleToPolygon,
+  ellipseToPolygon,
+  multiPolygonFromRings,
+  DEFAULT_POLYGON_TOLERANCE,
+} from './geometry-conversion.js';
+export {
+  isSelfIntersecting,
+  geometriesOverlap,
+  isWithinBounds,
+  clampGeometry,
+} from './geometry-predicates.js';
+export { translateGeometry, scaleGeometry } from './geometry-transform.js';
+export { RTree, DEFAULT_RTREE_NODE_SIZE } from './rtree.js';
+export { geometryToGeoJson, geoJsonToGeometry } from './geojson.js';
+export type {
+  GeoJsonPosition,
+  GeoJsonPoint,
+  GeoJsonLineString,
+  GeoJsonPolygon,
+  GeoJsonMultiPolygon,
+  GeoJsonGeometry,
+} from './geojson.js';
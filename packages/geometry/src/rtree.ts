@@ -0,0 +1,354 @@
+import type { Point } from '@osdlabel/annotation';
+import type { BoundingBox } from './geometry-math.js';
+
+/** Default node capacity of {@link RTree}. */
+export const DEFAULT_RTREE_NODE_SIZE = 9;
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface Entry<T> extends Box {
+  readonly item: T;
+}
+
+interface Node<T> extends Box {
+  /** 1 for leaves, whose children are entries; one more per level above. */
+  height: number;
+  children: (Node<T> | Entry<T>)[];
+}
+
+/**
+ * A dynamic R-tree over items with bounding boxes: insertions and removals
+ * keep it balanced, and box, point and nearest-neighbour queries visit only
+ * the branches that can match.
+ *
+ * Items are compared by identity. An item inserted twice is stored twice.
+ */
+export class RTree<T> {
+  private readonly _maxEntries: number;
+  private readonly _minEntries: number;
+  private _root: Node<T> = createNode([], 1);
+  private _size = 0;
+
+  constructor(nodeSize: number = DEFAULT_RTREE_NODE_SIZE) {
+    this._maxEntries = Math.max(4, Math.floor(nodeSize));
+    this._minEntries = Math.max(2, Math.ceil(this._maxEntries * 0.4));
+  }
+
+  /** The number of stored items. */
+  get size(): number {
+    return this._size;
+  }
+
+  /** Adds `item` with its bounding box. */
+  insert(item: T, bbox: BoundingBox): void {
+    this._insert({ item, ...toBox(bbox) }, 1);
+    this._size++;
+  }
+
+  /**
+   * Removes `item`, which must have been inserted with `bbox`. Returns
+   * whether it was found.
+   */
+  remove(item: T, bbox: BoundingBox): boolean {
+    const box = toBox(bbox);
+    const path: Node<T>[] = [];
+    const found = this._findEntry(this._root, item, box, path);
+    if (!found) return false;
+    const leaf = path[path.length - 1]!;
+    leaf.children.splice(leaf.children.indexOf(found), 1);
+    this._size--;
+    this._condense(path);
+    return true;
+  }
+
+  /** Removes every item. */
+  clear(): void {
+    this._root = createNode([], 1);
+    this._size = 0;
+  }
+
+  /** Every stored item, in no particular order. */
+  all(): T[] {
+    const items: T[] = [];
+    collect(this._root, items);
+    return items;
+  }
+
+  /** The items whose bounding boxes intersect `bbox` (edges included). */
+  search(bbox: BoundingBox): T[] {
+    const box = toBox(bbox);
+    const items: T[] = [];
+    const stack: Node<T>[] = [this._root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!intersects(node, box)) continue;
+      for (const child of node.children) {
+        if (!intersects(child, box)) continue;
+        if (isEntry(child)) items.push(child.item);
+        else if (contains(box, child)) collect(child, items);
+        else stack.push(child);
+      }
+    }
+    return items;
+  }
+
+  /**
+   * The `count` items whose bounding boxes are closest to `point`, nearest
+   * first. Items whose boxes contain the point are at distance 0. Items
+   * further than `maxDistance` are left out.
+   */
+  nearest(point: Point, count = 1, maxDistance = Infinity): T[] {
+    const items: T[] = [];
+    if (count <= 0) return items;
+    const queue = new MinQueue<Node<T> | Entry<T>>();
+    queue.push(this._root, 0);
+    while (queue.size > 0 && items.length < count) {
+      const { value, priority } = queue.pop()!;
+      if (priority > maxDistance) break;
+      if (isEntry(value)) {
+        items.push(value.item);
+        continue;
+      }
+      for (const child of value.children) {
+        queue.push(child, boxDistance(child, point));
+      }
+    }
+    return items;
+  }
+
+  // ── Insertion ─────────────────────────────────────────────────────────
+
+  /** Inserts an entry, or an orphaned subtree, at the level of `height`. */
+  private _insert(child: Node<T> | Entry<T>, height: number): void {
+    const sibling = this._insertInto(this._root, child, height);
+    if (sibling) {
+      this._root = createNode([this._root, sibling], this._root.height + 1);
+    }
+  }
+
+  /** Returns the new sibling of `node` when it had to split. */
+  private _insertInto(
+    node: Node<T>,
+    child: Node<T> | Entry<T>,
+    height: number,
+  ): Node<T> | undefined {
+    extend(node, child);
+    if (node.height === height) {
+      node.children.push(child);
+    } else {
+      const target = chooseSubtree(node, child);
+      const sibling = this._insertInto(target, child, height);
+      if (sibling) node.children.push(sibling);
+    }
+    return node.children.length > this._maxEntries ? this._split(node) : undefined;
+  }
+
+  /**
+   * Splits an overflowing node in two along the axis its children spread
+   * most on. `node` keeps the first half; the second half is returned.
+   */
+  private _split(node: Node<T>): Node<T> {
+    const spreadX = node.maxX - node.minX;
+    const spreadY = node.maxY - node.minY;
+    node.children.sort(spreadX >= spreadY ? compareCenterX : compareCenterY);
+    const at = Math.max(this._minEntries, Math.floor(node.children.length / 2));
+    const sibling = createNode(node.children.splice(at), node.height);
+    refit(node);
+    return sibling;
+  }
+
+  // ── Removal ───────────────────────────────────────────────────────────
+
+  /** Finds the entry of `item`, pushing the nodes on the way to it onto `path`. */
+  private _findEntry(node: Node<T>, item: T, box: Box, path: Node<T>[]): Entry<T> | undefined {
+    if (!contains(node, box)) return undefined;
+    path.push(node);
+    for (const child of node.children) {
+      if (isEntry(child)) {
+        if (child.item === item) return child;
+      } else {
+        const found = this._findEntry(child, item, box, path);
+        if (found) return found;
+      }
+    }
+    path.pop();
+    return undefined;
+  }
+
+  /**
+   * After a removal, drops underfull nodes along `path` and reinserts their
+   * contents, refits the rest, and shortens the tree if the root has a
+   * single child left.
+   */
+  private _condense(path: Node<T>[]): void {
+    const orphans: Node<T>[] = [];
+    for (let i = path.length - 1; i > 0; i--) {
+      const node = path[i]!;
+      if (node.children.length < this._minEntries) {
+        const parent = path[i - 1]!;
+        parent.children.splice(parent.children.indexOf(node), 1);
+        orphans.push(node);
+      } else {
+        refit(node);
+      }
+    }
+    refit(this._root);
+    for (const orphan of orphans) {
+      for (const child of orphan.children) {
+        this._insert(child, orphan.height);
+      }
+    }
+    while (this._root.height > 1 && this._root.children.length === 1) {
+      this._root = this._root.children[0] as Node<T>;
+    }
+    if (this._root.height > 1 && this._root.children.length === 0) {
+      this._root = createNode([], 1);
+    }
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function createNode<T>(children: (Node<T> | Entry<T>)[], height: number): Node<T> {
+  const node: Node<T> = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+    height,
+    children,
+  };
+  refit(node);
+  return node;
+}
+
+function isEntry<T>(child: Node<T> | Entry<T>): child is Entry<T> {
+  return 'item' in child;
+}
+
+function toBox(bbox: BoundingBox): Box {
+  return { minX: bbox.min.x, minY: bbox.min.y, maxX: bbox.max.x, maxY: bbox.max.y };
+}
+
+function refit<T>(node: Node<T>): void {
+  node.minX = Infinity;
+  node.minY = Infinity;
+  node.maxX = -Infinity;
+  node.maxY = -Infinity;
+  for (const child of node.children) extend(node, child);
+}
+
+function extend(target: Box, box: Box): void {
+  target.minX = Math.min(target.minX, box.minX);
+  target.minY = Math.min(target.minY, box.minY);
+  target.maxX = Math.max(target.maxX, box.maxX);
+  target.maxY = Math.max(target.maxY, box.maxY);
+}
+
+function intersects(a: Box, b: Box): boolean {
+  return b.minX <= a.maxX && b.minY <= a.maxY && b.maxX >= a.minX && b.maxY >= a.minY;
+}
+
+function contains(outer: Box, inner: Box): boolean {
+  return (
+    outer.minX <= inner.minX &&
+    outer.minY <= inner.minY &&
+    inner.maxX <= outer.maxX &&
+    inner.maxY <= outer.maxY
+  );
+}
+
+function area(box: Box): number {
+  return (box.maxX - box.minX) * (box.maxY - box.minY);
+}
+
+function enlargedArea(box: Box, other: Box): number {
+  return (
+    (Math.max(box.maxX, other.maxX) - Math.min(box.minX, other.minX)) *
+    (Math.max(box.maxY, other.maxY) - Math.min(box.minY, other.minY))
+  );
+}
+
+/** The child of `node` that grows least to take `box`; the smaller one on ties. */
+function chooseSubtree<T>(node: Node<T>, box: Box): Node<T> {
+  let best: Node<T> | undefined;
+  let bestGrowth = Infinity;
+  let bestArea = Infinity;
+  for (const child of node.children as Node<T>[]) {
+    const childArea = area(child);
+    const growth = enlargedArea(child, box) - childArea;
+    if (growth < bestGrowth || (growth === bestGrowth && childArea < bestArea)) {
+      best = child;
+      bestGrowth = growth;
+      bestArea = childArea;
+    }
+  }
+  return best!;
+}
+
+function compareCenterX(a: Box, b: Box): number {
+  return a.minX + a.maxX - (b.minX + b.maxX);
+}
+
+function compareCenterY(a: Box, b: Box): number {
+  return a.minY + a.maxY - (b.minY + b.maxY);
+}
+
+function boxDistance(box: Box, point: Point): number {
+  const dx = Math.max(box.minX - point.x, 0, point.x - box.maxX);
+  const dy = Math.max(box.minY - point.y, 0, point.y - box.maxY);
+  return Math.hypot(dx, dy);
+}
+
+function collect<T>(node: Node<T>, items: T[]): void {
+  for (const child of node.children) {
+    if (isEntry(child)) items.push(child.item);
+    else collect(child, items);
+  }
+}
+
+/** A binary min-heap of values by priority. */
+class MinQueue<V> {
+  private readonly _heap: { value: V; priority: number }[] = [];
+
+  get size(): number {
+    return this._heap.length;
+  }
+
+  push(value: V, priority: number): void {
+    const heap = this._heap;
+    heap.push({ value, priority });
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent]!.priority <= priority) break;
+      [heap[i], heap[parent]] = [heap[parent]!, heap[i]!];
+      i = parent;
+    }
+  }
+
+  pop(): { value: V; priority: number } | undefined {
+    const heap = this._heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (!top || !last || heap.length === 0) return top;
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left]!.priority < heap[smallest]!.priority) smallest = left;
+      if (right < heap.length && heap[right]!.priority < heap[smallest]!.priority) smallest = right;
+      if (smallest === i) break;
+      [heap[i], heap[smallest]] = [heap[smallest]!, heap[i]!];
+      i = smallest;
+    }
+    return top;
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import type { Geometry } from '@osdlabel/annotation';
+import { geoJsonToGeometry, geometryToGeoJson } from '../../src/index.js';
+
+describe('geometryToGeoJson', () => {
+  it('maps points, lines and polylines directly', () => {
+    expect(geometryToGeoJson({ type: 'point', position: { x: 1, y: 2 } })).toEqual({
+      type: 'Point',
+      coordinates: [1, 2],
+    });
+    expect(geometryToGeoJson({ type: 'line', start: { x: 0, y: 0 }, end: { x: 3, y: 4 } })).toEqual(
+      {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [3, 4],
+        ],
+      },
+    );
+    expect(
+      geometryToGeoJson({
+        type: 'polyline',
+        points: [
+          { x: 0, y: 0 },
+          { x: 1, y: 1 },
+          { x: 2, y: 0 },
+        ],
+      }).coordinates,
+    ).toHaveLength(3);
+  });
+
+  it('closes polygon rings', () => {
+    const result = geometryToGeoJson({
+      type: 'polygon',
+      points: [
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 4, y: 4 },
+      ],
+    });
+    expect(result).toEqual({
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [4, 0],
+          [4, 4],
+          [0, 0],
+        ],
+      ],
+    });
+  });
+
+  it('polygonises rectangles and circles', () => {
+    const rect = geometryToGeoJson({
+      type: 'rectangle',
+      origin: { x: 0, y: 0 },
+      width: 2,
+      height: 1,
+      rotation: 0,
+    });
+    expect(rect.coordinates).toEqual([
+      [
+        [0, 0],
+        [2, 0],
+        [2, 1],
+        [0, 1],
+        [0, 0],
+      ],
+    ]);
+
+    const coarse = geometryToGeoJson({ type: 'circle', center: { x: 0, y: 0 }, radius: 100 }, 10);
+    const fine = geometryToGeoJson({ type: 'circle', center: { x: 0, y: 0 }, radius: 100 }, 0.1);
+    expect(fine.coordinates[0]!.length).toBeGreaterThan(coarse.coordinates[0]!.length);
+  });
+
+  it('polygonises ellipses into a closed ring', () => {
+    const ellipse = geometryToGeoJson({
+      type: 'ellipse',
+      center: { x: 0, y: 0 },
+      radiusX: 10,
+      radiusY: 5,
+      rotation: 0,
+    });
+    expect(ellipse.type).toBe('Polygon');
+    const ring = ellipse.coordinates[0]!;
+    expect(ring[0]).toEqual([10, 0]);
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+  });
+});
+
+describe('geoJsonToGeometry', () => {
+  it('round-trips point, line, polyline and polygon geometries', () => {
+    const geometries: Geometry[] = [
+      { type: 'point', position: { x: 1, y: 2 } },
+      { type: 'line', start: { x: 0, y: 0 }, end: { x: 3, y: 4 } },
+      {
+        type: 'polyline',
+        points: [
+          { x: 0, y: 0 },
+          { x: 1, y: 1 },
+          { x: 2, y: 0 },
+        ],
+      },
+      {
+        type: 'polygon',
+        points: [
+          { x: 0, y: 0 },
+          { x: 4, y: 0 },
+          { x: 4, y: 4 },
+        ],
+      },
+    ];
+    for (const geometry of geometries) {
+      expect(geoJsonToGeometry(geometryToGeoJson(geometry))).toEqual(geometry);
+    }
+  });
+
+  it('reads a polygon with holes as a multi-polygon', () => {
+    const result = geoJsonToGeometry({
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 0],
+        ],
+        [
+          [2, 2],
+          [3, 2],
+          [3, 3],
+          [2, 2],
+        ],
+      ],
+    });
+    expect(result).toEqual({
+      type: 'multiPolygon',
+      polygons: [
+        {
+          outer: [
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 10 },
+          ],
+          holes: [
+            [
+              { x: 2, y: 2 },
+              { x: 3, y: 2 },
+              { x: 3, y: 3 },
+            ],
+          ],
+        },
+      ],
+    });
+  });
+
+  it('round-trips multi-polygons as Polygon or MultiPolygon', () => {
+    const outer = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+    ];
+    const hole = [
+      { x: 6, y: 2 },
+      { x: 8, y: 2 },
+      { x: 8, y: 4 },
+    ];
+    const single: Geometry = { type: 'multiPolygon', polygons: [{ outer, holes: [hole] }] };
+    const multiple: Geometry = {
+      type: 'multiPolygon',
+      polygons: [
+        { outer, holes: [hole] },
+        { outer: outer.map((p) => ({ x: p.x + 20, y: p.y })), holes: [] },
+      ],
+    };
+
+    expect(geometryToGeoJson(single).type).toBe('Polygon');
+    expect(geometryToGeoJson(multiple).type).toBe('MultiPolygon');
+    expect(geoJsonToGeometry(geometryToGeoJson(single))).toEqual(single);
+    expect(geoJsonToGeometry(geometryToGeoJson(multiple))).toEqual(multiple);
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, expect, it } from 'vitest';
-import type { CircleGeometry } from '@osdlabel/annotation';
-import { boundingBox, circleToBoundingRectangle } from '../../src/index.js';
+import type { CircleGeometry, EllipseGeometry, RectangleGeometry } from '@osdlabel/annotation';
+import {
+  boundingBox,
+  circleToBoundingRectangle,
+  circleToPolygon,
+  ellipseToPolygon,
+  multiPolygonFromRings,
+  rectangleToPolygon,
+} from '../../src/index.js';
 
 describe('circleToBoundingRectangle', () => {
   it('produces an axis-aligned rectangle spanning the circle diameter', () => {
@@ -31,3 +38,137 @@ describe('circleToBoundingRectangle', () => {
     expect(rect.height).toBe(0);
   });
 });
+
+describe('rectangleToPolygon', () => {
+  it('returns the four corners of an axis-aligned rectangle', () => {
+    const rect: RectangleGeometry = {
+      type: 'rectangle',
+      origin: { x: 1, y: 2 },
+      width: 10,
+      height: 4,
+      rotation: 0,
+    };
+    expect(rectangleToPolygon(rect).points).toEqual([
+      { x: 1, y: 2 },
+      { x: 11, y: 2 },
+      { x: 11, y: 6 },
+      { x: 1, y: 6 },
+    ]);
+  });
+
+  it('rotates the corners about the origin', () => {
+    const rect: RectangleGeometry = {
+      type: 'rectangle',
+      origin: { x: 0, y: 0 },
+      width: 10,
+      height: 5,
+      rotation: 90,
+    };
+    const [a, b, c, d] = rectangleToPolygon(rect).points;
+    expect(a).toEqual({ x: 0, y: 0 });
+    expect(b!.x).toBeCloseTo(0);
+    expect(b!.y).toBeCloseTo(10);
+    expect(c!.x).toBeCloseTo(-5);
+    expect(c!.y).toBeCloseTo(10);
+    expect(d!.x).toBeCloseTo(-5);
+    expect(d!.y).toBeCloseTo(0);
+  });
+});
+
+describe('circleToPolygon', () => {
+  const circle: CircleGeometry = { type: 'circle', center: { x: 50, y: 50 }, radius: 100 };
+
+  it('keeps every vertex on the circle', () => {
+    for (const p of circleToPolygon(circle).points) {
+      expect(Math.hypot(p.x - 50, p.y - 50)).toBeCloseTo(100);
+    }
+  });
+
+  it('stays within the tolerance of the true circle', () => {
+    for (const tolerance of [0.1, 1, 5]) {
+      const n = circleToPolygon(circle, tolerance).points.length;
+      const sagitta = 100 * (1 - Math.cos(Math.PI / n));
+      expect(sagitta).toBeLessThanOrEqual(tolerance);
+    }
+  });
+
+  it('uses fewer vertices for a coarser tolerance, with a floor of 8', () => {
+    const fine = circleToPolygon(circle, 0.1).points.length;
+    const coarse = circleToPolygon(circle, 5).points.length;
+    expect(coarse).toBeLessThan(fine);
+    expect(circleToPolygon(circle, 1000).points).toHaveLength(8);
+  });
+});
+
+describe('ellipseToPolygon', () => {
+  const ellipse: EllipseGeometry = {
+    type: 'ellipse',
+    center: { x: 50, y: 50 },
+    radiusX: 100,
+    radiusY: 40,
+    rotation: 30,
+  };
+
+  it('keeps every vertex on the rotated ellipse', () => {
+    const theta = (30 * Math.PI) / 180;
+    for (const p of ellipseToPolygon(ellipse).points) {
+      // Rotate back into the ellipse's own frame.
+      const dx = p.x - 50;
+      const dy = p.y - 50;
+      const x = dx * Math.cos(theta) + dy * Math.sin(theta);
+      const y = -dx * Math.sin(theta) + dy * Math.cos(theta);
+      expect((x / 100) ** 2 + (y / 40) ** 2).toBeCloseTo(1);
+    }
+  });
+
+  it('uses as many vertices as a circle of the larger semi-axis', () => {
+    const circle: CircleGeometry = { type: 'circle', center: { x: 0, y: 0 }, radius: 100 };
+    expect(ellipseToPolygon(ellipse, 1).points).toHaveLength(
+      circleToPolygon(circle, 1).points.length,
+    );
+  });
+
+  it('stays inside the bounding box', () => {
+    const { min, max } = boundingBox(ellipse);
+    for (const p of ellipseToPolygon(ellipse).points) {
+      expect(p.x).toBeGreaterThanOrEqual(min.x - 1e-9);
+      expect(p.y).toBeGreaterThanOrEqual(min.y - 1e-9);
+      expect(p.x).toBeLessThanOrEqual(max.x + 1e-9);
+      expect(p.y).toBeLessThanOrEqual(max.y + 1e-9);
+    }
+  });
+});
+
+describe('multiPolygonFromRings', () => {
+  const square = (x: number, y: number, size: number) => [
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ];
+
+  it('nests rings by the even-odd rule', () => {
+    const outer = square(0, 0, 100);
+    const hole = square(10, 10, 50);
+    const islandInHole = square(20, 20, 10);
+    const separate = square(200, 0, 10);
+    const result = multiPolygonFromRings([outer, hole, islandInHole, separate]);
+
+    expect(result.polygons).toEqual([
+      { outer, holes: [hole] },
+      { outer: islandInHole, holes: [] },
+      { outer: separate, holes: [] },
+    ]);
+  });
+
+  it('drops rings with fewer than three points', () => {
+    const result = multiPolygonFromRings([
+      [
+        { x: 0, y: 0 },
+        { x: 1, y: 1 },
+      ],
+      square(0, 0, 10),
+    ]);
+    expect(result.polygons).toHaveLength(1);
+  });
+});
@@ -11,6 +11,38 @@ import {
   radius,
 } from '../../src/geometry-math.js';
 
+/** A 10×10 square with a 2×2 hole, plus a separate 4×4 island. */
+const donutAndIsland: Geometry = {
+  type: 'multiPolygon',
+  polygons: [
+    {
+      outer: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ],
+      holes: [
+        [
+          { x: 4, y: 4 },
+          { x: 6, y: 4 },
+          { x: 6, y: 6 },
+          { x: 4, y: 6 },
+        ],
+      ],
+    },
+    {
+      outer: [
+        { x: 20, y: 0 },
+        { x: 24, y: 0 },
+        { x: 24, y: 4 },
+        { x: 20, y: 4 },
+      ],
+      holes: [],
+    },
+  ],
+};
+
 describe('distance', () => {
   it('returns the Euclidean distance between two points', () => {
     expect(distance({ x: 0, y: 0 }, { x: 3, y: 4 })).toBe(5);
@@ -60,6 +92,16 @@ describe('area', () => {
     const g: Geometry = { type: 'circle', center: { x: 0, y: 0 }, radius: 5 };
     expect(area(g)).toBeCloseTo(Math.PI * 25);
   });
+  it('ellipse: π·a·b, independent of rotation', () => {
+    const g: Geometry = {
+      type: 'ellipse',
+      center: { x: 0, y: 0 },
+      radiusX: 5,
+      radiusY: 2,
+      rotation: 30,
+    };
+    expect(area(g)).toBeCloseTo(Math.PI * 10);
+  });
   it('polygon: shoelace area (square)', () => {
     const g: Geometry = {
       type: 'polygon',
@@ -88,6 +130,10 @@ describe('area', () => {
     };
     expect(area(cw)).toBe(area(ccw));
   });
+  it('multiPolygon: outer areas minus holes', () => {
+    expect(area(donutAndIsland)).toBe(100 - 4 + 16);
+  });
+
   it('line / point / polyline area is 0', () => {
     expect(area({ type: 'line', start: { x: 0, y: 0 }, end: { x: 3, y: 4 } })).toBe(0);
     expect(area({ type: 'point', position: { x: 1, y: 2 } })).toBe(0);
@@ -114,6 +160,18 @@ describe('perimeter', () => {
       2 * Math.PI * 5,
     );
   });
+  it('ellipse: Ramanujan approximation, exact for circles', () => {
+    const ellipse = (radiusX: number, radiusY: number): Geometry => ({
+      type: 'ellipse',
+      center: { x: 0, y: 0 },
+      radiusX,
+      radiusY,
+      rotation: 0,
+    });
+    expect(perimeter(ellipse(5, 5))).toBeCloseTo(2 * Math.PI * 5);
+    // Exact perimeter of a 10×5 semi-axis ellipse is 48.4422...
+    expect(perimeter(ellipse(10, 5))).toBeCloseTo(48.4422, 3);
+  });
   it('polygon: sum of edge lengths (including closing edge)', () => {
     expect(
       perimeter({
@@ -127,6 +185,9 @@ describe('perimeter', () => {
       }),
     ).toBe(14);
   });
+  it('multiPolygon: outer and hole boundaries together', () => {
+    expect(perimeter(donutAndIsland)).toBe(40 + 8 + 16);
+  });
   it('open shapes return 0', () => {
     expect(perimeter({ type: 'line', start: { x: 0, y: 0 }, end: { x: 1, y: 1 } })).toBe(0);
     expect(
@@ -211,6 +272,11 @@ describe('centroid', () => {
   it('circle: center', () => {
     expect(centroid({ type: 'circle', center: { x: 3, y: 4 }, radius: 7 })).toEqual({ x: 3, y: 4 });
   });
+  it('ellipse: center', () => {
+    expect(
+      centroid({ type: 'ellipse', center: { x: 3, y: 4 }, radiusX: 7, radiusY: 2, rotation: 45 }),
+    ).toEqual({ x: 3, y: 4 });
+  });
   it('line: midpoint', () => {
     expect(centroid({ type: 'line', start: { x: 0, y: 0 }, end: { x: 6, y: 0 } })).toEqual({
       x: 3,
@@ -230,6 +296,12 @@ describe('centroid', () => {
       }),
     ).toEqual({ x: 2, y: 2 });
   });
+  it('multiPolygon: outer-ring centroids weighted by area', () => {
+    // (96 · (5, 5) + 16 · (22, 2)) / 112
+    const c = centroid(donutAndIsland);
+    expect(c.x).toBeCloseTo((96 * 5 + 16 * 22) / 112);
+    expect(c.y).toBeCloseTo((96 * 5 + 16 * 2) / 112);
+  });
 });
 
 describe('boundingBox', () => {
@@ -244,6 +316,19 @@ describe('boundingBox', () => {
       max: { x: 7, y: 7 },
     });
   });
+  it('ellipse: semi-axes swap extents at 90° rotation', () => {
+    const box = boundingBox({
+      type: 'ellipse',
+      center: { x: 10, y: 10 },
+      radiusX: 4,
+      radiusY: 2,
+      rotation: 90,
+    });
+    expect(box.min.x).toBeCloseTo(8);
+    expect(box.min.y).toBeCloseTo(6);
+    expect(box.max.x).toBeCloseTo(12);
+    expect(box.max.y).toBeCloseTo(14);
+  });
   it('polyline covers all points', () => {
     expect(
       boundingBox({
@@ -256,4 +341,7 @@ describe('boundingBox', () => {
       }),
     ).toEqual({ min: { x: -1, y: -3 }, max: { x: 7, y: 4 } });
   });
+  it('multiPolygon covers every outer ring', () => {
+    expect(boundingBox(donutAndIsland)).toEqual({ min: { x: 0, y: 0 }, max: { x: 24, y: 10 } });
+  });
 });
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import type { Geometry, Point } from '@osdlabel/annotation';
+import {
+  clampGeometry,
+  geometriesOverlap,
+  isSelfIntersecting,
+  isWithinBounds,
+} from '../../src/index.js';
+
+const square = (x: number, y: number, size: number): Geometry => ({
+  type: 'polygon',
+  points: [
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ],
+});
+
+const bounds = { min: { x: 0, y: 0 }, max: { x: 100, y: 100 } };
+
+describe('isSelfIntersecting', () => {
+  it('accepts a simple polygon and rejects a bow-tie', () => {
+    expect(isSelfIntersecting(square(0, 0, 10))).toBe(false);
+    const bowTie: Point[] = [
+      { x: 0, y: 0 },
+      { x: 10, y: 10 },
+      { x: 10, y: 0 },
+      { x: 0, y: 10 },
+    ];
+    expect(isSelfIntersecting({ type: 'polygon', points: bowTie })).toBe(true);
+  });
+
+  it('treats polylines as open chains', () => {
+    const zigzag: Point[] = [
+      { x: 0, y: 0 },
+      { x: 10, y: 10 },
+      { x: 10, y: 0 },
+      { x: 0, y: 10 },
+    ];
+    // Closing this chain would cross; the open chain's first and last edges do too.
+    expect(isSelfIntersecting({ type: 'polyline', points: zigzag })).toBe(true);
+    expect(isSelfIntersecting({ type: 'polyline', points: zigzag.slice(0, 3) })).toBe(false);
+  });
+
+  it('checks each multi-polygon ring on its own', () => {
+    const outer = [
+      { x: 0, y: 0 },
+      { x: 20, y: 0 },
+      { x: 20, y: 20 },
+      { x: 0, y: 20 },
+    ];
+    const hole = [
+      { x: 5, y: 5 },
+      { x: 15, y: 5 },
+      { x: 15, y: 15 },
+      { x: 5, y: 15 },
+    ];
+    expect(isSelfIntersecting({ type: 'multiPolygon', polygons: [{ outer, holes: [hole] }] })).toBe(
+      false,
+    );
+    const twistedHole = [hole[0]!, hole[2]!, hole[1]!, hole[3]!];
+    expect(
+      isSelfIntersecting({ type: 'multiPolygon', polygons: [{ outer, holes: [twistedHole] }] }),
+    ).toBe(true);
+  });
+});
+
+describe('geometriesOverlap', () => {
+  it('detects crossing edges and containment', () => {
+    expect(geometriesOverlap(square(0, 0, 10), square(5, 5, 10))).toBe(true);
+    expect(geometriesOverlap(square(0, 0, 10), square(2, 2, 2))).toBe(true);
+    expect(geometriesOverlap(square(2, 2, 2), square(0, 0, 10))).toBe(true);
+    expect(geometriesOverlap(square(0, 0, 10), square(0, 0, 10))).toBe(true);
+  });
+
+  it('does not count shapes that are apart or only share an edge', () => {
+    expect(geometriesOverlap(square(0, 0, 10), square(20, 0, 10))).toBe(false);
+    expect(geometriesOverlap(square(0, 0, 10), square(10, 0, 10))).toBe(false);
+  });
+
+  it('handles circles, rectangles and holes', () => {
+    const circle: Geometry = { type: 'circle', center: { x: 50, y: 50 }, radius: 10 };
+    const rect: Geometry = {
+      type: 'rectangle',
+      origin: { x: 55, y: 55 },
+      width: 20,
+      height: 20,
+      rotation: 0,
+    };
+    expect(geometriesOverlap(circle, rect)).toBe(true);
+    const ring: Geometry = {
+      type: 'multiPolygon',
+      polygons: [
+        {
+          outer: (square(0, 0, 100) as { points: Point[] }).points,
+          holes: [(square(30, 30, 40) as { points: Point[] }).points],
+        },
+      ],
+    };
+    expect(geometriesOverlap(ring, square(40, 40, 10))).toBe(false);
+    expect(geometriesOverlap(ring, square(10, 10, 10))).toBe(true);
+  });
+
+  it('never reports open shapes as overlapping', () => {
+    const line: Geometry = { type: 'line', start: { x: 0, y: 0 }, end: { x: 10, y: 10 } };
+    expect(geometriesOverlap(line, square(0, 0, 10))).toBe(false);
+  });
+});
+
+describe('clampGeometry', () => {
+  it('clamps vertices and crops unrotated rectangles', () => {
+    const line: Geometry = { type: 'line', start: { x: -5, y: 50 }, end: { x: 120, y: 50 } };
+    expect(clampGeometry(line, bounds)).toEqual({
+      type: 'line',
+      start: { x: 0, y: 50 },
+      end: { x: 100, y: 50 },
+    });
+    const rect: Geometry = {
+      type: 'rectangle',
+      origin: { x: 90, y: -10 },
+      width: 20,
+      height: 30,
+      rotation: 0,
+    };
+    expect(clampGeometry(rect, bounds)).toEqual({
+      type: 'rectangle',
+      origin: { x: 90, y: 0 },
+      width: 10,
+      height: 20,
+      rotation: 0,
+    });
+  });
+
+  it('moves circles and rotated rectangles inside without resizing', () => {
+    const circle: Geometry = { type: 'circle', center: { x: 95, y: 50 }, radius: 10 };
+    expect(clampGeometry(circle, bounds)).toEqual({ ...circle, center: { x: 90, y: 50 } });
+    const rotated: Geometry = {
+      type: 'rectangle',
+      origin: { x: 95, y: 50 },
+      width: 10,
+      height: 10,
+      rotation: 45,
+    };
+    const clamped = clampGeometry(rotated, bounds);
+    expect(isWithinBounds(rotated, bounds)).toBe(false);
+    expect(isWithinBounds(clamped, bounds)).toBe(true);
+    expect(clamped).toMatchObject({ width: 10, height: 10, rotation: 45 });
+  });
+
+  it('shrinks circles larger than the bounds', () => {
+    const circle: Geometry = { type: 'circle', center: { x: 50, y: 50 }, radius: 80 };
+    expect(clampGeometry(circle, bounds)).toEqual({ ...circle, radius: 50 });
+  });
+
+  it('leaves shapes inside the bounds untouched', () => {
+    const ellipse: Geometry = {
+      type: 'ellipse',
+      center: { x: 50, y: 50 },
+      radiusX: 10,
+      radiusY: 5,
+      rotation: 30,
+    };
+    expect(clampGeometry(ellipse, bounds)).toEqual(ellipse);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Geometry } from '@osdlabel/annotation';
+import { scaleGeometry, translateGeometry } from '../../src/index.js';
+
+describe('translateGeometry', () => {
+  it('moves anchor points and keeps sizes', () => {
+    const rect: Geometry = {
+      type: 'rectangle',
+      origin: { x: 10, y: 20 },
+      width: 30,
+      height: 40,
+      rotation: 15,
+    };
+    expect(translateGeometry(rect, { x: 5, y: -5 })).toEqual({ ...rect, origin: { x: 15, y: 15 } });
+    const polygon: Geometry = {
+      type: 'polygon',
+      points: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 0, y: 10 },
+      ],
+    };
+    expect(translateGeometry(polygon, { x: 1, y: 2 })).toEqual({
+      type: 'polygon',
+      points: [
+        { x: 1, y: 2 },
+        { x: 11, y: 2 },
+        { x: 1, y: 12 },
+      ],
+    });
+  });
+});
+
+describe('scaleGeometry', () => {
+  it('scales positions and sizes about the origin', () => {
+    const circle: Geometry = { type: 'circle', center: { x: 10, y: 20 }, radius: 5 };
+    expect(scaleGeometry(circle, 2)).toEqual({
+      type: 'circle',
+      center: { x: 20, y: 40 },
+      radius: 10,
+    });
+    const ellipse: Geometry = {
+      type: 'ellipse',
+      center: { x: 10, y: 10 },
+      radiusX: 4,
+      radiusY: 2,
+      rotation: 30,
+    };
+    expect(scaleGeometry(ellipse, 0.5)).toEqual({
+      ...ellipse,
+      center: { x: 5, y: 5 },
+      radiusX: 2,
+      radiusY: 1,
+    });
+  });
+
+  it('scales every multi-polygon ring', () => {
+    const ring = [
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 4, y: 4 },
+    ];
+    const scaled = scaleGeometry(
+      { type: 'multiPolygon', polygons: [{ outer: ring, holes: [ring] }] },
+      3,
+    );
+    expect(scaled).toEqual({
+      type: 'multiPolygon',
+      polygons: [
+        {
+          outer: ring.map((p) => ({ x: p.x * 3, y: p.y * 3 })),
+          holes: [ring.map((p) => ({ x: p.x * 3, y: p.y * 3 }))],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Point } from '@osdlabel/annotation';
+import { RTree } from '../../src/index.js';
+import type { BoundingBox } from '../../src/index.js';
+
+/** A deterministic pseudo-random generator, so failures reproduce. */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function randomBoxes(count: number, seed = 1): BoundingBox[] {
+  const next = random(seed);
+  return Array.from({ length: count }, () => {
+    const x = next() * 1000;
+    const y = next() * 1000;
+    return { min: { x, y }, max: { x: x + next() * 20, y: y + next() * 20 } };
+  });
+}
+
+function overlaps(a: BoundingBox, b: BoundingBox): boolean {
+  return a.min.x <= b.max.x && a.min.y <= b.max.y && a.max.x >= b.min.x && a.max.y >= b.min.y;
+}
+
+function distanceTo(box: BoundingBox, p: Point): number {
+  const dx = Math.max(box.min.x - p.x, 0, p.x - box.max.x);
+  const dy = Math.max(box.min.y - p.y, 0, p.y - box.max.y);
+  return Math.hypot(dx, dy);
+}
+
+const sorted = (items: number[]) => [...items].sort((a, b) => a - b);
+
+describe('RTree', () => {
+  const boxes = randomBoxes(500);
+  const tree = new RTree<number>();
+  boxes.forEach((box, i) => tree.insert(i, box));
+
+  it('finds exactly the boxes a query overlaps', () => {
+    const query: BoundingBox = { min: { x: 200, y: 300 }, max: { x: 450, y: 420 } };
+    const expected = boxes.flatMap((box, i) => (overlaps(box, query) ? [i] : []));
+    expect(expected.length).toBeGreaterThan(0);
+    expect(sorted(tree.search(query))).toEqual(expected);
+    expect(tree.size).toBe(500);
+    expect(sorted(tree.all())).toEqual(boxes.map((_, i) => i));
+  });
+
+  it('finds the nearest boxes in order', () => {
+    const p = { x: 512, y: 256 };
+    const expected = boxes
+      .map((box, i) => ({ i, d: distanceTo(box, p) }))
+      .sort((a, b) => a.d - b.d)
+      .slice(0, 5);
+    const nearest = tree.nearest(p, 5);
+    expect(nearest.map((i) => distanceTo(boxes[i]!, p))).toEqual(expected.map((e) => e.d));
+    expect(tree.nearest(p, 5, 0)).toEqual(expected.filter((e) => e.d === 0).map((e) => e.i));
+  });
+
+  it('stays correct through removals', () => {
+    const removable = new RTree<number>(4);
+    boxes.forEach((box, i) => removable.insert(i, box));
+    for (let i = 0; i < boxes.length; i += 2) {
+      expect(removable.remove(i, boxes[i]!)).toBe(true);
+    }
+    expect(removable.remove(0, boxes[0]!)).toBe(false);
+    expect(removable.size).toBe(250);
+
+    const everything: BoundingBox = { min: { x: -1, y: -1 }, max: { x: 2000, y: 2000 } };
+    expect(sorted(removable.search(everything))).toEqual(
+      boxes.flatMap((_, i) => (i % 2 === 1 ? [i] : [])),
+    );
+
+    for (let i = 1; i < boxes.length; i += 2) removable.remove(i, boxes[i]!);
+    expect(removable.size).toBe(0);
+    expect(removable.search(everything)).toEqual([]);
+    removable.insert(7, boxes[7]!);
+    expect(removable.nearest({ x: 0, y: 0 })).toEqual([7]);
+  });
+
+  it('indexes points as zero-size boxes', () => {
+    const points = new RTree<string>();
+    points.insert('a', { min: { x: 5, y: 5 }, max: { x: 5, y: 5 } });
+    expect(points.search({ min: { x: 5, y: 5 }, max: { x: 5, y: 5 } })).toEqual(['a']);
+    points.clear();
+    expect(points.size).toBe(0);
+  });
+});
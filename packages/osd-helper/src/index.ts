@@ -1 +1,3 @@
 export { openImage } from './open-image.js';
+export { ViewLinkGroup, captureLinkedView, applyLinkedView } from './view-link.js';
+export type { LinkedView } from './view-link.js';
@@ -0,0 +1,98 @@
+import type OpenSeadragon from 'openseadragon';
+import type { Point } from '@osdlabel/annotation';
+import type { ViewLinkMode } from '@osdlabel/viewer-api';
+
+/**
+ * A viewer's current view, independent of the viewer: the center and zoom in
+ * image pixels (`'image'` mode), or as fractions of the image size and of the
+ * home zoom (`'relative'` mode).
+ */
+export interface LinkedView {
+  readonly mode: ViewLinkMode;
+  readonly center: Point;
+  readonly zoom: number;
+}
+
+/**
+ * Reads the view of `viewer`'s first image, as it is on screen right now
+ * (mid-animation included). Returns `null` until an image is open.
+ */
+export function captureLinkedView(
+  viewer: OpenSeadragon.Viewer,
+  mode: ViewLinkMode,
+): LinkedView | null {
+  const item = viewer.world.getItemAt(0);
+  if (!item) return null;
+  const viewport = viewer.viewport;
+  const center = item.viewportToImageCoordinates(viewport.getCenter(true), true);
+  const zoom = viewport.getZoom(true);
+  if (mode === 'image') {
+    return { mode, center: { x: center.x, y: center.y }, zoom: item.viewportToImageZoom(zoom) };
+  }
+  const size = item.getContentSize();
+  return {
+    mode,
+    center: { x: center.x / size.x, y: center.y / size.y },
+    zoom: zoom / viewport.getHomeZoom(),
+  };
+}
+
+/**
+ * Moves `viewer` to a view captured from another viewer, without animating.
+ * Rotation and flip are left alone; they come from each cell's transform.
+ * Does nothing until an image is open.
+ */
+export function applyLinkedView(viewer: OpenSeadragon.Viewer, view: LinkedView): void {
+  const item = viewer.world.getItemAt(0);
+  if (!item) return;
+  const viewport = viewer.viewport;
+  if (view.mode === 'image') {
+    viewport.zoomTo(item.imageToViewportZoom(view.zoom), undefined, true);
+    viewport.panTo(item.imageToViewportCoordinates(view.center.x, view.center.y, true), true);
+  } else {
+    const size = item.getContentSize();
+    viewport.zoomTo(view.zoom * viewport.getHomeZoom(), undefined, true);
+    viewport.panTo(
+      item.imageToViewportCoordinates(view.center.x * size.x, view.center.y * size.y, true),
+      true,
+    );
+  }
+}
+
+/**
+ * The viewers of a grid, by cell index, whose views can be linked. Each
+ * cell registers its viewer; the active cell calls {@link ViewLinkGroup.follow}
+ * whenever its viewport changes.
+ */
+export class ViewLinkGroup {
+  private readonly _viewers = new Map<number, OpenSeadragon.Viewer>();
+  private _following = false;
+
+  /** Adds a cell's viewer. Returns a function that removes it again. */
+  register(cellIndex: number, viewer: OpenSeadragon.Viewer): () => void {
+    this._viewers.set(cellIndex, viewer);
+    return () => {
+      if (this._viewers.get(cellIndex) === viewer) this._viewers.delete(cellIndex);
+    };
+  }
+
+  /**
+   * Moves the viewers of `targetCells` to the view of `sourceCell`. Viewport
+   * changes caused by following do not start another round.
+   */
+  follow(sourceCell: number, targetCells: readonly number[], mode: ViewLinkMode): void {
+    const source = this._viewers.get(sourceCell);
+    if (!source || this._following) return;
+    const view = captureLinkedView(source, mode);
+    if (!view) return;
+    this._following = true;
+    try {
+      for (const cellIndex of targetCells) {
+        const target = this._viewers.get(cellIndex);
+        if (cellIndex !== sourceCell && target) applyLinkedView(target, view);
+      }
+    } finally {
+      this._following = false;
+    }
+  }
+}
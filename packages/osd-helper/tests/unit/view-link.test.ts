@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import type OpenSeadragon from 'openseadragon';
+import { ViewLinkGroup, applyLinkedView, captureLinkedView } from '../../src/view-link.js';
+
+/**
+ * A viewer showing one image of `width` x `height` px, placed at viewport
+ * x 0..1 as OpenSeadragon does, with a home zoom of 1.
+ */
+function createMockViewer(width: number, height: number, center = { x: 0.5, y: 0.5 }, zoom = 1) {
+  const state = { center, zoom };
+  const item = {
+    getContentSize: () => ({ x: width, y: height }),
+    viewportToImageCoordinates: (p: { x: number; y: number }) => ({
+      x: p.x * width,
+      y: p.y * width,
+    }),
+    imageToViewportCoordinates: (x: number, y: number) => ({ x: x / width, y: y / width }),
+    viewportToImageZoom: (z: number) => z / width,
+    imageToViewportZoom: (z: number) => z * width,
+  };
+  const viewport = {
+    getCenter: () => state.center,
+    getZoom: () => state.zoom,
+    getHomeZoom: () => 1,
+    zoomTo: vi.fn((z: number) => {
+      state.zoom = z;
+    }),
+    panTo: vi.fn((p: { x: number; y: number }) => {
+      state.center = p;
+    }),
+  };
+  const viewer = {
+    world: { getItemAt: (i: number) => (i === 0 ? item : undefined) },
+    viewport,
+  } as unknown as OpenSeadragon.Viewer;
+  return { viewer, viewport, state };
+}
+
+describe('captureLinkedView / applyLinkedView', () => {
+  it('matches image pixels in image mode', () => {
+    const source = createMockViewer(1000, 800, { x: 0.25, y: 0.2 }, 2);
+    const view = captureLinkedView(source.viewer, 'image')!;
+    expect(view).toEqual({ mode: 'image', center: { x: 250, y: 200 }, zoom: 0.002 });
+
+    const target = createMockViewer(500, 400);
+    applyLinkedView(target.viewer, view);
+    expect(target.state.zoom).toBeCloseTo(1);
+    expect(target.state.center).toEqual({ x: 0.5, y: 0.4 });
+    expect(target.viewport.panTo).toHaveBeenCalledWith(expect.anything(), true);
+  });
+
+  it('matches the normalized view in relative mode', () => {
+    const source = createMockViewer(1000, 800, { x: 0.25, y: 0.2 }, 2);
+    const view = captureLinkedView(source.viewer, 'relative')!;
+    expect(view).toEqual({ mode: 'relative', center: { x: 0.25, y: 0.25 }, zoom: 2 });
+
+    const target = createMockViewer(500, 400);
+    applyLinkedView(target.viewer, view);
+    expect(target.state.zoom).toBe(2);
+    expect(target.state.center).toEqual({ x: 0.25, y: 0.2 });
+  });
+
+  it('does nothing before an image is open', () => {
+    const empty = { world: { getItemAt: () => undefined } } as unknown as OpenSeadragon.Viewer;
+    expect(captureLinkedView(empty, 'image')).toBeNull();
+    expect(() =>
+      applyLinkedView(empty, { mode: 'image', center: { x: 0, y: 0 }, zoom: 1 }),
+    ).not.toThrow();
+  });
+});
+
+describe('ViewLinkGroup', () => {
+  it('moves the target cells to the source cell', () => {
+    const group = new ViewLinkGroup();
+    const a = createMockViewer(1000, 1000, { x: 0.1, y: 0.1 }, 3);
+    const b = createMockViewer(1000, 1000);
+    const c = createMockViewer(1000, 1000);
+    group.register(0, a.viewer);
+    group.register(1, b.viewer);
+    group.register(2, c.viewer);
+
+    group.follow(0, [0, 1], 'image');
+    expect(b.state).toEqual({ center: { x: 0.1, y: 0.1 }, zoom: 3 });
+    expect(a.viewport.panTo).not.toHaveBeenCalled();
+    expect(c.viewport.panTo).not.toHaveBeenCalled();
+  });
+
+  it('does not follow again from inside a follow', () => {
+    const group = new ViewLinkGroup();
+    const a = createMockViewer(1000, 1000, { x: 0.1, y: 0.1 });
+    const b = createMockViewer(1000, 1000);
+    group.register(0, a.viewer);
+    group.register(1, b.viewer);
+    // As a viewport-change handler on the follower would.
+    b.viewport.panTo.mockImplementation(() => group.follow(1, [0], 'image'));
+
+    group.follow(0, [1], 'image');
+    expect(a.viewport.panTo).not.toHaveBeenCalled();
+  });
+
+  it('forgets a viewer once unregistered', () => {
+    const group = new ViewLinkGroup();
+    const a = createMockViewer(1000, 1000);
+    const b = createMockViewer(1000, 1000);
+    group.register(0, a.viewer);
+    const unregister = group.register(1, b.viewer);
+    unregister();
+
+    group.follow(0, [1], 'image');
+    expect(b.viewport.panTo).not.toHaveBeenCalled();
+  });
+});
@@ -1,45 +1,119 @@
-import type { AnnotationId, ToolType } from '@osdlabel/annotation';
-import type { AnnotationState, ImageId, UIState, ViewerControlId } from '@osdlabel/viewer-api';
+import type { AnnotationId, AttributeValue, ToolType } from '@osdlabel/annotation';
+import type {
+  AffineMatrix,
+  AnnotationStackingOrder,
+  AnnotationState,
+  ImageId,
+  ImageRegistration,
+  ImageSize,
+  SnapSettings,
+  UIState,
+  ViewerControlId,
+  ViewLinkMode,
+} from '@osdlabel/viewer-api';
 import { DEFAULT_CELL_TRANSFORM } from '@osdlabel/viewer-api';
 import type {
   AnnotationContext,
   AnnotationContextId,
   ContextState,
 } from '@osdlabel/annotation-context';
-import { isContextScopedToImage } from '@osdlabel/annotation-context';
+import {
+  getCountableImageIds,
+  getDefaultAttributes,
+  isContextScopedToImage,
+  validateAttributes,
+} from '@osdlabel/annotation-context';
+import {
+  countAnnotationsForContextAndLabel,
+  countAnnotationsForContextAndType,
+} from './constraints.js';
 import type { OsdAnnotation, OsdFields } from './types.js';
+import { getTopZIndex } from './z-order.js';
 
 // ---------------------------------------------------------------------------
 // Action type discriminated unions
 // ---------------------------------------------------------------------------
 
+/** Fields an `UPDATE_ANNOTATION` patch may change. */
+export type AnnotationPatch = Partial<
+  Omit<OsdAnnotation, 'id' | 'imageId' | 'createdAt' | 'updatedAt'>
+>;
+
+/** Identifies an annotation within the annotation state. */
+export interface AnnotationRef {
+  readonly id: AnnotationId;
+  readonly imageId: ImageId;
+}
+
+/** One member of an `UPDATE_ANNOTATIONS` batch. */
+export interface AnnotationUpdate extends AnnotationRef {
+  readonly patch: AnnotationPatch;
+}
+
 export type AnnotationAction =
   | {
       readonly type: 'ADD_ANNOTATION';
       readonly payload: Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>;
     }
+  | {
+      /** Adds several annotations as one change (one undo step), e.g. a paste. */
+      readonly type: 'ADD_ANNOTATIONS';
+      readonly payload: readonly Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>[];
+    }
   | {
       readonly type: 'UPDATE_ANNOTATION';
-      readonly payload: {
-        readonly id: AnnotationId;
-        readonly imageId: ImageId;
-        readonly patch: Partial<Omit<OsdAnnotation, 'id' | 'imageId' | 'createdAt' | 'updatedAt'>>;
-      };
+      readonly payload: AnnotationUpdate;
+    }
+  | {
+      /**
+       * Updates several annotations as one change (one undo step), e.g. a
+       * group move or a bulk relabel. Missing annotations are skipped.
+       */
+      readonly type: 'UPDATE_ANNOTATIONS';
+      readonly payload: readonly AnnotationUpdate[];
     }
   | {
       readonly type: 'DELETE_ANNOTATION';
-      readonly payload: { readonly id: AnnotationId; readonly imageId: ImageId };
+      readonly payload: AnnotationRef;
+    }
+  | {
+      /** Deletes several annotations as one change (one undo step). */
+      readonly type: 'DELETE_ANNOTATIONS';
+      readonly payload: readonly AnnotationRef[];
     }
   | {
       readonly type: 'LOAD_ANNOTATIONS';
       readonly payload: Record<ImageId, Record<AnnotationId, OsdAnnotation>>;
+    }
+  | {
+      /**
+       * Writes annotation snapshots back verbatim (timestamps included).
+       * An `undefined` annotation removes the entry. Used by undo.
+       */
+      readonly type: 'RESTORE_ANNOTATIONS';
+      readonly payload: readonly AnnotationSnapshot[];
     };
 
+/**
+ * The state of a single annotation slot at a point in time. `annotation` is
+ * `undefined` when no annotation with this id existed on the image.
+ */
+export interface AnnotationSnapshot {
+  readonly imageId: ImageId;
+  readonly id: AnnotationId;
+  readonly annotation: OsdAnnotation | undefined;
+}
+
 export type UIAction =
   | { readonly type: 'SET_ACTIVE_TOOL'; readonly payload: ToolType | 'select' | null }
   | { readonly type: 'SET_ACTIVE_VIEWER_CONTROL'; readonly payload: ViewerControlId | null }
   | { readonly type: 'SET_ACTIVE_CELL'; readonly payload: number }
-  | { readonly type: 'SET_SELECTED_ANNOTATION'; readonly payload: AnnotationId | null }
+  | { readonly type: 'SET_SELECTED_ANNOTATIONS'; readonly payload: readonly AnnotationId[] }
+  | { readonly type: 'SET_ACTIVE_LABEL'; readonly payload: string | null }
+  | {
+      readonly type: 'SET_IMAGE_SIZE';
+      readonly payload: { readonly imageId: ImageId; readonly size: ImageSize };
+    }
   | {
       readonly type: 'ASSIGN_IMAGE_TO_CELL';
       readonly payload: { readonly cellIndex: number; readonly imageId: ImageId };
@@ -59,7 +133,23 @@ export type UIAction =
       readonly type: 'SET_EXPOSURE';
       readonly payload: { readonly cellIndex: number; readonly value: number };
     }
-  | { readonly type: 'RESET_VIEW'; readonly payload: { readonly cellIndex: number } };
+  | { readonly type: 'RESET_VIEW'; readonly payload: { readonly cellIndex: number } }
+  | { readonly type: 'SET_VIEW_LINK_MODE'; readonly payload: ViewLinkMode | null }
+  | { readonly type: 'TOGGLE_CELL_LINK'; readonly payload: { readonly cellIndex: number } }
+  | { readonly type: 'SET_LINKED_CROSSHAIR'; readonly payload: boolean }
+  | { readonly type: 'SET_STACKING_ORDER'; readonly payload: AnnotationStackingOrder }
+  | { readonly type: 'SET_SNAPPING'; readonly payload: Partial<SnapSettings> }
+  | {
+      readonly type: 'SET_REGISTRATION';
+      readonly payload: {
+        readonly from: ImageId;
+        readonly to: ImageId;
+        readonly matrix: AffineMatrix | null;
+      };
+    }
+  | { readonly type: 'SET_REGISTRATIONS'; readonly payload: readonly ImageRegistration[] }
+  | { readonly type: 'FOCUS_ANNOTATION'; readonly payload: AnnotationRef }
+  | { readonly type: 'FIT_ALL_ANNOTATIONS'; readonly payload: { readonly cellIndex: number } };
 
 export type ContextAction =
   | { readonly type: 'SET_CONTEXTS'; readonly payload: AnnotationContext[] }
@@ -71,7 +161,8 @@ export type ContextAction =
 // ---------------------------------------------------------------------------
 
 /**
- * Returns true if the annotation can be added given the current context state.
+ * Returns true if the annotation can be added given the current context state:
+ * the context must be scoped to the image and accept its attribute values.
  * Both framework wrappers call this before dispatching ADD_ANNOTATION.
  */
 export function validateAddAnnotation(
@@ -83,6 +174,175 @@ export function validateAddAnnotation(
     console.warn(`Context "${ctx.label}" not scoped to image "${annotation.imageId}"`);
     return false;
   }
+  return !ctx || checkAttributes(ctx, annotation.attributes);
+}
+
+/**
+ * Returns true if `attributes` satisfy the attribute definitions of the
+ * context `contextId`. Missing required values are allowed (they are
+ * reported by the constraint status instead). Both framework wrappers call
+ * this before writing an annotation's attributes.
+ */
+export function validateAnnotationAttributes(
+  contextId: AnnotationContextId,
+  attributes: Readonly<Record<string, AttributeValue>> | undefined,
+  contextState: ContextState,
+): boolean {
+  const ctx = contextState.contexts.find((c) => c.id === contextId);
+  return !ctx || checkAttributes(ctx, attributes);
+}
+
+/** Returns false (with a warning) if `attributes` break one of the context's definitions. */
+function checkAttributes(
+  ctx: AnnotationContext,
+  attributes: Readonly<Record<string, AttributeValue>> | undefined,
+): boolean {
+  const [issue] = validateAttributes(ctx.attributes ?? [], attributes);
+  if (issue) {
+    console.warn(`Context "${ctx.label}": attribute "${issue.key}" ${issue.message}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the annotation with its context's attribute defaults filled in
+ * for any attribute it has no value for. Both framework wrappers apply this
+ * before dispatching ADD_ANNOTATION.
+ */
+export function withDefaultAttributes(
+  annotation: Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>,
+  contextState: ContextState,
+): Omit<OsdAnnotation, 'createdAt' | 'updatedAt'> {
+  const ctx = contextState.contexts.find((c) => c.id === annotation.contextId);
+  const defaults = getDefaultAttributes(ctx?.attributes ?? []);
+  if (!defaults) return annotation;
+  return { ...annotation, attributes: { ...defaults, ...annotation.attributes } };
+}
+
+/**
+ * Returns true if the annotations `ids` on `imageId` can be moved into the
+ * context `contextId`: the context must be scoped to the image, allow each
+ * annotation's tool, and have room for them under its tools' and labels'
+ * `maxCount`. Both framework wrappers call this before a bulk context move.
+ */
+export function validateMoveToContext(
+  ids: readonly AnnotationId[],
+  imageId: ImageId,
+  contextId: AnnotationContextId,
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+): boolean {
+  const ctx = contextState.contexts.find((c) => c.id === contextId);
+  if (!ctx) {
+    console.warn(`Unknown context "${contextId}"`);
+    return false;
+  }
+  if (!isContextScopedToImage(ctx, imageId)) {
+    console.warn(`Context "${ctx.label}" not scoped to image "${imageId}"`);
+    return false;
+  }
+
+  // Annotations already in the context don't count as incoming.
+  const incoming = new Map<ToolType, number>();
+  const incomingLabels = new Map<string, number>();
+  for (const id of ids) {
+    const annotation = annotationState.byImage[imageId]?.[id];
+    if (!annotation || annotation.contextId === contextId) continue;
+    incoming.set(annotation.toolType, (incoming.get(annotation.toolType) ?? 0) + 1);
+    if (annotation.label !== undefined) {
+      incomingLabels.set(annotation.label, (incomingLabels.get(annotation.label) ?? 0) + 1);
+    }
+  }
+
+  for (const [labelId, count] of incomingLabels) {
+    if (!checkLabelCount(ctx, labelId, count, imageId, annotationState)) return false;
+  }
+
+  for (const [type, count] of incoming) {
+    const tool = ctx.tools.find((t) => t.type === type);
+    if (!tool) {
+      console.warn(`Context "${ctx.label}" does not allow "${type}" annotations`);
+      return false;
+    }
+    if (tool.maxCount === undefined) continue;
+    const current = countAnnotationsForContextAndType(
+      annotationState,
+      contextId,
+      type,
+      getCountableImageIds(ctx, imageId, tool.countScope ?? 'global'),
+    );
+    if (current + count > tool.maxCount) {
+      console.warn(`Context "${ctx.label}" cannot hold ${count} more "${type}" annotations`);
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Returns true if the annotations `ids` on `imageId` can take the label
+ * `label` (a label id, or `undefined` to clear it): in each annotation's
+ * context the label must allow the annotation's tool and have room for them
+ * under its `maxCount`. Labels a context does not define are not checked.
+ * Both framework wrappers call this before a bulk relabel.
+ */
+export function validateRelabel(
+  ids: readonly AnnotationId[],
+  imageId: ImageId,
+  label: string | undefined,
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+): boolean {
+  if (label === undefined) return true;
+
+  // Annotations that already have the label don't count as incoming.
+  const incoming = new Map<AnnotationContextId, number>();
+  for (const id of ids) {
+    const annotation = annotationState.byImage[imageId]?.[id];
+    if (!annotation || annotation.label === label) continue;
+    const ctx = contextState.contexts.find((c) => c.id === annotation.contextId);
+    const definition = ctx?.labels?.find((l) => l.id === label);
+    if (!ctx || !definition) continue;
+    if (definition.tools && !definition.tools.includes(annotation.toolType)) {
+      console.warn(
+        `Label "${definition.name}" does not allow "${annotation.toolType}" annotations`,
+      );
+      return false;
+    }
+    incoming.set(ctx.id, (incoming.get(ctx.id) ?? 0) + 1);
+  }
+
+  for (const [contextId, count] of incoming) {
+    const ctx = contextState.contexts.find((c) => c.id === contextId)!;
+    if (!checkLabelCount(ctx, label, count, imageId, annotationState)) return false;
+  }
+  return true;
+}
+
+/**
+ * Returns false (with a warning) if `count` more annotations labelled
+ * `labelId` would exceed the label's `maxCount` in `ctx`.
+ */
+function checkLabelCount(
+  ctx: AnnotationContext,
+  labelId: string,
+  count: number,
+  imageId: ImageId,
+  annotationState: AnnotationState<OsdFields>,
+): boolean {
+  const label = ctx.labels?.find((l) => l.id === labelId);
+  if (label?.maxCount === undefined) return true;
+  const current = countAnnotationsForContextAndLabel(
+    annotationState,
+    ctx.id,
+    labelId,
+    getCountableImageIds(ctx, imageId, label.countScope ?? 'global'),
+  );
+  if (current + count > label.maxCount) {
+    console.warn(`Context "${ctx.label}" cannot hold ${count} more "${label.name}" annotations`);
+    return false;
+  }
   return true;
 }
 
@@ -97,31 +357,34 @@ export function applyAnnotationAction(
 ): void {
   switch (action.type) {
     case 'ADD_ANNOTATION': {
-      const annotation = action.payload;
-      const imageAnns = draft.byImage[annotation.imageId] ?? {};
+      insertAnnotation(draft, action.payload, new Date().toISOString());
+      draft.changeCounter += 1;
+      break;
+    }
+    case 'ADD_ANNOTATIONS': {
+      if (action.payload.length === 0) break;
       const now = new Date().toISOString();
-      imageAnns[annotation.id] = {
-        ...annotation,
-        createdAt: now,
-        updatedAt: now,
-      };
-      draft.byImage[annotation.imageId] = imageAnns;
+      for (const annotation of action.payload) {
+        insertAnnotation(draft, annotation, now);
+      }
       draft.changeCounter += 1;
       break;
     }
     case 'UPDATE_ANNOTATION': {
-      const { id, imageId, patch } = action.payload;
-      const imageAnns = draft.byImage[imageId];
-      if (imageAnns && imageAnns[id]) {
-        imageAnns[id] = {
-          ...imageAnns[id],
-          ...patch,
-          updatedAt: new Date().toISOString(),
-        };
+      if (patchAnnotation(draft, action.payload, new Date().toISOString())) {
         draft.changeCounter += 1;
       }
       break;
     }
+    case 'UPDATE_ANNOTATIONS': {
+      const now = new Date().toISOString();
+      let changed = false;
+      for (const update of action.payload) {
+        changed = patchAnnotation(draft, update, now) || changed;
+      }
+      if (changed) draft.changeCounter += 1;
+      break;
+    }
     case 'DELETE_ANNOTATION': {
       const { id, imageId } = action.payload;
       const imageAnns = draft.byImage[imageId];
@@ -131,14 +394,67 @@ export function applyAnnotationAction(
       }
       break;
     }
+    case 'DELETE_ANNOTATIONS': {
+      for (const { id, imageId } of action.payload) {
+        delete draft.byImage[imageId]?.[id];
+      }
+      draft.changeCounter += 1;
+      break;
+    }
     case 'LOAD_ANNOTATIONS': {
       draft.byImage = action.payload;
       draft.changeCounter += 1;
       break;
     }
+    case 'RESTORE_ANNOTATIONS': {
+      for (const { imageId, id, annotation } of action.payload) {
+        if (annotation) {
+          const imageAnns = draft.byImage[imageId] ?? {};
+          imageAnns[id] = annotation;
+          draft.byImage[imageId] = imageAnns;
+        } else {
+          delete draft.byImage[imageId]?.[id];
+        }
+      }
+      draft.changeCounter += 1;
+      break;
+    }
   }
 }
 
+/** Applies `update` to the draft. Returns false if the annotation is missing. */
+/**
+ * Adds `annotation` to its image. Without a `zIndex` of its own it goes on
+ * top of the image's stack, above any annotation that was reordered.
+ */
+function insertAnnotation(
+  draft: AnnotationState<OsdFields>,
+  annotation: Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>,
+  now: string,
+): void {
+  const imageAnns = draft.byImage[annotation.imageId] ?? {};
+  const zIndex = annotation.zIndex ?? getTopZIndex(imageAnns);
+  imageAnns[annotation.id] = {
+    ...annotation,
+    ...(zIndex !== undefined ? { zIndex } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  draft.byImage[annotation.imageId] = imageAnns;
+}
+
+function patchAnnotation(
+  draft: AnnotationState<OsdFields>,
+  { id, imageId, patch }: AnnotationUpdate,
+  updatedAt: string,
+): boolean {
+  const imageAnns = draft.byImage[imageId];
+  const current = imageAnns?.[id];
+  if (!imageAnns || !current) return false;
+  imageAnns[id] = { ...current, ...patch, updatedAt };
+  return true;
+}
+
 export function applyUIAction(draft: UIState, action: UIAction): void {
   switch (action.type) {
     case 'SET_ACTIVE_TOOL':
@@ -159,13 +475,21 @@ export function applyUIAction(draft: UIState, action: UIAction): void {
     case 'SET_ACTIVE_CELL':
       draft.activeCellIndex = action.payload;
       break;
-    case 'SET_SELECTED_ANNOTATION':
-      draft.selectedAnnotationId = action.payload;
+    case 'SET_SELECTED_ANNOTATIONS':
+      draft.selectedAnnotationIds = [...new Set(action.payload)];
+      break;
+    case 'SET_ACTIVE_LABEL':
+      draft.activeLabel = action.payload;
+      break;
+    case 'SET_IMAGE_SIZE':
+      draft.imageSizes[action.payload.imageId] = action.payload.size;
       break;
     case 'ASSIGN_IMAGE_TO_CELL': {
       const { cellIndex, imageId } = action.payload;
       draft.gridAssignments[cellIndex] = imageId;
       draft.cellTransforms[cellIndex] = { ...DEFAULT_CELL_TRANSFORM };
+      // A linked cell keeps following the active cell's orientation.
+      if (cellIndex !== draft.activeCellIndex) syncLinkedOrientation(draft, draft.activeCellIndex);
       break;
     }
     case 'SET_GRID_DIMENSIONS': {
@@ -179,6 +503,7 @@ export function applyUIAction(draft: UIState, action: UIAction): void {
           delete draft.cellTransforms[index];
         }
       }
+      draft.unlinkedCells = draft.unlinkedCells.filter((index) => index <= maxIndex);
       break;
     }
     case 'ROTATE_CW': {
@@ -262,6 +587,104 @@ export function applyUIAction(draft: UIState, action: UIAction): void {
       draft.cellTransforms[action.payload.cellIndex] = { ...DEFAULT_CELL_TRANSFORM };
       break;
     }
+    case 'SET_VIEW_LINK_MODE':
+      draft.viewLinkMode = action.payload;
+      syncLinkedOrientation(draft, draft.activeCellIndex);
+      break;
+    case 'TOGGLE_CELL_LINK': {
+      const { cellIndex } = action.payload;
+      draft.unlinkedCells = draft.unlinkedCells.includes(cellIndex)
+        ? draft.unlinkedCells.filter((index) => index !== cellIndex)
+        : [...draft.unlinkedCells, cellIndex];
+      syncLinkedOrientation(draft, draft.activeCellIndex);
+      break;
+    }
+    case 'SET_LINKED_CROSSHAIR':
+      draft.linkedCrosshair = action.payload;
+      break;
+    case 'SET_STACKING_ORDER':
+      draft.stackingOrder = action.payload;
+      break;
+    case 'SET_SNAPPING':
+      draft.snapping = { ...draft.snapping, ...action.payload };
+      break;
+    case 'SET_REGISTRATION': {
+      // One registration per pair: a new one replaces either direction.
+      const { from, to, matrix } = action.payload;
+      draft.registrations = draft.registrations.filter(
+        (r) => !((r.from === from && r.to === to) || (r.from === to && r.to === from)),
+      );
+      if (matrix) draft.registrations.push({ from, to, matrix });
+      break;
+    }
+    case 'SET_REGISTRATIONS':
+      draft.registrations = [...action.payload];
+      break;
+    case 'FOCUS_ANNOTATION': {
+      const { id, imageId } = action.payload;
+      // Prefer a visible cell already showing the image; otherwise show it
+      // in the active cell.
+      const cellCount = draft.gridColumns * draft.gridRows;
+      let cellIndex = Array.from({ length: cellCount }, (_, i) => i).find(
+        (i) => draft.gridAssignments[i] === imageId,
+      );
+      if (cellIndex === undefined) {
+        cellIndex = draft.activeCellIndex;
+        applyUIAction(draft, { type: 'ASSIGN_IMAGE_TO_CELL', payload: { cellIndex, imageId } });
+      }
+      draft.activeCellIndex = cellIndex;
+      draft.selectedAnnotationIds = [id];
+      draft.focusRequest = {
+        cellIndex,
+        imageId,
+        annotationIds: [id],
+        seq: (draft.focusRequest?.seq ?? 0) + 1,
+      };
+      break;
+    }
+    case 'FIT_ALL_ANNOTATIONS': {
+      const { cellIndex } = action.payload;
+      const imageId = draft.gridAssignments[cellIndex];
+      if (!imageId) break;
+      draft.focusRequest = { cellIndex, imageId, seq: (draft.focusRequest?.seq ?? 0) + 1 };
+      break;
+    }
+  }
+
+  // Rotating or flipping a linked cell turns every linked cell with it.
+  switch (action.type) {
+    case 'ROTATE_CW':
+    case 'ROTATE_CCW':
+    case 'FLIP_H':
+    case 'FLIP_V':
+    case 'RESET_VIEW':
+      syncLinkedOrientation(draft, action.payload.cellIndex);
+  }
+}
+
+/**
+ * The grid cells whose views follow each other: every cell not in
+ * `unlinkedCells`, or none while `viewLinkMode` is off.
+ */
+export function getLinkedCellIndices(
+  state: Pick<UIState, 'viewLinkMode' | 'unlinkedCells' | 'gridColumns' | 'gridRows'>,
+): number[] {
+  if (state.viewLinkMode === null) return [];
+  return Array.from({ length: state.gridColumns * state.gridRows }, (_, i) => i).filter(
+    (i) => !state.unlinkedCells.includes(i),
+  );
+}
+
+/** Copies the rotation and flips of `sourceCell` to the other linked cells, if it is linked. */
+function syncLinkedOrientation(draft: UIState, sourceCell: number): void {
+  const linked = getLinkedCellIndices(draft);
+  if (!linked.includes(sourceCell)) return;
+  const { rotation, flippedH, flippedV } =
+    draft.cellTransforms[sourceCell] ?? DEFAULT_CELL_TRANSFORM;
+  for (const cellIndex of linked) {
+    if (cellIndex === sourceCell) continue;
+    const current = draft.cellTransforms[cellIndex] ?? DEFAULT_CELL_TRANSFORM;
+    draft.cellTransforms[cellIndex] = { ...current, rotation, flippedH, flippedV };
   }
 }
 
@@ -0,0 +1,124 @@
+import type { AnnotationContext, AnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationState, ImageId } from '@osdlabel/viewer-api';
+import type { OsdAnnotation, OsdFields } from './types.js';
+
+/** The annotations of one label within an {@link AnnotationOutlineContext}. */
+export interface AnnotationOutlineLabel {
+  /** The label id, or `undefined` for unlabelled annotations. */
+  readonly label: string | undefined;
+  /** The label's display name. */
+  readonly name: string;
+  readonly annotations: readonly OsdAnnotation[];
+}
+
+/** The annotations of one context within an {@link AnnotationOutlineImage}. */
+export interface AnnotationOutlineContext {
+  readonly contextId: AnnotationContextId;
+  /** The context's label, or its id when the context is unknown. */
+  readonly name: string;
+  readonly labels: readonly AnnotationOutlineLabel[];
+}
+
+/** The annotations of one image, by context and label. */
+export interface AnnotationOutlineImage {
+  readonly imageId: ImageId;
+  readonly contexts: readonly AnnotationOutlineContext[];
+}
+
+const UNLABELLED_NAME = 'Unlabelled';
+
+/**
+ * The display name of an annotation: its label's name, the label id when the
+ * context does not define it, or the tool type for unlabelled annotations.
+ */
+export function getAnnotationDisplayName(
+  annotation: OsdAnnotation,
+  contexts: readonly AnnotationContext[],
+): string {
+  if (annotation.label === undefined) return annotation.toolType;
+  const context = contexts.find((c) => c.id === annotation.contextId);
+  return context?.labels?.find((l) => l.id === annotation.label)?.name ?? annotation.label;
+}
+
+/**
+ * Groups annotations by image, context and label for an outline view.
+ * Contexts and labels come in definition order, unknown ones after them,
+ * and unlabelled annotations last; annotations are in creation order.
+ *
+ * `filter` keeps annotations whose display name, label id, tool type or id
+ * contains it, ignoring case. Empty groups are left out.
+ */
+export function buildAnnotationOutline(
+  state: AnnotationState<OsdFields>,
+  contexts: readonly AnnotationContext[],
+  filter = '',
+): AnnotationOutlineImage[] {
+  const needle = filter.trim().toLowerCase();
+  const matches = (annotation: OsdAnnotation) =>
+    needle === '' ||
+    [
+      getAnnotationDisplayName(annotation, contexts),
+      annotation.label ?? '',
+      annotation.toolType,
+      annotation.id,
+    ].some((text) => text.toLowerCase().includes(needle));
+
+  const images: AnnotationOutlineImage[] = [];
+  for (const [imageId, byId] of Object.entries(state.byImage) as [
+    ImageId,
+    Record<string, OsdAnnotation>,
+  ][]) {
+    const byContext = new Map<AnnotationContextId, OsdAnnotation[]>();
+    for (const annotation of Object.values(byId)) {
+      if (!matches(annotation)) continue;
+      const list = byContext.get(annotation.contextId) ?? [];
+      list.push(annotation);
+      byContext.set(annotation.contextId, list);
+    }
+    if (byContext.size === 0) continue;
+
+    const contextIds = [
+      ...contexts.map((c) => c.id).filter((id) => byContext.has(id)),
+      ...[...byContext.keys()].filter((id) => !contexts.some((c) => c.id === id)),
+    ];
+    images.push({
+      imageId,
+      contexts: contextIds.map((contextId) => {
+        const context = contexts.find((c) => c.id === contextId);
+        return {
+          contextId,
+          name: context?.label ?? contextId,
+          labels: groupByLabel(byContext.get(contextId)!, context),
+        };
+      }),
+    });
+  }
+  return images;
+}
+
+function groupByLabel(
+  annotations: readonly OsdAnnotation[],
+  context: AnnotationContext | undefined,
+): AnnotationOutlineLabel[] {
+  const byLabel = new Map<string | undefined, OsdAnnotation[]>();
+  for (const annotation of annotations) {
+    const list = byLabel.get(annotation.label) ?? [];
+    list.push(annotation);
+    byLabel.set(annotation.label, list);
+  }
+  const defined = (context?.labels ?? []).map((l) => l.id).filter((id) => byLabel.has(id));
+  const others = [...byLabel.keys()]
+    .filter((id): id is string => id !== undefined && !defined.includes(id))
+    .sort();
+  const order: (string | undefined)[] = [...defined, ...others];
+  if (byLabel.has(undefined)) order.push(undefined);
+
+  return order.map((label) => ({
+    label,
+    name:
+      label === undefined
+        ? UNLABELLED_NAME
+        : (context?.labels?.find((l) => l.id === label)?.name ?? label),
+    annotations: [...byLabel.get(label)!].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  }));
+}
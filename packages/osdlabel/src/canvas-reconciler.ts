@@ -0,0 +1,192 @@
+import type { AnnotationId, AnnotationStyle } from '@osdlabel/annotation';
+import type { AnnotationContext, AnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationStackingOrder } from '@osdlabel/viewer-api';
+import {
+  applyAnnotationStyle,
+  createFabricObjectFromAnnotation,
+} from '@osdlabel/fabric-annotations';
+import type { Canvas, FabricObject } from 'fabric';
+import { resolveAnnotationStyle } from './style.js';
+import type { OsdAnnotation } from './types.js';
+import { sortByStacking } from './z-order.js';
+
+/** What should be on the canvas, for {@link CanvasReconciler.reconcile}. */
+export interface CanvasReconcileInput {
+  /** The annotations to show. Every other annotation object is removed. */
+  readonly annotations: readonly OsdAnnotation[];
+  /** Contexts to resolve styles from. */
+  readonly contexts: readonly AnnotationContext[];
+  /** Annotations of this context are interactive; the rest are read-only. */
+  readonly activeContextId: AnnotationContextId | null;
+  /** How the annotation objects stack. Defaults to `'zIndex'`. */
+  readonly stackingOrder?: AnnotationStackingOrder | undefined;
+}
+
+interface MaterializedAnnotation {
+  readonly object: FabricObject;
+  readonly annotation: OsdAnnotation;
+  styleKey: string;
+}
+
+/**
+ * Keeps a canvas's annotation objects in line with state by diffing on
+ * `AnnotationId` and annotation object identity: new annotations are added,
+ * deleted ones removed, changed ones rebuilt and swapped in at the same
+ * stacking position, and untouched ones kept. The reducers replace an
+ * annotation's object on every edit, so edits within one millisecond are
+ * not missed. Annotations whose resolved style or
+ * interactivity changed without an edit (a context or label style change,
+ * another active context) are patched in place.
+ *
+ * Objects with an annotation id that the reconciler did not create — such
+ * as a shape a tool has just drawn — are replaced by ones built from state,
+ * or removed when their annotation is not shown.
+ *
+ * Annotation objects are kept in `stackingOrder` among themselves; other
+ * objects keep their place on the canvas.
+ */
+export class CanvasReconciler {
+  private readonly _canvas: Canvas;
+  private readonly _entries = new Map<AnnotationId, MaterializedAnnotation>();
+  private _generation = 0;
+
+  constructor(canvas: Canvas) {
+    this._canvas = canvas;
+  }
+
+  /** The number of annotation objects on the canvas. */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /** The object showing annotation `id`, once it is on the canvas. */
+  getObject(id: AnnotationId): FabricObject | undefined {
+    return this._entries.get(id)?.object;
+  }
+
+  /**
+   * Brings the canvas in line with `input`. Removals and patches apply at
+   * once; new and changed objects are added when built. Resolves to `false`
+   * when a later call superseded this one before its objects were ready —
+   * the later call then takes care of them.
+   */
+  async reconcile(input: CanvasReconcileInput): Promise<boolean> {
+    const generation = ++this._generation;
+    const canvas = this._canvas;
+    const wanted = new Map(input.annotations.map((a) => [a.id, a]));
+    const onCanvas = new Set(canvas.getObjects());
+    const isInteractive = (annotation: OsdAnnotation) =>
+      annotation.contextId === input.activeContextId && annotation.locked !== true;
+
+    const removals: FabricObject[] = [];
+    for (const [id, entry] of this._entries) {
+      if (!wanted.has(id) || !onCanvas.has(entry.object)) {
+        // An object replaced behind our back is treated as missing.
+        if (onCanvas.has(entry.object)) removals.push(entry.object);
+        this._entries.delete(id);
+      }
+    }
+    const tracked = new Set(Array.from(this._entries.values(), (entry) => entry.object));
+    for (const obj of onCanvas) {
+      if (obj.id && !tracked.has(obj) && !wanted.has(obj.id as AnnotationId)) removals.push(obj);
+    }
+    if (removals.length > 0) canvas.remove(...removals);
+
+    const order = sortByStacking(input.annotations, input.stackingOrder).map((a) => a.id);
+    const pending: { annotation: OsdAnnotation; style: AnnotationStyle }[] = [];
+    for (const annotation of input.annotations) {
+      const style = resolveAnnotationStyle(annotation, input.contexts);
+      const entry = this._entries.get(annotation.id);
+      if (!entry || entry.annotation !== annotation) {
+        pending.push({ annotation, style });
+        continue;
+      }
+      const styleKey = JSON.stringify(style);
+      if (styleKey !== entry.styleKey) {
+        applyAnnotationStyle(entry.object, style);
+        entry.styleKey = styleKey;
+      }
+      setInteractive(entry.object, isInteractive(annotation));
+    }
+    this._restack(order);
+    canvas.requestRenderAll();
+    if (pending.length === 0) return true;
+
+    const created = await Promise.all(
+      pending.map(async ({ annotation, style }) => {
+        const obj = await createFabricObjectFromAnnotation(annotation, style);
+        setInteractive(obj, isInteractive(annotation));
+        return { annotation, style, obj };
+      }),
+    );
+    if (generation !== this._generation) return false;
+
+    const replaced = created.flatMap(({ annotation }) => {
+      const stale = this._findObject(annotation.id);
+      return stale ? [stale] : [];
+    });
+    const activeObjects = canvas.getActiveObjects();
+    const reselect = activeObjects.length === 1 && replaced.includes(activeObjects[0]!);
+    // A multi-selection holds its members in its own coordinates; let it go
+    // before swapping any of them out, as `restoreFabricObjects` does.
+    if (!reselect && replaced.some((obj) => activeObjects.includes(obj))) {
+      canvas.discardActiveObject();
+    }
+
+    for (const { annotation, style, obj } of created) {
+      const stale = this._findObject(annotation.id);
+      const index = stale ? canvas.getObjects().indexOf(stale) : -1;
+      if (stale && index !== -1) {
+        canvas.remove(stale);
+        canvas.insertAt(index, obj);
+        if (reselect && stale === activeObjects[0]) canvas.setActiveObject(obj);
+      } else {
+        canvas.add(obj);
+      }
+      this._entries.set(annotation.id, {
+        object: obj,
+        annotation,
+        styleKey: JSON.stringify(style),
+      });
+    }
+    this._restack(order);
+    canvas.requestRenderAll();
+    return true;
+  }
+
+  /**
+   * Moves the tracked objects into `order` (bottom to top) within the
+   * canvas positions they already hold.
+   */
+  private _restack(order: readonly AnnotationId[]): void {
+    const objects = this._canvas.getObjects();
+    const tracked = new Set(Array.from(this._entries.values(), (entry) => entry.object));
+    const stacked = order.flatMap((id) => this._entries.get(id)?.object ?? []);
+    let next = 0;
+    const target = objects.map((obj) => (tracked.has(obj) ? (stacked[next++] ?? obj) : obj));
+    // Fill positions bottom up: each one's object is still above it, so a
+    // move only shifts positions not filled yet.
+    target.forEach((obj, index) => {
+      if (objects[index] === obj) return;
+      objects.splice(objects.indexOf(obj), 1);
+      objects.splice(index, 0, obj);
+      this._canvas.moveObjectTo(obj, index);
+    });
+  }
+
+  /** The object on the canvas for `id`: the tracked one, or a stray one. */
+  private _findObject(id: AnnotationId): FabricObject | undefined {
+    const entry = this._entries.get(id);
+    if (entry) return entry.object;
+    return this._canvas.getObjects().find((obj) => obj.id === id);
+  }
+}
+
+/**
+ * Only unlocked active-context annotations are interactive; the rest are
+ * marked `_readOnly` so `setMode()` respects it.
+ */
+function setInteractive(obj: FabricObject, interactive: boolean): void {
+  obj._readOnly = !interactive;
+  obj.set({ selectable: interactive, evented: interactive });
+}
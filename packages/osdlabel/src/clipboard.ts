@@ -0,0 +1,175 @@
+import {
+  createAnnotationId,
+  generateId,
+  type AnnotationId,
+  type Geometry,
+  type Point,
+} from '@osdlabel/annotation';
+import type { AnnotationState, ImageId } from '@osdlabel/viewer-api';
+import type { ContextState } from '@osdlabel/annotation-context';
+import type { FabricRawAnnotationData } from '@osdlabel/fabric-annotations';
+import { buildFabricObjectFromGeometry, serializeFabricObject } from '@osdlabel/fabric-annotations';
+import { scaleGeometry, translateGeometry } from '@osdlabel/geometry';
+import { validateAddAnnotation } from './actions.js';
+import { computeConstraintStatus } from './constraints.js';
+import { applyGeometryRules } from './geometry-rules.js';
+import type { GeometryRuleEnvironment } from './geometry-rules.js';
+import { styleOptionsFromRawData } from './tool-factory.js';
+import type { OsdAnnotation, OsdFields } from './types.js';
+
+/** Annotations copied from one image, ready to be pasted onto any image. */
+export interface AnnotationClipboard {
+  readonly sourceImageId: ImageId;
+  readonly annotations: readonly OsdAnnotation[];
+}
+
+/** Clipboard commands produced by `mapKeyEventToActions`. */
+export type ClipboardAction =
+  | { readonly type: 'COPY' }
+  | { readonly type: 'CUT' }
+  | { readonly type: 'PASTE' }
+  | { readonly type: 'DUPLICATE' };
+
+/** Offset (image px) of duplicates, and of pastes onto the image they were copied from. */
+export const DEFAULT_PASTE_OFFSET: Point = { x: 10, y: 10 };
+
+/** Options for {@link prepareClipboardPaste}. */
+export interface PasteOptions {
+  /**
+   * Moves the pasted shapes (image px), after any scaling. Defaults to
+   * {@link DEFAULT_PASTE_OFFSET} on the source image and to none elsewhere.
+   */
+  readonly offset?: Point | undefined;
+  /**
+   * Scales the pasted shapes by the target image's size relative to the
+   * source image's — by the smaller of the width and height ratios, so
+   * shapes keep their proportions. Skipped while either size is unknown.
+   */
+  readonly scaleToImage?: boolean | undefined;
+}
+
+/** The outcome of {@link prepareClipboardPaste} */
+export interface PasteResult {
+  /** The annotations to add, with new ids, in clipboard order. */
+  readonly annotations: readonly Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>[];
+  /** Clipboard ids of the annotations that could not be pasted. */
+  readonly rejected: readonly AnnotationId[];
+}
+
+/**
+ * Copies the annotations `ids` of `imageId` to a clipboard, in selection
+ * order. Returns `null` when none of them exist.
+ */
+export function copyAnnotations(
+  annotationState: AnnotationState<OsdFields>,
+  imageId: ImageId,
+  ids: readonly AnnotationId[],
+): AnnotationClipboard | null {
+  const imageAnns = annotationState.byImage[imageId] ?? {};
+  const annotations = ids.flatMap((id) => {
+    const annotation = imageAnns[id];
+    return annotation ? [annotation] : [];
+  });
+  return annotations.length > 0 ? { sourceImageId: imageId, annotations } : null;
+}
+
+/**
+ * Turns a clipboard into annotations for `targetImageId`: each gets a new
+ * id, its geometry scaled and offset per `options`, and its Fabric data
+ * re-serialized to match. Copies are neither locked nor hidden, and go on
+ * top of the target image's stack. An annotation is left out when its
+ * context is not scoped to the target image (`validateAddAnnotation`), its
+ * tool or label has no room left there (`computeConstraintStatus`), or its
+ * geometry rules reject it. Each annotation is checked with the earlier ones
+ * already added.
+ */
+export function prepareClipboardPaste(
+  clipboard: AnnotationClipboard,
+  targetImageId: ImageId,
+  contextState: ContextState,
+  environment: GeometryRuleEnvironment,
+  options: PasteOptions = {},
+): PasteResult {
+  const scale = options.scaleToImage ? sizeRatio(clipboard.sourceImageId, targetImageId) : 1;
+  const offset =
+    options.offset ??
+    (targetImageId === clipboard.sourceImageId ? DEFAULT_PASTE_OFFSET : { x: 0, y: 0 });
+
+  const byImage = { ...environment.annotationState.byImage };
+  const current = () => ({ ...environment.annotationState, byImage });
+  const annotations: Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>[] = [];
+  const rejected: AnnotationId[] = [];
+
+  for (const source of clipboard.annotations) {
+    // Copies start out unlocked, shown and on top.
+    const {
+      createdAt: _createdAt,
+      updatedAt: _updatedAt,
+      locked: _locked,
+      hidden: _hidden,
+      zIndex: _zIndex,
+      ...rest
+    } = source;
+    const id = createAnnotationId(generateId());
+    const geometry = translateGeometry(
+      scale === 1 ? source.geometry : scaleGeometry(source.geometry, scale),
+      offset,
+    );
+    const candidate = {
+      ...rest,
+      id,
+      imageId: targetImageId,
+      geometry,
+      rawAnnotationData: source.rawAnnotationData
+        ? reserialize(source.rawAnnotationData, geometry, id)
+        : undefined,
+    };
+
+    const status = computeConstraintStatus(
+      { ...contextState, activeContextId: candidate.contextId },
+      current(),
+      targetImageId,
+      candidate.label ?? null,
+    );
+    const checked =
+      validateAddAnnotation(candidate, contextState) && status[candidate.toolType]?.enabled
+        ? applyGeometryRules(candidate, contextState, {
+            ...environment,
+            annotationState: current(),
+          })
+        : null;
+    if (!checked) {
+      rejected.push(source.id);
+      continue;
+    }
+    annotations.push(checked);
+    byImage[targetImageId] = {
+      ...byImage[targetImageId],
+      [id]: { ...checked, createdAt: source.createdAt, updatedAt: source.updatedAt },
+    };
+  }
+  return { annotations, rejected };
+
+  function sizeRatio(from: ImageId, to: ImageId): number {
+    const a = environment.imageSizes[from];
+    const b = environment.imageSizes[to];
+    if (!a || !b || a.width <= 0 || a.height <= 0) return 1;
+    return Math.min(b.width / a.width, b.height / a.height);
+  }
+}
+
+/** Rebuilds an annotation's Fabric data at its new geometry, keeping its style. */
+function reserialize(
+  raw: FabricRawAnnotationData,
+  geometry: Geometry,
+  id: AnnotationId,
+): FabricRawAnnotationData {
+  const serialized = serializeFabricObject(
+    buildFabricObjectFromGeometry(geometry, styleOptionsFromRawData(raw, id)),
+  );
+  // As in createAnnotationFromGeometry: keep the id even if initFabricModule()
+  // has not registered it as a Fabric custom property.
+  return serialized.data['id'] === id
+    ? serialized
+    : { ...serialized, data: { ...serialized.data, id } };
+}
@@ -0,0 +1,431 @@
+import type {
+  Annotation,
+  AnnotationId,
+  AnnotationStyle,
+  Geometry,
+  Point,
+  ToolType,
+} from '@osdlabel/annotation';
+import { createAnnotationId } from '@osdlabel/annotation';
+import type { AnnotationState, ImageId } from '@osdlabel/viewer-api';
+import { createImageId, getAllAnnotationsFlat } from '@osdlabel/viewer-api';
+import type { AnnotationContext, AnnotationContextId } from '@osdlabel/annotation-context';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import {
+  area,
+  boundingBox,
+  circleToPolygon,
+  ellipseToPolygon,
+  DEFAULT_POLYGON_TOLERANCE,
+  rectangleToPolygon,
+} from '@osdlabel/geometry';
+import { CocoDatasetSchema, GeometrySchema, ToolTypeSchema } from '@osdlabel/validation';
+import * as v from 'valibot';
+import { createAnnotationFromGeometry } from './create-annotation.js';
+import { SerializationError } from './serialization-configured.js';
+import type { DeserializeResult } from './serialization-configured.js';
+import type { OsdFields } from './types.js';
+
+// ---------------------------------------------------------------------------
+// COCO types
+// ---------------------------------------------------------------------------
+
+export interface CocoImage {
+  readonly id: number;
+  readonly file_name: string;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface CocoCategory {
+  readonly id: number;
+  readonly name: string;
+  readonly supercategory?: string | undefined;
+  readonly keypoints?: readonly string[] | undefined;
+  /** Written on the unlabelled category of a context, whose `name` is the context label. */
+  readonly osdlabel?: { readonly unlabelled: true } | undefined;
+}
+
+/**
+ * Lossless copy of the source annotation, written alongside the standard COCO
+ * fields so osdlabel → COCO → osdlabel restores exact shapes and ids. Other
+ * COCO consumers ignore it.
+ */
+export interface CocoOsdlabelExtension {
+  readonly id: string;
+  readonly contextId: string;
+  readonly toolType: ToolType;
+  readonly geometry: Geometry;
+}
+
+export interface CocoAnnotation {
+  readonly id: number;
+  readonly image_id: number;
+  readonly category_id: number;
+  /** `[x, y, width, height]` of the axis-aligned bounding box. */
+  readonly bbox: readonly [number, number, number, number];
+  readonly area: number;
+  readonly iscrowd: 0 | 1;
+  /** Polygons as flat `[x1, y1, x2, y2, …]` arrays. Empty for open shapes. */
+  readonly segmentation: readonly (readonly number[])[];
+  /** `[x, y, visibility]` triples for point-like shapes. */
+  readonly keypoints?: readonly number[] | undefined;
+  readonly num_keypoints?: number | undefined;
+  readonly osdlabel?: CocoOsdlabelExtension | undefined;
+}
+
+export interface CocoDataset {
+  readonly info?: Readonly<Record<string, unknown>> | undefined;
+  readonly images: readonly CocoImage[];
+  readonly annotations: readonly CocoAnnotation[];
+  readonly categories: readonly CocoCategory[];
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Image details for the COCO `images` table. */
+export interface CocoImageInfo {
+  readonly id: ImageId;
+  /** Defaults to the image id. */
+  readonly fileName?: string | undefined;
+  readonly width: number;
+  readonly height: number;
+}
+
+/** Options for {@link serializeCoco}. */
+export interface SerializeCocoOptions {
+  /**
+   * Image file names and pixel dimensions. Images referenced by annotations but
+   * missing here are written with their id as file name and `0 × 0` size.
+   */
+  readonly images?: readonly CocoImageInfo[] | undefined;
+  /**
+   * Contexts, used to name categories after context and label names rather
+   * than ids.
+   */
+  readonly contexts?: readonly AnnotationContext[] | undefined;
+  /** Max deviation (image px) when approximating circles as polygons. */
+  readonly tolerance?: number | undefined;
+  /**
+   * Write the lossless `osdlabel` extension on each annotation and unlabelled
+   * category. Defaults to `true`.
+   */
+  readonly includeSourceGeometry?: boolean | undefined;
+  readonly info?: Readonly<Record<string, unknown>> | undefined;
+}
+
+/** COCO visibility flag for a labelled, visible keypoint. */
+const KEYPOINT_VISIBLE = 2;
+
+function flatten(points: readonly Point[]): number[] {
+  return points.flatMap((p) => [p.x, p.y]);
+}
+
+function toKeypoints(points: readonly Point[]): number[] {
+  return points.flatMap((p) => [p.x, p.y, KEYPOINT_VISIBLE]);
+}
+
+/**
+ * Standard COCO fields for a geometry. Closed shapes become a segmentation
+ * polygon — rotated rectangles via their four corners, circles and ellipses
+ * via an inscribed polygon within `tolerance`. Multi-polygons write one
+ * segmentation polygon per outer ring; COCO polygons cannot express holes,
+ * though `area` still excludes them. COCO has no open-path type, so
+ * points, lines and polylines are written as keypoints with an empty
+ * segmentation.
+ */
+function cocoShapeFields(
+  geometry: Geometry,
+  tolerance: number,
+): Pick<CocoAnnotation, 'segmentation' | 'keypoints' | 'num_keypoints'> {
+  switch (geometry.type) {
+    case 'rectangle':
+      return { segmentation: [flatten(rectangleToPolygon(geometry).points)] };
+    case 'circle':
+      return { segmentation: [flatten(circleToPolygon(geometry, tolerance).points)] };
+    case 'ellipse':
+      return { segmentation: [flatten(ellipseToPolygon(geometry, tolerance).points)] };
+    case 'polygon':
+      return { segmentation: [flatten(geometry.points)] };
+    case 'multiPolygon':
+      return { segmentation: geometry.polygons.map((polygon) => flatten(polygon.outer)) };
+    case 'point':
+      return { segmentation: [], keypoints: toKeypoints([geometry.position]), num_keypoints: 1 };
+    case 'line':
+      return {
+        segmentation: [],
+        keypoints: toKeypoints([geometry.start, geometry.end]),
+        num_keypoints: 2,
+      };
+    case 'polyline':
+      return {
+        segmentation: [],
+        keypoints: toKeypoints(geometry.points),
+        num_keypoints: geometry.points.length,
+      };
+  }
+}
+
+/**
+ * Export annotation state as a COCO dataset.
+ *
+ * Each distinct (context, label) pair becomes a category: `name` is the
+ * label's name (its id when the context does not define it, the context
+ * label when unlabelled) and `supercategory` is the context label. Image and
+ * annotation ids are renumbered from 1, as COCO requires integers.
+ * The unlabelled category is marked in the osdlabel extension, so a label
+ * named like its context survives the round trip.
+ */
+export function serializeCoco(
+  state: AnnotationState<OsdFields>,
+  options: SerializeCocoOptions = {},
+): CocoDataset {
+  const tolerance = options.tolerance ?? DEFAULT_POLYGON_TOLERANCE;
+  const includeSource = options.includeSourceGeometry ?? true;
+  const contexts = new Map<AnnotationContextId, AnnotationContext>(
+    (options.contexts ?? []).map((ctx) => [ctx.id, ctx]),
+  );
+
+  const images: CocoImage[] = [];
+  const imageIndex = new Map<ImageId, number>();
+  const addImage = (id: ImageId, info?: CocoImageInfo): number => {
+    const existing = imageIndex.get(id);
+    if (existing !== undefined) return existing;
+    const cocoId = images.length + 1;
+    images.push({
+      id: cocoId,
+      file_name: info?.fileName ?? id,
+      width: info?.width ?? 0,
+      height: info?.height ?? 0,
+    });
+    imageIndex.set(id, cocoId);
+    return cocoId;
+  };
+  for (const info of options.images ?? []) addImage(info.id, info);
+
+  const categories: CocoCategory[] = [];
+  const categoryIndex = new Map<string, number>();
+  const categoryFor = (ann: Annotation<OsdFields>): number => {
+    const key = `${ann.contextId}\u0000${ann.label ?? ''}`;
+    const existing = categoryIndex.get(key);
+    if (existing !== undefined) return existing;
+    const context = contexts.get(ann.contextId);
+    const supercategory = context?.label ?? ann.contextId;
+    const name =
+      ann.label === undefined
+        ? supercategory
+        : (context?.labels?.find((l) => l.id === ann.label)?.name ?? ann.label);
+    const cocoId = categories.length + 1;
+    categories.push({
+      id: cocoId,
+      name,
+      supercategory,
+      ...(includeSource && ann.label === undefined && { osdlabel: { unlabelled: true as const } }),
+    });
+    categoryIndex.set(key, cocoId);
+    return cocoId;
+  };
+
+  const annotations = getAllAnnotationsFlat(state).map((ann, index): CocoAnnotation => {
+    const { min, max } = boundingBox(ann.geometry);
+    return {
+      id: index + 1,
+      image_id: addImage(ann.imageId),
+      category_id: categoryFor(ann),
+      bbox: [min.x, min.y, max.x - min.x, max.y - min.y],
+      area: area(ann.geometry),
+      iscrowd: 0,
+      ...cocoShapeFields(ann.geometry, tolerance),
+      ...(includeSource && {
+        osdlabel: {
+          id: ann.id,
+          contextId: ann.contextId,
+          toolType: ann.toolType,
+          geometry: ann.geometry,
+        },
+      }),
+    };
+  });
+
+  return {
+    ...(options.info !== undefined && { info: options.info }),
+    images,
+    annotations,
+    categories,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** A COCO annotation that could not be imported, and why. */
+export interface CocoSkippedAnnotation {
+  readonly id: number;
+  readonly reason: string;
+}
+
+/** Options for {@link deserializeCoco}. */
+export interface DeserializeCocoOptions {
+  /**
+   * Known contexts. A category's `supercategory` is matched against their
+   * labels, then ids; unmatched supercategories become context ids as-is.
+   * Its `name` is likewise matched against the context's label names, then
+   * label ids, and otherwise kept as the label. A category marked
+   * `unlabelled` by the osdlabel extension has no label; without the marker,
+   * neither does a `name` equal to the supercategory, unless the context
+   * defines a label by that name.
+   */
+  readonly contexts?: readonly AnnotationContext[] | undefined;
+  /** Maps a COCO image to an image id. Defaults to its `file_name`. */
+  readonly resolveImageId?: ((image: CocoImage) => ImageId) | undefined;
+  /** Style of the synthesized Fabric objects. Defaults to `DEFAULT_ANNOTATION_STYLE`. */
+  readonly style?: AnnotationStyle | undefined;
+}
+
+/** Result of {@link deserializeCoco}. */
+export interface CocoDeserializeResult extends DeserializeResult<OsdFields> {
+  readonly skipped: readonly CocoSkippedAnnotation[];
+}
+
+function toPoints(flat: readonly number[], stride: number): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < flat.length; i += stride) {
+    points.push({ x: flat[i]!, y: flat[i + 1]! });
+  }
+  return points;
+}
+
+/** Geometry (and matching tool type) from the standard COCO fields. */
+function geometryFromCoco(
+  ann: v.InferOutput<typeof CocoDatasetSchema>['annotations'][number],
+): { geometry: Geometry; toolType: ToolType } | string {
+  if (ann.iscrowd === 1 || (ann.segmentation && !Array.isArray(ann.segmentation))) {
+    return 'RLE (crowd) segmentation is not supported';
+  }
+  const polygon = ann.segmentation?.find((ring) => ring.length >= 6);
+  if (polygon) {
+    return { geometry: { type: 'polygon', points: toPoints(polygon, 2) }, toolType: 'polyline' };
+  }
+  // Only labelled keypoints (visibility > 0) carry a position.
+  const keypoints = toPoints(ann.keypoints ?? [], 3).filter(
+    (_, i) => (ann.keypoints?.[i * 3 + 2] ?? 0) > 0,
+  );
+  if (keypoints.length === 1) {
+    return { geometry: { type: 'point', position: keypoints[0]! }, toolType: 'point' };
+  }
+  if (keypoints.length === 2) {
+    return {
+      geometry: { type: 'line', start: keypoints[0]!, end: keypoints[1]! },
+      toolType: 'line',
+    };
+  }
+  if (keypoints.length > 2) {
+    return { geometry: { type: 'polyline', points: keypoints }, toolType: 'polyline' };
+  }
+  const [x, y, width, height] = ann.bbox as [number, number, number, number];
+  return {
+    geometry: { type: 'rectangle', origin: { x, y }, width, height, rotation: 0 },
+    toolType: 'rectangle',
+  };
+}
+
+/**
+ * Import a COCO dataset. The osdlabel extension written by
+ * {@link serializeCoco} is preferred when present and valid; otherwise
+ * geometry is derived from the first segmentation polygon, then keypoints
+ * (1 → point, 2 → line, more → polyline), then the bbox. Fabric
+ * `rawAnnotationData` is synthesized from the geometry. Crowd (RLE)
+ * annotations are skipped and reported.
+ *
+ * Throws `SerializationError` if the dataset does not match the COCO schema.
+ */
+export function deserializeCoco(
+  dataset: unknown,
+  options: DeserializeCocoOptions = {},
+): CocoDeserializeResult {
+  let parsed: v.InferOutput<typeof CocoDatasetSchema>;
+  try {
+    parsed = v.parse(CocoDatasetSchema, dataset);
+  } catch (err) {
+    throw new SerializationError(
+      `Validation failed: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const resolveImageId = options.resolveImageId ?? ((image) => createImageId(image.file_name));
+  const imageIds = new Map<number, ImageId>(
+    parsed.images.map((image) => [image.id, resolveImageId(image)]),
+  );
+
+  const contexts = options.contexts ?? [];
+  const resolveContextId = (name: string): AnnotationContextId =>
+    (contexts.find((ctx) => ctx.label === name) ?? contexts.find((ctx) => ctx.id === name))?.id ??
+    createAnnotationContextId(name);
+  const findLabel = (contextId: AnnotationContextId, name: string) => {
+    const labels = contexts.find((ctx) => ctx.id === contextId)?.labels ?? [];
+    return labels.find((l) => l.name === name) ?? labels.find((l) => l.id === name);
+  };
+  const resolveLabel = (contextId: AnnotationContextId, name: string): string =>
+    findLabel(contextId, name)?.id ?? name;
+  const categories = new Map(
+    parsed.categories.map((cat) => {
+      const supercategory = cat.supercategory ?? cat.name;
+      const contextId = resolveContextId(supercategory);
+      // Without the extension's marker, a name equal to the context's is the
+      // unlabelled category unless the context defines a label of that name.
+      const unlabelled = v.is(v.object({ unlabelled: v.literal(true) }), cat['osdlabel']);
+      const labelled =
+        !unlabelled && (cat.name !== supercategory || findLabel(contextId, cat.name) !== undefined);
+      return [cat.id, { contextId, name: labelled ? cat.name : undefined }];
+    }),
+  );
+
+  const byImage: Record<ImageId, Record<AnnotationId, Annotation<OsdFields>>> = {};
+  const skipped: CocoSkippedAnnotation[] = [];
+
+  for (const ann of parsed.annotations) {
+    const imageId = imageIds.get(ann.image_id);
+    const category = categories.get(ann.category_id);
+    if (!imageId || !category) {
+      skipped.push({ id: ann.id, reason: 'Unknown image_id or category_id' });
+      continue;
+    }
+
+    const source = v.safeParse(
+      v.looseObject({
+        id: v.pipe(v.string(), v.minLength(1)),
+        contextId: v.pipe(v.string(), v.minLength(1)),
+        toolType: ToolTypeSchema,
+        geometry: GeometrySchema,
+      }),
+      ann['osdlabel'],
+    );
+    const shape = source.success
+      ? { geometry: source.output.geometry as Geometry, toolType: source.output.toolType }
+      : geometryFromCoco(ann);
+    if (typeof shape === 'string') {
+      skipped.push({ id: ann.id, reason: shape });
+      continue;
+    }
+
+    const contextId = source.success
+      ? createAnnotationContextId(source.output.contextId)
+      : category.contextId;
+    const annotation = createAnnotationFromGeometry(shape.geometry, {
+      imageId,
+      contextId,
+      toolType: shape.toolType,
+      style: options.style,
+      id: source.success ? createAnnotationId(source.output.id) : undefined,
+      label: category.name !== undefined ? resolveLabel(contextId, category.name) : undefined,
+    });
+    const bucket = byImage[imageId] ?? {};
+    bucket[annotation.id] = annotation;
+    byImage[imageId] = bucket;
+  }
+
+  return { byImage, skipped };
+}
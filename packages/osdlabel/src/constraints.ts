@@ -1,44 +1,59 @@
 import type { ToolType } from '@osdlabel/annotation';
 import type { ImageId, AnnotationState } from '@osdlabel/viewer-api';
 import type {
+  AnnotationContext,
   AnnotationContextId,
+  CompletionStatus,
   ContextState,
   ConstraintStatus,
+  CountScope,
+  CountStatus,
+  LabelStatus,
+  MissingAttributes,
+  RequirementsStatus,
+  UnmetRequirement,
 } from '@osdlabel/annotation-context';
-import { isContextScopedToImage, getCountableImageIds } from '@osdlabel/annotation-context';
-import type { OsdFields } from './types.js';
-
-const ALL_TOOL_TYPES: readonly ToolType[] = [
-  'rectangle',
-  'circle',
-  'line',
-  'point',
-  'polyline',
-  'freeHandPath',
-] as const;
+import {
+  isContextScopedToImage,
+  getCountableImageIds,
+  getMissingAttributeKeys,
+} from '@osdlabel/annotation-context';
+import type { OsdAnnotation, OsdFields } from './types.js';
+import { getToolDefinitions, resolveToolConstraint } from './tool-registry.js';
 
 /**
- * Pure function that computes constraint status from current state.
+ * Pure function that computes constraint status from current state, with an
+ * entry for every registered tool (see `registerTool`).
+ *
+ * With an `activeLabel`, a tool is only enabled if that label allows it and
+ * still has room under its own `maxCount`.
  * Framework wrappers memoize this (createMemo in Solid, useMemo in React).
  */
 export function computeConstraintStatus(
   contextState: ContextState,
   annotationState: AnnotationState<OsdFields>,
   currentImageId: ImageId | undefined,
+  activeLabel: string | null = null,
 ): ConstraintStatus {
   const activeContext = contextState.contexts.find((c) => c.id === contextState.activeContextId);
 
-  const result: Partial<ConstraintStatus> = {};
+  const result: Partial<Record<ToolType, CountStatus>> = {};
+  const toolTypes = getToolDefinitions().map((d) => d.type);
 
   if (!activeContext || !currentImageId || !isContextScopedToImage(activeContext, currentImageId)) {
-    for (const type of ALL_TOOL_TYPES) {
+    for (const type of toolTypes) {
       result[type] = { enabled: false, currentCount: 0, maxCount: null };
     }
     return result as ConstraintStatus;
   }
 
-  for (const type of ALL_TOOL_TYPES) {
-    const toolConstraint = activeContext.tools.find((t) => t.type === type);
+  const drawingLabel = activeContext.labels?.find((l) => l.id === activeLabel);
+  const labels = drawingLabel
+    ? computeLabelStatus(contextState, annotationState, currentImageId)
+    : {};
+
+  for (const type of toolTypes) {
+    const toolConstraint = resolveToolConstraint(activeContext, type);
     if (!toolConstraint) {
       result[type] = { enabled: false, currentCount: 0, maxCount: null };
     } else {
@@ -50,7 +65,11 @@ export function computeConstraintStatus(
         getCountableImageIds(activeContext, currentImageId, countScope),
       );
       const maxCount = toolConstraint.maxCount ?? null;
-      const enabled = maxCount === null || currentCount < maxCount;
+      const labelAllows =
+        !drawingLabel ||
+        ((labels[drawingLabel.id]?.enabled ?? true) &&
+          (!drawingLabel.tools || drawingLabel.tools.includes(type)));
+      const enabled = (maxCount === null || currentCount < maxCount) && labelAllows;
 
       result[type] = {
         enabled,
@@ -62,11 +81,171 @@ export function computeConstraintStatus(
   return result as ConstraintStatus;
 }
 
+/**
+ * Pure function that computes, for every label of the active context,
+ * whether one more annotation fits under its `maxCount` on `currentImageId`.
+ * Framework wrappers memoize this next to the constraint status.
+ */
+export function computeLabelStatus(
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+  currentImageId: ImageId | undefined,
+): LabelStatus {
+  const activeContext = contextState.contexts.find((c) => c.id === contextState.activeContextId);
+  const labels: Record<string, CountStatus> = {};
+  const usable =
+    activeContext !== undefined &&
+    currentImageId !== undefined &&
+    isContextScopedToImage(activeContext, currentImageId);
+
+  for (const label of activeContext?.labels ?? []) {
+    if (!usable) {
+      labels[label.id] = { enabled: false, currentCount: 0, maxCount: null };
+      continue;
+    }
+    const currentCount = countAnnotationsForContextAndLabel(
+      annotationState,
+      activeContext.id,
+      label.id,
+      getCountableImageIds(activeContext, currentImageId, label.countScope ?? 'global'),
+    );
+    const maxCount = label.maxCount ?? null;
+    labels[label.id] = {
+      enabled: maxCount === null || currentCount < maxCount,
+      currentCount,
+      maxCount,
+    };
+  }
+  return labels;
+}
+
+/**
+ * Pure function that computes whether the `minCount`s (or `required` flags)
+ * of every context's tools and labels are reached. `'per-image'`
+ * requirements are checked on each of `imageIds` the context is scoped to,
+ * `'global'` ones across the context's images.
+ * Framework wrappers memoize this next to the constraint status.
+ */
+export function computeCompletionStatus(
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+  imageIds: readonly ImageId[],
+): CompletionStatus {
+  const unmetByImage = new Map<ImageId, UnmetRequirement[]>(imageIds.map((id) => [id, []]));
+  const unmetGlobal: UnmetRequirement[] = [];
+  let hasRequirements = false;
+
+  for (const context of contextState.contexts) {
+    for (const requirement of getRequirements(context)) {
+      hasRequirements = true;
+      const { kind, id, minCount, matches } = requirement;
+      if (requirement.countScope === 'per-image') {
+        for (const imageId of imageIds) {
+          if (!isContextScopedToImage(context, imageId)) continue;
+          const currentCount = countAnnotations(annotationState, [imageId], matches);
+          if (currentCount < minCount) {
+            unmetByImage
+              .get(imageId)
+              ?.push({ contextId: context.id, kind, id, currentCount, minCount });
+          }
+        }
+      } else {
+        const currentCount = countAnnotations(annotationState, context.imageIds, matches);
+        if (currentCount < minCount) {
+          unmetGlobal.push({ contextId: context.id, kind, id, currentCount, minCount });
+        }
+      }
+    }
+  }
+
+  const byImage: Record<ImageId, RequirementsStatus> = {};
+  for (const [imageId, unmet] of unmetByImage) {
+    byImage[imageId] = { complete: unmet.length === 0, unmet };
+  }
+  const global: RequirementsStatus = { complete: unmetGlobal.length === 0, unmet: unmetGlobal };
+  return {
+    complete: global.complete && Object.values(byImage).every((r) => r.complete),
+    hasRequirements,
+    byImage,
+    global,
+  };
+}
+
+interface Requirement {
+  readonly kind: UnmetRequirement['kind'];
+  readonly id: string;
+  readonly minCount: number;
+  readonly countScope: CountScope;
+  readonly matches: (annotation: OsdAnnotation) => boolean;
+}
+
+/** The tools and labels of `context` with a `minCount` (or `required`) above zero. */
+function getRequirements(context: AnnotationContext): Requirement[] {
+  const requirements: Requirement[] = [];
+  for (const { type } of context.tools) {
+    const constraint = resolveToolConstraint(context, type);
+    const minCount = constraint ? getMinCount(constraint) : 0;
+    if (minCount === 0) continue;
+    requirements.push({
+      kind: 'tool',
+      id: type,
+      minCount,
+      countScope: constraint?.countScope ?? 'global',
+      matches: (ann) => ann.contextId === context.id && ann.toolType === type,
+    });
+  }
+  for (const label of context.labels ?? []) {
+    const minCount = getMinCount(label);
+    if (minCount === 0) continue;
+    requirements.push({
+      kind: 'label',
+      id: label.id,
+      minCount,
+      countScope: label.countScope ?? 'global',
+      matches: (ann) => ann.contextId === context.id && ann.label === label.id,
+    });
+  }
+  return requirements;
+}
+
+function getMinCount(limits: {
+  readonly minCount?: number | undefined;
+  readonly required?: boolean | undefined;
+}): number {
+  return limits.minCount ?? (limits.required ? 1 : 0);
+}
+
 export function countAnnotationsForContextAndType(
   annotationState: AnnotationState<OsdFields>,
   contextId: AnnotationContextId,
   type: ToolType,
   scopedImageIds?: readonly ImageId[] | undefined,
+): number {
+  return countAnnotations(
+    annotationState,
+    scopedImageIds,
+    (ann) => ann.contextId === contextId && ann.toolType === type,
+  );
+}
+
+/** Counts a context's annotations with the label `label`, whichever tool drew them. */
+export function countAnnotationsForContextAndLabel(
+  annotationState: AnnotationState<OsdFields>,
+  contextId: AnnotationContextId,
+  label: string,
+  scopedImageIds?: readonly ImageId[] | undefined,
+): number {
+  return countAnnotations(
+    annotationState,
+    scopedImageIds,
+    (ann) => ann.contextId === contextId && ann.label === label,
+  );
+}
+
+function countAnnotations(
+  annotationState: AnnotationState<OsdFields>,
+  scopedImageIds: readonly ImageId[] | undefined,
+  predicate: (annotation: OsdAnnotation) => boolean,
 ): number {
   let count = 0;
   const imageBuckets = scopedImageIds
@@ -76,11 +255,33 @@ export function countAnnotationsForContextAndType(
   for (const imageAnns of imageBuckets) {
     if (!imageAnns) continue;
     for (const ann of Object.values(imageAnns)) {
-      if (ann.contextId === contextId && ann.toolType === type) {
-        count++;
-      }
+      if (predicate(ann)) count++;
     }
   }
 
   return count;
 }
+
+/**
+ * Pure function that lists the annotations of the active context whose
+ * required attributes have no value, with the missing keys.
+ */
+export function findMissingAttributes(
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+): MissingAttributes[] {
+  const context = contextState.contexts.find((c) => c.id === contextState.activeContextId);
+  const definitions = context?.attributes ?? [];
+  if (!context || !definitions.some((d) => d.required)) return [];
+  const missing: MissingAttributes[] = [];
+  for (const imageAnns of Object.values(annotationState.byImage)) {
+    for (const ann of Object.values(imageAnns)) {
+      if (ann.contextId !== context.id) continue;
+      const keys = getMissingAttributeKeys(definitions, ann.attributes);
+      if (keys.length > 0) {
+        missing.push({ annotationId: ann.id, imageId: ann.imageId, keys });
+      }
+    }
+  }
+  return missing;
+}
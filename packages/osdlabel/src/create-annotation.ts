@@ -28,7 +28,11 @@ export interface CreateAnnotationFromGeometryOptions {
    * `geometry.type: 'polygon'` (closed) or `'polyline'` (open).
    */
   readonly toolType: ToolType;
-  /** Visual style. Defaults to {@link DEFAULT_ANNOTATION_STYLE}. */
+  /**
+   * Visual style. Defaults to {@link DEFAULT_ANNOTATION_STYLE}. When given, it
+   * is also stored on the annotation, so it still renders in this style if
+   * `rawAnnotationData` is later dropped or becomes incompatible.
+   */
   readonly style?: AnnotationStyle | undefined;
   /** Explicit id. A fresh id is generated when omitted. */
   readonly id?: AnnotationId | undefined;
@@ -83,5 +87,6 @@ export function createAnnotationFromGeometry(
     createdAt: now,
     updatedAt: now,
     ...(options.label !== undefined ? { label: options.label } : {}),
+    ...(options.style !== undefined ? { style: options.style } : {}),
   };
 }
@@ -0,0 +1,89 @@
+// ---------------------------------------------------------------------------
+// Annotation document format versions and the migrations between them
+//
+// Version history:
+//   1 — bare `Annotation[]` array (no envelope)
+//   2 — `{ formatVersion, generator, images, contexts, annotations }` envelope
+//
+// Every format change bumps CURRENT_FORMAT_VERSION and appends a migration
+// from the previous version. deserialize() runs them in sequence, so a
+// document written by any earlier release upgrades one step at a time.
+// ---------------------------------------------------------------------------
+
+/** The document format version written by `serialize()`. */
+export const CURRENT_FORMAT_VERSION = 2;
+
+/** Value of `generator.name` in documents written by this library. */
+export const DOCUMENT_GENERATOR_NAME = 'osdlabel';
+
+/** Result of a single migration step. */
+export interface MigrationStepResult {
+  readonly document: unknown;
+  /** Human-readable description of each change the step made. */
+  readonly changes: readonly string[];
+}
+
+/** Upgrades a document from format version `from` to `from + 1`. */
+export interface DocumentMigration {
+  readonly from: number;
+  readonly migrate: (document: unknown) => MigrationStepResult;
+}
+
+/** What one migration step did to a document during `deserialize()`. */
+export interface MigrationReport {
+  readonly from: number;
+  readonly to: number;
+  readonly changes: readonly string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** v1 → v2: wrap the bare annotation array in the versioned envelope. */
+const migrateV1ToV2: DocumentMigration = {
+  from: 1,
+  migrate: (document) => {
+    const annotations = document as unknown[];
+    const imageIds = new Set<string>();
+    let fabricVersion = 'unknown';
+    for (const ann of annotations) {
+      if (!isRecord(ann)) continue;
+      if (typeof ann.imageId === 'string') imageIds.add(ann.imageId);
+      const raw = ann.rawAnnotationData;
+      if (fabricVersion === 'unknown' && isRecord(raw) && typeof raw.fabricVersion === 'string') {
+        fabricVersion = raw.fabricVersion;
+      }
+    }
+    return {
+      document: {
+        formatVersion: 2,
+        generator: { name: DOCUMENT_GENERATOR_NAME, fabricVersion },
+        images: [...imageIds].map((id) => ({ id })),
+        contexts: [],
+        annotations,
+      },
+      changes: [
+        `Wrapped ${annotations.length} annotation(s) in a versioned document envelope`,
+        `Derived an image manifest of ${imageIds.size} image(s) from annotation imageIds`,
+        'No context definitions were recorded in the source document',
+      ],
+    };
+  },
+};
+
+/** Built-in migrations, ordered by source version. */
+export const DOCUMENT_MIGRATIONS: readonly DocumentMigration[] = [migrateV1ToV2];
+
+/**
+ * Reads the format version of a serialized document: a bare array is
+ * version 1, an envelope carries its own `formatVersion`. Returns `null` when
+ * the input is neither.
+ */
+export function detectFormatVersion(document: unknown): number | null {
+  if (Array.isArray(document)) return 1;
+  if (isRecord(document) && Number.isInteger(document.formatVersion)) {
+    return document.formatVersion as number;
+  }
+  return null;
+}
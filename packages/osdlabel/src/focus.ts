@@ -0,0 +1,35 @@
+import { boundingBox } from '@osdlabel/geometry';
+import type { BoundingBox } from '@osdlabel/geometry';
+import type { AnnotationState, FocusRequest } from '@osdlabel/viewer-api';
+import type { OsdFields } from './types.js';
+
+/** Screen pixels kept clear around the annotations a cell is fitted to. */
+export const DEFAULT_FOCUS_PADDING = 40;
+
+/**
+ * The image-space box around the annotations `request` frames: its
+ * `annotationIds`, or every annotation of its image that is not hidden.
+ * `undefined` when none of them exist.
+ */
+export function getFocusBounds(
+  state: AnnotationState<OsdFields>,
+  request: FocusRequest,
+): BoundingBox | undefined {
+  const imageAnns = state.byImage[request.imageId] ?? {};
+  const annotations = request.annotationIds
+    ? request.annotationIds.flatMap((id) => imageAnns[id] ?? [])
+    : Object.values(imageAnns).filter((a) => !a.hidden);
+  if (annotations.length === 0) return undefined;
+
+  const boxes = annotations.map((a) => boundingBox(a.geometry));
+  return {
+    min: {
+      x: Math.min(...boxes.map((b) => b.min.x)),
+      y: Math.min(...boxes.map((b) => b.min.y)),
+    },
+    max: {
+      x: Math.max(...boxes.map((b) => b.max.x)),
+      y: Math.max(...boxes.map((b) => b.max.y)),
+    },
+  };
+}
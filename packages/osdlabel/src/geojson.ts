@@ -0,0 +1,287 @@
+import type {
+  Annotation,
+  AnnotationId,
+  AnnotationStyle,
+  Geometry,
+  ToolType,
+} from '@osdlabel/annotation';
+import { createAnnotationId, geometryTypeToDefaultToolType } from '@osdlabel/annotation';
+import type { AnnotationState, ImageId, ImageSource, PixelSpacing } from '@osdlabel/viewer-api';
+import { createImageId, getAllAnnotationsFlat } from '@osdlabel/viewer-api';
+import type { AnnotationContextId } from '@osdlabel/annotation-context';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import {
+  area,
+  DEFAULT_POLYGON_TOLERANCE,
+  geoJsonToGeometry,
+  geometryToGeoJson,
+  length,
+  perimeter,
+} from '@osdlabel/geometry';
+import type { GeoJsonGeometry } from '@osdlabel/geometry';
+import { toPhysicalArea, toPhysicalLength } from '@osdlabel/decoration';
+import type { Measurement } from '@osdlabel/decoration';
+import {
+  GeoJsonFeatureCollectionSchema,
+  GeoJsonFeatureSchema,
+  GeoJsonGeometrySchema,
+  GeometrySchema,
+  ToolTypeSchema,
+} from '@osdlabel/validation';
+import * as v from 'valibot';
+import { createAnnotationFromGeometry } from './create-annotation.js';
+import { SerializationError } from './serialization-configured.js';
+import type { DeserializeResult } from './serialization-configured.js';
+import type { OsdFields } from './types.js';
+
+// ---------------------------------------------------------------------------
+// GeoJSON feature types
+// ---------------------------------------------------------------------------
+
+/** QuPath-style classification of a feature. */
+export interface GeoJsonClassification {
+  readonly name: string;
+}
+
+/**
+ * Properties written on each exported feature. `objectType`,
+ * `classification` and `measurements` follow QuPath's conventions, so
+ * QuPath imports the features as classified annotations.
+ */
+export interface GeoJsonFeatureProperties {
+  readonly objectType: 'annotation';
+  /** The annotation label, as QuPath's object name. */
+  readonly name?: string | undefined;
+  /** The annotation label, as QuPath's class. */
+  readonly classification?: GeoJsonClassification | undefined;
+  readonly imageId: string;
+  readonly contextId: string;
+  readonly toolType: ToolType;
+  /** Keyed by measurement name and unit, e.g. `"Area µm²"`. */
+  readonly measurements: Readonly<Record<string, number>>;
+  /** Exact source geometry, for shapes GeoJSON can only approximate (rectangles, circles). */
+  readonly osdlabel?: { readonly geometry: Geometry } | undefined;
+  readonly [key: string]: unknown;
+}
+
+export interface GeoJsonFeature {
+  readonly type: 'Feature';
+  readonly id: string;
+  readonly geometry: GeoJsonGeometry;
+  readonly properties: GeoJsonFeatureProperties;
+}
+
+export interface GeoJsonFeatureCollection {
+  readonly type: 'FeatureCollection';
+  readonly features: readonly GeoJsonFeature[];
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Options for {@link serializeGeoJson}. */
+export interface SerializeGeoJsonOptions {
+  /** Image sources, used for their `pixelSpacing` when computing measurements. */
+  readonly images?: readonly ImageSource[] | undefined;
+  /** Spacing for images without their own. Measurements are in pixels when neither is set. */
+  readonly defaultPixelSpacing?: PixelSpacing | undefined;
+  /** Max deviation (image px) when approximating circles as polygons. */
+  readonly tolerance?: number | undefined;
+  /** Write the exact source geometry under `properties.osdlabel`. Defaults to `true`. */
+  readonly includeSourceGeometry?: boolean | undefined;
+}
+
+function measurementsFor(
+  geometry: Geometry,
+  pixelSpacing: PixelSpacing | undefined,
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  const write = (name: string, m: Measurement): void => {
+    result[`${name} ${m.unit}`] = m.value;
+  };
+  switch (geometry.type) {
+    case 'circle':
+      write('Radius', toPhysicalLength(geometry.radius, pixelSpacing, 'mean'));
+      write('Area', toPhysicalArea(area(geometry), pixelSpacing));
+      write('Perimeter', toPhysicalLength(perimeter(geometry), pixelSpacing, 'mean'));
+      break;
+    case 'rectangle':
+    case 'ellipse':
+    case 'polygon':
+    case 'multiPolygon':
+      write('Area', toPhysicalArea(area(geometry), pixelSpacing));
+      write('Perimeter', toPhysicalLength(perimeter(geometry), pixelSpacing, 'mean'));
+      break;
+    case 'line':
+    case 'polyline':
+      write('Length', toPhysicalLength(length(geometry), pixelSpacing, 'mean'));
+      break;
+    case 'point':
+      break;
+  }
+  return result;
+}
+
+/**
+ * Export annotation state as a GeoJSON `FeatureCollection` that QuPath can
+ * import. Coordinates are image pixels. Rectangles and circles are
+ * polygonised (see `geometryToGeoJson`); the label becomes the feature's
+ * `classification` and `name`, and area / perimeter / length / radius are
+ * written to `measurements` in physical units where pixel spacing is known.
+ */
+export function serializeGeoJson(
+  state: AnnotationState<OsdFields>,
+  options: SerializeGeoJsonOptions = {},
+): GeoJsonFeatureCollection {
+  const tolerance = options.tolerance ?? DEFAULT_POLYGON_TOLERANCE;
+  const includeSource = options.includeSourceGeometry ?? true;
+  const spacing = new Map<ImageId, PixelSpacing | undefined>(
+    (options.images ?? []).map((img) => [img.id, img.pixelSpacing]),
+  );
+
+  const features = getAllAnnotationsFlat(state).map(
+    (ann): GeoJsonFeature => ({
+      type: 'Feature',
+      id: ann.id,
+      geometry: geometryToGeoJson(ann.geometry, tolerance),
+      properties: {
+        objectType: 'annotation',
+        ...(ann.label !== undefined && { name: ann.label, classification: { name: ann.label } }),
+        imageId: ann.imageId,
+        contextId: ann.contextId,
+        toolType: ann.toolType,
+        measurements: measurementsFor(
+          ann.geometry,
+          spacing.get(ann.imageId) ?? options.defaultPixelSpacing,
+        ),
+        ...(includeSource && { osdlabel: { geometry: ann.geometry } }),
+      },
+    }),
+  );
+
+  return { type: 'FeatureCollection', features };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** A feature that could not be imported, and why. */
+export interface GeoJsonSkippedFeature {
+  /** Position of the feature in the input. */
+  readonly index: number;
+  readonly reason: string;
+}
+
+/** Options for {@link deserializeGeoJson}. */
+export interface DeserializeGeoJsonOptions {
+  /**
+   * Image for features without an `imageId` property — QuPath exports one
+   * file per image and does not record it.
+   */
+  readonly imageId?: ImageId | undefined;
+  /** Context for features without a `contextId` property. */
+  readonly contextId?: AnnotationContextId | undefined;
+  /** Style of the synthesized Fabric objects. Defaults to `DEFAULT_ANNOTATION_STYLE`. */
+  readonly style?: AnnotationStyle | undefined;
+}
+
+/** Result of {@link deserializeGeoJson}. */
+export interface GeoJsonDeserializeResult extends DeserializeResult<OsdFields> {
+  readonly skipped: readonly GeoJsonSkippedFeature[];
+}
+
+const SourcePropertiesSchema = v.looseObject({
+  imageId: v.optional(v.pipe(v.string(), v.minLength(1))),
+  contextId: v.optional(v.pipe(v.string(), v.minLength(1))),
+  toolType: v.optional(ToolTypeSchema),
+  name: v.optional(v.string()),
+  classification: v.optional(v.looseObject({ name: v.string() })),
+  osdlabel: v.optional(v.looseObject({ geometry: GeometrySchema })),
+});
+
+/**
+ * Import a GeoJSON `FeatureCollection` (or a bare array of features, as
+ * QuPath also writes). `Point`, `LineString`, `Polygon` and `MultiPolygon`
+ * features become annotations (polygons with holes as multi-polygons), with geometry validated through `GeometrySchema` and Fabric
+ * `rawAnnotationData` synthesized from it. The label is read from
+ * `classification.name`, falling back to `name`.
+ *
+ * Features missing an image or context (neither as a property nor in
+ * `options`), with unsupported geometry types, or with invalid coordinates
+ * are reported in `skipped`. Throws `SerializationError` if the input is not
+ * a feature collection.
+ */
+export function deserializeGeoJson(
+  input: unknown,
+  options: DeserializeGeoJsonOptions = {},
+): GeoJsonDeserializeResult {
+  let features: v.InferOutput<typeof GeoJsonFeatureSchema>[];
+  try {
+    features = Array.isArray(input)
+      ? v.parse(v.array(GeoJsonFeatureSchema), input)
+      : v.parse(GeoJsonFeatureCollectionSchema, input).features;
+  } catch (err) {
+    throw new SerializationError(
+      `Validation failed: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const byImage: Record<ImageId, Record<AnnotationId, Annotation<OsdFields>>> = {};
+  const skipped: GeoJsonSkippedFeature[] = [];
+
+  features.forEach((feature, index) => {
+    const props = v.safeParse(SourcePropertiesSchema, feature.properties ?? {});
+    if (!props.success) {
+      skipped.push({ index, reason: `Invalid properties: ${props.issues[0].message}` });
+      return;
+    }
+    const { output } = props;
+
+    const imageId = output.imageId !== undefined ? createImageId(output.imageId) : options.imageId;
+    const contextId =
+      output.contextId !== undefined
+        ? createAnnotationContextId(output.contextId)
+        : options.contextId;
+    if (!imageId || !contextId) {
+      skipped.push({ index, reason: 'No imageId or contextId for feature' });
+      return;
+    }
+
+    let geometry = output.osdlabel?.geometry as Geometry | undefined;
+    if (!geometry) {
+      const source = v.safeParse(GeoJsonGeometrySchema, feature.geometry);
+      if (!source.success) {
+        skipped.push({
+          index,
+          reason: `Unsupported geometry: ${feature.geometry?.type ?? 'null'}`,
+        });
+        return;
+      }
+      const converted = v.safeParse(
+        GeometrySchema,
+        geoJsonToGeometry(source.output as GeoJsonGeometry),
+      );
+      if (!converted.success) {
+        skipped.push({ index, reason: `Invalid geometry: ${converted.issues[0].message}` });
+        return;
+      }
+      geometry = converted.output as Geometry;
+    }
+
+    const annotation = createAnnotationFromGeometry(geometry, {
+      imageId,
+      contextId,
+      toolType: output.toolType ?? geometryTypeToDefaultToolType(geometry.type),
+      style: options.style,
+      id: typeof feature.id === 'string' && feature.id ? createAnnotationId(feature.id) : undefined,
+      label: output.classification?.name ?? output.name,
+    });
+    const bucket = byImage[imageId] ?? {};
+    bucket[annotation.id] = annotation;
+    byImage[imageId] = bucket;
+  });
+
+  return { byImage, skipped };
+}
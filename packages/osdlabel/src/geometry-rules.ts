@@ -0,0 +1,220 @@
+import type { AnnotationId, Geometry, GeometryType } from '@osdlabel/annotation';
+import type { AnnotationState, ImageId, ImageSize } from '@osdlabel/viewer-api';
+import type {
+  ContextState,
+  GeometryRules,
+  GeometryViolation,
+  GeometryViolationReport,
+} from '@osdlabel/annotation-context';
+import {
+  area,
+  clampGeometry,
+  geometriesOverlap,
+  isSelfIntersecting,
+  isWithinBounds,
+  length,
+} from '@osdlabel/geometry';
+import type { AnnotationUpdate } from './actions.js';
+import { resolveToolConstraint } from './tool-registry.js';
+import type { OsdAnnotation, OsdFields } from './types.js';
+
+/** What an annotation's geometry rules are checked against */
+export interface GeometryRuleEnvironment {
+  /** Annotations checked for overlap; the annotation itself is skipped. */
+  readonly annotationState: AnnotationState<OsdFields>;
+  /** Pixel size per image. Images without one skip `insideImage`. */
+  readonly imageSizes: Readonly<Record<ImageId, ImageSize>>;
+  /** Receives a report whenever an annotation breaks one of its rules. */
+  readonly onViolation?: ((report: GeometryViolationReport) => void) | undefined;
+}
+
+/** The outcome of checking an annotation against its tool's geometry rules */
+export interface GeometryRuleResult {
+  /** The geometry to store (clamped under `'clamp'`), or `null` to reject the change. */
+  readonly geometry: Geometry | null;
+  /** What was broken, or `null` when every rule holds. */
+  readonly report: GeometryViolationReport | null;
+}
+
+type CheckedAnnotation = Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>;
+
+/** Geometry types with an interior, which the area and overlap rules apply to. */
+const CLOSED_GEOMETRY_TYPES: ReadonlySet<GeometryType> = new Set([
+  'rectangle',
+  'circle',
+  'ellipse',
+  'polygon',
+  'multiPolygon',
+]);
+
+/**
+ * Checks an annotation against the `geometryRules` of its tool in its
+ * context. Under the `'clamp'` policy a shape is pulled inside its image
+ * when that alone satisfies every rule; otherwise any broken rule rejects
+ * the change, unless the policy is `'warn'`.
+ */
+export function evaluateGeometryRules(
+  annotation: CheckedAnnotation,
+  contextState: ContextState,
+  environment: GeometryRuleEnvironment,
+): GeometryRuleResult {
+  const ctx = contextState.contexts.find((c) => c.id === annotation.contextId);
+  const rules = ctx ? resolveToolConstraint(ctx, annotation.toolType)?.geometryRules : undefined;
+  if (!rules) return { geometry: annotation.geometry, report: null };
+
+  const imageSize = environment.imageSizes[annotation.imageId];
+  const check = (geometry: Geometry) =>
+    findViolations(annotation, geometry, rules, imageSize, environment.annotationState);
+  const violations = check(annotation.geometry);
+  if (violations.length === 0) return { geometry: annotation.geometry, report: null };
+
+  const report = (
+    outcome: GeometryViolationReport['outcome'],
+    geometry: Geometry | null,
+  ): GeometryRuleResult => ({
+    geometry,
+    report: {
+      annotationId: annotation.id,
+      imageId: annotation.imageId,
+      contextId: annotation.contextId,
+      toolType: annotation.toolType,
+      outcome,
+      violations,
+    },
+  });
+
+  const policy = rules.policy ?? 'reject';
+  if (policy === 'warn') return report('warned', annotation.geometry);
+  if (policy === 'clamp' && imageSize) {
+    const clamped = clampGeometry(annotation.geometry, imageBounds(imageSize));
+    if (check(clamped).length === 0) return report('clamped', clamped);
+  }
+  return report('rejected', null);
+}
+
+/**
+ * Runs {@link evaluateGeometryRules} on an annotation about to be added,
+ * passing any report to `environment.onViolation`. Returns the annotation to
+ * add — with its geometry clamped, and its stale Fabric data dropped, if
+ * need be — or `null` when it is rejected. Both framework wrappers call
+ * this after `validateAddAnnotation`.
+ */
+export function applyGeometryRules(
+  annotation: CheckedAnnotation,
+  contextState: ContextState,
+  environment: GeometryRuleEnvironment,
+): CheckedAnnotation | null {
+  const { geometry, report } = evaluateGeometryRules(annotation, contextState, environment);
+  if (report) environment.onViolation?.(report);
+  if (!geometry) return null;
+  return geometry === annotation.geometry
+    ? annotation
+    : { ...annotation, geometry, rawAnnotationData: undefined };
+}
+
+/**
+ * Runs {@link evaluateGeometryRules} on every update that changes an
+ * annotation's geometry. Each one is checked against the batch's other new
+ * geometries, so shapes moved together are not compared with where their
+ * neighbours used to be. Returns the updates to apply, or `null` when any
+ * of them is rejected.
+ */
+export function applyGeometryRulesToUpdates(
+  updates: readonly AnnotationUpdate[],
+  contextState: ContextState,
+  environment: GeometryRuleEnvironment,
+): readonly AnnotationUpdate[] | null {
+  if (!updates.some((u) => u.patch.geometry !== undefined)) return updates;
+
+  const byImage: Record<ImageId, Record<AnnotationId, OsdAnnotation>> = {
+    ...environment.annotationState.byImage,
+  };
+  for (const { id, imageId, patch } of updates) {
+    const current = byImage[imageId]?.[id];
+    if (current) byImage[imageId] = { ...byImage[imageId], [id]: { ...current, ...patch } };
+  }
+  const patched = { ...environment, annotationState: { ...environment.annotationState, byImage } };
+
+  let rejected = false;
+  const checked = updates.map((update) => {
+    const annotation = byImage[update.imageId]?.[update.id];
+    if (update.patch.geometry === undefined || !annotation) return update;
+    const result = applyGeometryRules(annotation, contextState, patched);
+    if (!result) rejected = true;
+    if (!result || result === annotation) return update;
+    return {
+      ...update,
+      patch: { ...update.patch, geometry: result.geometry, rawAnnotationData: undefined },
+    };
+  });
+  return rejected ? null : checked;
+}
+
+function findViolations(
+  annotation: CheckedAnnotation,
+  geometry: Geometry,
+  rules: GeometryRules,
+  imageSize: ImageSize | undefined,
+  annotationState: AnnotationState<OsdFields>,
+): GeometryViolation[] {
+  const violations: GeometryViolation[] = [];
+  const closed = CLOSED_GEOMETRY_TYPES.has(geometry.type);
+
+  if (closed && (rules.minArea !== undefined || rules.maxArea !== undefined)) {
+    const shapeArea = area(geometry);
+    if (rules.minArea !== undefined && shapeArea < rules.minArea) {
+      violations.push({
+        rule: 'minArea',
+        message: `area ${formatNumber(shapeArea)} px² is below the minimum of ${rules.minArea} px²`,
+      });
+    }
+    if (rules.maxArea !== undefined && shapeArea > rules.maxArea) {
+      violations.push({
+        rule: 'maxArea',
+        message: `area ${formatNumber(shapeArea)} px² exceeds the maximum of ${rules.maxArea} px²`,
+      });
+    }
+  }
+  if (rules.minLength !== undefined && geometry.type !== 'point') {
+    const shapeLength = length(geometry);
+    if (shapeLength < rules.minLength) {
+      violations.push({
+        rule: 'minLength',
+        message: `length ${formatNumber(shapeLength)} px is below the minimum of ${rules.minLength} px`,
+      });
+    }
+  }
+  if (rules.insideImage && imageSize && !isWithinBounds(geometry, imageBounds(imageSize))) {
+    violations.push({ rule: 'insideImage', message: 'extends outside the image' });
+  }
+  if (rules.noSelfIntersection && isSelfIntersecting(geometry)) {
+    violations.push({ rule: 'noSelfIntersection', message: 'edges cross each other' });
+  }
+  if (rules.noOverlapWithSameLabel && closed) {
+    const overlapped = Object.values(annotationState.byImage[annotation.imageId] ?? {})
+      .filter(
+        (other) =>
+          other.id !== annotation.id &&
+          other.contextId === annotation.contextId &&
+          other.label === annotation.label &&
+          geometriesOverlap(geometry, other.geometry),
+      )
+      .map((other) => other.id);
+    if (overlapped.length > 0) {
+      violations.push({
+        rule: 'noOverlapWithSameLabel',
+        message: `overlaps ${overlapped.length} annotation(s) with the same label`,
+        annotationIds: overlapped,
+      });
+    }
+  }
+  return violations;
+}
+
+function imageBounds(size: ImageSize) {
+  return { min: { x: 0, y: 0 }, max: { x: size.width, y: size.height } };
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,173 @@
+import type { AnnotationState } from '@osdlabel/viewer-api';
+import type { AnnotationAction, AnnotationSnapshot } from './actions.js';
+import type { OsdFields } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Undo / redo history for annotation actions
+//
+// Each history entry pairs the forward actions (replayed on redo) with the
+// inverse patch — snapshots of every annotation the actions touched, taken
+// before the first of them ran (written back on undo). The reducer below is a
+// pure draft mutator, compatible with both solid-js/store produce() and
+// immer produce(), like the reducers in actions.ts.
+// ---------------------------------------------------------------------------
+
+/** Maximum number of undo steps kept by default. */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export interface HistoryEntry {
+  readonly forward: readonly AnnotationAction[];
+  readonly inverse: readonly AnnotationSnapshot[];
+  /**
+   * Token of the continuous interaction (a drag, a slider scrub) that
+   * recorded this entry; later actions carrying the same token merge into it.
+   */
+  readonly coalesceKey: string | null;
+  /** Time (ms since epoch) of the most recent action merged into this entry. */
+  readonly timestamp: number;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  limit: number;
+}
+
+export type HistoryAction =
+  | {
+      readonly type: 'RECORD_HISTORY';
+      readonly payload: {
+        readonly action: AnnotationAction;
+        readonly inverse: readonly AnnotationSnapshot[];
+        readonly timestamp: number;
+        /**
+         * Merges the action into the latest entry when that entry carries the
+         * same token. Callers pass a fresh token per interaction; without one
+         * every action is its own undo step.
+         */
+        readonly coalesceKey?: string | null | undefined;
+      };
+    }
+  | { readonly type: 'UNDO' }
+  | { readonly type: 'REDO' }
+  | { readonly type: 'CLEAR_HISTORY' };
+
+export function createInitialHistoryState(limit: number = DEFAULT_HISTORY_LIMIT): HistoryState {
+  return { past: [], future: [], limit };
+}
+
+/**
+ * Captures the inverse patch for `action`: the current state of every
+ * annotation it will touch. Must be called before the action is applied.
+ *
+ * Returns `null` for actions that replace the whole document
+ * (`LOAD_ANNOTATIONS`) — these are not undoable and should clear the history.
+ * Returns an empty array when the action is a no-op (e.g. updating a missing
+ * annotation), in which case nothing should be recorded.
+ */
+export function snapshotAnnotationsForAction(
+  state: AnnotationState<OsdFields>,
+  action: AnnotationAction,
+): AnnotationSnapshot[] | null {
+  switch (action.type) {
+    case 'ADD_ANNOTATION': {
+      const { id, imageId } = action.payload;
+      return [{ imageId, id, annotation: state.byImage[imageId]?.[id] }];
+    }
+    case 'UPDATE_ANNOTATION':
+    case 'DELETE_ANNOTATION': {
+      const { id, imageId } = action.payload;
+      const annotation = state.byImage[imageId]?.[id];
+      return annotation ? [{ imageId, id, annotation }] : [];
+    }
+    case 'UPDATE_ANNOTATIONS':
+    case 'DELETE_ANNOTATIONS':
+      return action.payload.flatMap(({ id, imageId }) => {
+        const annotation = state.byImage[imageId]?.[id];
+        return annotation ? [{ imageId, id, annotation }] : [];
+      });
+    case 'ADD_ANNOTATIONS':
+    case 'RESTORE_ANNOTATIONS':
+      return action.payload.map(({ imageId, id }) => ({
+        imageId,
+        id,
+        annotation: state.byImage[imageId]?.[id],
+      }));
+    case 'LOAD_ANNOTATIONS':
+      return null;
+  }
+}
+
+export function canUndo(history: HistoryState): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo(history: HistoryState): boolean {
+  return history.future.length > 0;
+}
+
+/**
+ * The action that reverts the most recent history entry, or `null` when
+ * there is nothing to undo. Dispatch it, then dispatch `UNDO` to the history.
+ */
+export function getUndoAction(
+  history: HistoryState,
+): Extract<AnnotationAction, { type: 'RESTORE_ANNOTATIONS' }> | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return { type: 'RESTORE_ANNOTATIONS', payload: entry.inverse };
+}
+
+/**
+ * The actions that re-apply the most recently undone entry, in order (empty
+ * when there is nothing to redo). Dispatch them, then dispatch `REDO` to the
+ * history.
+ */
+export function getRedoActions(history: HistoryState): readonly AnnotationAction[] {
+  return history.future[history.future.length - 1]?.forward ?? [];
+}
+
+export function applyHistoryAction(draft: HistoryState, action: HistoryAction): void {
+  switch (action.type) {
+    case 'RECORD_HISTORY': {
+      const { action: forward, inverse, timestamp } = action.payload;
+      const coalesceKey = action.payload.coalesceKey ?? null;
+      const last = draft.past[draft.past.length - 1];
+      draft.future = [];
+      if (last && coalesceKey !== null && last.coalesceKey === coalesceKey) {
+        // Keep the earliest snapshot of each annotation so undo returns to
+        // the state before the whole sequence.
+        const known = new Set(last.inverse.map((s) => `${s.imageId}:${s.id}`));
+        draft.past[draft.past.length - 1] = {
+          forward: [...last.forward, forward],
+          inverse: [...last.inverse, ...inverse.filter((s) => !known.has(`${s.imageId}:${s.id}`))],
+          coalesceKey,
+          timestamp,
+        };
+        break;
+      }
+      draft.past.push({ forward: [forward], inverse, coalesceKey, timestamp });
+      if (draft.past.length > draft.limit) {
+        draft.past.splice(0, draft.past.length - draft.limit);
+      }
+      break;
+    }
+    case 'UNDO': {
+      const entry = draft.past.pop();
+      if (entry) {
+        // A redone entry must never coalesce with a later action.
+        draft.future.push({ ...entry, coalesceKey: null });
+      }
+      break;
+    }
+    case 'REDO': {
+      const entry = draft.future.pop();
+      if (entry) draft.past.push(entry);
+      break;
+    }
+    case 'CLEAR_HISTORY':
+      draft.past = [];
+      draft.future = [];
+      break;
+  }
+}
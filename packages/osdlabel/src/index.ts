@@ -2,10 +2,13 @@
 export type {
   AnnotationId,
   ToolType,
+  BuiltInToolType,
+  CustomToolTypes,
   GeometryType,
   Point,
   Geometry,
   AnnotationStyle,
+  AttributeValue,
   BaseAnnotation,
   Annotation,
   RawAnnotationData,
@@ -15,6 +18,9 @@ export {
   createAnnotationId,
   DEFAULT_ANNOTATION_STYLE,
   toolTypeToGeometryType,
+  geometryTypeToDefaultToolType,
+  isToolType,
+  getToolTypes,
 } from '@osdlabel/annotation';
 
 // Viewer API (re-exported from @osdlabel/viewer-api)
@@ -25,10 +31,22 @@ export type {
   ViewerControlId,
   KeyboardShortcutMap,
   CellTransform,
+  ViewLinkMode,
+  AnnotationStackingOrder,
+  SnapSettings,
+  AffineMatrix,
+  ImageRegistration,
+  FocusRequest,
   AnnotationState,
   ImageSource,
+  ImageSize,
+} from '@osdlabel/viewer-api';
+export {
+  createImageId,
+  DEFAULT_CELL_TRANSFORM,
+  DEFAULT_SNAP_SETTINGS,
+  getAllAnnotationsFlat,
 } from '@osdlabel/viewer-api';
-export { createImageId, DEFAULT_CELL_TRANSFORM, getAllAnnotationsFlat } from '@osdlabel/viewer-api';
 export type { PixelSpacing } from '@osdlabel/viewer-api';
 
 // Annotation context (re-exported from @osdlabel/annotation-context)
@@ -37,15 +55,37 @@ export type {
   AnnotationContextId,
   ToolConstraint,
   ConstraintStatus,
+  CountStatus,
+  LabelStatus,
+  CompletionStatus,
+  RequirementsStatus,
+  UnmetRequirement,
   ContextState,
   CountScope,
+  LabelDefinition,
   ContextFields,
+  AttributeDefinition,
+  EnumAttributeDefinition,
+  BooleanAttributeDefinition,
+  NumberAttributeDefinition,
+  TextAttributeDefinition,
+  AttributeIssue,
+  MissingAttributes,
+  GeometryRules,
+  GeometryRulePolicy,
+  GeometryRule,
+  GeometryViolation,
+  GeometryViolationReport,
 } from '@osdlabel/annotation-context';
 
 export {
   createAnnotationContextId,
   isContextScopedToImage,
   getCountableImageIds,
+  validateAttributeValue,
+  validateAttributes,
+  getMissingAttributeKeys,
+  getDefaultAttributes,
 } from '@osdlabel/annotation-context';
 
 // Fabric annotations (re-exported from @osdlabel/fabric-annotations)
@@ -55,6 +95,7 @@ export {
   ShapeTool,
   RectangleTool,
   CircleTool,
+  EllipseTool,
   LineTool,
   PointTool,
   PolylineTool,
@@ -64,11 +105,17 @@ export {
   serializeFabricObject,
   deserializeFabricObject,
   createFabricObjectFromRawData,
+  createFabricObjectFromAnnotation,
+  applyAnnotationStyle,
+  isCompatibleFabricVersion,
   getGeometryFromFabricObject,
+  getSelectionMembers,
+  withSceneTransform,
   buildFabricObjectFromGeometry,
   PolyVertexEditor,
   DEFAULT_VERTEX_EDIT_LONG_PRESS_MS,
   DEFAULT_VERTEX_EDIT_MOVE_TOLERANCE_PX,
+  snapPoint,
 } from '@osdlabel/fabric-annotations';
 export type {
   ToolOverlay,
@@ -79,6 +126,7 @@ export type {
   AddAnnotationParams,
   PolyVertexEditorOptions,
   VertexEditConfig,
+  SnapEnvironment,
 } from '@osdlabel/fabric-annotations';
 
 // Fabric-OSD overlay (re-exported from @osdlabel/fabric-osd)
@@ -135,6 +183,11 @@ export {
   midpoint,
   boundingBox,
   circleToBoundingRectangle,
+  rectangleToPolygon,
+  circleToPolygon,
+  ellipseToPolygon,
+  multiPolygonFromRings,
+  DEFAULT_POLYGON_TOLERANCE,
   withSelectionEmphasis,
 } from '@osdlabel/decoration';
 
@@ -144,19 +197,123 @@ export {
   PointSchema,
   BaseAnnotationSchema,
   FabricRawAnnotationDataSchema,
+  AnnotationStyleSchema,
   ToolTypeSchema,
+  AnnotationContextSchema,
+  AnnotationDocumentSchema,
+  CocoDatasetSchema,
+  CocoImageSchema,
+  CocoCategorySchema,
+  CocoAnnotationSchema,
+  GeoJsonGeometrySchema,
+  GeoJsonFeatureSchema,
+  GeoJsonFeatureCollectionSchema,
+  WebAnnotationSchema,
+  WebAnnotationPageSchema,
+  WebAnnotationSelectorSchema,
+  WebAnnotationTargetSchema,
 } from '@osdlabel/validation';
 
+// GeoJSON geometry conversion (re-exported from @osdlabel/geometry)
+export { geometryToGeoJson, geoJsonToGeometry } from '@osdlabel/geometry';
+export type {
+  GeoJsonPosition,
+  GeoJsonPoint,
+  GeoJsonLineString,
+  GeoJsonPolygon,
+  GeoJsonMultiPolygon,
+  GeoJsonGeometry,
+} from '@osdlabel/geometry';
+
 // Own types
 export type { OsdAnnotation, OsdFields } from './types.js';
 
+// Style resolution
+export { resolveAnnotationStyle } from './style.js';
+
 // Annotation construction helpers
 export { createAnnotationFromGeometry } from './create-annotation.js';
 export type { CreateAnnotationFromGeometryOptions } from './create-annotation.js';
 
 // Pre-configured serialization (uses OSD validators)
-export { serialize, deserialize, SerializationError } from './serialization-configured.js';
-export type { DeserializeResult } from './serialization-configured.js';
+export {
+  serialize,
+  deserialize,
+  migrateDocument,
+  SerializationError,
+} from './serialization-configured.js';
+export type {
+  AnnotationDocument,
+  DocumentImage,
+  DocumentGenerator,
+  SerializeOptions,
+  DeserializeOptions,
+  DeserializeResult,
+  DeserializedDocument,
+} from './serialization-configured.js';
+
+// COCO import / export
+export { serializeCoco, deserializeCoco } from './coco.js';
+export type {
+  CocoDataset,
+  CocoImage,
+  CocoCategory,
+  CocoAnnotation,
+  CocoOsdlabelExtension,
+  CocoImageInfo,
+  SerializeCocoOptions,
+  DeserializeCocoOptions,
+  CocoDeserializeResult,
+  CocoSkippedAnnotation,
+} from './coco.js';
+
+// GeoJSON / QuPath import / export
+export { serializeGeoJson, deserializeGeoJson } from './geojson.js';
+export type {
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonFeatureProperties,
+  GeoJsonClassification,
+  SerializeGeoJsonOptions,
+  DeserializeGeoJsonOptions,
+  GeoJsonDeserializeResult,
+  GeoJsonSkippedFeature,
+} from './geojson.js';
+
+// W3C Web Annotation import / export
+export {
+  serializeWebAnnotations,
+  deserializeWebAnnotations,
+  WEB_ANNOTATION_CONTEXT,
+  MEDIA_FRAGMENTS_SPEC,
+} from './web-annotation.js';
+export type {
+  WebAnnotation,
+  WebAnnotationPage,
+  WebAnnotationTarget,
+  WebAnnotationSelector,
+  WebAnnotationFragmentSelector,
+  WebAnnotationSvgSelector,
+  WebAnnotationTextualBody,
+  WebAnnotationOsdlabelExtension,
+  SerializeWebAnnotationsOptions,
+  DeserializeWebAnnotationsOptions,
+  WebAnnotationDeserializeResult,
+  WebAnnotationSkipped,
+} from './web-annotation.js';
+
+// Document format versions and migrations
+export {
+  CURRENT_FORMAT_VERSION,
+  DOCUMENT_GENERATOR_NAME,
+  DOCUMENT_MIGRATIONS,
+  detectFormatVersion,
+} from './document-migrations.js';
+export type {
+  DocumentMigration,
+  MigrationReport,
+  MigrationStepResult,
+} from './document-migrations.js';
 
 // Pure action types and reducers
 export {
@@ -164,8 +321,34 @@ export {
   applyUIAction,
   applyContextAction,
   validateAddAnnotation,
+  validateAnnotationAttributes,
+  validateMoveToContext,
+  validateRelabel,
+  withDefaultAttributes,
+  getLinkedCellIndices,
+} from './actions.js';
+export type {
+  AnnotationAction,
+  AnnotationPatch,
+  AnnotationRef,
+  AnnotationUpdate,
+  AnnotationSnapshot,
+  UIAction,
+  ContextAction,
 } from './actions.js';
-export type { AnnotationAction, UIAction, ContextAction } from './actions.js';
+
+// Undo / redo history
+export {
+  DEFAULT_HISTORY_LIMIT,
+  createInitialHistoryState,
+  snapshotAnnotationsForAction,
+  applyHistoryAction,
+  canUndo,
+  canRedo,
+  getUndoAction,
+  getRedoActions,
+} from './history.js';
+export type { HistoryEntry, HistoryState, HistoryAction } from './history.js';
 
 // Initial state factories
 export {
@@ -175,10 +358,72 @@ export {
 } from './initial-state.js';
 
 // Pure constraint computation
-export { computeConstraintStatus, countAnnotationsForContextAndType } from './constraints.js';
+export {
+  computeConstraintStatus,
+  computeLabelStatus,
+  computeCompletionStatus,
+  findMissingAttributes,
+  countAnnotationsForContextAndType,
+  countAnnotationsForContextAndLabel,
+} from './constraints.js';
+
+// Geometry rules
+export {
+  evaluateGeometryRules,
+  applyGeometryRules,
+  applyGeometryRulesToUpdates,
+} from './geometry-rules.js';
+export type { GeometryRuleEnvironment, GeometryRuleResult } from './geometry-rules.js';
+
+// Clipboard
+export { DEFAULT_PASTE_OFFSET, copyAnnotations, prepareClipboardPaste } from './clipboard.js';
+export type {
+  AnnotationClipboard,
+  ClipboardAction,
+  PasteOptions,
+  PasteResult,
+} from './clipboard.js';
+
+// Image registration and the linked crosshair
+export {
+  IDENTITY_MATRIX,
+  applyAffine,
+  invertAffine,
+  getRegistration,
+  mapImagePoint,
+} from './registration.js';
+export {
+  CrosshairLink,
+  createCrosshairDecorations,
+  enableLinkedCrosshair,
+} from './linked-crosshair.js';
+export type { LinkedPointer, LinkedCrosshairOptions } from './linked-crosshair.js';
+
+// Spatial index and viewport culling
+export { RTree, DEFAULT_RTREE_NODE_SIZE } from '@osdlabel/geometry';
+export type { BoundingBox } from '@osdlabel/geometry';
+export { AnnotationSpatialIndex } from './spatial-index.js';
+export {
+  DEFAULT_CULL_MARGIN,
+  getViewportImageBounds,
+  expandBounds,
+  shownAnnotationFilter,
+  enableViewportCulling,
+} from './viewport-culling.js';
+export type { ViewportCullingOptions } from './viewport-culling.js';
+export { DEFAULT_FOCUS_PADDING, getFocusBounds } from './focus.js';
+
+// Stacking order
+export { compareStacking, sortByStacking, getTopZIndex, getZOrderUpdates } from './z-order.js';
+export type { ZOrderMove, ZOrderAction } from './z-order.js';
 
 // Keyboard mapping
-export { DEFAULT_KEYBOARD_SHORTCUTS, MAX_GRID_SIZE, mapKeyEventToActions } from './keyboard.js';
+export {
+  DEFAULT_KEYBOARD_SHORTCUTS,
+  MAX_GRID_SIZE,
+  isEditableTarget,
+  mapKeyEventToActions,
+} from './keyboard.js';
 export type { KeyboardMappingState } from './keyboard.js';
 
 // Tool factory and helpers
@@ -187,9 +432,11 @@ export {
   buildToolCallbacks,
   getScenePointFromEvent,
   processObjectModified,
+  processObjectsModified,
   processToolAddAnnotation,
   processToolUpdateAnnotation,
   processConvertCircleToRectangle,
+  restoreFabricObjects,
 } from './tool-factory.js';
 export type {
   ToolCallbackAccessors,
@@ -197,6 +444,27 @@ export type {
   CreateAnnotationToolOptions,
 } from './tool-factory.js';
 
+// Annotation outline (grouping for list views)
+export { buildAnnotationOutline, getAnnotationDisplayName } from './annotation-outline.js';
+export type {
+  AnnotationOutlineImage,
+  AnnotationOutlineContext,
+  AnnotationOutlineLabel,
+} from './annotation-outline.js';
+
+// Canvas reconciliation
+export { CanvasReconciler } from './canvas-reconciler.js';
+export type { CanvasReconcileInput } from './canvas-reconciler.js';
+
+// Tool registry
+export {
+  registerTool,
+  getToolDefinition,
+  getToolDefinitions,
+  resolveToolConstraint,
+} from './tool-registry.js';
+export type { ToolDefinition, ToolFactoryOptions } from './tool-registry.js';
+
 // Live decoration update wiring
 export { enableLiveDecorationUpdates } from './live-decoration-updates.js';
 export type { LiveDecorationUpdateOptions } from './live-decoration-updates.js';
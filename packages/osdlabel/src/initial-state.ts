@@ -1,4 +1,5 @@
 import type { AnnotationState, UIState } from '@osdlabel/viewer-api';
+import { DEFAULT_SNAP_SETTINGS } from '@osdlabel/viewer-api';
 import type { ContextState } from '@osdlabel/annotation-context';
 import type { OsdFields } from './types.js';
 
@@ -17,8 +18,17 @@ export function createInitialUIState(): UIState {
     gridColumns: 1,
     gridRows: 1,
     gridAssignments: {},
-    selectedAnnotationId: null,
+    selectedAnnotationIds: [],
     cellTransforms: {},
+    activeLabel: null,
+    imageSizes: {},
+    viewLinkMode: null,
+    unlinkedCells: [],
+    linkedCrosshair: false,
+    stackingOrder: 'zIndex',
+    snapping: { ...DEFAULT_SNAP_SETTINGS },
+    registrations: [],
+    focusRequest: null,
   };
 }
 
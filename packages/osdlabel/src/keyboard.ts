@@ -1,12 +1,17 @@
-import type { ToolType, AnnotationId } from '@osdlabel/annotation';
+import type { ToolType, AnnotationId, BaseAnnotation } from '@osdlabel/annotation';
 import type { KeyboardShortcutMap, ImageId } from '@osdlabel/viewer-api';
-import type { ConstraintStatus } from '@osdlabel/annotation-context';
+import type { ConstraintStatus, LabelDefinition } from '@osdlabel/annotation-context';
 import type { UIAction, AnnotationAction } from './actions.js';
+import type { ClipboardAction } from './clipboard.js';
+import type { ZOrderAction, ZOrderMove } from './z-order.js';
+import type { HistoryAction } from './history.js';
+import { getToolDefinition, getToolDefinitions } from './tool-registry.js';
 
 export const DEFAULT_KEYBOARD_SHORTCUTS: KeyboardShortcutMap = {
   selectTool: 'v',
   rectangleTool: 'r',
   circleTool: 'c',
+  ellipseTool: 'e',
   lineTool: 'l',
   pointTool: 'p',
   polylineTool: 'd',
@@ -35,11 +40,56 @@ export const DEFAULT_KEYBOARD_SHORTCUTS: KeyboardShortcutMap = {
   flipHorizontal: 'H',
   flipVertical: 'V',
   resetView: ')',
+  fitAllAnnotations: 'A',
   toggleNegative: 'N',
   increaseExposure: 'E',
   decreaseExposure: 'D',
+  undo: 'z',
+  redo: 'z',
+  copy: 'c',
+  cut: 'x',
+  paste: 'v',
+  duplicate: 'd',
+  bringToFront: '}',
+  sendToBack: '{',
+  bringForward: ']',
+  sendBackward: '[',
 } as const;
 
+/** The named `KeyboardShortcutMap` entries of the built-in tools. */
+const NAMED_TOOL_SHORTCUTS: Partial<Record<ToolType, Exclude<keyof KeyboardShortcutMap, 'tools'>>> =
+  {
+    rectangle: 'rectangleTool',
+    circle: 'circleTool',
+    ellipse: 'ellipseTool',
+    line: 'lineTool',
+    point: 'pointTool',
+    polyline: 'polylineTool',
+    freeHandPath: 'freeHandPathTool',
+  };
+
+/**
+ * The key that activates a tool: its `shortcuts.tools` entry, else its named
+ * entry (built-ins), else the default from its registered definition.
+ */
+function toolShortcut(type: ToolType, shortcuts: KeyboardShortcutMap): string | undefined {
+  const named = NAMED_TOOL_SHORTCUTS[type];
+  return (
+    shortcuts.tools?.[type] ??
+    (named ? shortcuts[named] : undefined) ??
+    getToolDefinition(type)?.shortcut
+  );
+}
+
+/** The stacking move `key` is the shortcut of, if any. */
+function zOrderMove(key: string, shortcuts: KeyboardShortcutMap): ZOrderMove | undefined {
+  if (key === shortcuts.bringToFront) return 'front';
+  if (key === shortcuts.sendToBack) return 'back';
+  if (key === shortcuts.bringForward) return 'forward';
+  if (key === shortcuts.sendBackward) return 'backward';
+  return undefined;
+}
+
 /** Maximum grid size */
 export const MAX_GRID_SIZE = {
   columns: 4,
@@ -54,8 +104,32 @@ export interface KeyboardMappingState {
   readonly activeCellIndex: number;
   readonly gridColumns: number;
   readonly gridRows: number;
-  readonly selectedAnnotationId: AnnotationId | null;
+  readonly selectedAnnotationIds: readonly AnnotationId[];
   readonly activeImageId: ImageId | undefined;
+  /** The active context's labels, whose `hotkey`s select them. */
+  readonly labels?: readonly LabelDefinition[] | undefined;
+  /** The active label; pressing its hotkey again clears it. */
+  readonly activeLabel?: string | null | undefined;
+  /** The active image's annotations; Delete leaves locked and hidden ones alone. */
+  readonly annotations?: Readonly<Record<AnnotationId, BaseAnnotation>> | undefined;
+  /** Whether the annotation clipboard holds anything; Ctrl/Cmd+V only pastes then. */
+  readonly hasClipboard?: boolean | undefined;
+}
+
+/**
+ * Whether a keydown from `target` belongs to a text field (input, textarea,
+ * select or contenteditable) rather than to the annotator, so typing and
+ * native copy / paste there are left alone.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target) return false;
+  const element = target as Partial<HTMLElement>;
+  return (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'SELECT' ||
+    element.isContentEditable === true
+  );
 }
 
 /**
@@ -64,9 +138,21 @@ export interface KeyboardMappingState {
  * Returns an empty array if the key doesn't match any shortcut.
  *
  * The caller is responsible for:
- * 1. Checking shouldSkipTarget
+ * 1. Checking shouldSkipTarget (see {@link isEditableTarget})
  * 2. Passing the event to activeToolKeyHandler first
  * 3. Dispatching the returned actions
+ *
+ * `modKey` is Ctrl (or Cmd on macOS). While it is held only the modifier
+ * shortcuts (undo / redo, copy / cut / paste / duplicate, stacking order)
+ * are considered, so e.g. Ctrl+C copies and never switches tool. The
+ * stacking shortcuts match `key` exactly, as Shift changes bracket keys
+ * (`]` / `}`) on most layouts. Copy, cut, duplicate and stacking need a
+ * selection, and paste `state.hasClipboard`; otherwise the key maps to
+ * nothing and is left to the browser.
+ *
+ * Tool shortcuts cover every registered tool (see `registerTool`); a tool
+ * whose constraint status is disabled is not activated. Label hotkeys from
+ * `state.labels` take precedence over tool and grid shortcuts.
  */
 export function mapKeyEventToActions(
   key: string,
@@ -74,9 +160,49 @@ export function mapKeyEventToActions(
   shortcuts: KeyboardShortcutMap,
   state: KeyboardMappingState,
   constraintStatus: ConstraintStatus,
-): readonly (UIAction | AnnotationAction)[] {
+  modKey: boolean = false,
+): readonly (UIAction | AnnotationAction | HistoryAction | ClipboardAction | ZOrderAction)[] {
   const keyLower = key.toLowerCase();
-  const actions: (UIAction | AnnotationAction)[] = [];
+  const actions: (UIAction | AnnotationAction | HistoryAction | ClipboardAction | ZOrderAction)[] =
+    [];
+
+  // History, clipboard and stacking order (Ctrl/Cmd+Key). Redo is checked
+  // before undo since it shares the undo key by default, distinguished only
+  // by Shift.
+  if (modKey) {
+    const hasSelection = state.selectedAnnotationIds.length > 0;
+    const move = zOrderMove(key, shortcuts);
+    if (move) {
+      const imageId = state.activeImageId;
+      if (hasSelection && imageId) {
+        actions.push({
+          type: 'REORDER_ANNOTATIONS',
+          payload: { ids: state.selectedAnnotationIds, imageId, move },
+        });
+      }
+    } else if (shiftKey) {
+      if (keyLower === shortcuts.redo.toLowerCase()) actions.push({ type: 'REDO' });
+    } else if (keyLower === shortcuts.undo.toLowerCase()) {
+      actions.push({ type: 'UNDO' });
+    } else if (keyLower === shortcuts.copy.toLowerCase()) {
+      if (hasSelection) actions.push({ type: 'COPY' });
+    } else if (keyLower === shortcuts.cut.toLowerCase()) {
+      if (hasSelection) actions.push({ type: 'CUT' });
+    } else if (keyLower === shortcuts.paste.toLowerCase()) {
+      if (state.hasClipboard) actions.push({ type: 'PASTE' });
+    } else if (keyLower === shortcuts.duplicate.toLowerCase()) {
+      if (hasSelection) actions.push({ type: 'DUPLICATE' });
+    }
+    return actions;
+  }
+
+  const hotkeyLabel = shiftKey
+    ? undefined
+    : state.labels?.find((l) => l.hotkey?.toLowerCase() === keyLower);
+  const shortcutTool = shiftKey
+    ? undefined
+    : getToolDefinitions().find((d) => toolShortcut(d.type, shortcuts)?.toLowerCase() === keyLower)
+        ?.type;
 
   // View Transforms (Shift+Key)
   if (shiftKey && keyLower === shortcuts.rotateCW.toLowerCase()) {
@@ -93,35 +219,32 @@ export function mapKeyEventToActions(
     actions.push({ type: 'INCREASE_EXPOSURE', payload: { cellIndex: state.activeCellIndex } });
   } else if (shiftKey && keyLower === shortcuts.decreaseExposure.toLowerCase()) {
     actions.push({ type: 'DECREASE_EXPOSURE', payload: { cellIndex: state.activeCellIndex } });
+  } else if (shiftKey && keyLower === shortcuts.fitAllAnnotations.toLowerCase()) {
+    actions.push({ type: 'FIT_ALL_ANNOTATIONS', payload: { cellIndex: state.activeCellIndex } });
   } else if (key === shortcuts.resetView || (shiftKey && keyLower === '0')) {
     actions.push({ type: 'RESET_VIEW', payload: { cellIndex: state.activeCellIndex } });
   }
 
+  // Labels
+  else if (hotkeyLabel) {
+    actions.push({
+      type: 'SET_ACTIVE_LABEL',
+      payload: state.activeLabel === hotkeyLabel.id ? null : hotkeyLabel.id,
+    });
+  }
+
   // Tools
   else if (!shiftKey && keyLower === shortcuts.selectTool.toLowerCase()) {
     actions.push({ type: 'SET_ACTIVE_TOOL', payload: 'select' });
-  } else if (!shiftKey && keyLower === shortcuts.rectangleTool.toLowerCase()) {
-    if (constraintStatus.rectangle.enabled)
-      actions.push({ type: 'SET_ACTIVE_TOOL', payload: 'rectangle' });
-  } else if (!shiftKey && keyLower === shortcuts.circleTool.toLowerCase()) {
-    if (constraintStatus.circle.enabled)
-      actions.push({ type: 'SET_ACTIVE_TOOL', payload: 'circle' });
-  } else if (!shiftKey && keyLower === shortcuts.lineTool.toLowerCase()) {
-    if (constraintStatus.line.enabled) actions.push({ type: 'SET_ACTIVE_TOOL', payload: 'line' });
-  } else if (!shiftKey && keyLower === shortcuts.pointTool.toLowerCase()) {
-    if (constraintStatus.point.enabled) actions.push({ type: 'SET_ACTIVE_TOOL', payload: 'point' });
-  } else if (!shiftKey && keyLower === shortcuts.polylineTool.toLowerCase()) {
-    if (constraintStatus.polyline.enabled)
-      actions.push({ type: 'SET_ACTIVE_TOOL', payload: 'polyline' });
-  } else if (!shiftKey && keyLower === shortcuts.freeHandPathTool.toLowerCase()) {
-    if (constraintStatus.freeHandPath.enabled)
-      actions.push({ type: 'SET_ACTIVE_TOOL', payload: 'freeHandPath' });
+  } else if (shortcutTool) {
+    if (constraintStatus[shortcutTool]?.enabled)
+      actions.push({ type: 'SET_ACTIVE_TOOL', payload: shortcutTool });
   }
 
   // Cancel / Escape
   else if (key === shortcuts.cancel) {
-    if (state.selectedAnnotationId !== null) {
-      actions.push({ type: 'SET_SELECTED_ANNOTATION', payload: null });
+    if (state.selectedAnnotationIds.length > 0) {
+      actions.push({ type: 'SET_SELECTED_ANNOTATIONS', payload: [] });
     } else {
       actions.push({ type: 'SET_ACTIVE_TOOL', payload: null });
     }
@@ -129,12 +252,21 @@ export function mapKeyEventToActions(
 
   // Delete
   else if (key === shortcuts.delete || key === shortcuts.deleteAlt) {
-    if (state.selectedAnnotationId && state.activeImageId) {
+    const ids = state.selectedAnnotationIds.filter((id) => {
+      const annotation = state.annotations?.[id];
+      return !annotation?.locked && !annotation?.hidden;
+    });
+    const imageId = state.activeImageId;
+    if (ids.length > 0 && imageId) {
+      actions.push(
+        ids.length === 1
+          ? { type: 'DELETE_ANNOTATION', payload: { id: ids[0]!, imageId } }
+          : { type: 'DELETE_ANNOTATIONS', payload: ids.map((id) => ({ id, imageId })) },
+      );
       actions.push({
-        type: 'DELETE_ANNOTATION',
-        payload: { id: state.selectedAnnotationId, imageId: state.activeImageId },
+        type: 'SET_SELECTED_ANNOTATIONS',
+        payload: state.selectedAnnotationIds.filter((id) => !ids.includes(id)),
       });
-      actions.push({ type: 'SET_SELECTED_ANNOTATION', payload: null });
     }
   }
 
@@ -0,0 +1,166 @@
+import type { Point } from '@osdlabel/annotation';
+import type { LineDecoration, LineDecorationStyle } from '@osdlabel/decoration';
+import { DecorationLayer } from '@osdlabel/fabric-osd';
+import type { FabricOverlay } from '@osdlabel/fabric-osd';
+import type { ImageId, ImageRegistration, ImageSize } from '@osdlabel/viewer-api';
+import { mapImagePoint } from './registration.js';
+
+/** Where the pointer is, in the image of the cell it is over. */
+export interface LinkedPointer {
+  readonly cellIndex: number;
+  readonly imageId: ImageId;
+  readonly point: Point;
+}
+
+type LinkedPointerCallback = (pointer: LinkedPointer | null) => void;
+
+/**
+ * Broadcasts the pointer position between the cells of a grid. One instance
+ * is shared by every cell; each publishes while the pointer is over it and
+ * listens for the others.
+ */
+export class CrosshairLink {
+  private readonly _subscribers = new Set<LinkedPointerCallback>();
+  private _pointer: LinkedPointer | null = null;
+
+  /** The last published pointer, or `null` when it is over no cell. */
+  get pointer(): LinkedPointer | null {
+    return this._pointer;
+  }
+
+  /** Publishes the pointer, or `null` once it has left every cell. */
+  publish(pointer: LinkedPointer | null): void {
+    this._pointer = pointer;
+    for (const callback of this._subscribers) callback(pointer);
+  }
+
+  /** Calls `callback` on every publish. Returns an unsubscribe function. */
+  subscribe(callback: LinkedPointerCallback): () => void {
+    this._subscribers.add(callback);
+    return () => {
+      this._subscribers.delete(callback);
+    };
+  }
+}
+
+const DEFAULT_CROSSHAIR_STYLE: LineDecorationStyle = {
+  stroke: '#00e5ff',
+  strokeWidth: 1,
+  opacity: 0.9,
+};
+
+/**
+ * A crosshair through `point`, spanning the whole image. Empty when the
+ * point falls outside the image.
+ */
+export function createCrosshairDecorations(
+  point: Point,
+  imageSize: ImageSize,
+  style: LineDecorationStyle = DEFAULT_CROSSHAIR_STYLE,
+): LineDecoration[] {
+  const { width, height } = imageSize;
+  if (point.x < 0 || point.y < 0 || point.x > width || point.y > height) return [];
+  return [
+    {
+      type: 'line',
+      id: 'crosshair-horizontal',
+      relatedAnnotationIds: [],
+      start: { x: 0, y: point.y },
+      end: { x: width, y: point.y },
+      style,
+    },
+    {
+      type: 'line',
+      id: 'crosshair-vertical',
+      relatedAnnotationIds: [],
+      start: { x: point.x, y: 0 },
+      end: { x: point.x, y: height },
+      style,
+    },
+  ];
+}
+
+/**
+ * Options for {@link enableLinkedCrosshair}. As with live decoration updates,
+ * the accessors should read current state, so they are called on every
+ * pointer move.
+ */
+export interface LinkedCrosshairOptions {
+  readonly overlay: FabricOverlay;
+  readonly link: CrosshairLink;
+  readonly cellIndex: number;
+  /** Returns whether the crosshair is on. */
+  readonly isEnabled: () => boolean;
+  /** Returns the cell's image, if one is assigned. */
+  readonly getImageId: () => ImageId | undefined;
+  /** Returns the size of the cell's image, once it is known. */
+  readonly getImageSize: () => ImageSize | undefined;
+  /** Returns the registrations to map other cells' pointers through. */
+  readonly getRegistrations: () => readonly ImageRegistration[];
+  /** Crosshair line style. */
+  readonly style?: LineDecorationStyle | undefined;
+}
+
+/**
+ * Links one cell to the grid's crosshair: publishes the pointer while it is
+ * over the cell's overlay, and draws a crosshair where the pointer of any
+ * other cell maps to on this cell's image. The crosshair has its own
+ * {@link DecorationLayer}, so it never disturbs the cell's decorations.
+ *
+ * Returns `refresh`, to call after the enabled flag, image or registrations
+ * change, and `destroy` for cleanup.
+ */
+export function enableLinkedCrosshair(options: LinkedCrosshairOptions): {
+  readonly refresh: () => void;
+  readonly destroy: () => void;
+} {
+  const { overlay, link, cellIndex } = options;
+  const layer = new DecorationLayer(overlay);
+  const element = overlay.overlayElement;
+
+  const render = (pointer: LinkedPointer | null) => {
+    const imageId = options.getImageId();
+    const size = options.getImageSize();
+    if (!pointer || pointer.cellIndex === cellIndex || !options.isEnabled() || !imageId || !size) {
+      layer.setDecorations([]);
+      return;
+    }
+    const point = mapImagePoint(
+      options.getRegistrations(),
+      pointer.imageId,
+      imageId,
+      pointer.point,
+    );
+    layer.setDecorations(createCrosshairDecorations(point, size, options.style));
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    const imageId = options.getImageId();
+    if (!options.isEnabled() || !imageId) return;
+    const rect = element.getBoundingClientRect();
+    const point = overlay.screenToImage({
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+    });
+    link.publish({ cellIndex, imageId, point });
+  };
+  const onPointerLeave = () => {
+    if (link.pointer?.cellIndex === cellIndex) link.publish(null);
+  };
+
+  // Capture phase: OSD's trackers handle these events below this element.
+  element.addEventListener('pointermove', onPointerMove, true);
+  element.addEventListener('pointerleave', onPointerLeave);
+  const unsubscribe = link.subscribe(render);
+
+  return {
+    refresh: () => render(link.pointer),
+    destroy: () => {
+      unsubscribe();
+      element.removeEventListener('pointermove', onPointerMove, true);
+      element.removeEventListener('pointerleave', onPointerLeave);
+      onPointerLeave();
+      layer.destroy();
+    },
+  };
+}
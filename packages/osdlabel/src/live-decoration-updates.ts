@@ -1,7 +1,11 @@
 import type { Annotation, AnnotationId } from '@osdlabel/annotation';
 import { toolTypeToGeometryType } from '@osdlabel/annotation';
 import type { Decoration, DecorationProvider } from '@osdlabel/decoration';
-import { getGeometryFromFabricObject } from '@osdlabel/fabric-annotations';
+import {
+  getGeometryFromFabricObject,
+  getSelectionMembers,
+  withSceneTransform,
+} from '@osdlabel/fabric-annotations';
 import type { FabricOverlay } from '@osdlabel/fabric-osd';
 import type { PixelSpacing } from '@osdlabel/viewer-api';
 import type { FabricObject } from 'fabric';
@@ -23,8 +27,8 @@ export interface LiveDecorationUpdateOptions<E extends object = Record<string, n
   readonly getProviders: () => readonly DecorationProvider<E>[];
   /** Called with the newly-computed decorations on each throttled tick. */
   readonly onDecorations: (decorations: readonly Decoration[]) => void;
-  /** Returns the currently selected annotation ID, if any. */
-  readonly getSelectedAnnotationId?: (() => AnnotationId | null | undefined) | undefined;
+  /** Returns the currently selected annotation IDs. */
+  readonly getSelectedAnnotationIds?: (() => readonly AnnotationId[]) | undefined;
 }
 
 /**
@@ -53,7 +57,7 @@ export function enableLiveDecorationUpdates<E extends object = Record<string, ne
     getPixelSpacing,
     getProviders,
     onDecorations,
-    getSelectedAnnotationId,
+    getSelectedAnnotationIds,
   } = options;
   const canvas = overlay.canvas;
 
@@ -77,8 +81,8 @@ export function enableLiveDecorationUpdates<E extends object = Record<string, ne
 
     const annotations = applyLiveOverride(getVisibleAnnotations(), target);
     const pixelSpacing = getPixelSpacing();
-    const selectedAnnotationId = getSelectedAnnotationId?.() ?? null;
-    const ctx = { annotations, pixelSpacing, selectedAnnotationId };
+    const selectedAnnotationIds = getSelectedAnnotationIds?.() ?? [];
+    const ctx = { annotations, pixelSpacing, selectedAnnotationIds };
     const decorations = providers.flatMap((p) => p(ctx));
     onDecorations(decorations);
   };
@@ -120,22 +124,16 @@ export function enableLiveDecorationUpdates<E extends object = Record<string, ne
  *
  * Handles multi-select drag: when Fabric fires `object:moving` with an
  * `ActiveSelection` target (which carries no `.id`), we iterate its
- * children and override each one that has an annotation id.
- *
- * Caveat for `ActiveSelection`: child objects' `left/top` are reported
- * relative to the parent group, not the canvas. `getGeometryFromFabricObject`
- * is matrix-based for line/polyline/polygon (exact under groups) but reads
- * `left/top` / `getCenterPoint()` directly for rectangle/circle/point — those
- * may be slightly off during a multi-select drag. The commit on mouse-up
- * (via `object:modified`) is always correct because Fabric dissolves the
- * ActiveSelection before firing it.
+ * children and override each one that has an annotation id. Children report
+ * their transform relative to the selection, so their geometry is read under
+ * `withSceneTransform`.
  */
 function applyLiveOverride<E extends object>(
   annotations: readonly Annotation<E>[],
   target: FabricObject | undefined,
 ): readonly Annotation<E>[] {
   if (!target) return annotations;
-  const targets = childrenOfDragTarget(target);
+  const targets = getSelectionMembers(target);
   let next: Annotation<E>[] | undefined;
   for (const t of targets) {
     const targetId = t.id as AnnotationId | undefined;
@@ -144,24 +142,12 @@ function applyLiveOverride<E extends object>(
     const idx = source.findIndex((a) => a.id === targetId);
     if (idx === -1) continue;
     const original = source[idx]!;
-    const geometry = getGeometryFromFabricObject(t, toolTypeToGeometryType(original.toolType));
+    const geometry = withSceneTransform(t, (o) =>
+      getGeometryFromFabricObject(o, toolTypeToGeometryType(original.toolType)),
+    );
     if (!geometry) continue;
     if (!next) next = [...annotations];
     next[idx] = { ...original, geometry };
   }
   return next ?? annotations;
 }
-
-/**
- * Returns the Fabric objects to apply live geometry overrides to. For a
- * normal drag this is just `[target]`. For an `ActiveSelection` (multi-drag)
- * it's the group's children. Detected via duck-typing on `getObjects()` to
- * avoid coupling to Fabric's `type` string casing.
- */
-function childrenOfDragTarget(target: FabricObject): readonly FabricObject[] {
-  const maybeGroup = target as FabricObject & { getObjects?: () => FabricObject[] };
-  if (target.id === undefined && typeof maybeGroup.getObjects === 'function') {
-    return maybeGroup.getObjects();
-  }
-  return [target];
-}
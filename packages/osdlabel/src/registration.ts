@@ -0,0 +1,54 @@
+import type { Point } from '@osdlabel/annotation';
+import type { AffineMatrix, ImageId, ImageRegistration } from '@osdlabel/viewer-api';
+
+/** The affine transform that leaves every point where it is. */
+export const IDENTITY_MATRIX: AffineMatrix = [1, 0, 0, 1, 0, 0];
+
+/** Maps `point` through `matrix`. */
+export function applyAffine(matrix: AffineMatrix, point: Point): Point {
+  const [a, b, c, d, e, f] = matrix;
+  return { x: a * point.x + c * point.y + e, y: b * point.x + d * point.y + f };
+}
+
+/** The inverse of `matrix`, or `null` when it is singular. */
+export function invertAffine(matrix: AffineMatrix): AffineMatrix | null {
+  const [a, b, c, d, e, f] = matrix;
+  const det = a * d - b * c;
+  if (det === 0 || !Number.isFinite(det)) return null;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+/**
+ * The matrix mapping `from` image px to `to` image px: a registration
+ * recorded in that direction, or the inverse of one recorded the other way.
+ * Returns the identity for an image onto itself, and `null` when the pair
+ * has no (invertible) registration.
+ */
+export function getRegistration(
+  registrations: readonly ImageRegistration[],
+  from: ImageId,
+  to: ImageId,
+): AffineMatrix | null {
+  if (from === to) return IDENTITY_MATRIX;
+  for (const registration of registrations) {
+    if (registration.from === from && registration.to === to) return registration.matrix;
+    if (registration.from === to && registration.to === from) {
+      return invertAffine(registration.matrix);
+    }
+  }
+  return null;
+}
+
+/**
+ * Maps a point of image `from` onto image `to` through their registration.
+ * Unregistered images line up pixel for pixel, so the point is returned as is.
+ */
+export function mapImagePoint(
+  registrations: readonly ImageRegistration[],
+  from: ImageId,
+  to: ImageId,
+  point: Point,
+): Point {
+  const matrix = getRegistration(registrations, from, to);
+  return matrix ? applyAffine(matrix, point) : point;
+}
@@ -1,9 +1,19 @@
 import type { Annotation, AnnotationId } from '@osdlabel/annotation';
-import type { ImageId } from '@osdlabel/viewer-api';
+import type { ImageId, ImageRegistration, ImageSource, PixelSpacing } from '@osdlabel/viewer-api';
 import type { AnnotationState } from '@osdlabel/viewer-api';
 import { getAllAnnotationsFlat } from '@osdlabel/viewer-api';
-import { OsdAnnotationSchema } from '@osdlabel/validation';
+import type { AnnotationContext } from '@osdlabel/annotation-context';
+import { validateAttributes } from '@osdlabel/annotation-context';
+import { AnnotationDocumentSchema } from '@osdlabel/validation';
+import { version as FABRIC_VERSION } from 'fabric';
 import type { OsdFields } from './types.js';
+import {
+  CURRENT_FORMAT_VERSION,
+  DOCUMENT_GENERATOR_NAME,
+  DOCUMENT_MIGRATIONS,
+  detectFormatVersion,
+} from './document-migrations.js';
+import type { DocumentMigration, MigrationReport } from './document-migrations.js';
 import * as v from 'valibot';
 
 /** Error type for serialization/deserialization failures */
@@ -14,29 +24,163 @@ export class SerializationError extends Error {
   }
 }
 
-/** Result of deserializing an annotation array */
+/** An entry of the document's image manifest. */
+export interface DocumentImage {
+  readonly id: ImageId;
+  readonly tileSource?: string | undefined;
+  readonly label?: string | undefined;
+  readonly pixelSpacing?: PixelSpacing | undefined;
+}
+
+/** Identifies the software (and Fabric version) that wrote a document. */
+export interface DocumentGenerator {
+  readonly name: string;
+  readonly fabricVersion: string;
+}
+
+/** The versioned, self-describing document written by {@link serialize}. */
+export interface AnnotationDocument {
+  readonly formatVersion: number;
+  readonly generator: DocumentGenerator;
+  readonly images: readonly DocumentImage[];
+  readonly contexts: readonly AnnotationContext[];
+  readonly annotations: readonly Annotation<OsdFields>[];
+  /** Registrations between the document's images. Omitted when there are none. */
+  readonly registrations?: readonly ImageRegistration[] | undefined;
+}
+
+/** Options for {@link serialize}. */
+export interface SerializeOptions {
+  /**
+   * Image sources to record in the manifest. Images referenced by annotations
+   * but missing here are still listed, by id only.
+   */
+  readonly images?: readonly ImageSource[] | undefined;
+  /** Context definitions to embed, so the document is self-contained. */
+  readonly contexts?: readonly AnnotationContext[] | undefined;
+  /** Image registrations to keep with the annotations (e.g. `uiState.registrations`). */
+  readonly registrations?: readonly ImageRegistration[] | undefined;
+}
+
+/** Options for {@link deserialize}. */
+export interface DeserializeOptions {
+  /** Migration registry to upgrade older documents with. Defaults to the built-in one. */
+  readonly migrations?: readonly DocumentMigration[] | undefined;
+}
+
+/** Result of deserializing an annotation document */
 export interface DeserializeResult<E extends object = Record<string, never>> {
   readonly byImage: Record<ImageId, Record<AnnotationId, Annotation<E>>>;
 }
 
-/** Serialize OSD annotation state into a flat array of annotations */
-export function serialize(state: AnnotationState<OsdFields>): Annotation<OsdFields>[] {
-  return getAllAnnotationsFlat(state);
+/** Result of {@link deserialize}: the keyed annotations plus the document's metadata. */
+export interface DeserializedDocument extends DeserializeResult<OsdFields> {
+  readonly images: readonly DocumentImage[];
+  readonly contexts: readonly AnnotationContext[];
+  readonly registrations: readonly ImageRegistration[];
+  readonly generator: DocumentGenerator;
+  /** Format version of the input, before any migration ran. */
+  readonly sourceFormatVersion: number;
+  /** One entry per migration step applied, in order. Empty for current documents. */
+  readonly migrations: readonly MigrationReport[];
+}
+
+/** Serialize OSD annotation state into a versioned annotation document */
+export function serialize(
+  state: AnnotationState<OsdFields>,
+  options: SerializeOptions = {},
+): AnnotationDocument {
+  const annotations = getAllAnnotationsFlat(state);
+
+  const images: DocumentImage[] = (options.images ?? []).map((source) => ({
+    id: source.id,
+    tileSource: source.tileSource,
+    ...(source.label !== undefined && { label: source.label }),
+    ...(source.pixelSpacing !== undefined && { pixelSpacing: source.pixelSpacing }),
+  }));
+  const listed = new Set<ImageId>(images.map((img) => img.id));
+  for (const ann of annotations) {
+    if (!listed.has(ann.imageId)) {
+      listed.add(ann.imageId);
+      images.push({ id: ann.imageId });
+    }
+  }
+
+  return {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    generator: { name: DOCUMENT_GENERATOR_NAME, fabricVersion: FABRIC_VERSION },
+    images,
+    contexts: [...(options.contexts ?? [])],
+    annotations,
+    ...(options.registrations &&
+      options.registrations.length > 0 && { registrations: [...options.registrations] }),
+  };
 }
 
-/** Deserialize with OSD field validation (contextId + rawAnnotationData) */
-export function deserialize(doc: unknown): DeserializeResult<OsdFields> {
-  let annotations: Annotation<OsdFields>[];
+/**
+ * Upgrades `doc` to {@link CURRENT_FORMAT_VERSION} by running the registered
+ * migrations in sequence. Throws `SerializationError` when the version is
+ * unrecognised, newer than this library supports, or a step is missing.
+ */
+export function migrateDocument(
+  doc: unknown,
+  migrations: readonly DocumentMigration[] = DOCUMENT_MIGRATIONS,
+): { document: unknown; sourceFormatVersion: number; migrations: MigrationReport[] } {
+  const sourceFormatVersion = detectFormatVersion(doc);
+  if (sourceFormatVersion === null) {
+    throw new SerializationError(
+      'Unrecognised document: expected an annotation array or a versioned document',
+    );
+  }
+  if (sourceFormatVersion > CURRENT_FORMAT_VERSION) {
+    throw new SerializationError(
+      `Document format version ${sourceFormatVersion} is newer than the supported version ${CURRENT_FORMAT_VERSION}`,
+    );
+  }
+
+  const reports: MigrationReport[] = [];
+  let document = doc;
+  for (let version = sourceFormatVersion; version < CURRENT_FORMAT_VERSION; version++) {
+    const step = migrations.find((m) => m.from === version);
+    if (!step) {
+      throw new SerializationError(`No migration registered from format version ${version}`);
+    }
+    const result = step.migrate(document);
+    document = result.document;
+    reports.push({ from: version, to: version + 1, changes: result.changes });
+  }
+
+  return { document, sourceFormatVersion, migrations: reports };
+}
+
+/**
+ * Deserialize with OSD field validation (contextId + rawAnnotationData), upgrading older formats.
+ * Attribute values are checked against the embedded context definitions.
+ */
+export function deserialize(doc: unknown, options: DeserializeOptions = {}): DeserializedDocument {
+  const migrated = migrateDocument(doc, options.migrations);
+
+  let parsed: AnnotationDocument;
   try {
-    annotations = v.parse(v.array(OsdAnnotationSchema), doc) as unknown as Annotation<OsdFields>[];
+    parsed = v.parse(AnnotationDocumentSchema, migrated.document) as unknown as AnnotationDocument;
   } catch (err) {
     throw new SerializationError(
       `Validation failed: ${err instanceof Error ? err.message : String(err)}`,
     );
   }
 
+  const contextsById = new Map(parsed.contexts.map((c) => [c.id, c]));
   const byImage: Record<ImageId, Record<AnnotationId, Annotation<OsdFields>>> = {};
-  for (const ann of annotations) {
+  for (const ann of parsed.annotations) {
+    const [issue] = validateAttributes(
+      contextsById.get(ann.contextId)?.attributes ?? [],
+      ann.attributes,
+    );
+    if (issue) {
+      throw new SerializationError(
+        `Validation failed: annotation "${ann.id}" attribute "${issue.key}" ${issue.message}`,
+      );
+    }
     const existing = byImage[ann.imageId];
     if (existing) {
       existing[ann.id] = ann;
@@ -45,5 +189,13 @@ export function deserialize(doc: unknown): DeserializeResult<OsdFields> {
     }
   }
 
-  return { byImage };
+  return {
+    byImage,
+    images: parsed.images,
+    contexts: parsed.contexts,
+    registrations: parsed.registrations ?? [],
+    generator: parsed.generator,
+    sourceFormatVersion: migrated.sourceFormatVersion,
+    migrations: migrated.migrations,
+  };
 }
@@ -0,0 +1,142 @@
+import type { Annotation, AnnotationId, Point } from '@osdlabel/annotation';
+import { RTree, boundingBox } from '@osdlabel/geometry';
+import type { BoundingBox } from '@osdlabel/geometry';
+import type { AnnotationState, ImageId } from '@osdlabel/viewer-api';
+import type { OsdFields } from './types.js';
+
+interface IndexedAnnotation<E extends object> {
+  annotation: Annotation<E>;
+  bbox: BoundingBox;
+  geometry: Annotation<E>['geometry'];
+}
+
+interface ImageIndex<E extends object> {
+  readonly tree: RTree<AnnotationId>;
+  readonly entries: Map<AnnotationId, IndexedAnnotation<E>>;
+  /** The annotations {@link AnnotationSpatialIndex.withState} built this from. */
+  readonly source?: Record<AnnotationId, Annotation<E>> | undefined;
+}
+
+/**
+ * An R-tree of annotation bounding boxes per image, kept in step with an
+ * {@link AnnotationState} by calling {@link AnnotationSpatialIndex.sync}
+ * after each change. Only annotations whose `geometry` object changed are
+ * re-indexed, so a sync costs one comparison per unchanged annotation.
+ * Hosts that treat state as immutable values use
+ * {@link AnnotationSpatialIndex.withState} instead.
+ *
+ * Queries match on bounding boxes (rotation included), not exact shapes.
+ */
+export class AnnotationSpatialIndex<E extends object = OsdFields> {
+  private readonly _images = new Map<ImageId, ImageIndex<E>>();
+
+  /** Brings the index in line with `state`. */
+  sync(state: AnnotationState<E>): void {
+    for (const imageId of this._images.keys()) {
+      if (!state.byImage[imageId]) this._images.delete(imageId);
+    }
+    for (const [imageId, annotations] of Object.entries(state.byImage) as [
+      ImageId,
+      Record<AnnotationId, Annotation<E>>,
+    ][]) {
+      this._syncImage(imageId, annotations);
+    }
+  }
+
+  /**
+   * A new index for `state`, leaving this one as it is. Images whose
+   * annotation record is the same object share this index's tree; the others
+   * are indexed afresh, reusing the bounding boxes of unchanged geometry.
+   * Because trees are shared, keep to `withState` rather than `sync` on both.
+   */
+  withState(state: AnnotationState<E>): AnnotationSpatialIndex<E> {
+    const next = new AnnotationSpatialIndex<E>();
+    for (const [imageId, annotations] of Object.entries(state.byImage) as [
+      ImageId,
+      Record<AnnotationId, Annotation<E>>,
+    ][]) {
+      const previous = this._images.get(imageId);
+      if (previous?.source === annotations) {
+        next._images.set(imageId, previous);
+        continue;
+      }
+      const index: ImageIndex<E> = {
+        tree: new RTree<AnnotationId>(),
+        entries: new Map(),
+        source: annotations,
+      };
+      for (const annotation of Object.values(annotations)) {
+        const entry = previous?.entries.get(annotation.id);
+        const bbox =
+          entry && entry.geometry === annotation.geometry
+            ? entry.bbox
+            : boundingBox(annotation.geometry);
+        index.tree.insert(annotation.id, bbox);
+        index.entries.set(annotation.id, { annotation, bbox, geometry: annotation.geometry });
+      }
+      next._images.set(imageId, index);
+    }
+    return next;
+  }
+
+  /** The annotations of `imageId` whose bounding boxes intersect `rect` (image px). */
+  queryRect(imageId: ImageId, rect: BoundingBox): Annotation<E>[] {
+    const index = this._images.get(imageId);
+    return index ? this._resolve(index, index.tree.search(rect)) : [];
+  }
+
+  /**
+   * The annotations of `imageId` whose bounding boxes are within `tolerance`
+   * image px of `point`.
+   */
+  queryPoint(imageId: ImageId, point: Point, tolerance = 0): Annotation<E>[] {
+    return this.queryRect(imageId, {
+      min: { x: point.x - tolerance, y: point.y - tolerance },
+      max: { x: point.x + tolerance, y: point.y + tolerance },
+    });
+  }
+
+  /**
+   * Up to `count` annotations of `imageId` nearest to `point` by bounding
+   * box, nearest first, leaving out those further than `maxDistance`.
+   */
+  nearest(imageId: ImageId, point: Point, count = 1, maxDistance = Infinity): Annotation<E>[] {
+    const index = this._images.get(imageId);
+    return index ? this._resolve(index, index.tree.nearest(point, count, maxDistance)) : [];
+  }
+
+  private _syncImage(imageId: ImageId, annotations: Record<AnnotationId, Annotation<E>>): void {
+    let index = this._images.get(imageId);
+    if (!index) {
+      index = { tree: new RTree<AnnotationId>(), entries: new Map() };
+      this._images.set(imageId, index);
+    }
+    const { tree, entries } = index;
+
+    for (const [id, entry] of entries) {
+      if (!annotations[id]) {
+        tree.remove(id, entry.bbox);
+        entries.delete(id);
+      }
+    }
+    for (const annotation of Object.values(annotations)) {
+      const entry = entries.get(annotation.id);
+      if (entry && entry.geometry === annotation.geometry) {
+        // Same shape: keep its place, but hand out the current object.
+        entry.annotation = annotation;
+        continue;
+      }
+      if (entry) tree.remove(annotation.id, entry.bbox);
+      const bbox = boundingBox(annotation.geometry);
+      tree.insert(annotation.id, bbox);
+      entries.set(annotation.id, { annotation, bbox, geometry: annotation.geometry });
+    }
+  }
+
+  private _resolve(index: ImageIndex<E>, ids: readonly AnnotationId[]): Annotation<E>[] {
+    return ids.flatMap((id) => {
+      const entry = index.entries.get(id);
+      return entry ? [entry.annotation] : [];
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import type { Annotation, AnnotationStyle } from '@osdlabel/annotation';
+import { DEFAULT_ANNOTATION_STYLE } from '@osdlabel/annotation';
+import type { AnnotationContext, ContextFields } from '@osdlabel/annotation-context';
+import { resolveToolConstraint } from './tool-registry.js';
+
+/**
+ * Resolves the style an annotation renders with. The annotation's own
+ * `style` wins outright; otherwise the context's `labelStyles` entry for its
+ * label is layered over its label's `color` (as stroke and fill), over its
+ * tool's `defaultStyle`, over `DEFAULT_ANNOTATION_STYLE`.
+ *
+ * Because unstyled annotations resolve at render time, changing a context's
+ * `labelStyles`, label colors or `defaultStyle` recolors them without
+ * touching stored data.
+ */
+export function resolveAnnotationStyle(
+  annotation: Annotation<ContextFields>,
+  contexts: readonly AnnotationContext[],
+): AnnotationStyle {
+  if (annotation.style) return annotation.style;
+  const context = contexts.find((c) => c.id === annotation.contextId);
+  const toolStyle = context
+    ? resolveToolConstraint(context, annotation.toolType)?.defaultStyle
+    : undefined;
+  const labelStyle =
+    annotation.label !== undefined ? context?.labelStyles?.[annotation.label] : undefined;
+  const color = context?.labels?.find((l) => l.id === annotation.label)?.color;
+  const colorStyle = color !== undefined ? { strokeColor: color, fillColor: color } : undefined;
+  return { ...DEFAULT_ANNOTATION_STYLE, ...toolStyle, ...colorStyle, ...labelStyle };
+}
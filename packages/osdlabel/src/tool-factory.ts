@@ -1,8 +1,10 @@
 import type { AnnotationId, Point, RectangleGeometry, ToolType } from '@osdlabel/annotation';
-import { toolTypeToGeometryType } from '@osdlabel/annotation';
+import { DEFAULT_ANNOTATION_STYLE, toolTypeToGeometryType } from '@osdlabel/annotation';
 import { circleToBoundingRectangle } from '@osdlabel/geometry';
-import type { ImageId, AnnotationState } from '@osdlabel/viewer-api';
+import type { BoundingBox } from '@osdlabel/geometry';
+import type { ImageId, AnnotationState, SnapSettings } from '@osdlabel/viewer-api';
 import type {
+  AnnotationContext,
   AnnotationContextId,
   ConstraintStatus,
   ContextState,
@@ -15,22 +17,22 @@ import type {
   FabricRawAnnotationData,
 } from '@osdlabel/fabric-annotations';
 import {
-  RectangleTool,
-  CircleTool,
-  LineTool,
-  PointTool,
-  PolylineTool,
-  FreeHandPathTool,
   SelectTool,
   buildFabricObjectFromGeometry,
+  createFabricObjectFromAnnotation,
+  getFabricOptions,
   getGeometryFromFabricObject,
+  getSelectionMembers,
   serializeFabricObject,
+  withSceneTransform,
   DEFAULT_VERTEX_EDIT_LONG_PRESS_MS,
   DEFAULT_VERTEX_EDIT_MOVE_TOLERANCE_PX,
   type VertexEditConfig,
 } from '@osdlabel/fabric-annotations';
-import type { FabricObject } from 'fabric';
+import type { Canvas, FabricObject } from 'fabric';
 import type { OsdAnnotation, OsdFields } from './types.js';
+import { resolveAnnotationStyle } from './style.js';
+import { getToolDefinition, resolveToolConstraint } from './tool-registry.js';
 
 /** Options for {@link createAnnotationTool}. */
 export interface CreateAnnotationToolOptions {
@@ -42,8 +44,9 @@ export interface CreateAnnotationToolOptions {
 }
 
 /**
- * Creates an annotation tool instance for the given tool type.
- * Returns null for unrecognized types.
+ * Creates an annotation tool instance for the given tool type from its
+ * registered definition (see `registerTool`). Returns null for unregistered
+ * types.
  */
 export function createAnnotationTool(
   type: ToolType | 'select',
@@ -53,24 +56,8 @@ export function createAnnotationTool(
     longPressMs: DEFAULT_VERTEX_EDIT_LONG_PRESS_MS,
     moveTolerancePx: DEFAULT_VERTEX_EDIT_MOVE_TOLERANCE_PX,
   };
-  switch (type) {
-    case 'rectangle':
-      return new RectangleTool();
-    case 'circle':
-      return new CircleTool();
-    case 'line':
-      return new LineTool();
-    case 'point':
-      return new PointTool();
-    case 'polyline':
-      return new PolylineTool(vertexEdit);
-    case 'freeHandPath':
-      return new FreeHandPathTool(undefined, vertexEdit);
-    case 'select':
-      return new SelectTool(vertexEdit);
-    default:
-      return null;
-  }
+  if (type === 'select') return new SelectTool(vertexEdit);
+  return getToolDefinition(type)?.createTool({ vertexEdit }) ?? null;
 }
 
 /**
@@ -81,6 +68,14 @@ export interface ToolCallbackAccessors {
   readonly getContextState: () => ContextState;
   readonly getAnnotationState: () => AnnotationState<OsdFields>;
   readonly getConstraintStatus: () => ConstraintStatus;
+  /** How drawn points snap; they never do when omitted. */
+  readonly getSnapSettings?: () => SnapSettings;
+  /**
+   * The shown annotations on `imageId` whose bounds meet `region` (image
+   * px), which points may snap to. Hosts answer from their spatial index,
+   * filtered by `shownAnnotationFilter`. Nothing attracts when omitted.
+   */
+  readonly getSnapTargets?: (imageId: ImageId, region: BoundingBox) => readonly OsdAnnotation[];
 }
 
 /**
@@ -94,7 +89,8 @@ export interface ToolCallbackDispatchers {
     fabricObject: FabricObject,
   ) => void;
   readonly deleteAnnotation: (id: AnnotationId, imageId: ImageId) => void;
-  readonly setSelectedAnnotation: (id: AnnotationId | null) => void;
+  readonly deleteAnnotations: (ids: readonly AnnotationId[], imageId: ImageId) => void;
+  readonly setSelectedAnnotations: (ids: readonly AnnotationId[]) => void;
 }
 
 /**
@@ -112,11 +108,11 @@ export function buildToolCallbacks(
       const activeContextId = contextState.activeContextId;
       if (!activeContextId) return undefined;
       const activeContext = contextState.contexts.find((c) => c.id === activeContextId);
-      return activeContext?.tools.find((t) => t.type === toolType);
+      return activeContext ? resolveToolConstraint(activeContext, toolType) : undefined;
     },
     canAddAnnotation: (toolType: ToolType) => {
       const status = accessors.getConstraintStatus();
-      return status[toolType].enabled;
+      return status[toolType]?.enabled ?? false;
     },
     addAnnotation: (params: AddAnnotationParams) => {
       dispatchers.addAnnotation(params);
@@ -125,11 +121,14 @@ export function buildToolCallbacks(
       dispatchers.updateAnnotation(id, imageId, fabricObject);
     },
     deleteAnnotation: (id, imageId) => dispatchers.deleteAnnotation(id, imageId),
-    setSelectedAnnotation: (id) => dispatchers.setSelectedAnnotation(id),
+    deleteAnnotations: (ids, imageId) => dispatchers.deleteAnnotations(ids, imageId),
+    setSelectedAnnotations: (ids) => dispatchers.setSelectedAnnotations(ids),
     getAnnotation: (id, imageId) => {
       const imageAnns = accessors.getAnnotationState().byImage[imageId];
       return imageAnns?.[id];
     },
+    ...(accessors.getSnapSettings ? { getSnapSettings: accessors.getSnapSettings } : {}),
+    ...(accessors.getSnapTargets ? { getSnapTargets: accessors.getSnapTargets } : {}),
   };
 }
 
@@ -180,6 +179,55 @@ export function processObjectModified(
   return { id: annotationId, geometry, rawAnnotationData };
 }
 
+/**
+ * Processes a Fabric object:modified event whose target may be an
+ * `ActiveSelection` (a group move, scale or rotate), returning the updated
+ * fields of every member annotation, in image coordinates. Members that
+ * cannot be resolved are skipped.
+ */
+export function processObjectsModified(
+  target: FabricObject,
+  annotationState: AnnotationState<OsdFields>,
+  imageId: ImageId,
+): NonNullable<ReturnType<typeof processObjectModified>>[] {
+  return getSelectionMembers(target).flatMap((obj) => {
+    const result = withSceneTransform(obj, (o) =>
+      processObjectModified(o, annotationState, imageId),
+    );
+    return result ? [result] : [];
+  });
+}
+
+/**
+ * Replaces the canvas objects of `annotations` with ones rebuilt from their
+ * stored state, e.g. after the geometry rules rejected a move. Any
+ * selection is discarded first. Annotations with no object on the canvas
+ * are skipped.
+ */
+export async function restoreFabricObjects(
+  canvas: Canvas,
+  annotations: readonly OsdAnnotation[],
+  contexts: readonly AnnotationContext[],
+): Promise<void> {
+  canvas.discardActiveObject();
+  for (const annotation of annotations) {
+    if (!canvas.getObjects().some((obj) => obj.id === annotation.id)) continue;
+    const restored = await createFabricObjectFromAnnotation(
+      annotation,
+      resolveAnnotationStyle(annotation, contexts),
+    );
+    // Look the object up again: the canvas may have been reloaded meanwhile.
+    const stale = canvas.getObjects().find((obj) => obj.id === annotation.id);
+    if (!stale) continue;
+    restored._readOnly = stale._readOnly ?? false;
+    restored.set({ selectable: stale.selectable, evented: stale.evented });
+    const index = canvas.getObjects().indexOf(stale);
+    canvas.remove(stale);
+    canvas.insertAt(index, restored);
+  }
+  canvas.requestRenderAll();
+}
+
 /**
  * Processes an addAnnotation call from a tool, extracting geometry and serializing.
  * Returns the fields needed to create the annotation, or null on failure.
@@ -240,10 +288,14 @@ export function processToolUpdateAnnotation(
 
 /**
  * Extracts the visual style fields from an existing annotation's serialized
- * Fabric data so a converted shape keeps the original styling. Annotation
- * style is not stored separately — it lives in the serialized Fabric object.
+ * Fabric data so a converted (or pasted) shape keeps the original styling.
+ * Unless the annotation has its own `style`, the rendered style lives in the
+ * serialized Fabric object.
  */
-function styleOptionsFromRawData(raw: FabricRawAnnotationData, id: string): FabricShapeOptions {
+export function styleOptionsFromRawData(
+  raw: FabricRawAnnotationData,
+  id: string,
+): FabricShapeOptions {
   const d = raw.data;
   const asString = (value: unknown, fallback: string): string =>
     typeof value === 'string' ? value : fallback;
@@ -278,7 +330,9 @@ export function processConvertCircleToRectangle(annotation: OsdAnnotation): {
   if (annotation.geometry.type !== 'circle') return null;
 
   const geometry = circleToBoundingRectangle(annotation.geometry);
-  const options = styleOptionsFromRawData(annotation.rawAnnotationData, annotation.id);
+  const options = annotation.rawAnnotationData
+    ? styleOptionsFromRawData(annotation.rawAnnotationData, annotation.id)
+    : getFabricOptions(annotation.style ?? DEFAULT_ANNOTATION_STYLE, annotation.id);
   const rect = buildFabricObjectFromGeometry(geometry, options);
   const rawAnnotationData = serializeFabricObject(rect);
 
@@ -0,0 +1,135 @@
+import type { GeometryType, ToolType } from '@osdlabel/annotation';
+import { registerToolType } from '@osdlabel/annotation';
+import type { AnnotationContext, ToolConstraint } from '@osdlabel/annotation-context';
+import type { AnnotationTool, VertexEditConfig } from '@osdlabel/fabric-annotations';
+import {
+  RectangleTool,
+  CircleTool,
+  EllipseTool,
+  LineTool,
+  PointTool,
+  PolylineTool,
+  FreeHandPathTool,
+} from '@osdlabel/fabric-annotations';
+
+/** Options passed to {@link ToolDefinition.createTool}. */
+export interface ToolFactoryOptions {
+  /** Long-press tuning for tools that expose the polygon/polyline vertex editor. */
+  readonly vertexEdit: VertexEditConfig;
+}
+
+/**
+ * Everything osdlabel needs to offer a drawing tool: how to create it, what
+ * it produces, and how the toolbar, keyboard and constraints present it.
+ */
+export interface ToolDefinition {
+  /** The tool type id, recorded as each annotation's `toolType`. */
+  readonly type: ToolType;
+  /** The geometry type the tool's Fabric objects are read back as. */
+  readonly geometryType: GeometryType;
+  /** Creates a fresh tool instance each time the tool is activated. */
+  readonly createTool: (options: ToolFactoryOptions) => AnnotationTool;
+  /** Toolbar button label. */
+  readonly label: string;
+  /** Toolbar icon: an image URL or data URI, shown before the label. */
+  readonly icon?: string | undefined;
+  /** Default activation key. Users override it via `KeyboardShortcutMap.tools`. */
+  readonly shortcut?: string | undefined;
+  /** Constraint fields applied when a context's entry for the tool omits them. */
+  readonly defaultConstraint?: Omit<ToolConstraint, 'type'> | undefined;
+}
+
+const BUILT_IN_TOOLS: readonly ToolDefinition[] = [
+  {
+    type: 'rectangle',
+    geometryType: 'rectangle',
+    createTool: () => new RectangleTool(),
+    label: 'Rect',
+    shortcut: 'r',
+  },
+  {
+    type: 'circle',
+    geometryType: 'circle',
+    createTool: () => new CircleTool(),
+    label: 'Circle',
+    shortcut: 'c',
+  },
+  {
+    type: 'ellipse',
+    geometryType: 'ellipse',
+    createTool: () => new EllipseTool(),
+    label: 'Ellipse',
+    shortcut: 'e',
+  },
+  {
+    type: 'line',
+    geometryType: 'line',
+    createTool: () => new LineTool(),
+    label: 'Line',
+    shortcut: 'l',
+  },
+  {
+    type: 'point',
+    geometryType: 'point',
+    createTool: () => new PointTool(),
+    label: 'Point',
+    shortcut: 'p',
+  },
+  {
+    type: 'polyline',
+    geometryType: 'polyline',
+    createTool: ({ vertexEdit }) => new PolylineTool(vertexEdit),
+    label: 'Polyline',
+    shortcut: 'd',
+  },
+  {
+    type: 'freeHandPath',
+    geometryType: 'polyline',
+    createTool: ({ vertexEdit }) => new FreeHandPathTool(undefined, vertexEdit),
+    label: 'Free Draw',
+    shortcut: 'f',
+  },
+];
+
+const registry = new Map<ToolType, ToolDefinition>(BUILT_IN_TOOLS.map((d) => [d.type, d]));
+
+/**
+ * Registers a drawing tool, or replaces the definition of an existing type
+ * (including a built-in). Register before mounting an `Annotator` so the
+ * toolbar, shortcuts and constraint status pick the tool up; contexts enable
+ * it like any other tool, by listing its type in `tools`.
+ */
+export function registerTool(definition: ToolDefinition): void {
+  registry.set(definition.type, definition);
+  registerToolType(definition.type, definition.geometryType);
+}
+
+/** The definition of a registered tool type, if any. */
+export function getToolDefinition(type: ToolType): ToolDefinition | undefined {
+  return registry.get(type);
+}
+
+/** All registered tools, built-ins first, then in registration order. */
+export function getToolDefinitions(): readonly ToolDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * A context's constraint for a tool type with the tool's
+ * `defaultConstraint` filled in, or `undefined` when the context does not
+ * enable the tool.
+ */
+export function resolveToolConstraint(
+  context: AnnotationContext,
+  type: ToolType,
+): ToolConstraint | undefined {
+  const constraint = context.tools.find((t) => t.type === type);
+  if (!constraint) return undefined;
+  const defaults = registry.get(type)?.defaultConstraint;
+  return defaults ? { ...defaults, ...withoutUndefined(constraint) } : constraint;
+}
+
+/** Drops explicitly-undefined fields so they don't mask defaults when spread. */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
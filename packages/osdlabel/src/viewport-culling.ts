@@ -0,0 +1,126 @@
+import type { FabricOverlay } from '@osdlabel/fabric-osd';
+import type { BoundingBox } from '@osdlabel/geometry';
+import type { AnnotationContextId, ContextState } from '@osdlabel/annotation-context';
+
+/**
+ * Default margin kept around the viewport by {@link enableViewportCulling},
+ * as a fraction of the viewport's width and height on each side.
+ */
+export const DEFAULT_CULL_MARGIN = 0.5;
+
+/**
+ * The part of the image the overlay's canvas shows, in image px: the bounds
+ * of its four corners, so rotation and flip are covered. `null` while the
+ * canvas has no size.
+ */
+export function getViewportImageBounds(overlay: FabricOverlay): BoundingBox | null {
+  const width = overlay.canvas.getWidth();
+  const height = overlay.canvas.getHeight();
+  if (!(width > 0 && height > 0)) return null;
+  const corners = [
+    overlay.screenToImage({ x: 0, y: 0 }),
+    overlay.screenToImage({ x: width, y: 0 }),
+    overlay.screenToImage({ x: 0, y: height }),
+    overlay.screenToImage({ x: width, y: height }),
+  ];
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  return {
+    min: { x: Math.min(...xs), y: Math.min(...ys) },
+    max: { x: Math.max(...xs), y: Math.max(...ys) },
+  };
+}
+
+/**
+ * Whether grid cells show an annotation: it is not hidden and belongs to
+ * the active context or a displayed one (any context when neither is set).
+ * Build it once per context state, then test each annotation.
+ */
+export function shownAnnotationFilter(
+  contextState: Pick<ContextState, 'activeContextId' | 'displayedContextIds'>,
+): (annotation: {
+  readonly hidden?: boolean | undefined;
+  readonly contextId: AnnotationContextId;
+}) => boolean {
+  const shown = new Set<AnnotationContextId>(contextState.displayedContextIds);
+  if (contextState.activeContextId) shown.add(contextState.activeContextId);
+  return (annotation) =>
+    !annotation.hidden && (shown.size === 0 || shown.has(annotation.contextId));
+}
+
+/** `bounds` grown by `margin` times its width and height on each side. */
+export function expandBounds(bounds: BoundingBox, margin: number): BoundingBox {
+  const dx = (bounds.max.x - bounds.min.x) * margin;
+  const dy = (bounds.max.y - bounds.min.y) * margin;
+  return {
+    min: { x: bounds.min.x - dx, y: bounds.min.y - dy },
+    max: { x: bounds.max.x + dx, y: bounds.max.y + dy },
+  };
+}
+
+function containsBounds(outer: BoundingBox, inner: BoundingBox): boolean {
+  return (
+    outer.min.x <= inner.min.x &&
+    outer.min.y <= inner.min.y &&
+    inner.max.x <= outer.max.x &&
+    inner.max.y <= outer.max.y
+  );
+}
+
+function boundsArea(bounds: BoundingBox): number {
+  return (bounds.max.x - bounds.min.x) * (bounds.max.y - bounds.min.y);
+}
+
+/** Options for {@link enableViewportCulling}. */
+export interface ViewportCullingOptions {
+  readonly overlay: FabricOverlay;
+  /** Margin around the viewport; defaults to {@link DEFAULT_CULL_MARGIN}. */
+  readonly margin?: number | undefined;
+  /** Called with the new cull rectangle (image px) whenever it moves. */
+  readonly onChange: (rect: BoundingBox) => void;
+}
+
+/**
+ * Tracks the region of the image worth materializing: the viewport plus a
+ * margin. Checked on every {@link FabricOverlay.onSync}; the rectangle only
+ * moves once the viewport leaves it, or after zooming in far enough that it
+ * covers more than four times the expanded viewport, so small pans and
+ * zooms do not re-query the spatial index.
+ *
+ * `onChange` is called once right away when the canvas has a size. Returns
+ * `refresh`, which forgets the current rectangle and measures again (call it
+ * once a new image has opened), and `destroy` for cleanup.
+ */
+export function enableViewportCulling(options: ViewportCullingOptions): {
+  readonly refresh: () => void;
+  readonly destroy: () => void;
+} {
+  const { overlay, onChange } = options;
+  const margin = options.margin ?? DEFAULT_CULL_MARGIN;
+  let current: BoundingBox | null = null;
+
+  const check = () => {
+    const view = getViewportImageBounds(overlay);
+    if (!view) return;
+    const expanded = expandBounds(view, margin);
+    if (
+      current &&
+      containsBounds(current, view) &&
+      boundsArea(current) <= 4 * boundsArea(expanded)
+    ) {
+      return;
+    }
+    current = expanded;
+    onChange(expanded);
+  };
+
+  check();
+  const unsubscribe = overlay.onSync(check);
+  return {
+    refresh: () => {
+      current = null;
+      check();
+    },
+    destroy: unsubscribe,
+  };
+}
@@ -0,0 +1,533 @@
+import type {
+  Annotation,
+  AnnotationId,
+  AnnotationStyle,
+  Geometry,
+  Point,
+  ToolType,
+} from '@osdlabel/annotation';
+import { createAnnotationId, geometryTypeToDefaultToolType } from '@osdlabel/annotation';
+import type { AnnotationState, ImageId, ImageSource } from '@osdlabel/viewer-api';
+import { createImageId, getAllAnnotationsFlat } from '@osdlabel/viewer-api';
+import type { AnnotationContextId } from '@osdlabel/annotation-context';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import {
+  GeometrySchema,
+  ToolTypeSchema,
+  WebAnnotationPageSchema,
+  WebAnnotationSchema,
+  WebAnnotationSelectorSchema,
+} from '@osdlabel/validation';
+import * as v from 'valibot';
+import { multiPolygonFromRings } from '@osdlabel/geometry';
+import { createAnnotationFromGeometry } from './create-annotation.js';
+import { SerializationError } from './serialization-configured.js';
+import type { DeserializeResult } from './serialization-configured.js';
+import type { OsdFields } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Web Annotation types (https://www.w3.org/TR/annotation-model/)
+// ---------------------------------------------------------------------------
+
+/** JSON-LD context of the W3C Web Annotation vocabulary. */
+export const WEB_ANNOTATION_CONTEXT = 'http://www.w3.org/ns/anno.jsonld';
+
+/** `conformsTo` of a Media Fragments `FragmentSelector`. */
+export const MEDIA_FRAGMENTS_SPEC = 'http://www.w3.org/TR/media-frags/';
+
+export interface WebAnnotationFragmentSelector {
+  readonly type: 'FragmentSelector';
+  readonly conformsTo: typeof MEDIA_FRAGMENTS_SPEC;
+  /** `xywh=pixel:x,y,w,h` in image pixels. */
+  readonly value: string;
+}
+
+export interface WebAnnotationSvgSelector {
+  readonly type: 'SvgSelector';
+  /** An `<svg>` document holding a single shape in image pixels. */
+  readonly value: string;
+}
+
+export type WebAnnotationSelector = WebAnnotationFragmentSelector | WebAnnotationSvgSelector;
+
+export interface WebAnnotationTarget {
+  /** The image's `tileSource`. */
+  readonly source: string;
+  readonly selector: WebAnnotationSelector;
+}
+
+export interface WebAnnotationTextualBody {
+  readonly type: 'TextualBody';
+  readonly purpose: 'tagging';
+  readonly value: string;
+}
+
+/** osdlabel fields not expressible in the Web Annotation vocabulary. */
+export interface WebAnnotationOsdlabelExtension {
+  readonly imageId: string;
+  readonly contextId: string;
+  readonly toolType: ToolType;
+}
+
+export interface WebAnnotation {
+  readonly '@context': typeof WEB_ANNOTATION_CONTEXT;
+  readonly id: string;
+  readonly type: 'Annotation';
+  readonly motivation: 'tagging' | 'highlighting';
+  readonly created: string;
+  readonly modified: string;
+  /** The label as a tag; empty when unlabelled. */
+  readonly body: readonly WebAnnotationTextualBody[];
+  readonly target: WebAnnotationTarget;
+  readonly osdlabel: WebAnnotationOsdlabelExtension;
+}
+
+export interface WebAnnotationPage {
+  readonly '@context': typeof WEB_ANNOTATION_CONTEXT;
+  readonly type: 'AnnotationPage';
+  readonly items: readonly WebAnnotation[];
+}
+
+// ---------------------------------------------------------------------------
+// Selectors
+// ---------------------------------------------------------------------------
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+function svg(shape: string): string {
+  return `<svg xmlns="${SVG_NAMESPACE}">${shape}</svg>`;
+}
+
+function svgPoints(points: readonly Point[]): string {
+  return points.map((p) => `${p.x},${p.y}`).join(' ');
+}
+
+/**
+ * Selector for a geometry: a Media Fragments `xywh` for axis-aligned
+ * rectangles, an SVG shape otherwise. Rotated rectangles carry a
+ * `rotate(deg x y)` transform about their origin; points are zero-radius
+ * circles; multi-polygons are an even-odd `path` with one subpath per ring.
+ */
+function selectorFor(geometry: Geometry): WebAnnotationSelector {
+  switch (geometry.type) {
+    case 'rectangle': {
+      const { origin, width, height, rotation } = geometry;
+      if (rotation === 0) {
+        return {
+          type: 'FragmentSelector',
+          conformsTo: MEDIA_FRAGMENTS_SPEC,
+          value: `xywh=pixel:${origin.x},${origin.y},${width},${height}`,
+        };
+      }
+      return {
+        type: 'SvgSelector',
+        value: svg(
+          `<rect x="${origin.x}" y="${origin.y}" width="${width}" height="${height}" transform="rotate(${rotation} ${origin.x} ${origin.y})"/>`,
+        ),
+      };
+    }
+    case 'circle':
+      return {
+        type: 'SvgSelector',
+        value: svg(
+          `<circle cx="${geometry.center.x}" cy="${geometry.center.y}" r="${geometry.radius}"/>`,
+        ),
+      };
+    case 'ellipse': {
+      const { center, radiusX, radiusY, rotation } = geometry;
+      return {
+        type: 'SvgSelector',
+        value: svg(
+          `<ellipse cx="${center.x}" cy="${center.y}" rx="${radiusX}" ry="${radiusY}" transform="rotate(${rotation} ${center.x} ${center.y})"/>`,
+        ),
+      };
+    }
+    case 'point':
+      return {
+        type: 'SvgSelector',
+        value: svg(`<circle cx="${geometry.position.x}" cy="${geometry.position.y}" r="0"/>`),
+      };
+    case 'line':
+      return {
+        type: 'SvgSelector',
+        value: svg(
+          `<line x1="${geometry.start.x}" y1="${geometry.start.y}" x2="${geometry.end.x}" y2="${geometry.end.y}"/>`,
+        ),
+      };
+    case 'polyline':
+      return {
+        type: 'SvgSelector',
+        value: svg(`<polyline points="${svgPoints(geometry.points)}"/>`),
+      };
+    case 'polygon':
+      return {
+        type: 'SvgSelector',
+        value: svg(`<polygon points="${svgPoints(geometry.points)}"/>`),
+      };
+    case 'multiPolygon': {
+      const d = geometry.polygons
+        .flatMap((polygon) => [polygon.outer, ...polygon.holes])
+        .map((ring) => `M${ring.map((p) => `${p.x},${p.y}`).join(' L')} Z`)
+        .join(' ');
+      return { type: 'SvgSelector', value: svg(`<path d="${d}" fill-rule="evenodd"/>`) };
+    }
+  }
+}
+
+const FRAGMENT_XYWH = /^xywh=(?:pixel:)?([^,]+),([^,]+),([^,]+),([^,]+)$/;
+const SVG_SHAPE = /<(rect|circle|ellipse|line|polyline|polygon|path)\b([^>]*)>/i;
+const SVG_PATH_TOKEN = /([A-Za-z])|(-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/g;
+const SVG_ATTRIBUTE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const SVG_ROTATE = /rotate\(\s*([^\s,)]+)(?:[\s,]+([^\s,)]+)[\s,]+([^\s,)]+))?\s*\)/;
+
+function parseFragment(value: string): Geometry | string {
+  if (value.startsWith('xywh=percent:')) return 'Percent fragments are not supported';
+  const match = FRAGMENT_XYWH.exec(value);
+  if (!match) return `Unrecognised fragment: ${value}`;
+  const [x, y, width, height] = match.slice(1).map(Number) as [number, number, number, number];
+  return { type: 'rectangle', origin: { x, y }, width, height, rotation: 0 };
+}
+
+function parsePoints(value: string | undefined): Point[] {
+  const numbers = (value ?? '')
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i]!, y: numbers[i + 1]! });
+  }
+  return points;
+}
+
+/**
+ * Reads the rings of a path made of straight segments (`M`, `L`, `H`, `V`,
+ * `Z`, absolute or relative) as a multi-polygon, nesting rings by the
+ * even-odd rule. Curves are not supported.
+ */
+function parsePath(d: string | undefined): Geometry | string {
+  const rings: Point[][] = [];
+  let ring: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let command = '';
+  const closeRing = (): void => {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    // An explicit return to the start is implied by the ring being closed.
+    if (ring.length > 1 && first && last && first.x === last.x && first.y === last.y) ring.pop();
+    if (ring.length > 0) rings.push(ring);
+    ring = [];
+  };
+
+  const tokens = [...(d ?? '').matchAll(SVG_PATH_TOKEN)];
+  for (let i = 0; i < tokens.length; ) {
+    const [, letter] = tokens[i]!;
+    if (letter) {
+      command = letter;
+      i++;
+      if (command === 'Z' || command === 'z') {
+        current = ring[0] ?? current;
+        closeRing();
+        continue;
+      }
+      if (!'MmLlHhVv'.includes(command)) return `SVG path command ${command} is not supported`;
+    }
+    const relative = command === command.toLowerCase();
+    const take = (): number => Number(tokens[i++]?.[2] ?? NaN);
+    switch (command.toUpperCase()) {
+      case 'M': {
+        closeRing();
+        const x = take();
+        const y = take();
+        current = relative ? { x: current.x + x, y: current.y + y } : { x, y };
+        // Coordinates after a moveto are implicit linetos.
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L': {
+        const x = take();
+        const y = take();
+        current = relative ? { x: current.x + x, y: current.y + y } : { x, y };
+        break;
+      }
+      case 'H': {
+        const x = take();
+        current = { x: relative ? current.x + x : x, y: current.y };
+        break;
+      }
+      case 'V': {
+        const y = take();
+        current = { x: current.x, y: relative ? current.y + y : y };
+        break;
+      }
+      default:
+        return 'SVG path has coordinates before its first command';
+    }
+    ring.push(current);
+  }
+  closeRing();
+  return multiPolygonFromRings(rings);
+}
+
+/**
+ * Applies a shape's `rotate(...)` transform to its anchor point (a rect's
+ * origin, an ellipse's center). A rotation about any centre is the same
+ * rotation about the rotated anchor, so the shape keeps its own angle.
+ */
+function applySvgRotate(
+  anchor: Point,
+  transform: string | undefined,
+): { anchor: Point; rotation: number } {
+  const rotate = SVG_ROTATE.exec(transform ?? '');
+  if (!rotate) return { anchor, rotation: 0 };
+  const rotation = Number(rotate[1]);
+  const cx = Number(rotate[2] ?? 0);
+  const cy = Number(rotate[3] ?? 0);
+  const theta = (rotation * Math.PI) / 180;
+  const dx = anchor.x - cx;
+  const dy = anchor.y - cy;
+  return {
+    anchor: {
+      x: cx + dx * Math.cos(theta) - dy * Math.sin(theta),
+      y: cy + dx * Math.sin(theta) + dy * Math.cos(theta),
+    },
+    rotation,
+  };
+}
+
+/**
+ * Reads the first supported shape of an SVG selector. Parsing is textual, as
+ * selectors hold a single shape and no DOM is assumed.
+ */
+function parseSvg(value: string): Geometry | string {
+  const shape = SVG_SHAPE.exec(value);
+  if (!shape) return 'SVG selector has no rect, circle, ellipse, line, polyline, polygon or path';
+  const attrs: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of shape[2]!.matchAll(SVG_ATTRIBUTE)) {
+    attrs[name!] = doubleQuoted ?? singleQuoted ?? '';
+  }
+  const num = (name: string): number => Number(attrs[name] ?? NaN);
+
+  switch (shape[1]!.toLowerCase()) {
+    case 'rect': {
+      const { anchor: origin, rotation } = applySvgRotate(
+        { x: num('x'), y: num('y') },
+        attrs['transform'],
+      );
+      return { type: 'rectangle', origin, width: num('width'), height: num('height'), rotation };
+    }
+    case 'ellipse': {
+      const { anchor: center, rotation } = applySvgRotate(
+        { x: num('cx'), y: num('cy') },
+        attrs['transform'],
+      );
+      return { type: 'ellipse', center, radiusX: num('rx'), radiusY: num('ry'), rotation };
+    }
+    case 'circle': {
+      const center = { x: num('cx'), y: num('cy') };
+      const r = num('r');
+      return r === 0 ? { type: 'point', position: center } : { type: 'circle', center, radius: r };
+    }
+    case 'line':
+      return {
+        type: 'line',
+        start: { x: num('x1'), y: num('y1') },
+        end: { x: num('x2'), y: num('y2') },
+      };
+    case 'polyline':
+      return { type: 'polyline', points: parsePoints(attrs['points']) };
+    case 'path':
+      return parsePath(attrs['d']);
+    default:
+      return { type: 'polygon', points: parsePoints(attrs['points']) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Options for {@link serializeWebAnnotations}. */
+export interface SerializeWebAnnotationsOptions {
+  /**
+   * Image sources. Each annotation targets its image's `tileSource`; images
+   * missing here are targeted by id.
+   */
+  readonly images?: readonly ImageSource[] | undefined;
+}
+
+/**
+ * Export annotation state as a W3C Web Annotation `AnnotationPage`, as read
+ * by Mirador and Annotorious. Each annotation targets its image's
+ * `tileSource` with a `FragmentSelector` (axis-aligned rectangles) or an
+ * `SvgSelector` (everything else); the label becomes a `tagging`
+ * `TextualBody`. Context and tool type travel in an `osdlabel` extension
+ * property.
+ */
+export function serializeWebAnnotations(
+  state: AnnotationState<OsdFields>,
+  options: SerializeWebAnnotationsOptions = {},
+): WebAnnotationPage {
+  const sources = new Map<ImageId, string>(
+    (options.images ?? []).map((img) => [img.id, img.tileSource]),
+  );
+
+  const items = getAllAnnotationsFlat(state).map(
+    (ann): WebAnnotation => ({
+      '@context': WEB_ANNOTATION_CONTEXT,
+      id: ann.id,
+      type: 'Annotation',
+      motivation: ann.label !== undefined ? 'tagging' : 'highlighting',
+      created: ann.createdAt,
+      modified: ann.updatedAt,
+      body:
+        ann.label !== undefined
+          ? [{ type: 'TextualBody', purpose: 'tagging', value: ann.label }]
+          : [],
+      target: {
+        source: sources.get(ann.imageId) ?? ann.imageId,
+        selector: selectorFor(ann.geometry),
+      },
+      osdlabel: { imageId: ann.imageId, contextId: ann.contextId, toolType: ann.toolType },
+    }),
+  );
+
+  return { '@context': WEB_ANNOTATION_CONTEXT, type: 'AnnotationPage', items };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** A Web Annotation that could not be imported, and why. */
+export interface WebAnnotationSkipped {
+  /** Position of the annotation in the input. */
+  readonly index: number;
+  readonly reason: string;
+}
+
+/** Options for {@link deserializeWebAnnotations}. */
+export interface DeserializeWebAnnotationsOptions {
+  /**
+   * Image sources, matched against each target's `source` by `tileSource`.
+   * Unmatched sources without an `osdlabel.imageId` become image ids as-is.
+   */
+  readonly images?: readonly ImageSource[] | undefined;
+  /** Context for annotations without an `osdlabel.contextId`. */
+  readonly contextId?: AnnotationContextId | undefined;
+  /** Style of the synthesized Fabric objects. Defaults to `DEFAULT_ANNOTATION_STYLE`. */
+  readonly style?: AnnotationStyle | undefined;
+}
+
+/** Result of {@link deserializeWebAnnotations}. */
+export interface WebAnnotationDeserializeResult extends DeserializeResult<OsdFields> {
+  readonly skipped: readonly WebAnnotationSkipped[];
+}
+
+const ExtensionSchema = v.looseObject({
+  imageId: v.optional(v.pipe(v.string(), v.minLength(1))),
+  contextId: v.optional(v.pipe(v.string(), v.minLength(1))),
+  toolType: v.optional(ToolTypeSchema),
+});
+
+/**
+ * Import W3C Web Annotations: an `AnnotationPage`, an array, or a single
+ * annotation. Geometry is read from the first `FragmentSelector` (pixel
+ * `xywh`) or `SvgSelector` (`rect`, `circle`, `ellipse`, `line`,
+ * `polyline`, `polygon`, or a straight-edged `path` as a multi-polygon) and validated through `GeometrySchema`; the label from the
+ * first `TextualBody`. `rawAnnotationData` is synthesized from the geometry.
+ *
+ * Annotations that fail validation, have no usable selector, or have no
+ * context are reported in `skipped`. Throws `SerializationError` if the
+ * input is none of the accepted shapes.
+ */
+export function deserializeWebAnnotations(
+  input: unknown,
+  options: DeserializeWebAnnotationsOptions = {},
+): WebAnnotationDeserializeResult {
+  let items: readonly unknown[];
+  if (Array.isArray(input)) {
+    items = input;
+  } else if (v.is(WebAnnotationPageSchema, input)) {
+    items = input.items;
+  } else if (v.is(WebAnnotationSchema, input)) {
+    items = [input];
+  } else {
+    throw new SerializationError(
+      'Unrecognised input: expected a Web Annotation, an array of them or an AnnotationPage',
+    );
+  }
+
+  const imagesBySource = new Map<string, ImageId>(
+    (options.images ?? []).map((img) => [img.tileSource, img.id]),
+  );
+  const byImage: Record<ImageId, Record<AnnotationId, Annotation<OsdFields>>> = {};
+  const skipped: WebAnnotationSkipped[] = [];
+
+  items.forEach((item, index) => {
+    const parsed = v.safeParse(WebAnnotationSchema, item);
+    if (!parsed.success) {
+      skipped.push({ index, reason: `Validation failed: ${parsed.issues[0].message}` });
+      return;
+    }
+    const ann = parsed.output;
+    const extension = v.safeParse(ExtensionSchema, ann['osdlabel'] ?? {});
+    const ext = extension.success ? extension.output : {};
+
+    const imageId =
+      ext.imageId !== undefined
+        ? createImageId(ext.imageId)
+        : (imagesBySource.get(ann.target.source) ?? createImageId(ann.target.source));
+    const contextId =
+      ext.contextId !== undefined ? createAnnotationContextId(ext.contextId) : options.contextId;
+    if (!contextId) {
+      skipped.push({ index, reason: 'No contextId for annotation' });
+      return;
+    }
+
+    const selectors = Array.isArray(ann.target.selector)
+      ? ann.target.selector
+      : [ann.target.selector];
+    const selector = selectors
+      .map((s) => v.safeParse(WebAnnotationSelectorSchema, s))
+      .find((result) => result.success)?.output;
+    if (!selector) {
+      skipped.push({ index, reason: 'No FragmentSelector or SvgSelector on target' });
+      return;
+    }
+    const shape =
+      selector.type === 'FragmentSelector'
+        ? parseFragment(selector.value)
+        : parseSvg(selector.value);
+    if (typeof shape === 'string') {
+      skipped.push({ index, reason: shape });
+      return;
+    }
+    const geometry = v.safeParse(GeometrySchema, shape);
+    if (!geometry.success) {
+      skipped.push({ index, reason: `Invalid geometry: ${geometry.issues[0].message}` });
+      return;
+    }
+
+    const bodies = ann.body === undefined ? [] : Array.isArray(ann.body) ? ann.body : [ann.body];
+    const label = bodies.find((b) => b.type === 'TextualBody' && b.value !== undefined)?.value;
+
+    const annotation = createAnnotationFromGeometry(shape, {
+      imageId,
+      contextId,
+      toolType: ext.toolType ?? geometryTypeToDefaultToolType(shape.type),
+      style: options.style,
+      id: ann.id ? createAnnotationId(ann.id) : undefined,
+      label,
+    });
+    const bucket = byImage[imageId] ?? {};
+    bucket[annotation.id] = {
+      ...annotation,
+      ...(ann.created !== undefined && { createdAt: ann.created }),
+      ...(ann.modified !== undefined && { updatedAt: ann.modified }),
+    };
+    byImage[imageId] = bucket;
+  });
+
+  return { byImage, skipped };
+}
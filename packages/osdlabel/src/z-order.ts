@@ -0,0 +1,108 @@
+import type { AnnotationId, BaseAnnotation } from '@osdlabel/annotation';
+import { area } from '@osdlabel/geometry';
+import type { AnnotationStackingOrder, ImageId } from '@osdlabel/viewer-api';
+import type { AnnotationUpdate } from './actions.js';
+
+/**
+ * A change of stacking position: to the front or back of the image's
+ * stack, or one step forward or backward past the next annotation.
+ */
+export type ZOrderMove = 'front' | 'back' | 'forward' | 'backward';
+
+/** Stacking commands produced by `mapKeyEventToActions`. */
+export type ZOrderAction = {
+  readonly type: 'REORDER_ANNOTATIONS';
+  readonly payload: {
+    readonly ids: readonly AnnotationId[];
+    readonly imageId: ImageId;
+    readonly move: ZOrderMove;
+  };
+};
+
+/**
+ * Compares annotations bottom to top: by `zIndex` (missing counts as `0`),
+ * then `createdAt`, then id, so the order is the same on every load.
+ */
+export function compareStacking(a: BaseAnnotation, b: BaseAnnotation): number {
+  return (
+    (a.zIndex ?? 0) - (b.zIndex ?? 0) ||
+    compareStrings(a.createdAt, b.createdAt) ||
+    compareStrings(a.id, b.id)
+  );
+}
+
+/**
+ * `annotations` sorted bottom to top. With `'smallestOnTop'` larger areas
+ * go below smaller ones (lines and points have none, so they end up on
+ * top); equal areas fall back to {@link compareStacking}.
+ */
+export function sortByStacking<A extends BaseAnnotation>(
+  annotations: readonly A[],
+  order: AnnotationStackingOrder = 'zIndex',
+): A[] {
+  if (order === 'zIndex') return [...annotations].sort(compareStacking);
+  const areas = new Map(annotations.map((a) => [a.id, area(a.geometry)]));
+  return [...annotations].sort(
+    (a, b) => areas.get(b.id)! - areas.get(a.id)! || compareStacking(a, b),
+  );
+}
+
+/**
+ * The `zIndex` that puts a new annotation on top of `annotations` (one
+ * image's), or `undefined` while none of them has one: unset annotations
+ * already stack newest on top by `createdAt`.
+ */
+export function getTopZIndex(
+  annotations: Readonly<Record<AnnotationId, BaseAnnotation>> | undefined,
+): number | undefined {
+  const existing = Object.values(annotations ?? {});
+  if (existing.every((a) => a.zIndex === undefined)) return undefined;
+  return Math.max(...existing.map((a) => a.zIndex ?? 0)) + 1;
+}
+
+/**
+ * The `zIndex` updates that apply `move` to `ids` among `annotations` (all
+ * of `imageId`'s). Moved annotations keep their order among themselves.
+ * Front and back only touch the moved annotations; a step renumbers the
+ * stack from `0` and touches those whose `zIndex` changes. Empty when
+ * nothing moves.
+ */
+export function getZOrderUpdates(
+  annotations: Readonly<Record<AnnotationId, BaseAnnotation>>,
+  imageId: ImageId,
+  ids: readonly AnnotationId[],
+  move: ZOrderMove,
+): AnnotationUpdate[] {
+  const stack = sortByStacking(Object.values(annotations));
+  const moving = new Set(ids.filter((id) => annotations[id]));
+  const moved = stack.filter((a) => moving.has(a.id));
+  const others = stack.filter((a) => !moving.has(a.id));
+  if (moved.length === 0) return [];
+
+  if (move === 'front' || move === 'back') {
+    const next = move === 'front' ? [...others, ...moved] : [...moved, ...others];
+    if (next.every((a, i) => a === stack[i])) return [];
+    const zIndexes = others.map((a) => a.zIndex ?? 0);
+    const base =
+      move === 'front' ? Math.max(...zIndexes) + 1 : Math.min(...zIndexes) - moved.length;
+    return moved.map((a, i) => ({ id: a.id, imageId, patch: { zIndex: base + i } }));
+  }
+
+  // Walk against the direction of travel, so a run of moved annotations
+  // steps past its neighbour together.
+  const next = move === 'forward' ? [...stack] : [...stack].reverse();
+  for (let i = next.length - 2; i >= 0; i--) {
+    if (moving.has(next[i]!.id) && !moving.has(next[i + 1]!.id)) {
+      [next[i], next[i + 1]] = [next[i + 1]!, next[i]!];
+    }
+  }
+  if (move === 'backward') next.reverse();
+  if (next.every((a, i) => a === stack[i])) return [];
+  return next.flatMap((a, i) =>
+    (a.zIndex ?? 0) === i ? [] : [{ id: a.id, imageId, patch: { zIndex: i } }],
+  );
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
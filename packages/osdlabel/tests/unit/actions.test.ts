@@ -1,8 +1,18 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { createAnnotationId } from '@osdlabel/annotation';
 import type { ToolType } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
 import type { ViewerControlId } from '@osdlabel/viewer-api';
-import { applyUIAction } from '../../src/actions.js';
-import { createInitialUIState } from '../../src/initial-state.js';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import {
+  applyAnnotationAction,
+  applyUIAction,
+  getLinkedCellIndices,
+  validateMoveToContext,
+  validateRelabel,
+} from '../../src/actions.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import { createInitialAnnotationState, createInitialUIState } from '../../src/initial-state.js';
 
 const RECTANGLE: ToolType = 'rectangle';
 const EXPOSURE: ViewerControlId = 'exposure';
@@ -55,3 +65,342 @@ describe('applyUIAction — tool / viewer-control mutual exclusivity', () => {
     expect(state.activeViewerControl).toBeNull();
   });
 });
+
+describe('applyUIAction — linked views', () => {
+  function linkedGrid() {
+    const state = createInitialUIState();
+    applyUIAction(state, { type: 'SET_GRID_DIMENSIONS', payload: { columns: 2, rows: 2 } });
+    applyUIAction(state, { type: 'SET_VIEW_LINK_MODE', payload: 'image' });
+    return state;
+  }
+
+  it('links every cell until one is toggled off', () => {
+    const state = createInitialUIState();
+    applyUIAction(state, { type: 'SET_GRID_DIMENSIONS', payload: { columns: 2, rows: 2 } });
+    expect(getLinkedCellIndices(state)).toEqual([]);
+
+    applyUIAction(state, { type: 'SET_VIEW_LINK_MODE', payload: 'relative' });
+    expect(getLinkedCellIndices(state)).toEqual([0, 1, 2, 3]);
+
+    applyUIAction(state, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex: 2 } });
+    expect(getLinkedCellIndices(state)).toEqual([0, 1, 3]);
+    applyUIAction(state, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex: 2 } });
+    expect(getLinkedCellIndices(state)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('rotates and flips the linked cells together', () => {
+    const state = linkedGrid();
+    applyUIAction(state, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex: 3 } });
+    applyUIAction(state, { type: 'ROTATE_CW', payload: { cellIndex: 1 } });
+    applyUIAction(state, { type: 'FLIP_H', payload: { cellIndex: 1 } });
+
+    for (const cellIndex of [0, 1, 2]) {
+      expect(state.cellTransforms[cellIndex]).toMatchObject({ rotation: 90, flippedH: true });
+    }
+    expect(state.cellTransforms[3]).toMatchObject({ rotation: 0, flippedH: false });
+  });
+
+  it('keeps exposure and inversion per cell', () => {
+    const state = linkedGrid();
+    applyUIAction(state, { type: 'SET_EXPOSURE', payload: { cellIndex: 1, value: 0.5 } });
+    applyUIAction(state, { type: 'ROTATE_CCW', payload: { cellIndex: 0 } });
+    expect(state.cellTransforms[1]).toMatchObject({ rotation: 270, exposure: 0.5 });
+    expect(state.cellTransforms[0]!.exposure).toBe(0);
+  });
+
+  it("aligns a cell with the active cell's orientation when it is linked or assigned", () => {
+    const state = linkedGrid();
+    applyUIAction(state, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex: 1 } });
+    applyUIAction(state, { type: 'ROTATE_CW', payload: { cellIndex: 0 } });
+    expect(state.cellTransforms[1]!.rotation).toBe(0);
+
+    applyUIAction(state, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex: 1 } });
+    expect(state.cellTransforms[1]!.rotation).toBe(90);
+
+    applyUIAction(state, {
+      type: 'ASSIGN_IMAGE_TO_CELL',
+      payload: { cellIndex: 2, imageId: createImageId('img-2') },
+    });
+    expect(state.cellTransforms[2]!.rotation).toBe(90);
+  });
+
+  it('forgets unlinked cells that leave the grid', () => {
+    const state = linkedGrid();
+    applyUIAction(state, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex: 1 } });
+    applyUIAction(state, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex: 3 } });
+    applyUIAction(state, { type: 'SET_GRID_DIMENSIONS', payload: { columns: 2, rows: 1 } });
+    expect(state.unlinkedCells).toEqual([1]);
+  });
+});
+
+describe('applyUIAction — annotation list', () => {
+  const a = createAnnotationId('a');
+  const b = createAnnotationId('b');
+
+  it('FOCUS_ANNOTATION activates the cell showing the image, or shows it in the active cell', () => {
+    const state = createInitialUIState();
+    const img1 = createImageId('img-1');
+    const img2 = createImageId('img-2');
+    applyUIAction(state, { type: 'SET_GRID_DIMENSIONS', payload: { columns: 2, rows: 1 } });
+    applyUIAction(state, {
+      type: 'ASSIGN_IMAGE_TO_CELL',
+      payload: { cellIndex: 1, imageId: img1 },
+    });
+
+    applyUIAction(state, { type: 'FOCUS_ANNOTATION', payload: { id: a, imageId: img1 } });
+    expect(state.activeCellIndex).toBe(1);
+    expect(state.selectedAnnotationIds).toEqual([a]);
+    expect(state.focusRequest).toEqual({
+      cellIndex: 1,
+      imageId: img1,
+      annotationIds: [a],
+      seq: 1,
+    });
+
+    applyUIAction(state, { type: 'FOCUS_ANNOTATION', payload: { id: b, imageId: img2 } });
+    expect(state.activeCellIndex).toBe(1);
+    expect(state.gridAssignments[1]).toBe(img2);
+    expect(state.focusRequest).toEqual({
+      cellIndex: 1,
+      imageId: img2,
+      annotationIds: [b],
+      seq: 2,
+    });
+  });
+
+  it('FIT_ALL_ANNOTATIONS asks a cell with an image to frame all of it', () => {
+    const state = createInitialUIState();
+    applyUIAction(state, { type: 'FIT_ALL_ANNOTATIONS', payload: { cellIndex: 0 } });
+    expect(state.focusRequest).toBeNull();
+
+    const imageId = createImageId('img-1');
+    applyUIAction(state, { type: 'ASSIGN_IMAGE_TO_CELL', payload: { cellIndex: 0, imageId } });
+    applyUIAction(state, { type: 'FIT_ALL_ANNOTATIONS', payload: { cellIndex: 0 } });
+    expect(state.focusRequest).toEqual({ cellIndex: 0, imageId, seq: 1 });
+  });
+});
+
+describe('batch annotation actions', () => {
+  const imageId = createImageId('img-1');
+  const otherImageId = createImageId('img-2');
+  const contextA = createAnnotationContextId('ctx-a');
+  const contextB = createAnnotationContextId('ctx-b');
+
+  function point(id: string, toolType: ToolType = 'point', contextId = contextA) {
+    return createAnnotationFromGeometry(
+      { type: 'point', position: { x: 0, y: 0 } },
+      { imageId, contextId, toolType, id: createAnnotationId(id) },
+    );
+  }
+
+  function stateWith(...ids: string[]) {
+    const state = createInitialAnnotationState();
+    for (const id of ids)
+      applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: point(id) });
+    return state;
+  }
+
+  it('UPDATE_ANNOTATIONS patches every listed annotation in one change', () => {
+    const state = stateWith('a', 'b', 'c');
+    const before = state.changeCounter;
+    applyAnnotationAction(state, {
+      type: 'UPDATE_ANNOTATIONS',
+      payload: ['a', 'b', 'missing'].map((id) => ({
+        id: createAnnotationId(id),
+        imageId,
+        patch: { label: 'Tumor' },
+      })),
+    });
+
+    const anns = state.byImage[imageId]!;
+    expect(anns[createAnnotationId('a')]?.label).toBe('Tumor');
+    expect(anns[createAnnotationId('b')]?.label).toBe('Tumor');
+    expect(anns[createAnnotationId('c')]?.label).toBeUndefined();
+    expect(state.changeCounter).toBe(before + 1);
+  });
+
+  it('ADD_ANNOTATIONS adds every annotation in one change', () => {
+    const state = stateWith('a');
+    const before = state.changeCounter;
+    applyAnnotationAction(state, {
+      type: 'ADD_ANNOTATIONS',
+      payload: [point('b'), { ...point('c'), imageId: otherImageId }],
+    });
+    expect(Object.keys(state.byImage[imageId]!)).toEqual(['a', 'b']);
+    expect(state.byImage[otherImageId]?.[createAnnotationId('c')]?.createdAt).toBeTruthy();
+    expect(state.changeCounter).toBe(before + 1);
+  });
+
+  it('DELETE_ANNOTATIONS removes every listed annotation', () => {
+    const state = stateWith('a', 'b', 'c');
+    applyAnnotationAction(state, {
+      type: 'DELETE_ANNOTATIONS',
+      payload: ['a', 'c'].map((id) => ({ id: createAnnotationId(id), imageId })),
+    });
+    expect(Object.keys(state.byImage[imageId]!)).toEqual(['b']);
+  });
+
+  it('SET_SELECTED_ANNOTATIONS replaces the selection without duplicates', () => {
+    const state = createInitialUIState();
+    const a = createAnnotationId('a');
+    const b = createAnnotationId('b');
+    applyUIAction(state, { type: 'SET_SELECTED_ANNOTATIONS', payload: [a, b, a] });
+    expect(state.selectedAnnotationIds).toEqual([a, b]);
+
+    applyUIAction(state, { type: 'SET_SELECTED_ANNOTATIONS', payload: [] });
+    expect(state.selectedAnnotationIds).toEqual([]);
+  });
+
+  describe('validateMoveToContext', () => {
+    const ids = ['a', 'b'].map((id) => createAnnotationId(id));
+
+    function contextState(maxCount?: number, imageIds = [imageId]) {
+      return {
+        activeContextId: contextA,
+        contexts: [
+          { id: contextA, label: 'A', tools: [{ type: 'point' as const }] },
+          { id: contextB, label: 'B', imageIds, tools: [{ type: 'point' as const, maxCount }] },
+        ],
+      };
+    }
+
+    it('accepts a move within the target context limits', () => {
+      expect(
+        validateMoveToContext(ids, imageId, contextB, contextState(2), stateWith('a', 'b')),
+      ).toBe(true);
+    });
+
+    it('rejects unknown, unscoped and over-full contexts', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const state = stateWith('a', 'b');
+      expect(
+        validateMoveToContext(
+          ids,
+          imageId,
+          createAnnotationContextId('nope'),
+          contextState(),
+          state,
+        ),
+      ).toBe(false);
+      expect(
+        validateMoveToContext(
+          ids,
+          imageId,
+          contextB,
+          contextState(undefined, [otherImageId]),
+          state,
+        ),
+      ).toBe(false);
+      expect(validateMoveToContext(ids, imageId, contextB, contextState(1), state)).toBe(false);
+      warn.mockRestore();
+    });
+
+    it('rejects tool types the target context does not allow', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const state = createInitialAnnotationState();
+      applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: point('a', 'line') });
+      expect(validateMoveToContext(ids, imageId, contextB, contextState(), state)).toBe(false);
+      warn.mockRestore();
+    });
+
+    it("rejects moves that overflow a label's maxCount", () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const state = createInitialAnnotationState();
+      for (const id of ['a', 'b']) {
+        applyAnnotationAction(state, {
+          type: 'ADD_ANNOTATION',
+          payload: { ...point(id), label: 'tumor' },
+        });
+      }
+      const labelled = (maxCount: number) => ({
+        ...contextState(),
+        contexts: [
+          ...contextState().contexts.slice(0, 1),
+          {
+            id: contextB,
+            label: 'B',
+            tools: [{ type: 'point' as const }],
+            labels: [{ id: 'tumor', name: 'Tumor', maxCount }],
+          },
+        ],
+      });
+      expect(validateMoveToContext(ids, imageId, contextB, labelled(2), state)).toBe(true);
+      expect(validateMoveToContext(ids, imageId, contextB, labelled(1), state)).toBe(false);
+      warn.mockRestore();
+    });
+  });
+
+  describe('validateRelabel', () => {
+    const ids = ['a', 'b'].map((id) => createAnnotationId(id));
+
+    function contextState(label: { maxCount?: number; tools?: ToolType[] }) {
+      return {
+        activeContextId: contextA,
+        contexts: [
+          {
+            id: contextA,
+            label: 'A',
+            tools: [{ type: 'point' as const }],
+            labels: [{ id: 'tumor', name: 'Tumor', ...label }],
+          },
+        ],
+      };
+    }
+
+    function labelledState() {
+      const state = stateWith('a', 'b');
+      applyAnnotationAction(state, {
+        type: 'ADD_ANNOTATION',
+        payload: { ...point('c'), label: 'tumor' },
+      });
+      return state;
+    }
+
+    it("accepts a relabel within the label's maxCount, not counting annotations it already has", () => {
+      const state = labelledState();
+      expect(validateRelabel(ids, imageId, 'tumor', contextState({ maxCount: 3 }), state)).toBe(
+        true,
+      );
+      const withC = [...ids, createAnnotationId('c')];
+      expect(validateRelabel(withC, imageId, 'tumor', contextState({ maxCount: 3 }), state)).toBe(
+        true,
+      );
+      expect(validateRelabel(ids, imageId, 'other', contextState({ maxCount: 0 }), state)).toBe(
+        true,
+      );
+      expect(validateRelabel(ids, imageId, undefined, contextState({ maxCount: 0 }), state)).toBe(
+        true,
+      );
+    });
+
+    it("rejects relabels that overflow the label's maxCount or use a tool it does not allow", () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const state = labelledState();
+      expect(validateRelabel(ids, imageId, 'tumor', contextState({ maxCount: 2 }), state)).toBe(
+        false,
+      );
+      expect(validateRelabel(ids, imageId, 'tumor', contextState({ tools: ['line'] }), state)).toBe(
+        false,
+      );
+      warn.mockRestore();
+    });
+  });
+
+  it('SET_ACTIVE_LABEL sets and clears the active label', () => {
+    const state = createInitialUIState();
+    expect(state.activeLabel).toBeNull();
+    applyUIAction(state, { type: 'SET_ACTIVE_LABEL', payload: 'tumor' });
+    expect(state.activeLabel).toBe('tumor');
+    applyUIAction(state, { type: 'SET_ACTIVE_LABEL', payload: null });
+    expect(state.activeLabel).toBeNull();
+  });
+
+  it('SET_IMAGE_SIZE records the pixel size of an image', () => {
+    const state = createInitialUIState();
+    applyUIAction(state, {
+      type: 'SET_IMAGE_SIZE',
+      payload: { imageId, size: { width: 800, height: 600 } },
+    });
+    expect(state.imageSizes).toEqual({ [imageId]: { width: 800, height: 600 } });
+  });
+});
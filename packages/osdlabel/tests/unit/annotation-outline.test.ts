@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { Geometry } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext } from '@osdlabel/annotation-context';
+import { buildAnnotationOutline, getAnnotationDisplayName } from '../../src/annotation-outline.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import type { OsdAnnotation } from '../../src/types.js';
+import { stateOf } from './test-helpers.js';
+
+const img1 = createImageId('img-1');
+const img2 = createImageId('img-2');
+const ctxA = createAnnotationContextId('ctx-a');
+const ctxB = createAnnotationContextId('ctx-b');
+const contexts: AnnotationContext[] = [
+  {
+    id: ctxA,
+    label: 'Cells',
+    tools: [{ type: 'rectangle' }],
+    labels: [
+      { id: 'tumor', name: 'Tumor' },
+      { id: 'stroma', name: 'Stroma' },
+    ],
+  },
+  { id: ctxB, label: 'Notes', tools: [{ type: 'point' }] },
+];
+
+const point: Geometry = { type: 'point', position: { x: 0, y: 0 } };
+
+let clock = 0;
+function annotation(
+  imageId = img1,
+  contextId = ctxA,
+  label?: string,
+  toolType: 'rectangle' | 'point' = 'rectangle',
+): OsdAnnotation {
+  const createdAt = new Date(Date.UTC(2026, 0, 1, 0, 0, clock++)).toISOString();
+  return {
+    ...createAnnotationFromGeometry(point, { imageId, contextId, toolType }),
+    ...(label !== undefined ? { label } : {}),
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe('getAnnotationDisplayName', () => {
+  it('prefers the label name, then the label id, then the tool type', () => {
+    expect(getAnnotationDisplayName(annotation(img1, ctxA, 'tumor'), contexts)).toBe('Tumor');
+    expect(getAnnotationDisplayName(annotation(img1, ctxA, 'other'), contexts)).toBe('other');
+    expect(getAnnotationDisplayName(annotation(), contexts)).toBe('rectangle');
+  });
+});
+
+describe('buildAnnotationOutline', () => {
+  it('groups by image, context and label in definition order', () => {
+    const unlabelled = annotation();
+    const stroma = annotation(img1, ctxA, 'stroma');
+    const tumorLater = annotation(img1, ctxA, 'tumor');
+    const custom = annotation(img1, ctxA, 'custom');
+    const note = annotation(img1, ctxB, undefined, 'point');
+    const other = annotation(img2, ctxA, 'tumor');
+    const tumorFirst = {
+      ...annotation(img1, ctxA, 'tumor'),
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+    const state = stateOf(note, unlabelled, stroma, tumorLater, custom, other, tumorFirst);
+
+    const outline = buildAnnotationOutline(state, contexts);
+    expect(outline.map((image) => image.imageId)).toEqual([img1, img2]);
+    const [cells, notes] = outline[0]!.contexts;
+    expect(cells!.name).toBe('Cells');
+    expect(cells!.labels.map((l) => l.name)).toEqual(['Tumor', 'Stroma', 'custom', 'Unlabelled']);
+    expect(cells!.labels[0]!.annotations.map((a) => a.id)).toEqual([tumorFirst.id, tumorLater.id]);
+    expect(notes!.labels.map((l) => l.label)).toEqual([undefined]);
+  });
+
+  it('keeps matching annotations only and drops empty groups', () => {
+    const tumor = annotation(img1, ctxA, 'tumor');
+    const note = annotation(img2, ctxB, undefined, 'point');
+    const state = stateOf(tumor, note);
+
+    const byName = buildAnnotationOutline(state, contexts, ' TUM ');
+    expect(byName).toHaveLength(1);
+    expect(byName[0]!.contexts).toHaveLength(1);
+    expect(byName[0]!.contexts[0]!.labels[0]!.annotations).toEqual([tumor]);
+
+    expect(buildAnnotationOutline(state, contexts, 'point')[0]!.imageId).toBe(img2);
+    expect(buildAnnotationOutline(state, contexts, note.id)).toHaveLength(1);
+    expect(buildAnnotationOutline(state, contexts, 'nothing')).toEqual([]);
+  });
+});
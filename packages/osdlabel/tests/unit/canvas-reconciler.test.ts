@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AnnotationStyle, Geometry } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext } from '@osdlabel/annotation-context';
+import type { Canvas, FabricObject } from 'fabric';
+import { CanvasReconciler } from '../../src/canvas-reconciler.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import type { OsdAnnotation } from '../../src/types.js';
+
+// Plain objects stand in for Fabric ones; each records how it was built.
+vi.mock('@osdlabel/fabric-annotations', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@osdlabel/fabric-annotations')>()),
+  createFabricObjectFromAnnotation: async (annotation: OsdAnnotation, style: AnnotationStyle) =>
+    createFakeObject(annotation.id, style),
+  applyAnnotationStyle: (obj: FakeObject, style: AnnotationStyle) => {
+    obj.style = style;
+  },
+}));
+
+interface FakeObject {
+  id: string;
+  style: AnnotationStyle;
+  _readOnly?: boolean;
+  selectable?: boolean;
+  evented?: boolean;
+  set(options: Partial<FakeObject>): void;
+}
+
+function createFakeObject(id: string, style: AnnotationStyle): FakeObject {
+  return {
+    id,
+    style,
+    set(options) {
+      Object.assign(this, options);
+    },
+  };
+}
+
+function createCanvas() {
+  const objects: FakeObject[] = [];
+  let active: FakeObject[] = [];
+  const canvas = {
+    getObjects: () => [...objects],
+    add: (...objs: FakeObject[]) => objects.push(...objs),
+    insertAt: (index: number, ...objs: FakeObject[]) => objects.splice(index, 0, ...objs),
+    moveObjectTo: (obj: FakeObject, index: number) => {
+      objects.splice(objects.indexOf(obj), 1);
+      objects.splice(index, 0, obj);
+    },
+    remove: (...objs: FakeObject[]) => {
+      for (const obj of objs) {
+        const index = objects.indexOf(obj);
+        if (index !== -1) objects.splice(index, 1);
+      }
+      active = active.filter((obj) => !objs.includes(obj));
+    },
+    getActiveObjects: () => active,
+    setActiveObject: (obj: FakeObject) => {
+      active = [obj];
+    },
+    discardActiveObject: () => {
+      active = [];
+    },
+    requestRenderAll: vi.fn(),
+  };
+  return { canvas: canvas as unknown as Canvas, objects };
+}
+
+const imageId = createImageId('img-1');
+const ctxA = createAnnotationContextId('ctx-a');
+const ctxB = createAnnotationContextId('ctx-b');
+const contexts: AnnotationContext[] = [
+  { id: ctxA, label: 'A', tools: [{ type: 'rectangle' }] },
+  { id: ctxB, label: 'B', tools: [{ type: 'rectangle' }] },
+];
+
+let clock = 0;
+function rect(x: number, contextId = ctxA): OsdAnnotation {
+  const geometry: Geometry = {
+    type: 'rectangle',
+    origin: { x, y: 0 },
+    width: 10,
+    height: 10,
+    rotation: 0,
+  };
+  // Later annotations stack above earlier ones.
+  const createdAt = new Date(Date.UTC(2026, 0, 1, 0, 0, clock++)).toISOString();
+  return {
+    ...createAnnotationFromGeometry(geometry, { imageId, contextId, toolType: 'rectangle' }),
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe('CanvasReconciler', () => {
+  it('adds, keeps, rebuilds and removes by id and annotation identity', async () => {
+    const { canvas, objects } = createCanvas();
+    const reconciler = new CanvasReconciler(canvas);
+    const a = rect(0);
+    const b = rect(20);
+    const c = rect(40);
+
+    await reconciler.reconcile({ annotations: [a, b, c], contexts, activeContextId: ctxA });
+    expect(objects.map((o) => o.id)).toEqual([a.id, b.id, c.id]);
+    const [objA, objB] = objects;
+
+    // Edited within the same millisecond: only the object tells it apart.
+    const editedB = { ...b };
+    await reconciler.reconcile({ annotations: [a, editedB], contexts, activeContextId: ctxA });
+    expect(objects.map((o) => o.id)).toEqual([a.id, b.id]);
+    expect(objects[0]).toBe(objA);
+    // Rebuilt, in the same stacking position.
+    expect(objects[1]).not.toBe(objB);
+    expect(reconciler.size).toBe(2);
+  });
+
+  it('patches style and interactivity without rebuilding', async () => {
+    const { canvas, objects } = createCanvas();
+    const reconciler = new CanvasReconciler(canvas);
+    const a = rect(0);
+    await reconciler.reconcile({ annotations: [a], contexts, activeContextId: ctxA });
+    const obj = objects[0]!;
+    expect(obj.selectable).toBe(true);
+
+    const restyled = contexts.map((c) => ({
+      ...c,
+      tools: [{ type: 'rectangle' as const, defaultStyle: { strokeColor: '#ff00ff' } }],
+    }));
+    await reconciler.reconcile({ annotations: [a], contexts: restyled, activeContextId: ctxB });
+    expect(objects[0]).toBe(obj);
+    expect(obj.style.strokeColor).toBe('#ff00ff');
+    expect(obj._readOnly).toBe(true);
+    expect(obj.selectable).toBe(false);
+  });
+
+  it('makes locked annotations read-only', async () => {
+    const { canvas, objects } = createCanvas();
+    const reconciler = new CanvasReconciler(canvas);
+    const a = { ...rect(0), locked: true };
+    const b = rect(20);
+    await reconciler.reconcile({ annotations: [a, b], contexts, activeContextId: ctxA });
+    const flags = (id: string) => {
+      const obj = objects.find((o) => o.id === id)!;
+      return [obj._readOnly, obj.selectable, obj.evented];
+    };
+    expect(flags(a.id)).toEqual([true, false, false]);
+    expect(flags(b.id)).toEqual([false, true, true]);
+  });
+
+  it('stacks by zIndex or smallest on top, leaving other objects in place', async () => {
+    const { canvas, objects } = createCanvas();
+    const reconciler = new CanvasReconciler(canvas);
+    const small = rect(0);
+    const large = { ...rect(20), geometry: { ...rect(20).geometry, width: 100 }, zIndex: 1 };
+    const preview = createFakeObject('', {} as AnnotationStyle);
+    canvas.add(preview as unknown as FabricObject);
+    const input = { annotations: [large, small], contexts, activeContextId: ctxA };
+
+    await reconciler.reconcile(input);
+    expect(objects.map((o) => o.id)).toEqual(['', small.id, large.id]);
+
+    await reconciler.reconcile({ ...input, stackingOrder: 'smallestOnTop' });
+    expect(objects.map((o) => o.id)).toEqual(['', large.id, small.id]);
+
+    const raised = { ...small, zIndex: 2 };
+    await reconciler.reconcile({ ...input, annotations: [large, raised] });
+    expect(objects.map((o) => o.id)).toEqual(['', large.id, small.id]);
+    const lowered = { ...small, zIndex: -1 };
+    await reconciler.reconcile({ ...input, annotations: [large, lowered] });
+    expect(objects.map((o) => o.id)).toEqual(['', small.id, large.id]);
+  });
+
+  it('replaces an object a tool drew and keeps it selected', async () => {
+    const { canvas, objects } = createCanvas();
+    const reconciler = new CanvasReconciler(canvas);
+    const a = rect(0);
+    const drawn = createFakeObject(a.id, {} as AnnotationStyle);
+    canvas.add(drawn as unknown as FabricObject);
+    const stray = createFakeObject('gone', {} as AnnotationStyle);
+    canvas.add(stray as unknown as FabricObject);
+    canvas.setActiveObject(drawn as unknown as FabricObject);
+
+    await reconciler.reconcile({ annotations: [a], contexts, activeContextId: ctxA });
+    expect(objects).toHaveLength(1);
+    expect(objects[0]).not.toBe(drawn);
+    expect(canvas.getActiveObjects()).toEqual([objects[0]]);
+  });
+
+  it('leaves the objects of a superseded call to the next one', async () => {
+    const { canvas, objects } = createCanvas();
+    const reconciler = new CanvasReconciler(canvas);
+    const a = rect(0);
+    const b = rect(20);
+    const first = reconciler.reconcile({ annotations: [a], contexts, activeContextId: ctxA });
+    const second = reconciler.reconcile({ annotations: [b], contexts, activeContextId: ctxA });
+    expect(await first).toBe(false);
+    expect(await second).toBe(true);
+    expect(objects.map((o) => o.id)).toEqual([b.id]);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAnnotationId } from '@osdlabel/annotation';
+import type { Geometry } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext, ContextState } from '@osdlabel/annotation-context';
+import { initFabricModule } from '@osdlabel/fabric-annotations';
+import { applyAnnotationAction } from '../../src/actions.js';
+import {
+  DEFAULT_PASTE_OFFSET,
+  copyAnnotations,
+  prepareClipboardPaste,
+} from '../../src/clipboard.js';
+import { computeConstraintStatus } from '../../src/constraints.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import { createInitialAnnotationState } from '../../src/initial-state.js';
+import {
+  DEFAULT_KEYBOARD_SHORTCUTS,
+  isEditableTarget,
+  mapKeyEventToActions,
+} from '../../src/keyboard.js';
+import type { KeyboardMappingState } from '../../src/keyboard.js';
+
+initFabricModule();
+
+const img1 = createImageId('img-1');
+const img2 = createImageId('img-2');
+const contextId = createAnnotationContextId('ctx-1');
+
+function contextState(
+  context: Partial<Omit<AnnotationContext, 'id' | 'label'>> = {},
+): ContextState {
+  return {
+    contexts: [{ id: contextId, label: 'Context', tools: [{ type: 'rectangle' }], ...context }],
+    activeContextId: contextId,
+    displayedContextIds: [contextId],
+  };
+}
+
+function rect(x: number, y: number, size: number) {
+  const geometry: Geometry = {
+    type: 'rectangle',
+    origin: { x, y },
+    width: size,
+    height: size,
+    rotation: 0,
+  };
+  return createAnnotationFromGeometry(geometry, {
+    imageId: img1,
+    contextId,
+    toolType: 'rectangle',
+    style: {
+      strokeColor: '#00ff00',
+      strokeWidth: 3,
+      fillColor: '#00ff00',
+      fillOpacity: 0.2,
+      opacity: 1,
+    },
+  });
+}
+
+function environment(...existing: ReturnType<typeof rect>[]) {
+  const annotationState = createInitialAnnotationState();
+  for (const ann of existing) {
+    applyAnnotationAction(annotationState, { type: 'ADD_ANNOTATION', payload: ann });
+  }
+  return {
+    annotationState,
+    imageSizes: {
+      [img1]: { width: 1000, height: 1000 },
+      [img2]: { width: 500, height: 800 },
+    },
+  };
+}
+
+describe('copyAnnotations', () => {
+  it('copies existing annotations in selection order', () => {
+    const a = rect(0, 0, 10);
+    const b = rect(20, 0, 10);
+    const { annotationState } = environment(a, b);
+    const missing = rect(0, 0, 1).id;
+
+    expect(copyAnnotations(annotationState, img1, [b.id, missing, a.id])).toEqual({
+      sourceImageId: img1,
+      annotations: [annotationState.byImage[img1]![b.id], annotationState.byImage[img1]![a.id]],
+    });
+    expect(copyAnnotations(annotationState, img1, [missing])).toBeNull();
+  });
+});
+
+describe('prepareClipboardPaste', () => {
+  it('offsets pastes onto the source image and re-serializes their Fabric data', () => {
+    const a = rect(100, 100, 50);
+    const env = environment(a);
+    const clipboard = copyAnnotations(env.annotationState, img1, [a.id])!;
+
+    const { annotations, rejected } = prepareClipboardPaste(clipboard, img1, contextState(), env);
+    expect(rejected).toEqual([]);
+    const [pasted] = annotations;
+    expect(pasted!.id).not.toBe(a.id);
+    expect(pasted!.geometry).toMatchObject({
+      origin: { x: 100 + DEFAULT_PASTE_OFFSET.x, y: 100 + DEFAULT_PASTE_OFFSET.y },
+    });
+    expect(pasted!.rawAnnotationData!.data).toMatchObject({
+      id: pasted!.id,
+      left: 110,
+      top: 110,
+      stroke: '#00ff00',
+      strokeWidth: 3,
+    });
+  });
+
+  it('pastes locked, hidden and reordered annotations as unlocked, shown copies on top', () => {
+    const a = { ...rect(100, 100, 50), locked: true, hidden: true, zIndex: -2 };
+    const env = environment(a);
+    const clipboard = copyAnnotations(env.annotationState, img1, [a.id])!;
+
+    const [pasted] = prepareClipboardPaste(clipboard, img1, contextState(), env).annotations;
+    expect(pasted).not.toHaveProperty('locked');
+    expect(pasted).not.toHaveProperty('hidden');
+    expect(pasted).not.toHaveProperty('zIndex');
+  });
+
+  it('pastes onto another image in place, or scaled to its size', () => {
+    const a = rect(100, 100, 50);
+    const env = environment(a);
+    const clipboard = copyAnnotations(env.annotationState, img1, [a.id])!;
+
+    const [inPlace] = prepareClipboardPaste(clipboard, img2, contextState(), env).annotations;
+    expect(inPlace).toMatchObject({ imageId: img2, geometry: a.geometry });
+
+    const [scaled] = prepareClipboardPaste(clipboard, img2, contextState(), env, {
+      scaleToImage: true,
+      offset: { x: 5, y: 0 },
+    }).annotations;
+    expect(scaled!.geometry).toMatchObject({ origin: { x: 55, y: 50 }, width: 25, height: 25 });
+  });
+
+  it('leaves out annotations their context is not scoped to or has no room for', () => {
+    const a = rect(0, 0, 10);
+    const b = rect(20, 0, 10);
+    const env = environment(a, b);
+    const clipboard = copyAnnotations(env.annotationState, img1, [a.id, b.id])!;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const scoped = prepareClipboardPaste(clipboard, img2, contextState({ imageIds: [img1] }), env);
+    expect(scoped).toEqual({ annotations: [], rejected: [a.id, b.id] });
+    warn.mockRestore();
+
+    // Three of four allowed rectangles: the second paste no longer fits.
+    const limited = prepareClipboardPaste(
+      clipboard,
+      img1,
+      contextState({ tools: [{ type: 'rectangle', maxCount: 3 }] }),
+      env,
+    );
+    expect(limited.annotations).toHaveLength(1);
+    expect(limited.rejected).toEqual([b.id]);
+  });
+
+  it('checks geometry rules against the earlier pastes', () => {
+    const a = rect(0, 0, 10);
+    const b = rect(5, 5, 10);
+    const env = { ...environment(a, b), onViolation: vi.fn() };
+    const clipboard = copyAnnotations(env.annotationState, img1, [a.id, b.id])!;
+    const cs = contextState({
+      tools: [{ type: 'rectangle', geometryRules: { noOverlapWithSameLabel: true } }],
+    });
+
+    // On an empty image the first paste is fine; the second overlaps it.
+    const { rejected } = prepareClipboardPaste(clipboard, img2, cs, env);
+    expect(rejected).toEqual([b.id]);
+    expect(env.onViolation).toHaveBeenCalledOnce();
+  });
+
+  it('counts pasted annotations in the constraint status', () => {
+    const a = rect(0, 0, 10);
+    const env = environment(a);
+    const clipboard = copyAnnotations(env.annotationState, img1, [a.id])!;
+    const cs = contextState({ tools: [{ type: 'rectangle', maxCount: 2 }] });
+    const { annotations } = prepareClipboardPaste(clipboard, img1, cs, env);
+    for (const ann of annotations) {
+      applyAnnotationAction(env.annotationState, { type: 'ADD_ANNOTATION', payload: ann });
+    }
+    expect(computeConstraintStatus(cs, env.annotationState, img1).rectangle.enabled).toBe(false);
+  });
+});
+
+describe('clipboard shortcuts', () => {
+  const keyboardState = {
+    activeTool: null,
+    activeCellIndex: 0,
+    gridColumns: 1,
+    gridRows: 1,
+    selectedAnnotationIds: [],
+    activeImageId: img1,
+  };
+  const status = computeConstraintStatus(contextState(), createInitialAnnotationState(), img1);
+  const selected = {
+    ...keyboardState,
+    selectedAnnotationIds: [createAnnotationId('ann-1')],
+    hasClipboard: true,
+  };
+  const map = (key: string, shiftKey = false, state: KeyboardMappingState = selected) =>
+    mapKeyEventToActions(key, shiftKey, DEFAULT_KEYBOARD_SHORTCUTS, state, status, true);
+
+  it('maps Ctrl+C, Ctrl+X, Ctrl+V and Ctrl+D', () => {
+    expect(map('c')).toEqual([{ type: 'COPY' }]);
+    expect(map('x')).toEqual([{ type: 'CUT' }]);
+    expect(map('V')).toEqual([{ type: 'PASTE' }]);
+    expect(map('d')).toEqual([{ type: 'DUPLICATE' }]);
+  });
+
+  it('leaves them to the browser with no selection or an empty clipboard', () => {
+    for (const key of ['c', 'x', 'v', 'd']) {
+      expect(map(key, false, keyboardState)).toEqual([]);
+    }
+    expect(map('v', false, { ...selected, hasClipboard: false })).toEqual([]);
+  });
+
+  it('treats text fields as editable targets', () => {
+    const element = (tagName: string, isContentEditable = false) =>
+      ({ tagName, isContentEditable }) as unknown as EventTarget;
+    expect(isEditableTarget(element('INPUT'))).toBe(true);
+    expect(isEditableTarget(element('TEXTAREA'))).toBe(true);
+    expect(isEditableTarget(element('SELECT'))).toBe(true);
+    expect(isEditableTarget(element('DIV', true))).toBe(true);
+    expect(isEditableTarget(element('DIV'))).toBe(false);
+    expect(isEditableTarget(null)).toBe(false);
+  });
+
+  it('ignores them with Shift', () => {
+    expect(map('c', true)).toEqual([]);
+  });
+});
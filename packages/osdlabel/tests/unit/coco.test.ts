@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { createAnnotationId } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext } from '@osdlabel/annotation-context';
+import { deserializeCoco, serializeCoco } from '../../src/coco.js';
+import { SerializationError } from '../../src/serialization-configured.js';
+import { annotationFactory, stateOf } from './test-helpers.js';
+
+const imageA = createImageId('a.png');
+const contextId = createAnnotationContextId('ctx-1');
+const context: AnnotationContext = { id: contextId, label: 'Cells', tools: [] };
+const labelledContext: AnnotationContext = {
+  ...context,
+  labels: [{ id: 'nuc', name: 'Nucleus' }],
+};
+
+const make = annotationFactory(imageA, contextId);
+
+describe('serializeCoco', () => {
+  it('maps images, label categories, bbox and segmentation', () => {
+    const rect = make(
+      'r1',
+      { type: 'rectangle', origin: { x: 10, y: 20 }, width: 30, height: 40, rotation: 0 },
+      'rectangle',
+      'Nucleus',
+    );
+    const dataset = serializeCoco(stateOf(rect), {
+      images: [{ id: imageA, width: 800, height: 600 }],
+      contexts: [context],
+    });
+
+    expect(dataset.images).toEqual([{ id: 1, file_name: 'a.png', width: 800, height: 600 }]);
+    expect(dataset.categories).toEqual([{ id: 1, name: 'Nucleus', supercategory: 'Cells' }]);
+    const [ann] = dataset.annotations;
+    expect(ann).toMatchObject({ id: 1, image_id: 1, category_id: 1, iscrowd: 0, area: 1200 });
+    expect(ann!.bbox).toEqual([10, 20, 30, 40]);
+    expect(ann!.segmentation).toEqual([[10, 20, 40, 20, 40, 60, 10, 60]]);
+  });
+
+  it('uses the rotated corners of a rectangle for segmentation and bbox', () => {
+    const rect = make(
+      'r1',
+      { type: 'rectangle', origin: { x: 0, y: 0 }, width: 10, height: 10, rotation: 90 },
+      'rectangle',
+    );
+    const [ann] = serializeCoco(stateOf(rect)).annotations;
+    const xs = ann!.segmentation[0]!.filter((_, i) => i % 2 === 0);
+    expect(Math.min(...xs)).toBeCloseTo(-10);
+    expect(ann!.bbox[0]).toBeCloseTo(-10);
+  });
+
+  it('polygonises circles and writes open shapes as keypoints', () => {
+    const circle = make('c1', { type: 'circle', center: { x: 50, y: 50 }, radius: 20 }, 'circle');
+    const line = make('l1', { type: 'line', start: { x: 0, y: 0 }, end: { x: 5, y: 5 } }, 'line');
+    const [c, l] = serializeCoco(stateOf(circle, line), { tolerance: 0.1 }).annotations;
+
+    expect(c!.segmentation[0]!.length).toBeGreaterThanOrEqual(16);
+    expect(l!.segmentation).toEqual([]);
+    expect(l!.keypoints).toEqual([0, 0, 2, 5, 5, 2]);
+    expect(l!.num_keypoints).toBe(2);
+  });
+
+  it('names categories after the label definitions', () => {
+    const point = make('p1', { type: 'point', position: { x: 1, y: 2 } }, 'point', 'nuc');
+    const dataset = serializeCoco(stateOf(point), { contexts: [labelledContext] });
+    expect(dataset.categories).toEqual([{ id: 1, name: 'Nucleus', supercategory: 'Cells' }]);
+  });
+
+  it('omits the source extension when asked', () => {
+    const point = make('p1', { type: 'point', position: { x: 1, y: 2 } }, 'point');
+    const [ann] = serializeCoco(stateOf(point), { includeSourceGeometry: false }).annotations;
+    expect(ann!.osdlabel).toBeUndefined();
+  });
+});
+
+describe('deserializeCoco', () => {
+  it('round-trips exact geometry and ids via the osdlabel extension', () => {
+    const circle = make(
+      'c1',
+      { type: 'circle', center: { x: 50, y: 50 }, radius: 20 },
+      'circle',
+      'Nucleus',
+    );
+    const dataset = JSON.parse(JSON.stringify(serializeCoco(stateOf(circle)))) as unknown;
+    const result = deserializeCoco(dataset, { contexts: [context] });
+
+    const restored = result.byImage[imageA]?.[createAnnotationId('c1')];
+    expect(restored?.geometry).toEqual(circle.geometry);
+    expect(restored?.toolType).toBe('circle');
+    expect(restored?.label).toBe('Nucleus');
+    expect(restored?.contextId).toBe(contextId);
+    expect(restored?.rawAnnotationData?.data['type']).toBe('Circle');
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('maps category names back to label ids', () => {
+    const point = make('p1', { type: 'point', position: { x: 1, y: 2 } }, 'point', 'nuc');
+    const options = { contexts: [labelledContext] };
+    const dataset = JSON.parse(JSON.stringify(serializeCoco(stateOf(point), options))) as unknown;
+    const result = deserializeCoco(dataset, options);
+    expect(result.byImage[imageA]?.[createAnnotationId('p1')]?.label).toBe('nuc');
+  });
+
+  it('keeps a label named like its context apart from unlabelled annotations', () => {
+    const options = {
+      contexts: [{ ...context, labels: [{ id: 'cells', name: 'Cells' }] }],
+    };
+    const labelled = make('p1', { type: 'point', position: { x: 1, y: 2 } }, 'point', 'cells');
+    const plain = make('p2', { type: 'point', position: { x: 3, y: 4 } }, 'point');
+    const roundTrip = (includeSourceGeometry: boolean) => {
+      const dataset = serializeCoco(stateOf(labelled, plain), {
+        ...options,
+        includeSourceGeometry,
+      });
+      const result = deserializeCoco(JSON.parse(JSON.stringify(dataset)) as unknown, options);
+      return Object.values(result.byImage[imageA] ?? {}).map((ann) => ann.label);
+    };
+
+    expect(roundTrip(true)).toEqual(['cells', undefined]);
+    // Plain COCO cannot tell them apart; the defined label wins.
+    expect(roundTrip(false)).toEqual(['cells', 'cells']);
+  });
+
+  it('derives geometry from plain COCO data', () => {
+    const result = deserializeCoco(
+      {
+        images: [{ id: 7, file_name: 'slide.tif', width: 100, height: 100 }],
+        categories: [
+          { id: 1, name: 'tumor', supercategory: 'Cells' },
+          { id: 2, name: 'other' },
+        ],
+        annotations: [
+          {
+            id: 1,
+            image_id: 7,
+            category_id: 1,
+            bbox: [0, 0, 4, 4],
+            segmentation: [[0, 0, 4, 0, 4, 4]],
+          },
+          { id: 2, image_id: 7, category_id: 2, bbox: [1, 2, 3, 4] },
+          { id: 3, image_id: 7, category_id: 2, bbox: [0, 0, 0, 0], keypoints: [3, 4, 2] },
+          {
+            id: 4,
+            image_id: 7,
+            category_id: 2,
+            bbox: [0, 0, 1, 1],
+            iscrowd: 1,
+            segmentation: { counts: [1] },
+          },
+        ],
+      },
+      { contexts: [context] },
+    );
+
+    const anns = Object.values(result.byImage[createImageId('slide.tif')] ?? {});
+    expect(anns.map((a) => a.geometry.type)).toEqual(['polygon', 'rectangle', 'point']);
+    expect(anns[0]!.contextId).toBe(contextId);
+    expect(anns[0]!.label).toBe('tumor');
+    expect(anns[1]!.contextId).toBe(createAnnotationContextId('other'));
+    expect(anns[1]!.label).toBeUndefined();
+    expect(result.skipped).toEqual([{ id: 4, reason: expect.stringContaining('RLE') }]);
+  });
+
+  it('rejects datasets that fail validation', () => {
+    expect(() => deserializeCoco({ images: [] })).toThrow(SerializationError);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { ToolType } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import type { ImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext, ContextState } from '@osdlabel/annotation-context';
+import { applyAnnotationAction } from '../../src/actions.js';
+import { computeCompletionStatus } from '../../src/constraints.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import { createInitialAnnotationState } from '../../src/initial-state.js';
+
+const img1 = createImageId('img-1');
+const img2 = createImageId('img-2');
+const contextId = createAnnotationContextId('ctx-1');
+
+function contextState(context: Omit<AnnotationContext, 'id' | 'label'>): ContextState {
+  return {
+    contexts: [{ id: contextId, label: 'Context', ...context }],
+    activeContextId: contextId,
+    displayedContextIds: [contextId],
+  };
+}
+
+function stateWith(...points: { imageId: ImageId; toolType?: ToolType; label?: string }[]) {
+  const state = createInitialAnnotationState();
+  for (const { imageId, toolType = 'point', label } of points) {
+    const ann = createAnnotationFromGeometry(
+      { type: 'point', position: { x: 0, y: 0 } },
+      { imageId, contextId, toolType, ...(label !== undefined ? { label } : {}) },
+    );
+    applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: ann });
+  }
+  return state;
+}
+
+describe('computeCompletionStatus', () => {
+  it('is complete with no requirements', () => {
+    const status = computeCompletionStatus(
+      contextState({ tools: [{ type: 'point', maxCount: 2 }] }),
+      stateWith(),
+      [img1],
+    );
+    expect(status).toEqual({
+      complete: true,
+      hasRequirements: false,
+      byImage: { [img1]: { complete: true, unmet: [] } },
+      global: { complete: true, unmet: [] },
+    });
+  });
+
+  it('checks per-image requirements on each image', () => {
+    const cs = contextState({ tools: [{ type: 'point', minCount: 2, countScope: 'per-image' }] });
+    const status = computeCompletionStatus(
+      cs,
+      stateWith({ imageId: img1 }, { imageId: img1 }, { imageId: img2 }),
+      [img1, img2],
+    );
+    expect(status.complete).toBe(false);
+    expect(status.byImage[img1]).toEqual({ complete: true, unmet: [] });
+    expect(status.byImage[img2]?.unmet).toEqual([
+      { contextId, kind: 'tool', id: 'point', currentCount: 1, minCount: 2 },
+    ]);
+    expect(status.global.complete).toBe(true);
+  });
+
+  it('counts global requirements across images', () => {
+    const cs = contextState({ tools: [{ type: 'point', required: true }] });
+    expect(computeCompletionStatus(cs, stateWith(), [img1, img2]).global.unmet).toEqual([
+      { contextId, kind: 'tool', id: 'point', currentCount: 0, minCount: 1 },
+    ]);
+    const done = computeCompletionStatus(cs, stateWith({ imageId: img2 }), [img1]);
+    expect(done.complete).toBe(true);
+    expect(done.hasRequirements).toBe(true);
+  });
+
+  it('checks label requirements whichever tool drew them', () => {
+    const cs = contextState({
+      tools: [{ type: 'point' }, { type: 'line' }],
+      labels: [{ id: 'tumor', name: 'Tumor', minCount: 2 }],
+    });
+    const status = computeCompletionStatus(
+      cs,
+      stateWith({ imageId: img1, label: 'tumor' }, { imageId: img1, toolType: 'line' }),
+      [img1],
+    );
+    expect(status.global.unmet).toEqual([
+      { contextId, kind: 'label', id: 'tumor', currentCount: 1, minCount: 2 },
+    ]);
+
+    const complete = computeCompletionStatus(
+      cs,
+      stateWith(
+        { imageId: img1, label: 'tumor' },
+        { imageId: img1, toolType: 'line', label: 'tumor' },
+      ),
+      [img1],
+    );
+    expect(complete.complete).toBe(true);
+  });
+
+  it('skips images the context is not scoped to', () => {
+    const cs = contextState({
+      imageIds: [img1],
+      tools: [{ type: 'point', required: true, countScope: 'per-image' }],
+    });
+    const status = computeCompletionStatus(cs, stateWith({ imageId: img1 }), [img1, img2]);
+    expect(status.byImage[img2]).toEqual({ complete: true, unmet: [] });
+    expect(status.complete).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Geometry } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import { applyAnnotationAction } from '../../src/actions.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import { getFocusBounds } from '../../src/focus.js';
+import { createInitialAnnotationState } from '../../src/initial-state.js';
+
+const imageId = createImageId('img-1');
+const contextId = createAnnotationContextId('ctx');
+
+function add(state: ReturnType<typeof createInitialAnnotationState>, geometry: Geometry) {
+  const annotation = createAnnotationFromGeometry(geometry, {
+    imageId,
+    contextId,
+    toolType: geometry.type === 'point' ? 'point' : 'rectangle',
+  });
+  applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: annotation });
+  return annotation.id;
+}
+
+describe('getFocusBounds', () => {
+  const state = createInitialAnnotationState();
+  const rect = add(state, {
+    type: 'rectangle',
+    origin: { x: 10, y: 20 },
+    width: 30,
+    height: 40,
+    rotation: 0,
+  });
+  const point = add(state, { type: 'point', position: { x: 100, y: 5 } });
+
+  it('frames the requested annotations', () => {
+    const request = { cellIndex: 0, imageId, annotationIds: [rect], seq: 1 };
+    expect(getFocusBounds(state, request)).toEqual({
+      min: { x: 10, y: 20 },
+      max: { x: 40, y: 60 },
+    });
+  });
+
+  it('frames every shown annotation of the image when none are named', () => {
+    const request = { cellIndex: 0, imageId, seq: 1 };
+    expect(getFocusBounds(state, request)).toEqual({
+      min: { x: 10, y: 5 },
+      max: { x: 100, y: 60 },
+    });
+
+    const hide = (id: typeof rect) =>
+      applyAnnotationAction(state, {
+        type: 'UPDATE_ANNOTATION',
+        payload: { id, imageId, patch: { hidden: true } },
+      });
+    hide(rect);
+    expect(getFocusBounds(state, request)).toEqual({
+      min: { x: 100, y: 5 },
+      max: { x: 100, y: 5 },
+    });
+    hide(point);
+    expect(getFocusBounds(state, request)).toBeUndefined();
+  });
+
+  it('is undefined for annotations that do not exist', () => {
+    const other = createImageId('img-2');
+    expect(getFocusBounds(state, { cellIndex: 0, imageId: other, seq: 1 })).toBeUndefined();
+  });
+});
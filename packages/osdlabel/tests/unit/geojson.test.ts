@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { createAnnotationId } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import { deserializeGeoJson, serializeGeoJson } from '../../src/geojson.js';
+import { SerializationError } from '../../src/serialization-configured.js';
+import { annotationFactory, stateOf } from './test-helpers.js';
+
+const imageA = createImageId('img-a');
+const contextId = createAnnotationContextId('ctx-1');
+
+const make = annotationFactory(imageA, contextId);
+
+describe('serializeGeoJson', () => {
+  it('writes QuPath classification, ids and physical measurements', () => {
+    const rect = make(
+      'r1',
+      { type: 'rectangle', origin: { x: 0, y: 0 }, width: 10, height: 20, rotation: 0 },
+      'rectangle',
+      'Tumor',
+    );
+    const collection = serializeGeoJson(stateOf(rect), {
+      images: [{ id: imageA, tileSource: 'a.dzi', pixelSpacing: { x: 0.5, y: 0.5, unit: 'µm' } }],
+    });
+
+    expect(collection.type).toBe('FeatureCollection');
+    const [feature] = collection.features;
+    expect(feature!.id).toBe('r1');
+    expect(feature!.geometry.type).toBe('Polygon');
+    expect(feature!.properties).toMatchObject({
+      objectType: 'annotation',
+      name: 'Tumor',
+      classification: { name: 'Tumor' },
+      imageId: 'img-a',
+      contextId: 'ctx-1',
+      toolType: 'rectangle',
+      measurements: { 'Area µm²': 50, 'Perimeter µm': 30 },
+    });
+  });
+
+  it('reports line length in pixels when no spacing is known', () => {
+    const line = make('l1', { type: 'line', start: { x: 0, y: 0 }, end: { x: 3, y: 4 } }, 'line');
+    const [feature] = serializeGeoJson(stateOf(line), { includeSourceGeometry: false }).features;
+    expect(feature!.geometry.type).toBe('LineString');
+    expect(feature!.properties.measurements).toEqual({ 'Length px': 5 });
+    expect(feature!.properties.osdlabel).toBeUndefined();
+  });
+
+  it('excludes holes from the area of multi-polygons', () => {
+    const donut = make(
+      'm1',
+      {
+        type: 'multiPolygon',
+        polygons: [
+          {
+            outer: [
+              { x: 0, y: 0 },
+              { x: 10, y: 0 },
+              { x: 10, y: 10 },
+              { x: 0, y: 10 },
+            ],
+            holes: [
+              [
+                { x: 4, y: 4 },
+                { x: 6, y: 4 },
+                { x: 6, y: 6 },
+                { x: 4, y: 6 },
+              ],
+            ],
+          },
+        ],
+      },
+      'polyline',
+    );
+    const [feature] = serializeGeoJson(stateOf(donut)).features;
+    expect(feature!.geometry.type).toBe('Polygon');
+    expect(feature!.properties.measurements).toEqual({ 'Area px²': 96, 'Perimeter px': 48 });
+  });
+});
+
+describe('deserializeGeoJson', () => {
+  it('restores exact geometry from its own export', () => {
+    const circle = make(
+      'c1',
+      { type: 'circle', center: { x: 5, y: 5 }, radius: 3 },
+      'circle',
+      'Nucleus',
+    );
+    const collection = JSON.parse(JSON.stringify(serializeGeoJson(stateOf(circle)))) as unknown;
+    const result = deserializeGeoJson(collection);
+
+    const restored = result.byImage[imageA]?.[createAnnotationId('c1')];
+    expect(restored?.geometry).toEqual(circle.geometry);
+    expect(restored?.toolType).toBe('circle');
+    expect(restored?.label).toBe('Nucleus');
+    expect(restored?.rawAnnotationData?.data['type']).toBe('Circle');
+  });
+
+  it('imports QuPath features with the image and context from options', () => {
+    const result = deserializeGeoJson(
+      [
+        {
+          type: 'Feature',
+          id: 'q1',
+          geometry: {
+            type: 'Polygon',
+            coordinates: [
+              [
+                [0, 0],
+                [10, 0],
+                [10, 10],
+                [0, 0],
+              ],
+            ],
+          },
+          properties: { objectType: 'annotation', classification: { name: 'Stroma' } },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'MultiPoint', coordinates: [[0, 0]] },
+          properties: null,
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [1, 2] },
+          properties: { imageId: '' },
+        },
+      ],
+      { imageId: imageA, contextId },
+    );
+
+    const imported = result.byImage[imageA]?.[createAnnotationId('q1')];
+    expect(imported?.geometry).toEqual({
+      type: 'polygon',
+      points: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+      ],
+    });
+    expect(imported?.label).toBe('Stroma');
+    expect(imported?.contextId).toBe(contextId);
+    expect(result.skipped.map((s) => s.index)).toEqual([1, 2]);
+  });
+
+  it('skips features without an image or context', () => {
+    const result = deserializeGeoJson({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [1, 2] }, properties: {} },
+      ],
+    });
+    expect(result.byImage).toEqual({});
+    expect(result.skipped).toHaveLength(1);
+  });
+
+  it('rejects input that is not a feature collection', () => {
+    expect(() => deserializeGeoJson({ type: 'Feature' })).toThrow(SerializationError);
+  });
+});
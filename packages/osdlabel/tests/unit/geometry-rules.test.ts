@@ -0,0 +1,185 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Geometry } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { ContextState, GeometryRules } from '@osdlabel/annotation-context';
+import { applyAnnotationAction } from '../../src/actions.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import {
+  applyGeometryRules,
+  applyGeometryRulesToUpdates,
+  evaluateGeometryRules,
+} from '../../src/geometry-rules.js';
+import type { GeometryRuleEnvironment } from '../../src/geometry-rules.js';
+import { createInitialAnnotationState } from '../../src/initial-state.js';
+
+const imageId = createImageId('img-1');
+const contextId = createAnnotationContextId('ctx-1');
+
+function contextState(geometryRules: GeometryRules): ContextState {
+  return {
+    contexts: [{ id: contextId, label: 'Context', tools: [{ type: 'rectangle', geometryRules }] }],
+    activeContextId: contextId,
+    displayedContextIds: [contextId],
+  };
+}
+
+function rect(x: number, y: number, width: number, height: number, label?: string) {
+  const geometry: Geometry = { type: 'rectangle', origin: { x, y }, width, height, rotation: 0 };
+  return createAnnotationFromGeometry(geometry, {
+    imageId,
+    contextId,
+    toolType: 'rectangle',
+    ...(label !== undefined ? { label } : {}),
+  });
+}
+
+function environment(
+  ...existing: ReturnType<typeof rect>[]
+): GeometryRuleEnvironment & { onViolation: ReturnType<typeof vi.fn> } {
+  const annotationState = createInitialAnnotationState();
+  for (const ann of existing) {
+    applyAnnotationAction(annotationState, { type: 'ADD_ANNOTATION', payload: ann });
+  }
+  return {
+    annotationState,
+    imageSizes: { [imageId]: { width: 100, height: 100 } },
+    onViolation: vi.fn(),
+  };
+}
+
+describe('evaluateGeometryRules', () => {
+  it('passes annotations without rules or within them', () => {
+    const ann = rect(10, 10, 10, 10);
+    expect(evaluateGeometryRules(ann, contextState({}), environment())).toEqual({
+      geometry: ann.geometry,
+      report: null,
+    });
+    const rules = { minArea: 50, maxArea: 200, minLength: 20, insideImage: true };
+    expect(evaluateGeometryRules(ann, contextState(rules), environment()).report).toBeNull();
+  });
+
+  it('rejects by default and reports every broken rule', () => {
+    const ann = rect(95, 10, 4, 2);
+    const result = evaluateGeometryRules(
+      ann,
+      contextState({ minArea: 50, minLength: 20 }),
+      environment(),
+    );
+    expect(result.geometry).toBeNull();
+    expect(result.report).toMatchObject({
+      annotationId: ann.id,
+      imageId,
+      contextId,
+      toolType: 'rectangle',
+      outcome: 'rejected',
+    });
+    expect(result.report?.violations.map((v) => v.rule)).toEqual(['minArea', 'minLength']);
+  });
+
+  it('keeps the change under the warn policy', () => {
+    const ann = rect(0, 0, 200, 200);
+    const result = evaluateGeometryRules(
+      ann,
+      contextState({ maxArea: 100, policy: 'warn' }),
+      environment(),
+    );
+    expect(result.geometry).toBe(ann.geometry);
+    expect(result.report?.outcome).toBe('warned');
+  });
+
+  it('clamps shapes inside the image under the clamp policy', () => {
+    const result = evaluateGeometryRules(
+      rect(90, 90, 20, 20),
+      contextState({ insideImage: true, policy: 'clamp' }),
+      environment(),
+    );
+    expect(result.report?.outcome).toBe('clamped');
+    expect(result.geometry).toMatchObject({ origin: { x: 90, y: 90 }, width: 10, height: 10 });
+  });
+
+  it('rejects when clamping does not fix every rule', () => {
+    const result = evaluateGeometryRules(
+      rect(95, 95, 20, 20),
+      contextState({ insideImage: true, minArea: 50, policy: 'clamp' }),
+      environment(),
+    );
+    expect(result.geometry).toBeNull();
+    expect(result.report?.outcome).toBe('rejected');
+  });
+
+  it('skips insideImage until the image size is known', () => {
+    const env = { ...environment(), imageSizes: {} };
+    const result = evaluateGeometryRules(
+      rect(90, 90, 20, 20),
+      contextState({ insideImage: true }),
+      env,
+    );
+    expect(result.report).toBeNull();
+  });
+
+  it('rejects overlaps with annotations of the same label only', () => {
+    const tumor = rect(0, 0, 20, 20, 'tumor');
+    const vessel = rect(30, 0, 20, 20, 'vessel');
+    const env = environment(tumor, vessel);
+    const cs = contextState({ noOverlapWithSameLabel: true });
+
+    const overlapping = evaluateGeometryRules(rect(10, 10, 30, 5, 'tumor'), cs, env);
+    expect(overlapping.report?.violations).toEqual([
+      expect.objectContaining({ rule: 'noOverlapWithSameLabel', annotationIds: [tumor.id] }),
+    ]);
+    expect(evaluateGeometryRules(rect(35, 5, 5, 5, 'tumor'), cs, env).report).toBeNull();
+    // An annotation never overlaps itself.
+    expect(evaluateGeometryRules(tumor, cs, env).report).toBeNull();
+  });
+});
+
+describe('applyGeometryRules', () => {
+  it('reports violations and drops the Fabric data of clamped annotations', () => {
+    const env = environment();
+    const ann = {
+      ...rect(90, 0, 20, 20),
+      rawAnnotationData: { fabricVersion: '7.0.0', data: {} },
+    };
+    const result = applyGeometryRules(
+      ann,
+      contextState({ insideImage: true, policy: 'clamp' }),
+      env,
+    );
+    expect(result?.geometry).toMatchObject({ width: 10 });
+    expect(result?.rawAnnotationData).toBeUndefined();
+    expect(env.onViolation).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'clamped' }));
+  });
+
+  it('returns null for rejected annotations', () => {
+    const env = environment();
+    expect(applyGeometryRules(rect(0, 0, 2, 2), contextState({ minArea: 10 }), env)).toBeNull();
+    expect(env.onViolation).toHaveBeenCalledOnce();
+  });
+});
+
+describe('applyGeometryRulesToUpdates', () => {
+  it('checks a group against its own new positions', () => {
+    const a = rect(0, 0, 10, 10, 'tumor');
+    const b = rect(10, 0, 10, 10, 'tumor');
+    const env = environment(a, b);
+    const cs = contextState({ noOverlapWithSameLabel: true });
+    const moveTo = (ann: typeof a, x: number) => ({
+      id: ann.id,
+      imageId,
+      patch: { geometry: rect(x, 0, 10, 10).geometry },
+    });
+
+    const updates = [moveTo(a, 5), moveTo(b, 15)];
+    expect(applyGeometryRulesToUpdates(updates, cs, env)).toEqual(updates);
+    expect(applyGeometryRulesToUpdates([moveTo(a, 5)], cs, env)).toBeNull();
+  });
+
+  it('leaves updates without geometry alone', () => {
+    const a = rect(0, 0, 1, 1);
+    const updates = [{ id: a.id, imageId, patch: { label: 'x' } }];
+    expect(
+      applyGeometryRulesToUpdates(updates, contextState({ minArea: 10 }), environment(a)),
+    ).toBe(updates);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import { createAnnotationId } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationAction } from '../../src/actions.js';
+import { applyAnnotationAction } from '../../src/actions.js';
+import {
+  applyHistoryAction,
+  createInitialHistoryState,
+  getRedoActions,
+  getUndoAction,
+  snapshotAnnotationsForAction,
+} from '../../src/history.js';
+import type { HistoryState } from '../../src/history.js';
+import { createInitialAnnotationState } from '../../src/initial-state.js';
+import type { OsdAnnotation } from '../../src/types.js';
+
+const imageId = createImageId('img1');
+const id = createAnnotationId('ann1');
+
+const annotation: Omit<OsdAnnotation, 'createdAt' | 'updatedAt'> = {
+  id,
+  imageId,
+  contextId: createAnnotationContextId('ctx1'),
+  toolType: 'point',
+  geometry: { type: 'point', position: { x: 1, y: 2 } },
+  rawAnnotationData: { format: 'fabric', fabricVersion: '7.0.0', data: {} },
+};
+
+function update(x: number): AnnotationAction {
+  return {
+    type: 'UPDATE_ANNOTATION',
+    payload: { id, imageId, patch: { geometry: { type: 'point', position: { x, y: 2 } } } },
+  };
+}
+
+/** Applies an action to both stores, the way the framework bindings do. */
+function commit(
+  state: ReturnType<typeof createInitialAnnotationState>,
+  history: HistoryState,
+  action: AnnotationAction,
+  timestamp: number,
+  coalesceKey?: string,
+): void {
+  const inverse = snapshotAnnotationsForAction(state, action);
+  applyAnnotationAction(state, action);
+  if (inverse && inverse.length > 0) {
+    applyHistoryAction(history, {
+      type: 'RECORD_HISTORY',
+      payload: { action, inverse, timestamp, coalesceKey },
+    });
+  }
+}
+
+function undo(state: ReturnType<typeof createInitialAnnotationState>, history: HistoryState) {
+  const action = getUndoAction(history);
+  if (action) applyAnnotationAction(state, action);
+  applyHistoryAction(history, { type: 'UNDO' });
+}
+
+function redo(state: ReturnType<typeof createInitialAnnotationState>, history: HistoryState) {
+  for (const action of getRedoActions(history)) applyAnnotationAction(state, action);
+  applyHistoryAction(history, { type: 'REDO' });
+}
+
+describe('snapshotAnnotationsForAction', () => {
+  it('returns an empty snapshot slot for an add', () => {
+    const state = createInitialAnnotationState();
+    const snapshot = snapshotAnnotationsForAction(state, {
+      type: 'ADD_ANNOTATION',
+      payload: annotation,
+    });
+    expect(snapshot).toEqual([{ imageId, id, annotation: undefined }]);
+  });
+
+  it('returns nothing for an update of a missing annotation', () => {
+    const state = createInitialAnnotationState();
+    expect(snapshotAnnotationsForAction(state, update(5))).toEqual([]);
+  });
+
+  it('returns null for a document load', () => {
+    const state = createInitialAnnotationState();
+    expect(snapshotAnnotationsForAction(state, { type: 'LOAD_ANNOTATIONS', payload: {} })).toBe(
+      null,
+    );
+  });
+});
+
+describe('history reducer', () => {
+  it('undo and redo round-trip an add', () => {
+    const state = createInitialAnnotationState();
+    const history = createInitialHistoryState();
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: annotation }, 0);
+
+    undo(state, history);
+    expect(state.byImage[imageId]?.[id]).toBeUndefined();
+    expect(history.future).toHaveLength(1);
+
+    redo(state, history);
+    expect(state.byImage[imageId]?.[id]?.geometry).toEqual(annotation.geometry);
+    expect(history.past).toHaveLength(1);
+    expect(history.future).toHaveLength(0);
+  });
+
+  it('coalesces updates sharing a coalesce key into one step', () => {
+    const state = createInitialAnnotationState();
+    const history = createInitialHistoryState();
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: annotation }, 0);
+    commit(state, history, update(10), 1000, 'drag-1');
+    commit(state, history, update(20), 5000, 'drag-1');
+    commit(state, history, update(30), 9000, 'drag-1');
+
+    expect(history.past).toHaveLength(2);
+    undo(state, history);
+    expect(state.byImage[imageId]?.[id]?.geometry).toEqual(annotation.geometry);
+  });
+
+  it('keeps updates without a key, or with another key, as separate steps', () => {
+    const state = createInitialAnnotationState();
+    const history = createInitialHistoryState();
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: annotation }, 0);
+    commit(state, history, update(10), 1000);
+    commit(state, history, update(20), 1001);
+    commit(state, history, update(30), 1002, 'drag-1');
+    commit(state, history, update(40), 1003, 'drag-2');
+
+    expect(history.past).toHaveLength(5);
+    undo(state, history);
+    expect(state.byImage[imageId]?.[id]?.geometry).toEqual({
+      type: 'point',
+      position: { x: 30, y: 2 },
+    });
+  });
+
+  it('does not coalesce an update into a redone entry', () => {
+    const state = createInitialAnnotationState();
+    const history = createInitialHistoryState();
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: annotation }, 0);
+    commit(state, history, update(10), 1000, 'drag-1');
+    undo(state, history);
+    redo(state, history);
+    commit(state, history, update(20), 1001, 'drag-1');
+
+    expect(history.past).toHaveLength(3);
+  });
+
+  it('a new action clears the redo stack', () => {
+    const state = createInitialAnnotationState();
+    const history = createInitialHistoryState();
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: annotation }, 0);
+    commit(state, history, update(10), 1000);
+    undo(state, history);
+    commit(state, history, { type: 'DELETE_ANNOTATION', payload: { id, imageId } }, 2000);
+
+    expect(history.future).toHaveLength(0);
+  });
+
+  it('undoes a batch update or delete as one step', () => {
+    const state = createInitialAnnotationState();
+    const history = createInitialHistoryState();
+    const otherId = createAnnotationId('ann2');
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: annotation }, 0);
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: { ...annotation, id: otherId } }, 0);
+    const refs = [
+      { id, imageId },
+      { id: otherId, imageId },
+    ];
+
+    commit(
+      state,
+      history,
+      {
+        type: 'UPDATE_ANNOTATIONS',
+        payload: refs.map((ref) => ({ ...ref, patch: { label: 'a' } })),
+      },
+      1000,
+    );
+    commit(state, history, { type: 'DELETE_ANNOTATIONS', payload: refs }, 2000);
+    expect(state.byImage[imageId]).toEqual({});
+
+    undo(state, history);
+    expect(state.byImage[imageId]?.[id]?.label).toBe('a');
+    expect(state.byImage[imageId]?.[otherId]?.label).toBe('a');
+
+    undo(state, history);
+    expect(state.byImage[imageId]?.[id]?.label).toBeUndefined();
+    expect(state.byImage[imageId]?.[otherId]?.label).toBeUndefined();
+  });
+
+  it('drops the oldest entries beyond the limit', () => {
+    const state = createInitialAnnotationState();
+    const history = createInitialHistoryState(2);
+    commit(state, history, { type: 'ADD_ANNOTATION', payload: annotation }, 0);
+    commit(state, history, update(10), 1000);
+    commit(state, history, update(20), 2000);
+
+    expect(history.past).toHaveLength(2);
+    expect(history.past[0]?.forward[0]).toEqual(update(10));
+  });
+});
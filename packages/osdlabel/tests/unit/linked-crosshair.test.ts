@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createImageId } from '@osdlabel/viewer-api';
+import type { AffineMatrix, ImageRegistration } from '@osdlabel/viewer-api';
+import type { FabricOverlay } from '@osdlabel/fabric-osd';
+import {
+  CrosshairLink,
+  createCrosshairDecorations,
+  enableLinkedCrosshair,
+} from '../../src/linked-crosshair.js';
+
+// The crosshair's own layer only needs to record what it was given.
+const layers: { setDecorations: ReturnType<typeof vi.fn>; destroy: ReturnType<typeof vi.fn> }[] =
+  [];
+vi.mock('@osdlabel/fabric-osd', () => ({
+  DecorationLayer: class {
+    setDecorations = vi.fn();
+    destroy = vi.fn();
+    constructor() {
+      layers.push(this);
+    }
+  },
+}));
+
+const imgA = createImageId('img-a');
+const imgB = createImageId('img-b');
+
+// Scale by 2, then shift by (10, 20).
+const SCALE_SHIFT: AffineMatrix = [2, 0, 0, 2, 10, 20];
+
+describe('createCrosshairDecorations', () => {
+  it('spans the image through the point', () => {
+    const [horizontal, vertical] = createCrosshairDecorations(
+      { x: 30, y: 40 },
+      { width: 100, height: 200 },
+    );
+    expect(horizontal).toMatchObject({ start: { x: 0, y: 40 }, end: { x: 100, y: 40 } });
+    expect(vertical).toMatchObject({ start: { x: 30, y: 0 }, end: { x: 30, y: 200 } });
+  });
+
+  it('is empty outside the image', () => {
+    expect(createCrosshairDecorations({ x: -1, y: 40 }, { width: 100, height: 200 })).toEqual([]);
+  });
+});
+
+describe('enableLinkedCrosshair', () => {
+  function createCell(link: CrosshairLink, cellIndex: number, imageId = imgA) {
+    const listeners: Record<string, (event: { clientX: number; clientY: number }) => void> = {};
+    const element = {
+      addEventListener: vi.fn((type: string, listener: (typeof listeners)[string]) => {
+        listeners[type] = listener;
+      }),
+      removeEventListener: vi.fn(),
+      getBoundingClientRect: () => ({ left: 100, top: 50 }),
+    };
+    // Screen px are image px in these cells.
+    const overlay = {
+      overlayElement: element,
+      screenToImage: (p: { x: number; y: number }) => p,
+    } as unknown as FabricOverlay;
+    const state = { enabled: true, registrations: [] as ImageRegistration[] };
+    const handle = enableLinkedCrosshair({
+      overlay,
+      link,
+      cellIndex,
+      isEnabled: () => state.enabled,
+      getImageId: () => imageId,
+      getImageSize: () => ({ width: 1000, height: 1000 }),
+      getRegistrations: () => state.registrations,
+    });
+    return { handle, listeners, state, layer: layers[layers.length - 1]! };
+  }
+
+  it('draws the pointer of another cell, mapped through the registration', () => {
+    const link = new CrosshairLink();
+    const source = createCell(link, 0, imgA);
+    const target = createCell(link, 1, imgB);
+    target.state.registrations = [{ from: imgA, to: imgB, matrix: SCALE_SHIFT }];
+
+    source.listeners['pointermove']!({ clientX: 110, clientY: 60 });
+    expect(link.pointer).toEqual({ cellIndex: 0, imageId: imgA, point: { x: 10, y: 10 } });
+    expect(target.layer.setDecorations).toHaveBeenLastCalledWith(
+      createCrosshairDecorations({ x: 30, y: 40 }, { width: 1000, height: 1000 }),
+    );
+    // The cell under the pointer shows no crosshair of its own.
+    expect(source.layer.setDecorations).toHaveBeenLastCalledWith([]);
+
+    source.listeners['pointerleave']!({ clientX: 0, clientY: 0 });
+    expect(target.layer.setDecorations).toHaveBeenLastCalledWith([]);
+  });
+
+  it('stays quiet while disabled, and clears on refresh', () => {
+    const link = new CrosshairLink();
+    const source = createCell(link, 0);
+    const target = createCell(link, 1);
+    source.listeners['pointermove']!({ clientX: 110, clientY: 60 });
+    expect(target.layer.setDecorations).toHaveBeenCalledTimes(1);
+
+    target.state.enabled = false;
+    target.handle.refresh();
+    expect(target.layer.setDecorations).toHaveBeenLastCalledWith([]);
+
+    source.state.enabled = false;
+    source.listeners['pointermove']!({ clientX: 120, clientY: 60 });
+    expect(link.pointer?.point).toEqual({ x: 10, y: 10 });
+  });
+
+  it('withdraws its pointer and layer on destroy', () => {
+    const link = new CrosshairLink();
+    const source = createCell(link, 0);
+    source.listeners['pointermove']!({ clientX: 110, clientY: 60 });
+    source.handle.destroy();
+    expect(link.pointer).toBeNull();
+    expect(source.layer.destroy).toHaveBeenCalled();
+  });
+});
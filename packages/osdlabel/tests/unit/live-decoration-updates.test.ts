@@ -12,6 +12,10 @@ import { enableLiveDecorationUpdates } from '../../src/live-decoration-updates.j
 vi.mock('@osdlabel/fabric-annotations', () => ({
   getGeometryFromFabricObject: (target: { __mockGeometry?: unknown }) =>
     target.__mockGeometry ?? null,
+  getSelectionMembers: (target: { id?: string; getObjects?: () => unknown[] }) =>
+    target.id === undefined && target.getObjects ? target.getObjects() : [target],
+  // Fake children carry their live geometry directly; no group transform to bake in.
+  withSceneTransform: <T>(obj: unknown, fn: (o: unknown) => T): T => fn(obj),
 }));
 
 interface MockCanvas {
@@ -195,25 +199,25 @@ describe('enableLiveDecorationUpdates', () => {
     rig.flushRAF();
     expect(providerSpacing).toEqual(spacing);
   });
-  it('passes selectedAnnotationId through to providers', () => {
+  it('passes selectedAnnotationIds through to providers', () => {
     const rig = createRig();
-    const selectedId = annId('test-selected');
-    const provider: DecorationProvider = ({ selectedAnnotationId }) => {
-      providerSelectedId = selectedAnnotationId;
+    const selectedIds = [annId('test-selected'), annId('test-selected-2')];
+    const provider: DecorationProvider = ({ selectedAnnotationIds }) => {
+      providerSelectedIds = selectedAnnotationIds;
       return [];
     };
-    let providerSelectedId: AnnotationId | null | undefined;
+    let providerSelectedIds: readonly AnnotationId[] | undefined;
     enableLiveDecorationUpdates({
       overlay: rig.overlay,
       getVisibleAnnotations: () => [],
       getPixelSpacing: () => undefined,
-      getSelectedAnnotationId: () => selectedId,
+      getSelectedAnnotationIds: () => selectedIds,
       getProviders: () => [provider],
       onDecorations: vi.fn(),
     });
     rig.fire('object:moving', fakeFabricTarget('x', null as unknown as Annotation['geometry']));
     rig.flushRAF();
-    expect(providerSelectedId).toBe(selectedId);
+    expect(providerSelectedIds).toBe(selectedIds);
   });
   it('skips providers and onDecorations entirely when none are registered', () => {
     // No-providers case is fast-exited at the event handler; the rAF queue
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createImageId } from '@osdlabel/viewer-api';
+import type { AffineMatrix, ImageRegistration } from '@osdlabel/viewer-api';
+import { applyUIAction } from '../../src/actions.js';
+import { createInitialUIState } from '../../src/initial-state.js';
+import {
+  IDENTITY_MATRIX,
+  applyAffine,
+  getRegistration,
+  invertAffine,
+  mapImagePoint,
+} from '../../src/registration.js';
+
+const imgA = createImageId('img-a');
+const imgB = createImageId('img-b');
+const imgC = createImageId('img-c');
+
+// Scale by 2, then shift by (10, 20).
+const SCALE_SHIFT: AffineMatrix = [2, 0, 0, 2, 10, 20];
+
+describe('affine helpers', () => {
+  it('applies and inverts a matrix', () => {
+    expect(applyAffine(SCALE_SHIFT, { x: 5, y: 5 })).toEqual({ x: 20, y: 30 });
+    const inverse = invertAffine(SCALE_SHIFT)!;
+    expect(applyAffine(inverse, { x: 20, y: 30 })).toEqual({ x: 5, y: 5 });
+
+    // 90° rotation with a shift round-trips too.
+    const rotate: AffineMatrix = [0, 1, -1, 0, 100, 0];
+    const p = applyAffine(rotate, { x: 3, y: 7 });
+    expect(applyAffine(invertAffine(rotate)!, p)).toEqual({ x: 3, y: 7 });
+  });
+
+  it('has no inverse for a singular matrix', () => {
+    expect(invertAffine([1, 2, 2, 4, 0, 0])).toBeNull();
+  });
+});
+
+describe('getRegistration / mapImagePoint', () => {
+  const registrations: ImageRegistration[] = [{ from: imgA, to: imgB, matrix: SCALE_SHIFT }];
+
+  it('uses a registration in either direction', () => {
+    expect(getRegistration(registrations, imgA, imgB)).toBe(SCALE_SHIFT);
+    expect(mapImagePoint(registrations, imgB, imgA, { x: 20, y: 30 })).toEqual({ x: 5, y: 5 });
+    expect(getRegistration(registrations, imgA, imgA)).toBe(IDENTITY_MATRIX);
+  });
+
+  it('maps unregistered images pixel for pixel', () => {
+    expect(getRegistration(registrations, imgA, imgC)).toBeNull();
+    expect(mapImagePoint(registrations, imgA, imgC, { x: 5, y: 5 })).toEqual({ x: 5, y: 5 });
+  });
+});
+
+describe('registration actions', () => {
+  it('keeps one registration per pair', () => {
+    const state = createInitialUIState();
+    applyUIAction(state, {
+      type: 'SET_REGISTRATION',
+      payload: { from: imgA, to: imgB, matrix: SCALE_SHIFT },
+    });
+    applyUIAction(state, {
+      type: 'SET_REGISTRATION',
+      payload: { from: imgB, to: imgA, matrix: IDENTITY_MATRIX },
+    });
+    expect(state.registrations).toEqual([{ from: imgB, to: imgA, matrix: IDENTITY_MATRIX }]);
+
+    applyUIAction(state, {
+      type: 'SET_REGISTRATION',
+      payload: { from: imgA, to: imgB, matrix: null },
+    });
+    expect(state.registrations).toEqual([]);
+  });
+
+  it('replaces every registration at once', () => {
+    const state = createInitialUIState();
+    const loaded = [{ from: imgA, to: imgC, matrix: SCALE_SHIFT }];
+    applyUIAction(state, { type: 'SET_REGISTRATIONS', payload: loaded });
+    expect(state.registrations).toEqual(loaded);
+  });
+});
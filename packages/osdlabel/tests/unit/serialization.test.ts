@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { version as FABRIC_VERSION } from 'fabric';
+import { createAnnotationId } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import type { ImageSource } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext } from '@osdlabel/annotation-context';
+import {
+  SerializationError,
+  deserialize,
+  migrateDocument,
+  serialize,
+} from '../../src/serialization-configured.js';
+import { CURRENT_FORMAT_VERSION, detectFormatVersion } from '../../src/document-migrations.js';
+import type { DocumentMigration } from '../../src/document-migrations.js';
+import type { OsdAnnotation } from '../../src/types.js';
+import { stateOf } from './test-helpers.js';
+
+const imageA = createImageId('img-a');
+const imageB = createImageId('img-b');
+const contextId = createAnnotationContextId('ctx-1');
+
+function makeAnnotation(id: string, imageId = imageA): OsdAnnotation {
+  return {
+    id: createAnnotationId(id),
+    imageId,
+    contextId,
+    toolType: 'rectangle',
+    geometry: { type: 'rectangle', origin: { x: 0, y: 0 }, width: 10, height: 10, rotation: 0 },
+    rawAnnotationData: {
+      format: 'fabric',
+      fabricVersion: '6.0.0',
+      data: { type: 'Rect', left: 0, top: 0, width: 10, height: 10 },
+    },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+const context: AnnotationContext = {
+  id: contextId,
+  label: 'Tumors',
+  tools: [{ type: 'rectangle', maxCount: 3 }],
+};
+
+const images: ImageSource[] = [
+  {
+    id: imageA,
+    tileSource: 'a.dzi',
+    label: 'A',
+    thumbnailUrl: 'a.jpg',
+    pixelSpacing: { x: 0.5, y: 0.5, unit: 'um' },
+  },
+];
+
+describe('serialize', () => {
+  it('writes a versioned envelope with generator, manifest and contexts', () => {
+    const doc = serialize(stateOf(makeAnnotation('a1'), makeAnnotation('b1', imageB)), {
+      images,
+      contexts: [context],
+    });
+
+    expect(doc.formatVersion).toBe(CURRENT_FORMAT_VERSION);
+    expect(doc.generator).toEqual({ name: 'osdlabel', fabricVersion: FABRIC_VERSION });
+    expect(doc.images).toEqual([
+      { id: imageA, tileSource: 'a.dzi', label: 'A', pixelSpacing: { x: 0.5, y: 0.5, unit: 'um' } },
+      { id: imageB },
+    ]);
+    expect(doc.contexts).toEqual([context]);
+    expect(doc.annotations).toHaveLength(2);
+  });
+});
+
+describe('deserialize', () => {
+  it('round-trips a current document without migrations', () => {
+    const doc = serialize(stateOf(makeAnnotation('a1')), { images, contexts: [context] });
+    const result = deserialize(JSON.parse(JSON.stringify(doc)) as unknown);
+
+    expect(result.sourceFormatVersion).toBe(CURRENT_FORMAT_VERSION);
+    expect(result.migrations).toEqual([]);
+    expect(result.byImage[imageA]?.[createAnnotationId('a1')]).toBeDefined();
+    expect(result.contexts).toEqual([context]);
+    expect(result.images[0]?.tileSource).toBe('a.dzi');
+  });
+
+  it('round-trips image registrations, and omits them when there are none', () => {
+    const registrations = [{ from: imageA, to: imageB, matrix: [1, 0, 0, 1, 5, -5] as const }];
+    const doc = serialize(stateOf(makeAnnotation('a1')), { registrations });
+    expect(doc.registrations).toEqual(registrations);
+    expect(deserialize(JSON.parse(JSON.stringify(doc)) as unknown).registrations).toEqual(
+      registrations,
+    );
+
+    const plain = serialize(stateOf(makeAnnotation('a1')));
+    expect('registrations' in plain).toBe(false);
+    expect(deserialize(plain).registrations).toEqual([]);
+  });
+
+  it('rejects a registration that is not a six-number matrix', () => {
+    const doc = {
+      ...serialize(stateOf()),
+      registrations: [{ from: imageA, to: imageB, matrix: [1, 0, 0, 1] }],
+    };
+    expect(() => deserialize(doc)).toThrow(/Validation failed/);
+  });
+
+  it('upgrades a legacy flat array and reports the changes', () => {
+    const legacy = [makeAnnotation('a1'), makeAnnotation('b1', imageB)];
+    const result = deserialize(JSON.parse(JSON.stringify(legacy)) as unknown);
+
+    expect(result.sourceFormatVersion).toBe(1);
+    expect(result.migrations).toHaveLength(1);
+    expect(result.migrations[0]).toMatchObject({ from: 1, to: 2 });
+    expect(result.migrations[0]!.changes.length).toBeGreaterThan(0);
+    expect(result.generator.fabricVersion).toBe('6.0.0');
+    expect(result.images.map((img) => img.id)).toEqual([imageA, imageB]);
+    expect(result.contexts).toEqual([]);
+    expect(Object.keys(result.byImage)).toEqual([imageA, imageB]);
+  });
+
+  it('accepts geometry-only annotations without rawAnnotationData', () => {
+    const { rawAnnotationData: _raw, ...geometryOnly } = makeAnnotation('a1');
+    const doc = { ...serialize(stateOf()), annotations: [geometryOnly] };
+    const result = deserialize(JSON.parse(JSON.stringify(doc)) as unknown);
+
+    const ann = result.byImage[imageA]?.[createAnnotationId('a1')];
+    expect(ann?.geometry.type).toBe('rectangle');
+    expect(ann?.rawAnnotationData).toBeUndefined();
+  });
+
+  it('rejects documents newer than the supported format', () => {
+    const doc = { ...serialize(stateOf()), formatVersion: CURRENT_FORMAT_VERSION + 1 };
+    expect(() => deserialize(doc)).toThrow(SerializationError);
+  });
+
+  it('rejects unrecognised input', () => {
+    expect(() => deserialize({ annotations: [] })).toThrow(SerializationError);
+    expect(() => deserialize('nope')).toThrow(SerializationError);
+  });
+
+  it('rejects an envelope that fails validation', () => {
+    const doc = { ...serialize(stateOf()), annotations: [{ id: '' }] };
+    expect(() => deserialize(doc)).toThrow(/Validation failed/);
+  });
+
+  it('checks attribute values against the embedded context definitions', () => {
+    const withAttributes: AnnotationContext = {
+      ...context,
+      attributes: [{ key: 'grade', type: 'number', min: 1, max: 3, required: true }],
+    };
+    const valid = { ...makeAnnotation('a1'), attributes: { grade: 2 } };
+    const missing = makeAnnotation('a2');
+    const result = deserialize(serialize(stateOf(valid, missing), { contexts: [withAttributes] }));
+    expect(result.byImage[imageA]?.[valid.id]?.attributes).toEqual({ grade: 2 });
+    expect(result.contexts[0]?.attributes).toEqual(withAttributes.attributes);
+
+    const invalid = { ...makeAnnotation('a3'), attributes: { grade: 7 } };
+    expect(() => deserialize(serialize(stateOf(invalid), { contexts: [withAttributes] }))).toThrow(
+      /attribute "grade" must be at most 3/,
+    );
+  });
+});
+
+describe('migrateDocument', () => {
+  it('detects format versions', () => {
+    expect(detectFormatVersion([])).toBe(1);
+    expect(detectFormatVersion({ formatVersion: 2 })).toBe(2);
+    expect(detectFormatVersion({ formatVersion: '2' })).toBeNull();
+  });
+
+  it('uses a custom registry and fails when a step is missing', () => {
+    const noop: DocumentMigration = {
+      from: 1,
+      migrate: () => ({ document: serialize(stateOf()), changes: ['custom'] }),
+    };
+    expect(migrateDocument([], [noop]).migrations).toEqual([
+      { from: 1, to: 2, changes: ['custom'] },
+    ]);
+    expect(() => migrateDocument([], [])).toThrow(/No migration registered from format version 1/);
+  });
+});
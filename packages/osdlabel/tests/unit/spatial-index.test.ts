@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Geometry } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import { applyAnnotationAction } from '../../src/actions.js';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import { createInitialAnnotationState } from '../../src/initial-state.js';
+import { AnnotationSpatialIndex } from '../../src/spatial-index.js';
+
+const img1 = createImageId('img-1');
+const img2 = createImageId('img-2');
+const contextId = createAnnotationContextId('ctx-1');
+
+function rect(x: number, y: number, size: number, imageId = img1) {
+  const geometry: Geometry = {
+    type: 'rectangle',
+    origin: { x, y },
+    width: size,
+    height: size,
+    rotation: 0,
+  };
+  return createAnnotationFromGeometry(geometry, { imageId, contextId, toolType: 'rectangle' });
+}
+
+function ids(annotations: readonly { id: string }[]): string[] {
+  return annotations.map((a) => a.id).sort();
+}
+
+describe('AnnotationSpatialIndex', () => {
+  it('answers rect, point and nearest queries per image', () => {
+    const state = createInitialAnnotationState();
+    const a = rect(0, 0, 10);
+    const b = rect(100, 100, 10);
+    const c = rect(0, 0, 10, img2);
+    for (const ann of [a, b, c]) {
+      applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: ann });
+    }
+    const index = new AnnotationSpatialIndex();
+    index.sync(state);
+
+    expect(ids(index.queryRect(img1, { min: { x: 5, y: 5 }, max: { x: 50, y: 50 } }))).toEqual([
+      a.id,
+    ]);
+    expect(ids(index.queryPoint(img1, { x: 105, y: 105 }))).toEqual([b.id]);
+    expect(index.queryPoint(img1, { x: 50, y: 50 }, 5)).toEqual([]);
+    expect(ids(index.nearest(img1, { x: 80, y: 80 }))).toEqual([b.id]);
+    expect(ids(index.nearest(img1, { x: 80, y: 80 }, 2))).toEqual(ids([a, b]));
+    expect(index.nearest(img1, { x: 80, y: 80 }, 1, 10)).toEqual([]);
+    expect(ids(index.queryRect(img2, { min: { x: 0, y: 0 }, max: { x: 1, y: 1 } }))).toEqual([
+      c.id,
+    ]);
+  });
+
+  it('follows moves, deletions and removed images', () => {
+    const state = createInitialAnnotationState();
+    const a = rect(0, 0, 10);
+    const c = rect(0, 0, 10, img2);
+    applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: a });
+    applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: c });
+    const index = new AnnotationSpatialIndex();
+    index.sync(state);
+
+    applyAnnotationAction(state, {
+      type: 'UPDATE_ANNOTATION',
+      payload: {
+        id: a.id,
+        imageId: img1,
+        patch: {
+          geometry: {
+            type: 'rectangle',
+            origin: { x: 500, y: 500 },
+            width: 10,
+            height: 10,
+            rotation: 0,
+          },
+        },
+      },
+    });
+    index.sync(state);
+    expect(index.queryPoint(img1, { x: 5, y: 5 })).toEqual([]);
+    expect(ids(index.queryPoint(img1, { x: 505, y: 505 }))).toEqual([a.id]);
+
+    applyAnnotationAction(state, {
+      type: 'DELETE_ANNOTATION',
+      payload: { id: a.id, imageId: img1 },
+    });
+    delete state.byImage[img2];
+    index.sync(state);
+    expect(index.queryPoint(img1, { x: 505, y: 505 })).toEqual([]);
+    expect(index.queryPoint(img2, { x: 5, y: 5 })).toEqual([]);
+  });
+
+  it('hands out the current annotation when only its attributes changed', () => {
+    const state = createInitialAnnotationState();
+    const a = rect(0, 0, 10);
+    applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: a });
+    const index = new AnnotationSpatialIndex();
+    index.sync(state);
+
+    state.byImage[img1]![a.id] = { ...state.byImage[img1]![a.id]!, label: 'renamed' };
+    index.sync(state);
+    expect(index.queryPoint(img1, { x: 5, y: 5 })[0]?.label).toBe('renamed');
+  });
+  it('builds a new index per state with withState, leaving the previous one as it was', () => {
+    const a = rect(0, 0, 10);
+    const c = rect(0, 0, 10, img2);
+    const before = { byImage: { [img1]: { [a.id]: a }, [img2]: { [c.id]: c } }, changeCounter: 0 };
+    const first = new AnnotationSpatialIndex().withState(before);
+
+    const moved = { ...a, geometry: rect(100, 100, 10).geometry };
+    const after = { ...before, byImage: { ...before.byImage, [img1]: { [a.id]: moved } } };
+    const second = first.withState(after);
+
+    expect(first.queryPoint(img1, { x: 5, y: 5 })).toEqual([a]);
+    expect(second.queryPoint(img1, { x: 5, y: 5 })).toEqual([]);
+    expect(second.queryPoint(img1, { x: 105, y: 105 })).toEqual([moved]);
+    expect(second.queryPoint(img2, { x: 5, y: 5 })).toEqual([c]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANNOTATION_STYLE } from '@osdlabel/annotation';
+import type { AnnotationStyle } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext } from '@osdlabel/annotation-context';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import { resolveAnnotationStyle } from '../../src/style.js';
+
+const imageId = createImageId('img-1');
+const contextId = createAnnotationContextId('ctx-1');
+
+const contexts: AnnotationContext[] = [
+  {
+    id: contextId,
+    label: 'Context',
+    tools: [
+      { type: 'rectangle', defaultStyle: { strokeColor: '#0000ff', strokeWidth: 4 } },
+      { type: 'circle' },
+    ],
+    labelStyles: { Tumor: { strokeColor: '#ff0000', fillColor: '#ff0000' } },
+    labels: [
+      { id: 'Tumor', name: 'Tumor', color: '#00ff00' },
+      { id: 'Vessel', name: 'Vessel', color: '#00ffff' },
+    ],
+  },
+];
+
+const rectangle = {
+  type: 'rectangle',
+  origin: { x: 0, y: 0 },
+  width: 10,
+  height: 10,
+  rotation: 0,
+} as const;
+
+describe('resolveAnnotationStyle', () => {
+  it('falls back to the default style', () => {
+    const ann = createAnnotationFromGeometry(
+      { type: 'circle', center: { x: 0, y: 0 }, radius: 1 },
+      { imageId, contextId, toolType: 'circle' },
+    );
+    expect(resolveAnnotationStyle(ann, contexts)).toEqual(DEFAULT_ANNOTATION_STYLE);
+    expect(resolveAnnotationStyle(ann, [])).toEqual(DEFAULT_ANNOTATION_STYLE);
+  });
+
+  it('layers the label style over the tool default style', () => {
+    const unlabelled = createAnnotationFromGeometry(rectangle, {
+      imageId,
+      contextId,
+      toolType: 'rectangle',
+    });
+    const labelled = createAnnotationFromGeometry(rectangle, {
+      imageId,
+      contextId,
+      toolType: 'rectangle',
+      label: 'Tumor',
+    });
+
+    expect(resolveAnnotationStyle(unlabelled, contexts)).toEqual({
+      ...DEFAULT_ANNOTATION_STYLE,
+      strokeColor: '#0000ff',
+      strokeWidth: 4,
+    });
+    expect(resolveAnnotationStyle(labelled, contexts)).toEqual({
+      ...DEFAULT_ANNOTATION_STYLE,
+      strokeColor: '#ff0000',
+      strokeWidth: 4,
+      fillColor: '#ff0000',
+    });
+  });
+
+  it("colors an annotation by its label definition's color", () => {
+    const ann = createAnnotationFromGeometry(rectangle, {
+      imageId,
+      contextId,
+      toolType: 'rectangle',
+      label: 'Vessel',
+    });
+    expect(resolveAnnotationStyle(ann, contexts)).toEqual({
+      ...DEFAULT_ANNOTATION_STYLE,
+      strokeColor: '#00ffff',
+      strokeWidth: 4,
+      fillColor: '#00ffff',
+    });
+  });
+
+  it("uses the annotation's own style outright", () => {
+    const style: AnnotationStyle = { ...DEFAULT_ANNOTATION_STYLE, strokeColor: '#00ff00' };
+    const ann = createAnnotationFromGeometry(rectangle, {
+      imageId,
+      contextId,
+      toolType: 'rectangle',
+      label: 'Tumor',
+      style,
+    });
+    expect(resolveAnnotationStyle(ann, contexts)).toBe(style);
+  });
+});
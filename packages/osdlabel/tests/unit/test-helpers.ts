@@ -0,0 +1,33 @@
+import { createAnnotationId } from '@osdlabel/annotation';
+import type { Geometry, ToolType } from '@osdlabel/annotation';
+import type { AnnotationState, ImageId } from '@osdlabel/viewer-api';
+import type { AnnotationContextId } from '@osdlabel/annotation-context';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import type { OsdAnnotation, OsdFields } from '../../src/types.js';
+
+/**
+ * Annotation state holding `annotations` as they are. Set directly, since
+ * ADD_ANNOTATION would stamp its own timestamps.
+ */
+export function stateOf(...annotations: OsdAnnotation[]): AnnotationState<OsdFields> {
+  const state: AnnotationState<OsdFields> = { byImage: {}, changeCounter: 0 };
+  for (const ann of annotations) {
+    state.byImage[ann.imageId] = { ...state.byImage[ann.imageId], [ann.id]: ann };
+  }
+  return state;
+}
+
+/**
+ * A `make(id, geometry, toolType, label?)` for annotations on `imageId` in
+ * `contextId`, with Fabric data synthesized from the geometry.
+ */
+export function annotationFactory(imageId: ImageId, contextId: AnnotationContextId) {
+  return (id: string, geometry: Geometry, toolType: ToolType, label?: string): OsdAnnotation =>
+    createAnnotationFromGeometry(geometry, {
+      imageId,
+      contextId,
+      toolType,
+      id: createAnnotationId(id),
+      label,
+    });
+}
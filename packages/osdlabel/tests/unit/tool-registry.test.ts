@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import * as v from 'valibot';
+import { isToolType, toolTypeToGeometryType } from '@osdlabel/annotation';
+import type { ToolType } from '@osdlabel/annotation';
+import { LineTool } from '@osdlabel/fabric-annotations';
+import { ToolTypeSchema } from '@osdlabel/validation';
+import { createImageId } from '@osdlabel/viewer-api';
+import type { AnnotationState } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { AnnotationContext, ContextState } from '@osdlabel/annotation-context';
+import {
+  getToolDefinition,
+  getToolDefinitions,
+  registerTool,
+  resolveToolConstraint,
+} from '../../src/tool-registry.js';
+import { createAnnotationTool } from '../../src/tool-factory.js';
+import { computeConstraintStatus, computeLabelStatus } from '../../src/constraints.js';
+import { DEFAULT_KEYBOARD_SHORTCUTS, mapKeyEventToActions } from '../../src/keyboard.js';
+import type { KeyboardMappingState } from '../../src/keyboard.js';
+import type { OsdFields } from '../../src/types.js';
+
+const caliper = 'caliper' as ToolType;
+// Named like the label status, which used to share the constraint status' keys.
+const labelsTool = 'labels' as ToolType;
+
+registerTool({
+  type: labelsTool,
+  geometryType: 'point',
+  createTool: () => new LineTool(),
+  label: 'Labels',
+});
+
+registerTool({
+  type: caliper,
+  geometryType: 'line',
+  createTool: () => new LineTool(),
+  label: 'Caliper',
+  shortcut: 'k',
+  defaultConstraint: { maxCount: 1 },
+});
+
+const imageId = createImageId('img-1');
+const contextId = createAnnotationContextId('ctx-1');
+const context: AnnotationContext = {
+  id: contextId,
+  label: 'Context',
+  tools: [{ type: caliper }, { type: 'rectangle' }, { type: labelsTool, maxCount: 2 }],
+  labels: [{ id: 'tumor', name: 'Tumor' }],
+};
+const contextState: ContextState = {
+  contexts: [context],
+  activeContextId: contextId,
+  displayedContextIds: [contextId],
+};
+const emptyState: AnnotationState<OsdFields> = { byImage: {}, changeCounter: 0 };
+
+const keyboardState: KeyboardMappingState = {
+  activeTool: null,
+  activeCellIndex: 0,
+  gridColumns: 1,
+  gridRows: 1,
+  selectedAnnotationIds: [],
+  activeImageId: imageId,
+};
+
+describe('tool registry', () => {
+  it('lists built-in tools first, then registered ones', () => {
+    const types = getToolDefinitions().map((d) => d.type);
+    expect(types[0]).toBe('rectangle');
+    expect(types[types.length - 1]).toBe(caliper);
+    expect(getToolDefinition(caliper)?.label).toBe('Caliper');
+  });
+
+  it('makes the type valid for validation and geometry mapping', () => {
+    expect(isToolType(caliper)).toBe(true);
+    expect(isToolType('protractor')).toBe(false);
+    expect(v.safeParse(ToolTypeSchema, caliper).success).toBe(true);
+    expect(v.safeParse(ToolTypeSchema, 'protractor').success).toBe(false);
+    expect(toolTypeToGeometryType(caliper)).toBe('line');
+  });
+
+  it('creates the tool from its definition', () => {
+    expect(createAnnotationTool(caliper)).toBeInstanceOf(LineTool);
+    expect(createAnnotationTool('protractor' as ToolType)).toBeNull();
+  });
+
+  it('fills in the default constraint under the context entry', () => {
+    expect(resolveToolConstraint(context, caliper)).toEqual({ type: caliper, maxCount: 1 });
+    const overridden: AnnotationContext = {
+      ...context,
+      tools: [{ type: caliper, maxCount: 3, countScope: undefined }],
+    };
+    expect(resolveToolConstraint(overridden, caliper)?.maxCount).toBe(3);
+    expect(resolveToolConstraint(context, 'circle')).toBeUndefined();
+  });
+
+  it('includes the tool in constraint status', () => {
+    const status = computeConstraintStatus(contextState, emptyState, imageId);
+    expect(status[caliper]).toEqual({ enabled: true, currentCount: 0, maxCount: 1 });
+    expect(status.circle?.enabled).toBe(false);
+  });
+
+  it('keeps a tool named like another status apart from it', () => {
+    const status = computeConstraintStatus(contextState, emptyState, imageId);
+    expect(status[labelsTool]).toEqual({ enabled: true, currentCount: 0, maxCount: 2 });
+    expect(computeLabelStatus(contextState, emptyState, imageId)).toEqual({
+      tumor: { enabled: true, currentCount: 0, maxCount: null },
+    });
+  });
+
+  it('activates the tool by its default shortcut or a configured one', () => {
+    const status = computeConstraintStatus(contextState, emptyState, imageId);
+    expect(
+      mapKeyEventToActions('k', false, DEFAULT_KEYBOARD_SHORTCUTS, keyboardState, status),
+    ).toEqual([{ type: 'SET_ACTIVE_TOOL', payload: caliper }]);
+
+    const shortcuts = { ...DEFAULT_KEYBOARD_SHORTCUTS, tools: { [caliper]: 'j' } };
+    expect(mapKeyEventToActions('k', false, shortcuts, keyboardState, status)).toEqual([]);
+    expect(mapKeyEventToActions('j', false, shortcuts, keyboardState, status)).toEqual([
+      { type: 'SET_ACTIVE_TOOL', payload: caliper },
+    ]);
+  });
+
+  it('does not activate a tool the active context disables', () => {
+    const status = computeConstraintStatus(contextState, emptyState, imageId);
+    expect(
+      mapKeyEventToActions('c', false, DEFAULT_KEYBOARD_SHORTCUTS, keyboardState, status),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Point } from '@osdlabel/annotation';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { FabricOverlay } from '@osdlabel/fabric-osd';
+import {
+  enableViewportCulling,
+  expandBounds,
+  getViewportImageBounds,
+  shownAnnotationFilter,
+} from '../../src/viewport-culling.js';
+
+/** A 100×50 canvas showing the image at `scale` screen px per image px, offset by `offset`. */
+function createOverlay() {
+  const view = { scale: 1, offset: { x: 0, y: 0 }, rotated: false };
+  const syncs = new Set<() => void>();
+  const overlay = {
+    canvas: { getWidth: () => 100, getHeight: () => 50 },
+    screenToImage: (p: Point): Point => {
+      const x = p.x / view.scale + view.offset.x;
+      const y = p.y / view.scale + view.offset.y;
+      // A quarter turn swaps the axes.
+      return view.rotated ? { x: y, y: x } : { x, y };
+    },
+    onSync: (callback: () => void) => {
+      syncs.add(callback);
+      return () => syncs.delete(callback);
+    },
+  } as unknown as FabricOverlay;
+  const sync = () => {
+    for (const callback of syncs) callback();
+  };
+  return { overlay, view, sync, syncs };
+}
+
+describe('getViewportImageBounds', () => {
+  it('bounds the canvas corners in image px', () => {
+    const { overlay, view } = createOverlay();
+    view.offset = { x: 10, y: 20 };
+    expect(getViewportImageBounds(overlay)).toEqual({
+      min: { x: 10, y: 20 },
+      max: { x: 110, y: 70 },
+    });
+    view.rotated = true;
+    expect(getViewportImageBounds(overlay)).toEqual({
+      min: { x: 20, y: 10 },
+      max: { x: 70, y: 110 },
+    });
+  });
+});
+
+describe('expandBounds', () => {
+  it('grows each side by a fraction of the size', () => {
+    expect(expandBounds({ min: { x: 0, y: 0 }, max: { x: 100, y: 50 } }, 0.5)).toEqual({
+      min: { x: -50, y: -25 },
+      max: { x: 150, y: 75 },
+    });
+  });
+});
+
+describe('shownAnnotationFilter', () => {
+  const a = createAnnotationContextId('a');
+  const b = createAnnotationContextId('b');
+  const c = createAnnotationContextId('c');
+
+  it('keeps the active and displayed contexts, and drops hidden annotations', () => {
+    const shown = shownAnnotationFilter({ activeContextId: a, displayedContextIds: [b] });
+    expect(shown({ contextId: a })).toBe(true);
+    expect(shown({ contextId: b })).toBe(true);
+    expect(shown({ contextId: c })).toBe(false);
+    expect(shown({ contextId: a, hidden: true })).toBe(false);
+  });
+
+  it('keeps every context when none is active or displayed', () => {
+    const shown = shownAnnotationFilter({ activeContextId: null, displayedContextIds: [] });
+    expect(shown({ contextId: c })).toBe(true);
+  });
+});
+
+describe('enableViewportCulling', () => {
+  it('moves the cull rect only once the view leaves it or shrinks well inside it', () => {
+    const { overlay, view, sync, syncs } = createOverlay();
+    const onChange = vi.fn();
+    const culling = enableViewportCulling({ overlay, onChange });
+    expect(onChange).toHaveBeenLastCalledWith({ min: { x: -50, y: -25 }, max: { x: 150, y: 75 } });
+
+    // A small pan stays inside the margin.
+    view.offset = { x: 20, y: 10 };
+    sync();
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    // Panning past it re-centres the rect.
+    view.offset = { x: 200, y: 0 };
+    sync();
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith({ min: { x: 150, y: -25 }, max: { x: 350, y: 75 } });
+
+    // Zooming in far enough tightens it.
+    view.scale = 4;
+    sync();
+    expect(onChange).toHaveBeenCalledTimes(3);
+
+    // A refresh measures again even though nothing moved.
+    culling.refresh();
+    expect(onChange).toHaveBeenCalledTimes(4);
+
+    culling.destroy();
+    expect(syncs.size).toBe(0);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import { createAnnotationId } from '@osdlabel/annotation';
+import type { Geometry, ToolType } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import type { ImageSource } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import { deserializeWebAnnotations, serializeWebAnnotations } from '../../src/web-annotation.js';
+import { SerializationError } from '../../src/serialization-configured.js';
+import { annotationFactory, stateOf } from './test-helpers.js';
+
+const imageA = createImageId('img-a');
+const contextId = createAnnotationContextId('ctx-1');
+const images: ImageSource[] = [{ id: imageA, tileSource: 'https://example.com/a/info.json' }];
+
+const make = annotationFactory(imageA, contextId);
+
+describe('serializeWebAnnotations', () => {
+  it('targets the tile source with a FragmentSelector for axis-aligned rectangles', () => {
+    const rect = make(
+      'r1',
+      { type: 'rectangle', origin: { x: 10, y: 20 }, width: 30, height: 40, rotation: 0 },
+      'rectangle',
+      'Tumor',
+    );
+    const page = serializeWebAnnotations(stateOf(rect), { images });
+
+    expect(page.type).toBe('AnnotationPage');
+    const [item] = page.items;
+    expect(item).toMatchObject({
+      '@context': 'http://www.w3.org/ns/anno.jsonld',
+      id: 'r1',
+      type: 'Annotation',
+      motivation: 'tagging',
+      body: [{ type: 'TextualBody', purpose: 'tagging', value: 'Tumor' }],
+      target: {
+        source: 'https://example.com/a/info.json',
+        selector: { type: 'FragmentSelector', value: 'xywh=pixel:10,20,30,40' },
+      },
+    });
+  });
+
+  it('uses an SvgSelector for rotated rectangles and other shapes', () => {
+    const rotated = make(
+      'r2',
+      { type: 'rectangle', origin: { x: 0, y: 0 }, width: 10, height: 10, rotation: 30 },
+      'rectangle',
+    );
+    const circle = make('c1', { type: 'circle', center: { x: 5, y: 6 }, radius: 7 }, 'circle');
+    const [r, c] = serializeWebAnnotations(stateOf(rotated, circle), { images }).items;
+
+    expect(r!.target.selector.type).toBe('SvgSelector');
+    expect(r!.target.selector.value).toContain('rotate(30 0 0)');
+    expect(c!.target.selector.value).toContain('<circle cx="5" cy="6" r="7"/>');
+    expect(c!.body).toEqual([]);
+  });
+});
+
+describe('deserializeWebAnnotations', () => {
+  it('round-trips every geometry type', () => {
+    const geometries: [Geometry, ToolType][] = [
+      [
+        { type: 'rectangle', origin: { x: 1, y: 2 }, width: 3, height: 4, rotation: 0 },
+        'rectangle',
+      ],
+      [
+        { type: 'rectangle', origin: { x: 1, y: 2 }, width: 3, height: 4, rotation: 45 },
+        'rectangle',
+      ],
+      [{ type: 'circle', center: { x: 5, y: 5 }, radius: 2 }, 'circle'],
+      [
+        { type: 'ellipse', center: { x: 5, y: 5 }, radiusX: 4, radiusY: 2, rotation: 30 },
+        'ellipse',
+      ],
+      [{ type: 'point', position: { x: 3, y: 4 } }, 'point'],
+      [{ type: 'line', start: { x: 0, y: 0 }, end: { x: 3, y: 4 } }, 'line'],
+      [
+        {
+          type: 'polygon',
+          points: [
+            { x: 0, y: 0 },
+            { x: 4, y: 0 },
+            { x: 4, y: 4 },
+          ],
+        },
+        'freeHandPath',
+      ],
+      [
+        {
+          type: 'multiPolygon',
+          polygons: [
+            {
+              outer: [
+                { x: 0, y: 0 },
+                { x: 10, y: 0 },
+                { x: 10, y: 10 },
+              ],
+              holes: [
+                [
+                  { x: 6, y: 2 },
+                  { x: 8, y: 2 },
+                  { x: 8, y: 4 },
+                ],
+              ],
+            },
+          ],
+        },
+        'polyline',
+      ],
+    ];
+    const annotations = geometries.map(([geometry, toolType], i) =>
+      make(`a${i}`, geometry, toolType, i === 0 ? 'Tumor' : undefined),
+    );
+    const page = JSON.parse(
+      JSON.stringify(serializeWebAnnotations(stateOf(...annotations), { images })),
+    ) as unknown;
+    const result = deserializeWebAnnotations(page, { images });
+
+    expect(result.skipped).toEqual([]);
+    for (const original of annotations) {
+      const restored = result.byImage[imageA]?.[original.id];
+      expect(restored?.geometry).toEqual(original.geometry);
+      expect(restored?.toolType).toBe(original.toolType);
+      expect(restored?.label).toBe(original.label);
+      expect(restored?.contextId).toBe(contextId);
+      expect(restored?.createdAt).toBe(original.createdAt);
+    }
+  });
+
+  it('imports foreign annotations with the context from options', () => {
+    const result = deserializeWebAnnotations(
+      [
+        {
+          '@context': 'http://www.w3.org/ns/anno.jsonld',
+          id: '#x1',
+          type: 'Annotation',
+          body: [{ type: 'TextualBody', value: 'Stroma', purpose: 'tagging' }],
+          target: {
+            source: 'https://example.com/a/info.json',
+            selector: {
+              type: 'SvgSelector',
+              value: "<svg><polygon points='0,0 10,0 10,10'></polygon></svg>",
+            },
+          },
+        },
+        {
+          type: 'Annotation',
+          target: {
+            source: 'other.jpg',
+            selector: { type: 'FragmentSelector', value: 'xywh=percent:0,0,50,50' },
+          },
+        },
+        { type: 'Annotation', target: 'https://example.com/a/info.json' },
+      ],
+      { images, contextId },
+    );
+
+    const imported = result.byImage[imageA]?.[createAnnotationId('#x1')];
+    expect(imported?.geometry.type).toBe('polygon');
+    expect(imported?.label).toBe('Stroma');
+    expect(imported?.toolType).toBe('polyline');
+    expect(result.skipped.map((s) => s.index)).toEqual([1, 2]);
+    expect(result.skipped[0]!.reason).toMatch(/Percent/);
+  });
+
+  it('reads straight-edged SVG paths as multi-polygons', () => {
+    const target = (d: string) => ({
+      type: 'Annotation',
+      target: {
+        source: 'https://example.com/a/info.json',
+        selector: { type: 'SvgSelector', value: `<svg><path d="${d}"/></svg>` },
+      },
+    });
+    const result = deserializeWebAnnotations(
+      [target('M0 0 H10 V10 H0 Z m2 2 l2 0 l0 2 z'), target('M0 0 C1 1 2 2 3 3 Z')],
+      { images, contextId },
+    );
+
+    const [imported] = Object.values(result.byImage[imageA] ?? {});
+    expect(imported?.toolType).toBe('polyline');
+    expect(imported?.geometry).toEqual({
+      type: 'multiPolygon',
+      polygons: [
+        {
+          outer: [
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 10 },
+            { x: 0, y: 10 },
+          ],
+          holes: [
+            [
+              { x: 2, y: 2 },
+              { x: 4, y: 2 },
+              { x: 4, y: 4 },
+            ],
+          ],
+        },
+      ],
+    });
+    expect(result.skipped.map((s) => s.index)).toEqual([1]);
+    expect(result.skipped[0]!.reason).toMatch(/command C/);
+  });
+
+  it('skips annotations without a context', () => {
+    const page = serializeWebAnnotations(
+      stateOf(make('p1', { type: 'point', position: { x: 1, y: 1 } }, 'point')),
+    );
+    const { osdlabel: _ext, ...foreign } = page.items[0]!;
+    const result = deserializeWebAnnotations(foreign);
+    expect(result.byImage).toEqual({});
+    expect(result.skipped).toHaveLength(1);
+  });
+
+  it('rejects unrecognised input', () => {
+    expect(() => deserializeWebAnnotations({ type: 'Collection' })).toThrow(SerializationError);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import type { AnnotationId, Geometry } from '@osdlabel/annotation';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import { createAnnotationFromGeometry } from '../../src/create-annotation.js';
+import { applyAnnotationAction } from '../../src/actions.js';
+import { computeConstraintStatus } from '../../src/constraints.js';
+import { createInitialAnnotationState } from '../../src/initial-state.js';
+import { DEFAULT_KEYBOARD_SHORTCUTS, mapKeyEventToActions } from '../../src/keyboard.js';
+import type { OsdAnnotation } from '../../src/types.js';
+import {
+  compareStacking,
+  getTopZIndex,
+  getZOrderUpdates,
+  sortByStacking,
+} from '../../src/z-order.js';
+import type { ZOrderMove } from '../../src/z-order.js';
+
+const imageId = createImageId('img-1');
+const contextId = createAnnotationContextId('ctx');
+
+let clock = 0;
+function square(size: number, zIndex?: number): OsdAnnotation {
+  const geometry: Geometry = {
+    type: 'rectangle',
+    origin: { x: 0, y: 0 },
+    width: size,
+    height: size,
+    rotation: 0,
+  };
+  const createdAt = new Date(Date.UTC(2026, 0, 1, 0, 0, clock++)).toISOString();
+  return {
+    ...createAnnotationFromGeometry(geometry, { imageId, contextId, toolType: 'rectangle' }),
+    ...(zIndex !== undefined ? { zIndex } : {}),
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+const byId = (annotations: OsdAnnotation[]) =>
+  Object.fromEntries(annotations.map((a) => [a.id, a])) as Record<AnnotationId, OsdAnnotation>;
+
+/** The stack after applying `getZOrderUpdates`, bottom to top. */
+function stackAfter(annotations: OsdAnnotation[], ids: AnnotationId[], move: ZOrderMove) {
+  const patched = new Map(annotations.map((a) => [a.id, a]));
+  for (const { id, patch } of getZOrderUpdates(byId(annotations), imageId, ids, move)) {
+    patched.set(id, { ...patched.get(id)!, ...patch });
+  }
+  return sortByStacking([...patched.values()]).map((a) => a.id);
+}
+
+describe('sortByStacking', () => {
+  it('orders by zIndex, then creation time, then id', () => {
+    const a = square(10);
+    const b = square(10, -1);
+    const c = square(10);
+    const twin = { ...c, id: `${c.id}~` as AnnotationId };
+    expect(sortByStacking([c, twin, a, b]).map((x) => x.id)).toEqual([b.id, a.id, c.id, twin.id]);
+    expect(compareStacking(a, a)).toBe(0);
+  });
+
+  it('puts smaller areas on top in smallestOnTop order, whatever their zIndex', () => {
+    const small = square(5, -3);
+    const large = square(50, 2);
+    const point = {
+      ...square(1),
+      geometry: { type: 'point', position: { x: 0, y: 0 } } as Geometry,
+    };
+    expect(sortByStacking([point, small, large], 'smallestOnTop').map((x) => x.id)).toEqual([
+      large.id,
+      small.id,
+      point.id,
+    ]);
+  });
+});
+
+describe('getZOrderUpdates', () => {
+  const [a, b, c, d] = [square(10), square(10), square(10), square(10)];
+  const all = [a!, b!, c!, d!];
+
+  it('brings to front and sends to back, touching only the moved annotations', () => {
+    const front = getZOrderUpdates(byId(all), imageId, [b!.id, a!.id], 'front');
+    expect(front).toEqual([
+      { id: a!.id, imageId, patch: { zIndex: 1 } },
+      { id: b!.id, imageId, patch: { zIndex: 2 } },
+    ]);
+    expect(stackAfter(all, [b!.id, a!.id], 'front')).toEqual([c!.id, d!.id, a!.id, b!.id]);
+    expect(stackAfter(all, [c!.id], 'back')).toEqual([c!.id, a!.id, b!.id, d!.id]);
+  });
+
+  it('steps forward and backward past the next annotation, keeping runs together', () => {
+    expect(stackAfter(all, [a!.id, b!.id], 'forward')).toEqual([c!.id, a!.id, b!.id, d!.id]);
+    expect(stackAfter(all, [d!.id], 'backward')).toEqual([a!.id, b!.id, d!.id, c!.id]);
+    expect(stackAfter(all, [a!.id, c!.id], 'forward')).toEqual([b!.id, a!.id, d!.id, c!.id]);
+  });
+
+  it('is empty when nothing would move', () => {
+    expect(getZOrderUpdates(byId(all), imageId, [d!.id], 'front')).toEqual([]);
+    expect(getZOrderUpdates(byId(all), imageId, [d!.id], 'forward')).toEqual([]);
+    expect(getZOrderUpdates(byId(all), imageId, [a!.id], 'backward')).toEqual([]);
+    expect(getZOrderUpdates(byId(all), imageId, ['missing' as AnnotationId], 'back')).toEqual([]);
+  });
+});
+
+describe('getTopZIndex', () => {
+  it('is one above the highest zIndex, or unset while the stack has none', () => {
+    expect(getTopZIndex(undefined)).toBeUndefined();
+    expect(getTopZIndex(byId([square(10), square(10)]))).toBeUndefined();
+    expect(getTopZIndex(byId([square(10, -2), square(10)]))).toBe(1);
+    expect(getTopZIndex(byId([square(10, 3), square(10, 1)]))).toBe(4);
+  });
+
+  it('puts annotations added after a step on top of the stack', () => {
+    const [a, b, c] = [square(10), square(10), square(10)];
+    const state = createInitialAnnotationState();
+    state.byImage[imageId] = byId([a!, b!, c!]);
+    applyAnnotationAction(state, {
+      type: 'UPDATE_ANNOTATIONS',
+      payload: getZOrderUpdates(state.byImage[imageId]!, imageId, [a!.id], 'forward'),
+    });
+    const { createdAt: _c, updatedAt: _u, ...added } = square(5);
+    applyAnnotationAction(state, { type: 'ADD_ANNOTATION', payload: added });
+    applyAnnotationAction(state, {
+      type: 'ADD_ANNOTATIONS',
+      payload: [{ ...added, id: 'pasted' as AnnotationId }],
+    });
+
+    const stack = sortByStacking(Object.values(state.byImage[imageId]!)).map((x) => x.id);
+    expect(stack).toEqual([b!.id, a!.id, c!.id, added.id, 'pasted']);
+  });
+});
+
+describe('stacking shortcuts', () => {
+  const ids = ['ann-1' as AnnotationId];
+  const status = computeConstraintStatus(
+    { contexts: [], activeContextId: null, displayedContextIds: [] },
+    createInitialAnnotationState(),
+    imageId,
+  );
+  const map = (key: string, selectedAnnotationIds: readonly AnnotationId[] = ids) =>
+    mapKeyEventToActions(
+      key,
+      false,
+      DEFAULT_KEYBOARD_SHORTCUTS,
+      {
+        activeTool: 'select',
+        activeCellIndex: 0,
+        gridColumns: 1,
+        gridRows: 1,
+        selectedAnnotationIds,
+        activeImageId: imageId,
+      },
+      status,
+      true,
+    );
+
+  it('maps Ctrl+} { ] [ to reorders of the selection', () => {
+    expect(map('}')).toEqual([
+      { type: 'REORDER_ANNOTATIONS', payload: { ids, imageId, move: 'front' } },
+    ]);
+    expect(map('{')[0]).toMatchObject({ payload: { move: 'back' } });
+    expect(map(']')[0]).toMatchObject({ payload: { move: 'forward' } });
+    expect(map('[')[0]).toMatchObject({ payload: { move: 'backward' } });
+    expect(map(']', [])).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+import { useMemo, useState, type CSSProperties, type MouseEvent, type ReactNode } from 'react';
+import type { ImageId, ImageSource } from '@osdlabel/viewer-api';
+import { buildAnnotationOutline, getAnnotationDisplayName } from 'osdlabel';
+import type { OsdAnnotation } from 'osdlabel';
+import { useAnnotator } from '../state/annotator-context.js';
+
+export interface AnnotationListProps {
+  /** Images to take group names from; groups of other images show their id */
+  readonly images?: readonly ImageSource[] | undefined;
+  /** Custom style for the panel */
+  readonly style?: CSSProperties | undefined;
+}
+
+const inputStyle: CSSProperties = {
+  padding: '2px 4px',
+  background: '#333',
+  color: '#fff',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  fontSize: '13px',
+};
+
+const buttonStyle: CSSProperties = {
+  padding: '0 4px',
+  background: '#333',
+  color: '#ccc',
+  border: '1px solid #555',
+  borderRadius: '3px',
+  fontSize: '11px',
+  cursor: 'pointer',
+};
+
+/**
+ * Lists every annotation grouped by image, context and label. Clicking a
+ * row selects the annotation and pans and zooms to it; each row can be
+ * renamed (relabelled), deleted, hidden and locked. The filter field keeps
+ * the rows whose name, label, tool or id contains its text.
+ */
+export default function AnnotationList({ images, style }: AnnotationListProps) {
+  const { uiState, contextState, annotationState, actions } = useAnnotator();
+  const [filter, setFilter] = useState('');
+  const [editingId, setEditingId] = useState<string>();
+
+  const outline = useMemo(
+    () => buildAnnotationOutline(annotationState, contextState.contexts, filter),
+    [annotationState, contextState.contexts, filter],
+  );
+
+  const imageName = (imageId: ImageId) =>
+    images?.find((image) => image.id === imageId)?.label ?? imageId;
+  const selected = new Set(uiState.selectedAnnotationIds);
+
+  function rename(ann: OsdAnnotation, label: string | undefined): void {
+    setEditingId(undefined);
+    if (label !== ann.label) actions.relabelAnnotations([ann.id], ann.imageId, label);
+  }
+
+  function renderRenameField(ann: OsdAnnotation): ReactNode {
+    const labels = contextState.contexts.find((c) => c.id === ann.contextId)?.labels;
+    if (labels && labels.length > 0) {
+      return (
+        <select
+          data-testid="annotation-list-rename"
+          autoFocus
+          value={ann.label ?? ''}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => rename(ann, e.currentTarget.value || undefined)}
+          onBlur={() => setEditingId(undefined)}
+          onKeyDown={(e) => e.key === 'Escape' && setEditingId(undefined)}
+          style={{ ...inputStyle, flex: '1', minWidth: '0' }}
+        >
+          <option value="">(none)</option>
+          {labels.map((label) => (
+            <option key={label.id} value={label.id}>
+              {label.name}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    // Uncontrolled: commits on Enter or blur, so typing does not relabel per key.
+    return (
+      <input
+        data-testid="annotation-list-rename"
+        autoFocus
+        type="text"
+        defaultValue={ann.label ?? ''}
+        onFocus={(e) => e.currentTarget.select()}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') rename(ann, e.currentTarget.value.trim() || undefined);
+          else if (e.key === 'Escape') setEditingId(undefined);
+        }}
+        onBlur={(e) => {
+          if (editingId === ann.id) rename(ann, e.currentTarget.value.trim() || undefined);
+        }}
+        style={{ ...inputStyle, flex: '1', minWidth: '0' }}
+      />
+    );
+  }
+
+  function renderRow(ann: OsdAnnotation): ReactNode {
+    const isHidden = ann.hidden === true;
+    const isLocked = ann.locked === true;
+    const isSelected = selected.has(ann.id);
+    const stop = (action: () => void) => (e: MouseEvent) => {
+      e.stopPropagation();
+      action();
+    };
+    return (
+      <div
+        key={ann.id}
+        data-testid={`annotation-row-${ann.id}`}
+        aria-selected={isSelected}
+        onClick={() => actions.focusAnnotation(ann.id, ann.imageId)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px',
+          padding: '2px 4px 2px 24px',
+          background: isSelected ? '#2a4a6a' : 'transparent',
+          color: isHidden ? '#777' : '#fff',
+          cursor: 'pointer',
+        }}
+      >
+        {editingId === ann.id ? (
+          renderRenameField(ann)
+        ) : (
+          <span
+            onDoubleClick={() => !isLocked && setEditingId(ann.id)}
+            style={{
+              flex: '1',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {getAnnotationDisplayName(ann, contextState.contexts)}
+            <span style={{ color: '#888' }}> {ann.toolType}</span>
+          </span>
+        )}
+        <button
+          title={isHidden ? 'Show' : 'Hide'}
+          aria-pressed={isHidden}
+          onClick={stop(() => actions.setAnnotationsHidden([ann.id], ann.imageId, !isHidden))}
+          style={buttonStyle}
+        >
+          {isHidden ? 'Show' : 'Hide'}
+        </button>
+        <button
+          title={isLocked ? 'Unlock' : 'Lock'}
+          aria-pressed={isLocked}
+          onClick={stop(() => actions.setAnnotationsLocked([ann.id], ann.imageId, !isLocked))}
+          style={buttonStyle}
+        >
+          {isLocked ? 'Unlock' : 'Lock'}
+        </button>
+        <button
+          title="Rename"
+          disabled={isLocked}
+          onClick={stop(() => setEditingId(ann.id))}
+          style={buttonStyle}
+        >
+          Rename
+        </button>
+        <button
+          title="Delete"
+          disabled={isLocked}
+          onClick={stop(() => actions.deleteAnnotation(ann.id, ann.imageId))}
+          style={buttonStyle}
+        >
+          Delete
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-testid="annotation-list"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '4px',
+        padding: '8px 12px',
+        background: '#1a1a1a',
+        color: '#fff',
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '13px',
+        ...style,
+      }}
+    >
+      <input
+        data-testid="annotation-list-filter"
+        type="search"
+        placeholder="Filter annotations"
+        value={filter}
+        onChange={(e) => setFilter(e.currentTarget.value)}
+        style={inputStyle}
+      />
+      {outline.length === 0 ? (
+        <span style={{ color: '#888' }}>No annotations</span>
+      ) : (
+        outline.map((image) => (
+          <div key={image.imageId}>
+            <div style={{ fontWeight: 'bold', padding: '4px 0' }}>{imageName(image.imageId)}</div>
+            {image.contexts.map((context) => (
+              <div key={context.contextId}>
+                <div style={{ color: '#aaa', padding: '2px 0 2px 8px' }}>{context.name}</div>
+                {context.labels.map((label) => (
+                  <div key={label.label ?? ''}>
+                    <div style={{ color: '#aaa', padding: '2px 0 2px 16px' }}>
+                      {label.name} ({label.annotations.length})
+                    </div>
+                    {label.annotations.map(renderRow)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, type ReactNode, type CSSProperties } from 'react';
+import { useEffect, useMemo, type ReactNode, type CSSProperties } from 'react';
 import { AnnotatorProvider } from '../state/annotator-context.js';
 import type { AnnotatorProviderProps } from '../state/annotator-context.js';
 import { useAnnotator } from '../state/annotator-context.js';
@@ -8,6 +8,8 @@ import GridView from './GridView.js';
 import Filmstrip from './Filmstrip.js';
 import GridControls from './GridControls.js';
 import ContextSwitcher from './ContextSwitcher.js';
+import AttributeEditor from './AttributeEditor.js';
+import AnnotationList from './AnnotationList.js';
 import { ViewControls } from './ViewControls.js';
 import type { ImageSource } from '@osdlabel/viewer-api';
 import type { AnnotationContext, AnnotationContextId } from '@osdlabel/annotation-context';
@@ -27,6 +29,13 @@ export interface AnnotatorProps extends Omit<AnnotatorProviderProps, 'children'>
   readonly showContextSwitcher?: boolean | undefined;
   /** Whether to show the view controls (default: true) */
   readonly showViewControls?: boolean | undefined;
+  /**
+   * Whether to show the attribute editor beside the grid while an annotation
+   * whose context declares attributes is selected (default: true)
+   */
+  readonly showAttributeEditor?: boolean | undefined;
+  /** Whether to show the annotation list beside the grid (default: false) */
+  readonly showAnnotationList?: boolean | undefined;
   /** Filmstrip position (default: 'left') */
   readonly filmstripPosition?: 'left' | 'right' | 'bottom' | undefined;
   /** Maximum grid dimensions */
@@ -70,6 +79,8 @@ function AnnotatorInner({
   showGridControls: showGridControlsProp,
   showContextSwitcher: showContextSwitcherProp,
   showViewControls: showViewControlsProp,
+  showAttributeEditor: showAttributeEditorProp,
+  showAnnotationList: showAnnotationListProp,
   filmstripPosition: filmstripPositionProp,
   maxGridSize,
   style,
@@ -83,6 +94,8 @@ function AnnotatorInner({
   const showGridControls = showGridControlsProp === true;
   const showContextSwitcher = showContextSwitcherProp === true;
   const showViewControls = showViewControlsProp !== false;
+  const showAttributeEditor = showAttributeEditorProp !== false;
+  const showAnnotationList = showAnnotationListProp === true;
   const maxCols = maxGridSize?.columns ?? 4;
   const maxRows = maxGridSize?.rows ?? 4;
   const isHorizontalFilmstrip = filmstripPosition === 'bottom';
@@ -135,6 +148,10 @@ function AnnotatorInner({
             images={images}
           />
         </div>
+        {showAttributeEditor && <AttributeEditor style={{ width: '200px', overflow: 'auto' }} />}
+        {showAnnotationList && (
+          <AnnotationList images={images} style={{ width: '280px', overflow: 'auto' }} />
+        )}
         {showFilmstrip && filmstripPosition === 'right' && (
           <Filmstrip images={images} position="right" />
         )}
@@ -155,6 +172,8 @@ export default function Annotator({
   showGridControls,
   showContextSwitcher,
   showViewControls,
+  showAttributeEditor,
+  showAnnotationList,
   filmstripPosition,
   maxGridSize,
   style,
@@ -162,8 +181,9 @@ export default function Annotator({
   providerChildren,
   ...providerProps
 }: AnnotatorProps) {
+  const imageIds = useMemo(() => images.map((image) => image.id), [images]);
   return (
-    <AnnotatorProvider {...providerProps}>
+    <AnnotatorProvider {...providerProps} imageIds={providerProps.imageIds ?? imageIds}>
       <AnnotatorSetup contexts={contexts} displayedContextIds={displayedContextIds} />
       <AnnotatorInner
         images={images}
@@ -172,6 +192,8 @@ export default function Annotator({
         showGridControls={showGridControls}
         showContextSwitcher={showContextSwitcher}
         showViewControls={showViewControls}
+        showAttributeEditor={showAttributeEditor}
+        showAnnotationList={showAnnotationList}
         filmstripPosition={filmstripPosition}
         maxGridSize={maxGridSize}
         style={style}
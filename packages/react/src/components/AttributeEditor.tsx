@@ -0,0 +1,167 @@
+import { useEffect, useState, type CSSProperties, type ReactNode } from 'react';
+import type { AttributeValue } from '@osdlabel/annotation';
+import type { AttributeDefinition } from '@osdlabel/annotation-context';
+import { getMissingAttributeKeys, validateAttributeValue } from 'osdlabel';
+import { useAnnotator } from '../state/annotator-context.js';
+
+export interface AttributeEditorProps {
+  /** Custom style for the panel */
+  readonly style?: CSSProperties | undefined;
+}
+
+const inputStyle: CSSProperties = {
+  padding: '2px 4px',
+  background: '#333',
+  color: '#fff',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  fontSize: '13px',
+};
+
+/**
+ * Edits the attributes of the single selected annotation, one field per
+ * attribute its context declares. Renders nothing when the selection is not
+ * exactly one annotation or its context declares no attributes.
+ */
+export default function AttributeEditor({ style }: AttributeEditorProps) {
+  const { uiState, contextState, annotationState, actions } = useAnnotator();
+  // Per-key messages for input that was rejected and not written.
+  const [errors, setErrors] = useState<Readonly<Record<string, string>>>({});
+
+  const selectedAnnotation = (() => {
+    const [id, ...others] = uiState.selectedAnnotationIds;
+    if (!id || others.length > 0) return undefined;
+    const imageId = uiState.gridAssignments[uiState.activeCellIndex];
+    if (!imageId) return undefined;
+    return annotationState.byImage[imageId]?.[id];
+  })();
+
+  useEffect(() => setErrors({}), [selectedAnnotation?.id]);
+
+  const definitions: readonly AttributeDefinition[] = selectedAnnotation
+    ? (contextState.contexts.find((c) => c.id === selectedAnnotation.contextId)?.attributes ?? [])
+    : [];
+  if (!selectedAnnotation || definitions.length === 0) return null;
+
+  const annotation = selectedAnnotation;
+  const attributes = annotation.attributes;
+  const missingKeys = getMissingAttributeKeys(definitions, attributes);
+
+  function setValue(definition: AttributeDefinition, value: AttributeValue | undefined): void {
+    const message = validateAttributeValue(definition, value);
+    setErrors((prev) => {
+      const { [definition.key]: _previous, ...rest } = prev;
+      return message ? { ...rest, [definition.key]: message } : rest;
+    });
+    if (message) return;
+    const { [definition.key]: _current, ...others } = attributes ?? {};
+    const next = value === undefined ? others : { ...others, [definition.key]: value };
+    actions.setAnnotationAttributes(
+      annotation.id,
+      annotation.imageId,
+      Object.keys(next).length > 0 ? next : undefined,
+    );
+  }
+
+  function renderField(definition: AttributeDefinition): ReactNode {
+    const value = attributes?.[definition.key];
+    const fieldStyle: CSSProperties = {
+      ...inputStyle,
+      borderColor: missingKeys.includes(definition.key) ? '#f44336' : '#555',
+    };
+    // Text and number fields are uncontrolled and commit on blur, so
+    // half-typed values are not validated (or recorded in history) per key.
+    // Keying on the stored value resets them after undo or a rejected edit.
+    const fieldKey = `${annotation.id}:${definition.key}:${String(value)}`;
+
+    switch (definition.type) {
+      case 'enum':
+        return (
+          <select
+            data-testid={`attribute-${definition.key}`}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setValue(definition, e.currentTarget.value || undefined)}
+            style={fieldStyle}
+          >
+            <option value="">—</option>
+            {definition.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'boolean':
+        return (
+          <input
+            data-testid={`attribute-${definition.key}`}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValue(definition, e.currentTarget.checked)}
+          />
+        );
+      case 'number':
+        return (
+          <input
+            key={fieldKey}
+            data-testid={`attribute-${definition.key}`}
+            type="number"
+            defaultValue={typeof value === 'number' ? String(value) : ''}
+            min={definition.min}
+            max={definition.max}
+            step={definition.integer ? 1 : 'any'}
+            onBlur={(e) => {
+              const raw = e.currentTarget.value;
+              setValue(definition, raw === '' ? undefined : Number(raw));
+            }}
+            style={{ ...fieldStyle, width: '80px' }}
+          />
+        );
+      case 'text':
+        return (
+          <input
+            key={fieldKey}
+            data-testid={`attribute-${definition.key}`}
+            type="text"
+            defaultValue={typeof value === 'string' ? value : ''}
+            maxLength={definition.maxLength}
+            onBlur={(e) => setValue(definition, e.currentTarget.value || undefined)}
+            style={fieldStyle}
+          />
+        );
+    }
+  }
+
+  return (
+    <div
+      data-testid="attribute-editor"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '8px 12px',
+        background: '#1a1a1a',
+        color: '#fff',
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '13px',
+        ...style,
+      }}
+    >
+      {definitions.map((definition) => (
+        <label
+          key={definition.key}
+          style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}
+        >
+          <span style={{ color: '#aaa' }}>
+            {definition.label ?? definition.key}
+            {definition.required ? ' *' : ''}
+          </span>
+          {renderField(definition)}
+          {errors[definition.key] && (
+            <span style={{ color: '#f44336' }}>{errors[definition.key]}</span>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -6,8 +6,34 @@ export interface FilmstripProps {
   readonly position: 'left' | 'right' | 'bottom';
 }
 
+/** Corner mark: a check once the image's per-image requirements are met */
+function CompletionBadge({ unmet }: { unmet: number }) {
+  return (
+    <span
+      data-testid="filmstrip-completion"
+      title={unmet === 0 ? 'Complete' : `${unmet} unmet`}
+      style={{
+        position: 'absolute',
+        top: '2px',
+        right: '2px',
+        minWidth: '14px',
+        height: '14px',
+        borderRadius: '7px',
+        background: unmet === 0 ? '#4caf50' : '#ff9800',
+        color: '#fff',
+        fontSize: '10px',
+        lineHeight: '14px',
+        textAlign: 'center',
+        fontFamily: 'system-ui, sans-serif',
+      }}
+    >
+      {unmet === 0 ? '✓' : unmet}
+    </span>
+  );
+}
+
 export default function Filmstrip({ images, position }: FilmstripProps) {
-  const { uiState, actions } = useAnnotator();
+  const { uiState, actions, completionStatus } = useAnnotator();
 
   const isAssigned = (imageId: string): boolean => {
     return Object.values(uiState.gridAssignments).some((id) => id === imageId);
@@ -84,6 +110,9 @@ export default function Filmstrip({ images, position }: FilmstripProps) {
                 {image.label ?? image.id}
               </div>
             )}
+            {completionStatus.hasRequirements && completionStatus.byImage[image.id] && (
+              <CompletionBadge unmet={completionStatus.byImage[image.id]!.unmet.length} />
+            )}
           </div>
         );
       })}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import type { ViewLinkMode } from '@osdlabel/viewer-api';
 import { useAnnotator } from '../state/annotator-context.js';
 
 export interface GridControlsProps {
@@ -137,6 +138,79 @@ function TableSelector({
   );
 }
 
+/** Link mode picker and crosshair toggle, plus a toggle per cell while views are linked. */
+function LinkControls() {
+  const { uiState, actions } = useAnnotator();
+  const cellIndices = Array.from({ length: uiState.gridColumns * uiState.gridRows }, (_, i) => i);
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginLeft: '8px' }}>
+      <select
+        data-testid="view-link-mode"
+        value={uiState.viewLinkMode ?? ''}
+        onChange={(e) =>
+          actions.setViewLinkMode((e.currentTarget.value || null) as ViewLinkMode | null)
+        }
+        title="Link views across cells"
+        style={{
+          padding: '3px 6px',
+          background: '#333',
+          color: '#fff',
+          border: '1px solid #444',
+          borderRadius: '4px',
+          fontSize: '12px',
+        }}
+      >
+        <option value="">Unlinked</option>
+        <option value="image">Link: image</option>
+        <option value="relative">Link: relative</option>
+      </select>
+      <button
+        data-testid="linked-crosshair"
+        aria-pressed={uiState.linkedCrosshair}
+        onClick={() => actions.setLinkedCrosshair(!uiState.linkedCrosshair)}
+        title="Echo the pointer as a crosshair in the other cells"
+        style={{
+          padding: '2px 6px',
+          border: '1px solid #444',
+          borderRadius: '4px',
+          background: uiState.linkedCrosshair ? '#2196F3' : '#333',
+          color: '#fff',
+          cursor: 'pointer',
+          fontSize: '12px',
+        }}
+      >
+        Crosshair
+      </button>
+      {uiState.viewLinkMode !== null &&
+        cellIndices.length > 1 &&
+        cellIndices.map((i) => {
+          const linked = !uiState.unlinkedCells.includes(i);
+          return (
+            <button
+              key={i}
+              data-testid={`view-link-cell-${i}`}
+              aria-pressed={linked}
+              onClick={() => actions.toggleCellLink(i)}
+              title={linked ? `Unlink cell ${i + 1}` : `Link cell ${i + 1}`}
+              style={{
+                padding: '2px 6px',
+                border: '1px solid #444',
+                borderRadius: '4px',
+                background: linked ? '#2196F3' : '#333',
+                color: '#fff',
+                cursor: 'pointer',
+                fontSize: '12px',
+              }}
+            >
+              {i + 1}
+            </button>
+          );
+        })}
+    </div>
+  );
+}
+
 export default function GridControls({ maxColumns, maxRows }: GridControlsProps) {
   const { uiState, actions } = useAnnotator();
 
@@ -163,6 +237,7 @@ export default function GridControls({ maxColumns, maxRows }: GridControlsProps)
         currentRows={uiState.gridRows}
         onSelect={changeGrid}
       />
+      <LinkControls />
     </div>
   );
 }
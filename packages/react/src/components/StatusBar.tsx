@@ -8,7 +8,7 @@ export interface StatusBarProps {
 }
 
 export default function StatusBar({ imageId, showFps }: StatusBarProps) {
-  const { uiState, contextState, annotationState } = useAnnotator();
+  const { uiState, contextState, annotationState, completionStatus } = useAnnotator();
 
   const activeContextLabel = (() => {
     if (!contextState.activeContextId) return 'No context';
@@ -29,6 +29,10 @@ export default function StatusBar({ imageId, showFps }: StatusBarProps) {
     return Object.keys(imageAnns).length;
   })();
 
+  const unmetCount =
+    completionStatus.global.unmet.length +
+    Object.values(completionStatus.byImage).reduce((n, r) => n + r.unmet.length, 0);
+
   return (
     <div
       style={{
@@ -52,6 +56,14 @@ export default function StatusBar({ imageId, showFps }: StatusBarProps) {
       <span data-testid="status-count">
         Annotations: <strong style={{ color: '#fff' }}>{totalAnnotationCount}</strong>
       </span>
+      {completionStatus.hasRequirements && (
+        <span data-testid="status-completion">
+          Progress:{' '}
+          <strong style={{ color: completionStatus.complete ? '#4caf50' : '#ff9800' }}>
+            {completionStatus.complete ? 'Complete' : `${unmetCount} unmet`}
+          </strong>
+        </span>
+      )}
       {showFps && <FpsCounter />}
     </div>
   );
@@ -1,30 +1,26 @@
+import { getToolDefinition, type ToolDefinition } from 'osdlabel';
 import { useAnnotator } from '../state/annotator-context.js';
-import type { ToolType } from '@osdlabel/annotation';
-
-const TOOL_LABELS: Record<ToolType, string> = {
-  rectangle: 'Rect',
-  circle: 'Circle',
-  line: 'Line',
-  point: 'Point',
-  polyline: 'Polyline',
-  freeHandPath: 'Free Draw',
-};
 
 export default function Toolbar() {
-  const { uiState, contextState, annotationState, constraintStatus, actions } = useAnnotator();
+  const { uiState, contextState, annotationState, constraintStatus, labelStatus, actions } =
+    useAnnotator();
 
   const activeContext = (() => {
     if (!contextState.activeContextId) return undefined;
     return contextState.contexts.find((c) => c.id === contextState.activeContextId);
   })();
 
-  const allowedTools: ToolType[] = activeContext ? activeContext.tools.map((t) => t.type) : [];
+  // One button per registered tool the active context enables, in the
+  // context's order.
+  const allowedTools: ToolDefinition[] = activeContext
+    ? activeContext.tools.flatMap((t) => getToolDefinition(t.type) ?? [])
+    : [];
 
-  // The currently selected annotation, looked up across the active image's
+  // The single selected annotation, looked up across the active image's
   // annotations. Drives the contextual "Convert to Rect" action.
   const selectedAnnotation = (() => {
-    const id = uiState.selectedAnnotationId;
-    if (!id) return undefined;
+    const [id, ...others] = uiState.selectedAnnotationIds;
+    if (!id || others.length > 0) return undefined;
     const imageId = uiState.gridAssignments[uiState.activeCellIndex];
     if (!imageId) return undefined;
     return annotationState.byImage[imageId]?.[id];
@@ -32,6 +28,9 @@ export default function Toolbar() {
   const showConvertToRect = selectedAnnotation?.geometry.type === 'circle';
   const canConvertToRect = showConvertToRect && constraintStatus.rectangle.enabled;
 
+  const labels = activeContext?.labels ?? [];
+  const activeLabelColor = labels.find((l) => l.id === uiState.activeLabel)?.color ?? 'transparent';
+
   return (
     <div
       style={{
@@ -75,7 +74,8 @@ export default function Toolbar() {
         Select
       </button>
 
-      {allowedTools.map((toolType) => {
+      {allowedTools.map((tool) => {
+        const toolType = tool.type;
         const status = constraintStatus[toolType];
         const isActiveTool = uiState.activeTool === toolType;
         const enabled = status.enabled;
@@ -106,11 +106,64 @@ export default function Toolbar() {
               opacity: enabled ? 1 : 0.5,
             }}
           >
-            {TOOL_LABELS[toolType]} {countLabel}
+            {tool.icon && (
+              <img
+                src={tool.icon}
+                alt=""
+                style={{
+                  width: '14px',
+                  height: '14px',
+                  verticalAlign: 'middle',
+                  marginRight: '4px',
+                }}
+              />
+            )}
+            {tool.label} {countLabel}
           </button>
         );
       })}
 
+      {/* Label picker — the label given to shapes drawn next */}
+      {labels.length > 0 && (
+        <>
+          <span
+            style={{
+              display: 'inline-block',
+              width: '10px',
+              height: '10px',
+              borderRadius: '2px',
+              marginLeft: '8px',
+              background: activeLabelColor,
+            }}
+          />
+          <select
+            data-testid="label-picker"
+            value={uiState.activeLabel ?? ''}
+            onChange={(e) => actions.setActiveLabel(e.currentTarget.value || null)}
+            style={{
+              padding: '3px 6px',
+              background: '#333',
+              color: '#fff',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              fontSize: '13px',
+            }}
+          >
+            <option value="">No label</option>
+            {labels.map((label) => {
+              const status = labelStatus[label.id];
+              return (
+                <option key={label.id} value={label.id} disabled={!(status?.enabled ?? true)}>
+                  {status && status.maxCount !== null
+                    ? `${label.name} ${status.currentCount}/${status.maxCount}`
+                    : label.name}
+                </option>
+              );
+            })}
+          </select>
+        </>
+      )}
+
       {/* Contextual action: convert the selected circle to its bounding rectangle */}
       {showConvertToRect && (
         <button
@@ -265,6 +265,30 @@ export function ViewControls() {
           <path d="m17 9 3 3-3 3" />
         </svg>
       </button>
+      <button
+        type="button"
+        title="Fit to Annotations (Shift+A)"
+        data-testid="view-fit-annotations"
+        disabled={!isActive}
+        onClick={() => actions.fitActiveImageToAnnotations()}
+        style={btnStyle()}
+      >
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M3 7V5a2 2 0 0 1 2-2h2" />
+          <path d="M17 3h2a2 2 0 0 1 2 2v2" />
+          <path d="M21 17v2a2 2 0 0 1-2 2h-2" />
+          <path d="M7 21H5a2 2 0 0 1-2-2v-2" />
+        </svg>
+      </button>
       {showReset && (
         <>
           {sep}
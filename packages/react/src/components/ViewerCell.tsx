@@ -3,17 +3,24 @@ import { createPortal } from 'react-dom';
 import OpenSeadragon from 'openseadragon';
 import { DecorationLayer, FabricOverlay } from '@osdlabel/fabric-osd';
 import type { DomDecorationEntry } from '@osdlabel/fabric-osd';
-import { createFabricObjectFromRawData } from '@osdlabel/fabric-annotations';
 import type { OverlayMode } from '@osdlabel/fabric-osd';
-import type { AnnotationContextId } from '@osdlabel/annotation-context';
 import { DEFAULT_CELL_TRANSFORM } from '@osdlabel/viewer-api';
-import type { ImageSource } from '@osdlabel/viewer-api';
+import type { FocusRequest, ImageId, ImageSource } from '@osdlabel/viewer-api';
 import { openImage } from '@osdlabel/osd-helper';
 import { useAnnotationTool } from '../hooks/useAnnotationTool.js';
 import { useAnnotator } from '../state/annotator-context.js';
 import type { Annotation } from '@osdlabel/annotation';
-import type { OsdFields } from 'osdlabel';
-import { enableLiveDecorationUpdates } from 'osdlabel';
+import type { BoundingBox, OsdFields } from 'osdlabel';
+import {
+  CanvasReconciler,
+  DEFAULT_FOCUS_PADDING,
+  enableLinkedCrosshair,
+  enableLiveDecorationUpdates,
+  enableViewportCulling,
+  getFocusBounds,
+  getLinkedCellIndices,
+  shownAnnotationFilter,
+} from 'osdlabel';
 
 export interface ViewerCellProps {
   readonly imageSource: ImageSource | undefined;
@@ -35,10 +42,14 @@ export default function ViewerCell({
     uiState,
     annotationState,
     contextState,
+    actions,
     testMode,
     decorationProviders,
     defaultPixelSpacing,
     renderDomDecoration,
+    viewLinks,
+    crosshair,
+    spatialIndex,
   } = useAnnotator();
   const containerRef = useRef<HTMLDivElement>(null);
   const viewerRef = useRef<OpenSeadragon.Viewer | undefined>(undefined);
@@ -46,6 +57,54 @@ export default function ViewerCell({
   const decorationLayerRef = useRef<DecorationLayer | undefined>(undefined);
   const [overlay, setOverlay] = useState<FabricOverlay>();
   const [domEntries, setDomEntries] = useState<readonly DomDecorationEntry[]>([]);
+  // The viewport plus a margin, in image px; `undefined` until first measured.
+  const [cullRect, setCullRect] = useState<BoundingBox>();
+  const viewportCullingRef = useRef<ReturnType<typeof enableViewportCulling> | undefined>(
+    undefined,
+  );
+  // The viewer's open handler outlives renders, so it reads the image id here.
+  const imageIdRef = useRef(imageSource?.id);
+  imageIdRef.current = imageSource?.id;
+  // Likewise for the viewer's link handlers.
+  const uiStateRef = useRef(uiState);
+  uiStateRef.current = uiState;
+  const isActiveRef = useRef(isActive);
+  isActiveRef.current = isActive;
+  const annotationStateRef = useRef(annotationState);
+  annotationStateRef.current = annotationState;
+  // The image the viewer has open, and a focus request waiting for it.
+  const openedImageIdRef = useRef<ImageId | undefined>(undefined);
+  const pendingFocusRef = useRef<FocusRequest | undefined>(undefined);
+  const reconcilerRef = useRef<CanvasReconciler | undefined>(undefined);
+
+  /** Moves the other linked cells to this cell's view, while it is the active one. */
+  const leadLinkedViews = () => {
+    const state = uiStateRef.current;
+    const mode = state.viewLinkMode;
+    if (!mode || !isActiveRef.current || state.unlinkedCells.includes(cellIndex)) return;
+    viewLinks.follow(cellIndex, getLinkedCellIndices(state), mode);
+  };
+
+  /**
+   * Fits the view to the requested annotations once their image is open.
+   * Reads refs only, as the viewer's open handler calls it too.
+   */
+  const applyFocus = () => {
+    const request = pendingFocusRef.current;
+    const ov = overlayRef.current;
+    if (!request || !ov || openedImageIdRef.current !== request.imageId) return;
+    pendingFocusRef.current = undefined;
+    const bounds = getFocusBounds(annotationStateRef.current, request);
+    if (!bounds) return;
+    ov.fitImageRect(bounds, DEFAULT_FOCUS_PADDING);
+    // Mirror the selection of a single focused annotation on the canvas.
+    const [id, ...others] = request.annotationIds ?? [];
+    const obj = id && others.length === 0 ? reconcilerRef.current?.getObject(id) : undefined;
+    if (obj?.selectable && uiStateRef.current.activeTool === 'select') {
+      ov.canvas.setActiveObject(obj);
+      ov.canvas.requestRenderAll();
+    }
+  };
 
   // Initialize OSD viewer on mount
   useEffect(() => {
@@ -62,14 +121,32 @@ export default function ViewerCell({
       constrainDuringPan: true,
     });
     viewerRef.current = viewer;
+    const unregisterViewLink = viewLinks.register(cellIndex, viewer);
+    viewer.addHandler('viewport-change', leadLinkedViews);
 
     viewer.addHandler('open', () => {
-      if (!viewerRef.current || overlayRef.current) return;
-      const ov = new FabricOverlay(viewerRef.current, { testMode });
-      overlayRef.current = ov;
-      decorationLayerRef.current = new DecorationLayer(ov);
-      setOverlay(ov);
-      onOverlayReady?.(ov);
+      if (!viewerRef.current) return;
+      // Geometry rules such as `insideImage` need the image's pixel size.
+      const size = viewerRef.current.world.getItemAt(0)?.getContentSize();
+      if (size && imageIdRef.current) {
+        actions.setImageSize(imageIdRef.current, { width: size.x, height: size.y });
+      }
+      // A newly opened linked image joins the active cell's view.
+      const state = uiStateRef.current;
+      const mode = state.viewLinkMode;
+      if (mode && !isActiveRef.current && !state.unlinkedCells.includes(cellIndex)) {
+        viewLinks.follow(state.activeCellIndex, [cellIndex], mode);
+      }
+      viewportCullingRef.current?.refresh();
+      openedImageIdRef.current = imageIdRef.current;
+      if (!overlayRef.current) {
+        const ov = new FabricOverlay(viewerRef.current, { testMode });
+        overlayRef.current = ov;
+        decorationLayerRef.current = new DecorationLayer(ov);
+        setOverlay(ov);
+        onOverlayReady?.(ov);
+      }
+      applyFocus();
     });
 
     // Open initial image if provided
@@ -78,6 +155,7 @@ export default function ViewerCell({
     }
 
     return () => {
+      unregisterViewLink();
       decorationLayerRef.current?.destroy();
       decorationLayerRef.current = undefined;
       overlayRef.current?.destroy();
@@ -94,6 +172,7 @@ export default function ViewerCell({
     const url = imageSource?.tileSource;
     if (url !== prevTileSourceRef.current && viewerRef.current) {
       viewerRef.current.close();
+      openedImageIdRef.current = undefined;
       if (imageSource) {
         openImage(viewerRef.current, imageSource);
       }
@@ -109,6 +188,12 @@ export default function ViewerCell({
     overlay.applyImageFilters(cellTransform.exposure, cellTransform.inverted);
   }, [overlay, imageSource?.id, cellIndex, uiState.cellTransforms]);
 
+  // Bring the linked cells in line when linking starts, a cell joins, or
+  // another cell becomes the active one.
+  useEffect(() => {
+    if (isActive) leadLinkedViews();
+  }, [isActive, uiState.viewLinkMode, uiState.unlinkedCells]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Annotation tool hook
   useAnnotationTool(overlay, imageSource?.id, isActive);
 
@@ -118,66 +203,88 @@ export default function ViewerCell({
   // or effects below.
   const currentImageAnns = imageSource?.id ? annotationState.byImage[imageSource.id] : undefined;
 
+  // Only annotations near the viewport are materialized. The cull rect moves
+  // as the user pans and zooms, and is measured again for each opened image.
+  useEffect(() => {
+    if (!overlay) return;
+    const culling = enableViewportCulling({ overlay, onChange: setCullRect });
+    viewportCullingRef.current = culling;
+    return () => {
+      culling.destroy();
+      viewportCullingRef.current = undefined;
+    };
+  }, [overlay]);
+
+  // Read through a ref so a selection change alone does not reload the canvas.
+  const selectedIdsRef = useRef(uiState.selectedAnnotationIds);
+  selectedIdsRef.current = uiState.selectedAnnotationIds;
+
   // Visible annotations for the current cell — shared by the annotation
-  // sync effect (Fabric objects) and the decoration sync effect.
+  // sync effect (Fabric objects) and the decoration sync effect. Selected
+  // annotations are kept even when culled, so panning away does not drop
+  // the selection.
   const visibleAnnotations: readonly Annotation<OsdFields>[] = useMemo(() => {
-    if (!currentImageAnns) return [];
-    const activeContextId = contextState.activeContextId;
-    const displayedIds = contextState.displayedContextIds;
-    const visibleSet = new Set<AnnotationContextId>(displayedIds);
-    if (activeContextId) visibleSet.add(activeContextId);
-    return visibleSet.size > 0
-      ? Object.values(currentImageAnns).filter((a) => visibleSet.has(a.contextId))
-      : Object.values(currentImageAnns);
-  }, [currentImageAnns, contextState.activeContextId, contextState.displayedContextIds]);
-
-  // Sync annotations to canvas
-  useEffect(() => {
-    if (!overlay || !imageSource?.id) return;
+    if (!currentImageAnns || !imageSource?.id) return [];
+    let candidates = Object.values(currentImageAnns);
+    if (cullRect) {
+      const inView = spatialIndex.queryRect(imageSource.id, cullRect);
+      const ids = new Set(inView.map((a) => a.id));
+      const selected = selectedIdsRef.current.flatMap((id) => {
+        const ann = currentImageAnns[id];
+        return ann && !ids.has(id) ? [ann] : [];
+      });
+      candidates = [...inView, ...selected];
+    }
+    return candidates.filter(shownAnnotationFilter(contextState));
+  }, [
+    currentImageAnns,
+    imageSource?.id,
+    contextState.activeContextId,
+    contextState.displayedContextIds,
+    cullRect,
+    spatialIndex,
+  ]);
 
-    const imageId = imageSource.id;
-    const activeContextId = contextState.activeContextId;
-    const matching = visibleAnnotations;
-
-    // Clear existing annotation objects
-    const toRemove = overlay.canvas.getObjects().filter((obj) => obj.id);
-    if (toRemove.length > 0) overlay.canvas.remove(...toRemove);
-
-    const capturedImageId = imageId;
-    void (async () => {
-      if (imageSource?.id !== capturedImageId) return;
-
-      const promises = matching.map(async (ann) => {
-        const obj = await createFabricObjectFromRawData(ann);
-        if (obj) {
-          const isActiveCtx = ann.contextId === activeContextId;
-          obj._readOnly = !isActiveCtx;
-          obj.set({
-            selectable: isActiveCtx,
-            evented: isActiveCtx,
-          });
+  // Sync annotations to canvas. The reconciler only touches objects whose
+  // annotation was added, removed, edited or restyled.
+  const reconciler = useMemo(
+    () => (overlay ? new CanvasReconciler(overlay.canvas) : undefined),
+    [overlay],
+  );
+  reconcilerRef.current = reconciler;
+  useEffect(() => {
+    if (!reconciler || !imageSource?.id) return;
+    void reconciler
+      .reconcile({
+        annotations: visibleAnnotations,
+        contexts: contextState.contexts,
+        activeContextId: contextState.activeContextId,
+        stackingOrder: uiState.stackingOrder,
+      })
+      .then((applied) => {
+        if (applied && containerRef.current) {
+          containerRef.current.dataset.annotationCount = String(reconciler.size);
         }
-        return obj;
       });
-      const objects = await Promise.all(promises);
-      const validObjects = objects.filter((obj) => obj !== null);
-      if (validObjects.length > 0) {
-        overlay.canvas.add(...validObjects);
-      }
-      if (containerRef.current) {
-        containerRef.current.dataset.annotationCount = String(validObjects.length);
-      }
-      overlay.canvas.requestRenderAll();
-    })();
   }, [
-    overlay,
+    reconciler,
     imageSource?.id,
     contextState.activeContextId,
-    contextState.displayedContextIds,
-    isActive,
+    contextState.contexts,
+    uiState.stackingOrder,
     visibleAnnotations,
   ]);
 
+  // Fit the view to annotations picked elsewhere, such as in an annotation
+  // list, or to all of them, once their image is open in this cell.
+  useEffect(() => {
+    const request = uiState.focusRequest;
+    if (!request || request.cellIndex !== cellIndex) return;
+    if (request.imageId !== imageSource?.id) return;
+    pendingFocusRef.current = request;
+    applyFocus();
+  }, [uiState.focusRequest]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Sync decorations to overlay (pure derivation of visible annotations +
   // pixelSpacing + providers).
   useEffect(() => {
@@ -188,8 +295,8 @@ export default function ViewerCell({
       return;
     }
     const pixelSpacing = imageSource?.pixelSpacing ?? defaultPixelSpacing;
-    const selectedAnnotationId = uiState.selectedAnnotationId;
-    const ctx = { annotations: visibleAnnotations, pixelSpacing, selectedAnnotationId };
+    const selectedAnnotationIds = uiState.selectedAnnotationIds;
+    const ctx = { annotations: visibleAnnotations, pixelSpacing, selectedAnnotationIds };
     const decorations = decorationProviders.flatMap((p) => p(ctx));
     layer.setDecorations(decorations);
   }, [
@@ -197,7 +304,7 @@ export default function ViewerCell({
     visibleAnnotations,
     defaultPixelSpacing,
     imageSource?.pixelSpacing,
-    uiState.selectedAnnotationId,
+    uiState.selectedAnnotationIds,
     decorationProviders,
   ]);
 
@@ -209,8 +316,6 @@ export default function ViewerCell({
   decorationProvidersRef.current = decorationProviders;
   const pixelSpacingRef = useRef<typeof defaultPixelSpacing>(undefined);
   pixelSpacingRef.current = imageSource?.pixelSpacing ?? defaultPixelSpacing;
-  const selectedIdRef = useRef(uiState.selectedAnnotationId);
-  selectedIdRef.current = uiState.selectedAnnotationId;
   useEffect(() => {
     const layer = decorationLayerRef.current;
     if (!overlay || !layer) return;
@@ -218,12 +323,41 @@ export default function ViewerCell({
       overlay,
       getVisibleAnnotations: () => visibleAnnotationsRef.current,
       getPixelSpacing: () => pixelSpacingRef.current,
-      getSelectedAnnotationId: () => selectedIdRef.current,
+      getSelectedAnnotationIds: () => selectedIdsRef.current,
       getProviders: () => decorationProvidersRef.current ?? [],
       onDecorations: (decorations) => layer.setDecorations(decorations),
     });
   }, [overlay]);
 
+  // Echo the pointer of the other cells as a crosshair, mapped onto this
+  // cell's image through the registrations. Accessors read the refs above.
+  const linkedCrosshairRef = useRef<ReturnType<typeof enableLinkedCrosshair> | undefined>(
+    undefined,
+  );
+  useEffect(() => {
+    if (!overlay) return;
+    const linked = enableLinkedCrosshair({
+      overlay,
+      link: crosshair,
+      cellIndex,
+      isEnabled: () => uiStateRef.current.linkedCrosshair,
+      getImageId: () => imageIdRef.current,
+      getImageSize: () => {
+        const imageId = imageIdRef.current;
+        return imageId ? uiStateRef.current.imageSizes[imageId] : undefined;
+      },
+      getRegistrations: () => uiStateRef.current.registrations,
+    });
+    linkedCrosshairRef.current = linked;
+    return () => {
+      linked.destroy();
+      linkedCrosshairRef.current = undefined;
+    };
+  }, [overlay, crosshair, cellIndex]);
+  useEffect(() => {
+    linkedCrosshairRef.current?.refresh();
+  }, [uiState.linkedCrosshair, imageSource?.id, uiState.registrations]);
+
   // Track DOM-decoration roots created by the layer. The subscription fires on
   // membership change only; content is rendered via portals into the stable
   // div the layer owns and positions.
@@ -6,6 +6,10 @@ export { default as GridView } from './GridView.js';
 export { default as StatusBar } from './StatusBar.js';
 export { default as Toolbar } from './Toolbar.js';
 export { default as ContextSwitcher } from './ContextSwitcher.js';
+export { default as AttributeEditor } from './AttributeEditor.js';
+export type { AttributeEditorProps } from './AttributeEditor.js';
+export { default as AnnotationList } from './AnnotationList.js';
+export type { AnnotationListProps } from './AnnotationList.js';
 export { default as ViewerCell } from './ViewerCell.js';
 export { ViewControls } from './ViewControls.js';
 export { default as FpsCounter } from './FpsCounter.js';
@@ -11,7 +11,10 @@ import {
   getScenePointFromEvent,
   processToolAddAnnotation,
   processToolUpdateAnnotation,
-  processObjectModified,
+  processObjectsModified,
+  resolveToolConstraint,
+  restoreFabricObjects,
+  shownAnnotationFilter,
 } from 'osdlabel';
 import type { ToolCallbacks } from '@osdlabel/fabric-annotations';
 import { useAnnotator } from '../state/annotator-context.js';
@@ -37,13 +40,14 @@ export function useAnnotationTool(
     activeToolKeyHandlerRef,
     shortcuts,
     vertexEditConfig,
+    spatialIndex,
   } = useAnnotator();
 
   // Auto-switch to select tool when active drawing tool becomes disabled
   useEffect(() => {
     const tool = uiState.activeTool;
     if (tool && tool !== 'select') {
-      if (!constraintStatus[tool as ToolType].enabled) {
+      if (!constraintStatus[tool as ToolType]?.enabled) {
         actions.setActiveTool('select');
       }
     }
@@ -58,19 +62,43 @@ export function useAnnotationTool(
   constraintStatusRef.current = constraintStatus;
   const uiStateRef = useRef(uiState);
   uiStateRef.current = uiState;
+  const spatialIndexRef = useRef(spatialIndex);
+  spatialIndexRef.current = spatialIndex;
+
+  /** Rebuilds the canvas objects of `refs` from the annotations as stored. */
+  function restoreStored(
+    ov: FabricOverlay,
+    imgId: ImageId,
+    refs: readonly { readonly id: AnnotationId }[],
+  ): void {
+    const stored = refs.flatMap(({ id }) => {
+      const annotation = annotationStateRef.current.byImage[imgId]?.[id];
+      return annotation ? [annotation] : [];
+    });
+    void restoreFabricObjects(ov.canvas, stored, contextStateRef.current.contexts);
+  }
 
   // Handle object:modified events
   useEffect(() => {
     if (!overlay || !imageId) return;
 
+    // A group transform (ActiveSelection) commits all members as one change.
     const handleObjectModified = (e: { target: FabricObject }) => {
-      const result = processObjectModified(e.target, annotationStateRef.current, imageId);
-      if (result) {
-        actions.updateAnnotation(result.id, imageId, {
-          geometry: result.geometry!,
-          rawAnnotationData: result.rawAnnotationData,
-        });
-      }
+      const updates = processObjectsModified(e.target, annotationStateRef.current, imageId).map(
+        (result) => ({
+          id: result.id,
+          imageId: imageId,
+          patch: { geometry: result.geometry!, rawAnnotationData: result.rawAnnotationData },
+        }),
+      );
+      // Edits within one vertex-edit session undo as one step.
+      const coalesceKey = e.target._editSession;
+      const accepted =
+        updates.length === 1
+          ? actions.updateAnnotation(updates[0]!.id, imageId, updates[0]!.patch, coalesceKey)
+          : actions.updateAnnotations(updates, coalesceKey);
+      // The geometry rules rejected the change, so put the objects back.
+      if (!accepted) restoreStored(overlay, imageId, updates);
     };
 
     overlay.canvas.on('object:modified', handleObjectModified);
@@ -131,15 +159,20 @@ export function useAnnotationTool(
         const activeContextId = cs.activeContextId;
         if (!activeContextId) return undefined;
         const activeContext = cs.contexts.find((c) => c.id === activeContextId);
-        return activeContext?.tools.find((t) => t.type === toolType);
+        return activeContext ? resolveToolConstraint(activeContext, toolType) : undefined;
       },
       canAddAnnotation: (toolType: ToolType) => {
-        return constraintStatusRef.current[toolType].enabled;
+        return constraintStatusRef.current[toolType]?.enabled ?? false;
       },
       addAnnotation: (params: AddAnnotationParams) => {
-        const processed = processToolAddAnnotation(params);
+        // Shapes drawn while a label is active get that label.
+        const label = params.label ?? uiStateRef.current.activeLabel ?? undefined;
+        const processed = processToolAddAnnotation(
+          label !== undefined ? { ...params, label } : params,
+        );
         if (!processed) return;
-        actions.addAnnotation(processed);
+        // A rejected shape would otherwise stay on the canvas as drawn.
+        if (!actions.addAnnotation(processed)) overlay.canvas.remove(params.fabricObject);
       },
       updateAnnotation: (id: AnnotationId, imageIdArg: ImageId, fabricObject: FabricObject) => {
         const patch = processToolUpdateAnnotation(
@@ -149,14 +182,22 @@ export function useAnnotationTool(
           annotationStateRef.current,
         );
         if (!patch) return;
-        actions.updateAnnotation(id, imageIdArg, patch);
+        if (!actions.updateAnnotation(id, imageIdArg, patch)) {
+          restoreStored(overlay, imageIdArg, [{ id }]);
+        }
       },
       deleteAnnotation: (id, imageIdArg) => actions.deleteAnnotation(id, imageIdArg),
-      setSelectedAnnotation: (id) => actions.setSelectedAnnotation(id),
+      deleteAnnotations: (ids, imageIdArg) => actions.deleteAnnotations(ids, imageIdArg),
+      setSelectedAnnotations: (ids) => actions.setSelectedAnnotations(ids),
       getAnnotation: (id, imageIdArg) => {
         const imageAnns = annotationStateRef.current.byImage[imageIdArg];
         return imageAnns?.[id];
       },
+      getSnapSettings: () => uiStateRef.current.snapping,
+      getSnapTargets: (imageIdArg, region) =>
+        spatialIndexRef.current
+          .queryRect(imageIdArg, region)
+          .filter(shownAnnotationFilter(contextStateRef.current)),
     };
 
     overlay.setMode('annotation');
@@ -5,11 +5,11 @@ export function useConstraints() {
   const { constraintStatus } = useAnnotator();
 
   const isToolEnabled = (type: ToolType): boolean => {
-    return constraintStatus[type].enabled;
+    return constraintStatus[type]?.enabled ?? false;
   };
 
   const canAddAnnotation = (type: ToolType): boolean => {
-    return constraintStatus[type].enabled;
+    return constraintStatus[type]?.enabled ?? false;
   };
 
   return { isToolEnabled, canAddAnnotation };
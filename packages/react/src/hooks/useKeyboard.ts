@@ -1,8 +1,21 @@
 import { useEffect, useCallback } from 'react';
+import type { AnnotationId } from '@osdlabel/annotation';
 import type { KeyboardShortcutMap, ImageId, UIState } from '@osdlabel/viewer-api';
-import type { ConstraintStatus } from '@osdlabel/annotation-context';
-import { mapKeyEventToActions, DEFAULT_KEYBOARD_SHORTCUTS, MAX_GRID_SIZE } from 'osdlabel';
-import type { AnnotationAction, UIAction } from 'osdlabel';
+import type { ConstraintStatus, LabelDefinition } from '@osdlabel/annotation-context';
+import {
+  mapKeyEventToActions,
+  isEditableTarget,
+  DEFAULT_KEYBOARD_SHORTCUTS,
+  MAX_GRID_SIZE,
+} from 'osdlabel';
+import type {
+  AnnotationAction,
+  ClipboardAction,
+  HistoryAction,
+  OsdAnnotation,
+  UIAction,
+  ZOrderAction,
+} from 'osdlabel';
 import type { ActiveToolKeyHandlerRef } from '../state/annotator-context.js';
 import type { createActions } from '../state/actions.js';
 
@@ -16,16 +29,13 @@ export function useKeyboard(
   activeImageId: ImageId | undefined,
   constraintStatus: ConstraintStatus,
   shouldSkipTargetPredicate?: (target: HTMLElement) => boolean,
+  labels?: readonly LabelDefinition[],
+  annotations?: Readonly<Record<AnnotationId, OsdAnnotation>>,
 ) {
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (
-        target.tagName === 'INPUT' ||
-        target.tagName === 'TEXTAREA' ||
-        target.isContentEditable ||
-        shouldSkipTargetPredicate?.(target)
-      ) {
+      // Leave typing, and native copy / paste, in text fields alone
+      if (isEditableTarget(e.target) || shouldSkipTargetPredicate?.(e.target as HTMLElement)) {
         return;
       }
 
@@ -43,15 +53,24 @@ export function useKeyboard(
           activeCellIndex: uiState.activeCellIndex,
           gridColumns: uiState.gridColumns,
           gridRows: uiState.gridRows,
-          selectedAnnotationId: uiState.selectedAnnotationId,
+          selectedAnnotationIds: uiState.selectedAnnotationIds,
           activeImageId,
+          annotations,
+          labels,
+          activeLabel: uiState.activeLabel,
+          hasClipboard: actions.hasClipboard(),
         },
         constraintStatus,
+        e.ctrlKey || e.metaKey,
       );
 
+      let ran = false;
       for (const action of mappedActions) {
-        dispatchAction(actions, action);
+        if (dispatchAction(actions, action)) ran = true;
       }
+      // Keep the browser from also acting on Ctrl/Cmd shortcuts that did
+      // something (Ctrl+D bookmarks the page); the rest are left to it.
+      if ((e.ctrlKey || e.metaKey) && ran) e.preventDefault();
     },
     [
       shortcuts,
@@ -61,6 +80,8 @@ export function useKeyboard(
       activeImageId,
       constraintStatus,
       shouldSkipTargetPredicate,
+      labels,
+      annotations,
     ],
   );
 
@@ -74,17 +95,20 @@ export function useKeyboard(
 
 function dispatchAction(
   actions: ReturnType<typeof createActions>,
-  action: UIAction | AnnotationAction,
-): void {
+  action: UIAction | AnnotationAction | HistoryAction | ClipboardAction | ZOrderAction,
+): boolean {
   switch (action.type) {
     case 'SET_ACTIVE_TOOL':
       actions.setActiveTool(action.payload);
       break;
+    case 'SET_ACTIVE_LABEL':
+      actions.setActiveLabel(action.payload);
+      break;
     case 'SET_ACTIVE_CELL':
       actions.setActiveCell(action.payload);
       break;
-    case 'SET_SELECTED_ANNOTATION':
-      actions.setSelectedAnnotation(action.payload);
+    case 'SET_SELECTED_ANNOTATIONS':
+      actions.setSelectedAnnotations(action.payload);
       break;
     case 'SET_GRID_DIMENSIONS':
       actions.setGridDimensions(action.payload.columns, action.payload.rows);
@@ -113,10 +137,43 @@ function dispatchAction(
     case 'RESET_VIEW':
       actions.resetActiveImageView();
       break;
+    case 'FIT_ALL_ANNOTATIONS':
+      actions.fitActiveImageToAnnotations();
+      break;
     case 'DELETE_ANNOTATION':
       actions.deleteAnnotation(action.payload.id, action.payload.imageId);
       break;
+    case 'DELETE_ANNOTATIONS': {
+      const imageId = action.payload[0]?.imageId;
+      if (imageId) {
+        actions.deleteAnnotations(
+          action.payload.map((ref) => ref.id),
+          imageId,
+        );
+      }
+      break;
+    }
+    case 'UNDO':
+      if (!actions.canUndo()) return false;
+      actions.undo();
+      break;
+    case 'REDO':
+      if (!actions.canRedo()) return false;
+      actions.redo();
+      break;
+    case 'COPY':
+      return actions.copySelected();
+    case 'CUT':
+      return actions.cutSelected();
+    case 'PASTE':
+      return actions.paste().length > 0;
+    case 'DUPLICATE':
+      return actions.duplicateSelected().length > 0;
+    case 'REORDER_ANNOTATIONS':
+      actions.reorderAnnotations(action.payload.ids, action.payload.imageId, action.payload.move);
+      break;
     default:
       break;
   }
+  return true;
 }
@@ -14,6 +14,10 @@ export { default as ViewerCell } from './components/ViewerCell.js';
 export { default as Toolbar } from './components/Toolbar.js';
 export { default as StatusBar } from './components/StatusBar.js';
 export { default as ContextSwitcher } from './components/ContextSwitcher.js';
+export { default as AttributeEditor } from './components/AttributeEditor.js';
+export type { AttributeEditorProps } from './components/AttributeEditor.js';
+export { default as AnnotationList } from './components/AnnotationList.js';
+export type { AnnotationListProps } from './components/AnnotationList.js';
 export { default as GridView } from './components/GridView.js';
 export { default as Filmstrip } from './components/Filmstrip.js';
 export { default as GridControls } from './components/GridControls.js';
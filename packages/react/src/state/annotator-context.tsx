@@ -5,6 +5,7 @@ import {
   useMemo,
   useEffect,
   useRef,
+  useState,
   type ReactNode,
 } from 'react';
 import { castDraft, produce } from 'immer';
@@ -17,19 +18,39 @@ import type {
   UIState,
 } from '@osdlabel/viewer-api';
 import { getAllAnnotationsFlat } from '@osdlabel/viewer-api';
-import type { ConstraintStatus, ContextState } from '@osdlabel/annotation-context';
+import type {
+  CompletionStatus,
+  ConstraintStatus,
+  ContextState,
+  GeometryViolationReport,
+  LabelStatus,
+  MissingAttributes,
+} from '@osdlabel/annotation-context';
 import type { DecorationProvider, DomDecoration } from '@osdlabel/decoration';
-import type { OsdAnnotation, OsdFields, VertexEditConfig } from 'osdlabel';
+import { ViewLinkGroup } from '@osdlabel/osd-helper';
+import type { HistoryState, OsdAnnotation, OsdFields, VertexEditConfig } from 'osdlabel';
 import {
+  AnnotationSpatialIndex,
+  CrosshairLink,
   DEFAULT_KEYBOARD_SHORTCUTS,
   DEFAULT_VERTEX_EDIT_LONG_PRESS_MS,
   DEFAULT_VERTEX_EDIT_MOVE_TOLERANCE_PX,
   createInitialAnnotationState,
   createInitialUIState,
   createInitialContextState,
+  createInitialHistoryState,
   computeConstraintStatus,
+  computeLabelStatus,
+  computeCompletionStatus,
+  findMissingAttributes,
 } from 'osdlabel';
-import { annotationReducer, uiReducer, contextReducer } from './reducer.js';
+import {
+  annotationReducer,
+  uiReducer,
+  contextReducer,
+  historyReducer,
+  createRefDispatch,
+} from './reducer.js';
 import { createActions } from './actions.js';
 import { useKeyboard } from '../hooks/useKeyboard.js';
 
@@ -41,7 +62,13 @@ interface AnnotatorContextValue {
   annotationState: AnnotationState<OsdFields>;
   uiState: UIState;
   contextState: ContextState;
+  historyState: HistoryState;
   constraintStatus: ConstraintStatus;
+  /** Per label of the active context, keyed by label id. */
+  labelStatus: LabelStatus;
+  /** Annotations in the active context with required attributes left empty. */
+  missingAttributes: readonly MissingAttributes[];
+  completionStatus: CompletionStatus;
   actions: ReturnType<typeof createActions>;
   activeToolKeyHandlerRef: ActiveToolKeyHandlerRef;
   shortcuts: KeyboardShortcutMap;
@@ -51,6 +78,12 @@ interface AnnotatorContextValue {
   decorationProviders: readonly DecorationProvider<OsdFields>[];
   defaultPixelSpacing: PixelSpacing | undefined;
   renderDomDecoration: ((decoration: DomDecoration) => ReactNode) | undefined;
+  /** The grid's viewers, which follow the active cell while views are linked. */
+  viewLinks: ViewLinkGroup;
+  /** Carries the pointer between cells for the linked crosshair. */
+  crosshair: CrosshairLink;
+  /** Annotation bounding boxes per image; a new index for every annotation change. */
+  spatialIndex: AnnotationSpatialIndex<OsdFields>;
 }
 
 const AnnotatorContext = createContext<AnnotatorContextValue | null>(null);
@@ -60,6 +93,19 @@ export interface AnnotatorProviderProps {
   readonly initialAnnotations?: Record<ImageId, Record<AnnotationId, OsdAnnotation>> | undefined;
   readonly onAnnotationsChange?: ((annotations: OsdAnnotation[]) => void) | undefined;
   readonly onConstraintChange?: ((status: ConstraintStatus) => void) | undefined;
+  /** Called with the completion status on mount and whenever it changes */
+  readonly onCompletionChange?: ((status: CompletionStatus) => void) | undefined;
+  /**
+   * Called when an added or modified annotation breaks its tool's
+   * `geometryRules`, with what was broken and whether the change was
+   * rejected, clamped or kept.
+   */
+  readonly onGeometryViolation?: ((report: GeometryViolationReport) => void) | undefined;
+  /**
+   * Images whose per-image requirements (`minCount`) completion checks.
+   * Defaults to the images that have annotations or are shown in the grid.
+   */
+  readonly imageIds?: readonly ImageId[] | undefined;
   readonly keyboardShortcuts?: Partial<KeyboardShortcutMap> | undefined;
   /**
    * Long-press duration (ms) to enter polygon/polyline vertex-edit mode.
@@ -95,6 +141,9 @@ export function AnnotatorProvider({
   initialAnnotations,
   onAnnotationsChange,
   onConstraintChange,
+  onCompletionChange,
+  onGeometryViolation,
+  imageIds,
   keyboardShortcuts,
   vertexEditLongPressMs,
   vertexEditMoveTolerancePx,
@@ -104,7 +153,11 @@ export function AnnotatorProvider({
   defaultPixelSpacing,
   renderDomDecoration,
 }: AnnotatorProviderProps) {
-  const [annotationState, dispatchAnnotation] = useReducer(annotationReducer, undefined, () => {
+  // Annotation state and history live in refs that each dispatch updates at
+  // once, so actions read the latest state even when several run before
+  // React re-renders (e.g. a held Ctrl+Z, or two edits in one handler); the
+  // state copies only drive rendering.
+  const [annotationState, setAnnotationState] = useState(() => {
     const initial = createInitialAnnotationState();
     if (initialAnnotations) {
       return produce(initial, (draft) => {
@@ -116,20 +169,31 @@ export function AnnotatorProvider({
     }
     return initial;
   });
+  const annotationStateRef = useRef(annotationState);
+  const dispatchAnnotation = useMemo(
+    () => createRefDispatch(annotationStateRef, annotationReducer, setAnnotationState),
+    [],
+  );
   const [uiState, dispatchUI] = useReducer(uiReducer, undefined, createInitialUIState);
   const [contextState, dispatchContext] = useReducer(
     contextReducer,
     undefined,
     createInitialContextState,
   );
+  const historyStateRef = useRef(createInitialHistoryState());
+  const [historyState, setHistoryState] = useState(historyStateRef.current);
+  const dispatchHistory = useMemo(
+    () => createRefDispatch(historyStateRef, historyReducer, setHistoryState),
+    [],
+  );
 
   // Refs for current state (needed to avoid stale closures in actions)
   const contextStateRef = useRef(contextState);
   contextStateRef.current = contextState;
   const uiStateRef = useRef(uiState);
   uiStateRef.current = uiState;
-  const annotationStateRef = useRef(annotationState);
-  annotationStateRef.current = annotationState;
+  const onGeometryViolationRef = useRef(onGeometryViolation);
+  onGeometryViolationRef.current = onGeometryViolation;
 
   const actions = useMemo(
     () =>
@@ -140,6 +204,9 @@ export function AnnotatorProvider({
         () => contextStateRef.current,
         () => uiStateRef.current,
         () => annotationStateRef.current,
+        dispatchHistory,
+        () => historyStateRef.current,
+        (report) => onGeometryViolationRef.current?.(report),
       ),
     [],
   );
@@ -150,10 +217,37 @@ export function AnnotatorProvider({
   );
 
   const constraintStatus = useMemo(
-    () => computeConstraintStatus(contextState, annotationState, activeImageId),
+    () =>
+      computeConstraintStatus(contextState, annotationState, activeImageId, uiState.activeLabel),
+    [contextState, annotationState, activeImageId, uiState.activeLabel],
+  );
+
+  const labelStatus = useMemo(
+    () => computeLabelStatus(contextState, annotationState, activeImageId),
     [contextState, annotationState, activeImageId],
   );
 
+  const missingAttributes = useMemo(
+    () => findMissingAttributes(contextState, annotationState),
+    [contextState, annotationState],
+  );
+
+  const completionImageIds = useMemo(
+    () =>
+      imageIds ?? [
+        ...new Set([
+          ...(Object.keys(annotationState.byImage) as ImageId[]),
+          ...Object.values(uiState.gridAssignments),
+        ]),
+      ],
+    [imageIds, annotationState.byImage, uiState.gridAssignments],
+  );
+
+  const completionStatus = useMemo(
+    () => computeCompletionStatus(contextState, annotationState, completionImageIds),
+    [contextState, annotationState, completionImageIds],
+  );
+
   const activeToolKeyHandlerRef = useRef<ActiveToolKeyHandlerRef>({ handler: null }).current;
   const mergedShortcuts = useMemo(
     () => ({ ...DEFAULT_KEYBOARD_SHORTCUTS, ...keyboardShortcuts }),
@@ -187,6 +281,19 @@ export function AnnotatorProvider({
     onConstraintChange?.(constraintStatus);
   }, [constraintStatus]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  const activeLabels = useMemo(
+    () => contextState.contexts.find((c) => c.id === contextState.activeContextId)?.labels,
+    [contextState],
+  );
+
+  // Fire onCompletionChange with the initial status too, so a host can gate
+  // e.g. a Submit button from the start.
+  const onCompletionChangeRef = useRef(onCompletionChange);
+  onCompletionChangeRef.current = onCompletionChange;
+  useEffect(() => {
+    onCompletionChangeRef.current?.(completionStatus);
+  }, [completionStatus]);
+
   // Keyboard handler
   useKeyboard(
     mergedShortcuts,
@@ -196,16 +303,35 @@ export function AnnotatorProvider({
     activeImageId,
     constraintStatus,
     shouldSkipKeyboardShortcutPredicate,
+    activeLabels,
+    activeImageId ? annotationState.byImage[activeImageId] : undefined,
   );
 
   const stableDecorationProviders = useMemo(() => decorationProviders ?? [], [decorationProviders]);
+  const viewLinks = useRef(new ViewLinkGroup()).current;
+  const crosshair = useRef(new CrosshairLink()).current;
+  // A new index per annotation state, so rendering never changes one that an
+  // earlier render handed out. Building from the last committed index only
+  // saves re-indexing unchanged images; any index gives the same result.
+  const committedSpatialIndex = useRef(new AnnotationSpatialIndex<OsdFields>());
+  const spatialIndex = useMemo(
+    () => committedSpatialIndex.current.withState(annotationState),
+    [annotationState],
+  );
+  useEffect(() => {
+    committedSpatialIndex.current = spatialIndex;
+  }, [spatialIndex]);
 
   const value = useMemo<AnnotatorContextValue>(
     () => ({
       annotationState,
       uiState,
       contextState,
+      historyState,
       constraintStatus,
+      labelStatus,
+      missingAttributes,
+      completionStatus,
       actions,
       activeToolKeyHandlerRef,
       shortcuts: mergedShortcuts,
@@ -215,12 +341,19 @@ export function AnnotatorProvider({
       decorationProviders: stableDecorationProviders,
       defaultPixelSpacing,
       renderDomDecoration,
+      viewLinks,
+      crosshair,
+      spatialIndex,
     }),
     [
       annotationState,
       uiState,
       contextState,
+      historyState,
       constraintStatus,
+      labelStatus,
+      missingAttributes,
+      completionStatus,
       actions,
       activeToolKeyHandlerRef,
       mergedShortcuts,
@@ -230,6 +363,9 @@ export function AnnotatorProvider({
       stableDecorationProviders,
       defaultPixelSpacing,
       renderDomDecoration,
+      viewLinks,
+      crosshair,
+      spatialIndex,
     ],
   );
 
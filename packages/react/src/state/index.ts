@@ -1,4 +1,4 @@
-export { annotationReducer, uiReducer, contextReducer } from './reducer.js';
+export { annotationReducer, uiReducer, contextReducer, historyReducer } from './reducer.js';
 export { createActions } from './actions.js';
 export { AnnotatorProvider, useAnnotator } from './annotator-context.js';
 export type { AnnotatorProviderProps, ActiveToolKeyHandlerRef } from './annotator-context.js';
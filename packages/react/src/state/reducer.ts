@@ -2,8 +2,19 @@ import { produce } from 'immer';
 import type { AnnotationState, UIState } from '@osdlabel/viewer-api';
 import type { ContextState } from '@osdlabel/annotation-context';
 import type { OsdFields } from 'osdlabel';
-import { applyAnnotationAction, applyUIAction, applyContextAction } from 'osdlabel';
-import type { AnnotationAction, UIAction, ContextAction } from 'osdlabel';
+import {
+  applyAnnotationAction,
+  applyUIAction,
+  applyContextAction,
+  applyHistoryAction,
+} from 'osdlabel';
+import type {
+  AnnotationAction,
+  UIAction,
+  ContextAction,
+  HistoryAction,
+  HistoryState,
+} from 'osdlabel';
 
 export function annotationReducer(
   state: AnnotationState<OsdFields>,
@@ -19,3 +30,25 @@ export function uiReducer(state: UIState, action: UIAction): UIState {
 export function contextReducer(state: ContextState, action: ContextAction): ContextState {
   return produce(state, (draft) => applyContextAction(draft, action));
 }
+
+export function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  return produce(state, (draft) => applyHistoryAction(draft, action));
+}
+
+/**
+ * A dispatch that runs `reducer` on `ref.current`, stores the result there
+ * at once and hands it to `setState` for rendering. Actions that read the
+ * ref see every earlier dispatch, even several in one tick before React
+ * re-renders.
+ */
+export function createRefDispatch<S, A>(
+  ref: { current: S },
+  reducer: (state: S, action: A) => S,
+  setState: (state: S) => void,
+): (action: A) => void {
+  return (action) => {
+    const next = reducer(ref.current, action);
+    ref.current = next;
+    setState(next);
+  };
+}
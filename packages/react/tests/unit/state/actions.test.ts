@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { Geometry } from '@osdlabel/annotation';
+import type { AnnotationState } from '@osdlabel/viewer-api';
+import { createImageId } from '@osdlabel/viewer-api';
+import { createAnnotationContextId } from '@osdlabel/annotation-context';
+import type { OsdFields } from 'osdlabel';
+import {
+  createAnnotationFromGeometry,
+  createInitialAnnotationState,
+  createInitialContextState,
+  createInitialHistoryState,
+  createInitialUIState,
+} from 'osdlabel';
+import { createActions } from '../../../src/state/actions';
+import {
+  annotationReducer,
+  contextReducer,
+  createRefDispatch,
+  historyReducer,
+  uiReducer,
+} from '../../../src/state/reducer';
+
+const imageId = createImageId('img1');
+const contextId = createAnnotationContextId('ctx1');
+
+/** Actions wired the way `AnnotatorProvider` wires them, without rendering. */
+function createTestActions() {
+  const annotationState = { current: createInitialAnnotationState() };
+  const uiState = { current: createInitialUIState() };
+  const contextState = { current: createInitialContextState() };
+  const historyState = { current: createInitialHistoryState() };
+  // React would only re-render later; nothing here renders.
+  const render = () => {};
+  const actions = createActions(
+    createRefDispatch(annotationState, annotationReducer, render),
+    createRefDispatch(uiState, uiReducer, render),
+    createRefDispatch(contextState, contextReducer, render),
+    () => contextState.current,
+    () => uiState.current,
+    () => annotationState.current,
+    createRefDispatch(historyState, historyReducer, render),
+    () => historyState.current,
+  );
+  return { annotationState, actions };
+}
+
+function rectangle(x: number): Geometry {
+  return { type: 'rectangle', origin: { x, y: 0 }, width: 10, height: 10, rotation: 0 };
+}
+
+function geometryOf(state: AnnotationState<OsdFields>) {
+  return Object.values(state.byImage[imageId] ?? {}).map((a) => a.geometry);
+}
+
+describe('createActions', () => {
+  it('undoes only the second of two updates made before a re-render', () => {
+    const { annotationState, actions } = createTestActions();
+    const annotation = createAnnotationFromGeometry(rectangle(0), {
+      imageId,
+      contextId,
+      toolType: 'rectangle',
+    });
+    actions.addAnnotation(annotation);
+
+    actions.updateAnnotation(annotation.id, imageId, { geometry: rectangle(10) });
+    actions.updateAnnotation(annotation.id, imageId, { geometry: rectangle(20) });
+    expect(geometryOf(annotationState.current)).toEqual([rectangle(20)]);
+
+    actions.undo();
+    expect(geometryOf(annotationState.current)).toEqual([rectangle(10)]);
+    actions.undo();
+    expect(geometryOf(annotationState.current)).toEqual([rectangle(0)]);
+  });
+});
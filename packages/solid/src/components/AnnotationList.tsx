@@ -0,0 +1,231 @@
+import { createMemo, createSignal, For, Show, type Component, type JSX } from 'solid-js';
+import type { ImageId, ImageSource } from '@osdlabel/viewer-api';
+import { buildAnnotationOutline, getAnnotationDisplayName } from 'osdlabel';
+import type { OsdAnnotation } from 'osdlabel';
+import { useAnnotator } from '../state/annotator-context.js';
+
+export interface AnnotationListProps {
+  /** Images to take group names from; groups of other images show their id */
+  readonly images?: readonly ImageSource[] | undefined;
+  /** Custom style for the panel */
+  readonly style?: JSX.CSSProperties | undefined;
+}
+
+const inputStyle: JSX.CSSProperties = {
+  padding: '2px 4px',
+  background: '#333',
+  color: '#fff',
+  border: '1px solid #555',
+  'border-radius': '4px',
+  'font-size': '13px',
+};
+
+const buttonStyle: JSX.CSSProperties = {
+  padding: '0 4px',
+  background: '#333',
+  color: '#ccc',
+  border: '1px solid #555',
+  'border-radius': '3px',
+  'font-size': '11px',
+  cursor: 'pointer',
+};
+
+/**
+ * Lists every annotation grouped by image, context and label. Clicking a
+ * row selects the annotation and pans and zooms to it; each row can be
+ * renamed (relabelled), deleted, hidden and locked. The filter field keeps
+ * the rows whose name, label, tool or id contains its text.
+ */
+const AnnotationList: Component<AnnotationListProps> = (props) => {
+  const { uiState, contextState, annotationState, actions } = useAnnotator();
+  const [filter, setFilter] = createSignal('');
+  const [editingId, setEditingId] = createSignal<string>();
+
+  const outline = createMemo(() => {
+    void annotationState.changeCounter;
+    return buildAnnotationOutline(annotationState, contextState.contexts, filter());
+  });
+
+  const imageName = (imageId: ImageId) =>
+    props.images?.find((image) => image.id === imageId)?.label ?? imageId;
+  const isHidden = (ann: OsdAnnotation) => ann.hidden === true;
+  const isLocked = (ann: OsdAnnotation) => ann.locked === true;
+
+  function rename(ann: OsdAnnotation, label: string | undefined): void {
+    setEditingId(undefined);
+    if (label !== ann.label) actions.relabelAnnotations([ann.id], ann.imageId, label);
+  }
+
+  function renderRenameField(ann: OsdAnnotation): JSX.Element {
+    const labels = contextState.contexts.find((c) => c.id === ann.contextId)?.labels;
+    if (labels && labels.length > 0) {
+      return (
+        <select
+          data-testid="annotation-list-rename"
+          ref={(el) => queueMicrotask(() => el.focus())}
+          value={ann.label ?? ''}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => rename(ann, e.currentTarget.value || undefined)}
+          onBlur={() => setEditingId(undefined)}
+          onKeyDown={(e) => e.key === 'Escape' && setEditingId(undefined)}
+          style={{ ...inputStyle, flex: '1', 'min-width': '0' }}
+        >
+          <option value="">(none)</option>
+          <For each={labels}>{(label) => <option value={label.id}>{label.name}</option>}</For>
+        </select>
+      );
+    }
+    return (
+      <input
+        data-testid="annotation-list-rename"
+        ref={(el) => queueMicrotask(() => el.select())}
+        type="text"
+        value={ann.label ?? ''}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') rename(ann, e.currentTarget.value.trim() || undefined);
+          else if (e.key === 'Escape') setEditingId(undefined);
+        }}
+        onBlur={(e) => {
+          if (editingId() === ann.id) rename(ann, e.currentTarget.value.trim() || undefined);
+        }}
+        style={{ ...inputStyle, flex: '1', 'min-width': '0' }}
+      />
+    );
+  }
+
+  function renderRow(ann: OsdAnnotation): JSX.Element {
+    const selected = () => uiState.selectedAnnotationIds.includes(ann.id);
+    const stop = (action: () => void) => (e: MouseEvent) => {
+      e.stopPropagation();
+      action();
+    };
+    return (
+      <div
+        data-testid={`annotation-row-${ann.id}`}
+        aria-selected={selected()}
+        onClick={() => actions.focusAnnotation(ann.id, ann.imageId)}
+        style={{
+          display: 'flex',
+          'align-items': 'center',
+          gap: '4px',
+          padding: '2px 4px 2px 24px',
+          background: selected() ? '#2a4a6a' : 'transparent',
+          color: isHidden(ann) ? '#777' : '#fff',
+          cursor: 'pointer',
+        }}
+      >
+        <Show
+          when={editingId() === ann.id}
+          fallback={
+            <span
+              onDblClick={() => !isLocked(ann) && setEditingId(ann.id)}
+              style={{
+                flex: '1',
+                overflow: 'hidden',
+                'text-overflow': 'ellipsis',
+                'white-space': 'nowrap',
+              }}
+            >
+              {getAnnotationDisplayName(ann, contextState.contexts)}
+              <span style={{ color: '#888' }}> {ann.toolType}</span>
+            </span>
+          }
+        >
+          {renderRenameField(ann)}
+        </Show>
+        <button
+          title={isHidden(ann) ? 'Show' : 'Hide'}
+          aria-pressed={isHidden(ann)}
+          onClick={stop(() => actions.setAnnotationsHidden([ann.id], ann.imageId, !isHidden(ann)))}
+          style={buttonStyle}
+        >
+          {isHidden(ann) ? 'Show' : 'Hide'}
+        </button>
+        <button
+          title={isLocked(ann) ? 'Unlock' : 'Lock'}
+          aria-pressed={isLocked(ann)}
+          onClick={stop(() => actions.setAnnotationsLocked([ann.id], ann.imageId, !isLocked(ann)))}
+          style={buttonStyle}
+        >
+          {isLocked(ann) ? 'Unlock' : 'Lock'}
+        </button>
+        <button
+          title="Rename"
+          disabled={isLocked(ann)}
+          onClick={stop(() => setEditingId(ann.id))}
+          style={buttonStyle}
+        >
+          Rename
+        </button>
+        <button
+          title="Delete"
+          disabled={isLocked(ann)}
+          onClick={stop(() => actions.deleteAnnotation(ann.id, ann.imageId))}
+          style={buttonStyle}
+        >
+          Delete
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-testid="annotation-list"
+      style={{
+        display: 'flex',
+        'flex-direction': 'column',
+        gap: '4px',
+        padding: '8px 12px',
+        background: '#1a1a1a',
+        color: '#fff',
+        'font-family': 'system-ui, sans-serif',
+        'font-size': '13px',
+        ...props.style,
+      }}
+    >
+      <input
+        data-testid="annotation-list-filter"
+        type="search"
+        placeholder="Filter annotations"
+        value={filter()}
+        onInput={(e) => setFilter(e.currentTarget.value)}
+        style={inputStyle}
+      />
+      <Show
+        when={outline().length > 0}
+        fallback={<span style={{ color: '#888' }}>No annotations</span>}
+      >
+        <For each={outline()}>
+          {(image) => (
+            <div>
+              <div style={{ 'font-weight': 'bold', padding: '4px 0' }}>
+                {imageName(image.imageId)}
+              </div>
+              <For each={image.contexts}>
+                {(context) => (
+                  <div>
+                    <div style={{ color: '#aaa', padding: '2px 0 2px 8px' }}>{context.name}</div>
+                    <For each={context.labels}>
+                      {(label) => (
+                        <div>
+                          <div style={{ color: '#aaa', padding: '2px 0 2px 16px' }}>
+                            {label.name} ({label.annotations.length})
+                          </div>
+                          <For each={label.annotations}>{(ann) => renderRow(ann)}</For>
+                        </div>
+                      )}
+                    </For>
+                  </div>
+                )}
+              </For>
+            </div>
+          )}
+        </For>
+      </Show>
+    </div>
+  );
+};
+
+export default AnnotationList;
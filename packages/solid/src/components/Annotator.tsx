@@ -8,6 +8,8 @@ import GridView from './GridView.js';
 import Filmstrip from './Filmstrip.js';
 import GridControls from './GridControls.js';
 import ContextSwitcher from './ContextSwitcher.js';
+import AttributeEditor from './AttributeEditor.js';
+import AnnotationList from './AnnotationList.js';
 import { ViewControls } from './ViewControls.js';
 import type { ImageSource } from '@osdlabel/viewer-api';
 import type { AnnotationContext, AnnotationContextId } from '@osdlabel/annotation-context';
@@ -27,6 +29,13 @@ export interface AnnotatorProps extends Omit<AnnotatorProviderProps, 'children'>
   readonly showContextSwitcher?: boolean | undefined;
   /** Whether to show the view controls (default: true) */
   readonly showViewControls?: boolean | undefined;
+  /**
+   * Whether to show the attribute editor beside the grid while an annotation
+   * whose context declares attributes is selected (default: true)
+   */
+  readonly showAttributeEditor?: boolean | undefined;
+  /** Whether to show the annotation list beside the grid (default: false) */
+  readonly showAnnotationList?: boolean | undefined;
   /** Filmstrip position (default: 'left') */
   readonly filmstripPosition?: 'left' | 'right' | 'bottom' | undefined;
   /** Maximum grid dimensions */
@@ -52,6 +61,8 @@ const AnnotatorInner: Component<Omit<AnnotatorProps, keyof AnnotatorProviderProp
   const showGridControls = () => props.showGridControls === true;
   const showContextSwitcher = () => props.showContextSwitcher === true;
   const showViewControls = () => props.showViewControls !== false;
+  const showAttributeEditor = () => props.showAttributeEditor !== false;
+  const showAnnotationList = () => props.showAnnotationList === true;
   const maxCols = () => props.maxGridSize?.columns ?? 4;
   const maxRows = () => props.maxGridSize?.rows ?? 4;
 
@@ -105,6 +116,10 @@ const AnnotatorInner: Component<Omit<AnnotatorProps, keyof AnnotatorProviderProp
             images={props.images}
           />
         </div>
+        {showAttributeEditor() && <AttributeEditor style={{ width: '200px', overflow: 'auto' }} />}
+        {showAnnotationList() && (
+          <AnnotationList images={props.images} style={{ width: '280px', overflow: 'auto' }} />
+        )}
         {showFilmstrip() && filmstripPosition() === 'right' && (
           <Filmstrip images={props.images} position="right" />
         )}
@@ -123,6 +138,9 @@ const Annotator: Component<AnnotatorProps> = (props) => {
       initialAnnotations={props.initialAnnotations}
       onAnnotationsChange={props.onAnnotationsChange}
       onConstraintChange={props.onConstraintChange}
+      onCompletionChange={props.onCompletionChange}
+      onGeometryViolation={props.onGeometryViolation}
+      imageIds={props.imageIds ?? props.images.map((image) => image.id)}
       keyboardShortcuts={props.keyboardShortcuts}
       vertexEditLongPressMs={props.vertexEditLongPressMs}
       vertexEditMoveTolerancePx={props.vertexEditMoveTolerancePx}
@@ -139,6 +157,8 @@ const Annotator: Component<AnnotatorProps> = (props) => {
         showGridControls={props.showGridControls}
         showContextSwitcher={props.showContextSwitcher}
         showViewControls={props.showViewControls}
+        showAttributeEditor={props.showAttributeEditor}
+        showAnnotationList={props.showAnnotationList}
         filmstripPosition={props.filmstripPosition}
         maxGridSize={props.maxGridSize}
         style={props.style}
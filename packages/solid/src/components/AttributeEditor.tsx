@@ -0,0 +1,169 @@
+import { createEffect, createSignal, For, on, Show, type Component, type JSX } from 'solid-js';
+import type { AttributeValue } from '@osdlabel/annotation';
+import type { AttributeDefinition } from '@osdlabel/annotation-context';
+import { getMissingAttributeKeys, validateAttributeValue } from 'osdlabel';
+import { useAnnotator } from '../state/annotator-context.js';
+
+export interface AttributeEditorProps {
+  /** Custom style for the panel */
+  readonly style?: JSX.CSSProperties | undefined;
+}
+
+const inputStyle: JSX.CSSProperties = {
+  padding: '2px 4px',
+  background: '#333',
+  color: '#fff',
+  border: '1px solid #555',
+  'border-radius': '4px',
+  'font-size': '13px',
+};
+
+/**
+ * Edits the attributes of the single selected annotation, one field per
+ * attribute its context declares. Renders nothing when the selection is not
+ * exactly one annotation or its context declares no attributes.
+ */
+const AttributeEditor: Component<AttributeEditorProps> = (props) => {
+  const { uiState, contextState, annotationState, actions } = useAnnotator();
+  // Per-key messages for input that was rejected and not written.
+  const [errors, setErrors] = createSignal<Readonly<Record<string, string>>>({});
+
+  const selectedAnnotation = () => {
+    const [id, ...others] = uiState.selectedAnnotationIds;
+    if (!id || others.length > 0) return undefined;
+    const imageId = uiState.gridAssignments[uiState.activeCellIndex];
+    if (!imageId) return undefined;
+    return annotationState.byImage[imageId]?.[id];
+  };
+
+  createEffect(
+    on(
+      () => selectedAnnotation()?.id,
+      () => setErrors({}),
+    ),
+  );
+
+  const definitions = (): readonly AttributeDefinition[] => {
+    const ann = selectedAnnotation();
+    if (!ann) return [];
+    return contextState.contexts.find((c) => c.id === ann.contextId)?.attributes ?? [];
+  };
+
+  const missingKeys = () =>
+    getMissingAttributeKeys(definitions(), selectedAnnotation()?.attributes);
+
+  function setValue(definition: AttributeDefinition, value: AttributeValue | undefined): void {
+    const ann = selectedAnnotation();
+    if (!ann) return;
+    const message = validateAttributeValue(definition, value);
+    setErrors((prev) => {
+      const { [definition.key]: _previous, ...rest } = prev;
+      return message ? { ...rest, [definition.key]: message } : rest;
+    });
+    if (message) return;
+    const { [definition.key]: _current, ...others } = ann.attributes ?? {};
+    const next = value === undefined ? others : { ...others, [definition.key]: value };
+    actions.setAnnotationAttributes(
+      ann.id,
+      ann.imageId,
+      Object.keys(next).length > 0 ? next : undefined,
+    );
+  }
+
+  function renderField(definition: AttributeDefinition): JSX.Element {
+    const value = () => selectedAnnotation()?.attributes?.[definition.key];
+    const fieldStyle = (): JSX.CSSProperties => ({
+      ...inputStyle,
+      'border-color': missingKeys().includes(definition.key) ? '#f44336' : '#555',
+    });
+
+    switch (definition.type) {
+      case 'enum':
+        return (
+          <select
+            data-testid={`attribute-${definition.key}`}
+            value={typeof value() === 'string' ? (value() as string) : ''}
+            onChange={(e) => setValue(definition, e.currentTarget.value || undefined)}
+            style={fieldStyle()}
+          >
+            <option value="">—</option>
+            <For each={definition.options}>
+              {(option) => <option value={option}>{option}</option>}
+            </For>
+          </select>
+        );
+      case 'boolean':
+        return (
+          <input
+            data-testid={`attribute-${definition.key}`}
+            type="checkbox"
+            checked={value() === true}
+            onChange={(e) => setValue(definition, e.currentTarget.checked)}
+          />
+        );
+      case 'number':
+        return (
+          <input
+            data-testid={`attribute-${definition.key}`}
+            type="number"
+            value={typeof value() === 'number' ? String(value()) : ''}
+            min={definition.min}
+            max={definition.max}
+            step={definition.integer ? 1 : 'any'}
+            onChange={(e) => {
+              const raw = e.currentTarget.value;
+              setValue(definition, raw === '' ? undefined : Number(raw));
+            }}
+            style={{ ...fieldStyle(), width: '80px' }}
+          />
+        );
+      case 'text':
+        return (
+          <input
+            data-testid={`attribute-${definition.key}`}
+            type="text"
+            value={typeof value() === 'string' ? (value() as string) : ''}
+            maxLength={definition.maxLength}
+            onChange={(e) => setValue(definition, e.currentTarget.value || undefined)}
+            style={fieldStyle()}
+          />
+        );
+    }
+  }
+
+  return (
+    <Show when={definitions().length > 0}>
+      <div
+        data-testid="attribute-editor"
+        style={{
+          display: 'flex',
+          'flex-direction': 'column',
+          gap: '8px',
+          padding: '8px 12px',
+          background: '#1a1a1a',
+          color: '#fff',
+          'font-family': 'system-ui, sans-serif',
+          'font-size': '13px',
+          ...props.style,
+        }}
+      >
+        <For each={definitions()}>
+          {(definition) => (
+            <label style={{ display: 'flex', 'flex-direction': 'column', gap: '2px' }}>
+              <span style={{ color: '#aaa' }}>
+                {definition.label ?? definition.key}
+                {definition.required ? ' *' : ''}
+              </span>
+              {renderField(definition)}
+              <Show when={errors()[definition.key]}>
+                {(message) => <span style={{ color: '#f44336' }}>{message()}</span>}
+              </Show>
+            </label>
+          )}
+        </For>
+      </div>
+    </Show>
+  );
+};
+
+export default AttributeEditor;
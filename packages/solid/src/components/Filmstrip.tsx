@@ -1,4 +1,4 @@
-import { For } from 'solid-js';
+import { For, Show } from 'solid-js';
 import type { Component } from 'solid-js';
 import { useAnnotator } from '../state/annotator-context.js';
 import type { ImageSource } from '@osdlabel/viewer-api';
@@ -8,8 +8,32 @@ export interface FilmstripProps {
   readonly position: 'left' | 'right' | 'bottom';
 }
 
+/** Corner mark: a check once the image's per-image requirements are met */
+const CompletionBadge: Component<{ unmet: number }> = (props) => (
+  <span
+    data-testid="filmstrip-completion"
+    title={props.unmet === 0 ? 'Complete' : `${props.unmet} unmet`}
+    style={{
+      position: 'absolute',
+      top: '2px',
+      right: '2px',
+      'min-width': '14px',
+      height: '14px',
+      'border-radius': '7px',
+      background: props.unmet === 0 ? '#4caf50' : '#ff9800',
+      color: '#fff',
+      'font-size': '10px',
+      'line-height': '14px',
+      'text-align': 'center',
+      'font-family': 'system-ui, sans-serif',
+    }}
+  >
+    {props.unmet === 0 ? '✓' : props.unmet}
+  </span>
+);
+
 const Filmstrip: Component<FilmstripProps> = (props) => {
-  const { uiState, actions } = useAnnotator();
+  const { uiState, actions, completionStatus } = useAnnotator();
 
   const isAssigned = (imageId: string): boolean => {
     return Object.values(uiState.gridAssignments).some((id) => id === imageId);
@@ -86,6 +110,11 @@ const Filmstrip: Component<FilmstripProps> = (props) => {
                   {image.label ?? image.id}
                 </div>
               )}
+              <Show
+                when={completionStatus().hasRequirements && completionStatus().byImage[image.id]}
+              >
+                {(result) => <CompletionBadge unmet={result().unmet.length} />}
+              </Show>
             </div>
           );
         }}
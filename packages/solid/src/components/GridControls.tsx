@@ -1,4 +1,5 @@
 import { type Component, createSignal, For, Show } from 'solid-js';
+import type { ViewLinkMode } from '@osdlabel/viewer-api';
 import { useAnnotator } from '../state/annotator-context.js';
 
 export interface GridControlsProps {
@@ -149,6 +150,81 @@ const TableSelector: Component<{
   );
 };
 
+/** Link mode picker and crosshair toggle, plus a toggle per cell while views are linked. */
+const LinkControls: Component = () => {
+  const { uiState, actions } = useAnnotator();
+  const cellIndices = () =>
+    Array.from({ length: uiState.gridColumns * uiState.gridRows }, (_, i) => i);
+
+  return (
+    <div style={{ display: 'flex', 'align-items': 'center', gap: '4px', 'margin-left': '8px' }}>
+      <select
+        data-testid="view-link-mode"
+        value={uiState.viewLinkMode ?? ''}
+        onChange={(e) =>
+          actions.setViewLinkMode((e.currentTarget.value || null) as ViewLinkMode | null)
+        }
+        title="Link views across cells"
+        style={{
+          padding: '3px 6px',
+          background: '#333',
+          color: '#fff',
+          border: '1px solid #444',
+          'border-radius': '4px',
+          'font-size': '12px',
+        }}
+      >
+        <option value="">Unlinked</option>
+        <option value="image">Link: image</option>
+        <option value="relative">Link: relative</option>
+      </select>
+      <button
+        data-testid="linked-crosshair"
+        aria-pressed={uiState.linkedCrosshair}
+        onClick={() => actions.setLinkedCrosshair(!uiState.linkedCrosshair)}
+        title="Echo the pointer as a crosshair in the other cells"
+        style={{
+          padding: '2px 6px',
+          border: '1px solid #444',
+          'border-radius': '4px',
+          background: uiState.linkedCrosshair ? '#2196F3' : '#333',
+          color: '#fff',
+          cursor: 'pointer',
+          'font-size': '12px',
+        }}
+      >
+        Crosshair
+      </button>
+      <Show when={uiState.viewLinkMode !== null && cellIndices().length > 1}>
+        <For each={cellIndices()}>
+          {(i) => {
+            const linked = () => !uiState.unlinkedCells.includes(i);
+            return (
+              <button
+                data-testid={`view-link-cell-${i}`}
+                aria-pressed={linked()}
+                onClick={() => actions.toggleCellLink(i)}
+                title={linked() ? `Unlink cell ${i + 1}` : `Link cell ${i + 1}`}
+                style={{
+                  padding: '2px 6px',
+                  border: '1px solid #444',
+                  'border-radius': '4px',
+                  background: linked() ? '#2196F3' : '#333',
+                  color: '#fff',
+                  cursor: 'pointer',
+                  'font-size': '12px',
+                }}
+              >
+                {i + 1}
+              </button>
+            );
+          }}
+        </For>
+      </Show>
+    </div>
+  );
+};
+
 const GridControls: Component<GridControlsProps> = (props) => {
   const { uiState, actions } = useAnnotator();
 
@@ -180,6 +256,7 @@ const GridControls: Component<GridControlsProps> = (props) => {
         currentRows={uiState.gridRows}
         onSelect={changeGrid}
       />
+      <LinkControls />
     </div>
   );
 };
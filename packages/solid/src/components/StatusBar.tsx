@@ -10,7 +10,7 @@ export interface StatusBarProps {
 }
 
 const StatusBar: Component<StatusBarProps> = (props) => {
-  const { uiState, contextState, annotationState } = useAnnotator();
+  const { uiState, contextState, annotationState, completionStatus } = useAnnotator();
 
   const activeContextLabel = () => {
     if (!contextState.activeContextId) return 'No context';
@@ -32,6 +32,14 @@ const StatusBar: Component<StatusBarProps> = (props) => {
     return Object.keys(imageAnns).length;
   };
 
+  const unmetCount = () => {
+    const status = completionStatus();
+    return (
+      status.global.unmet.length +
+      Object.values(status.byImage).reduce((n, r) => n + r.unmet.length, 0)
+    );
+  };
+
   return (
     <div
       style={{
@@ -55,6 +63,14 @@ const StatusBar: Component<StatusBarProps> = (props) => {
       <span data-testid="status-count">
         Annotations: <strong style={{ color: '#fff' }}>{totalAnnotationCount()}</strong>
       </span>
+      <Show when={completionStatus().hasRequirements}>
+        <span data-testid="status-completion">
+          Progress:{' '}
+          <strong style={{ color: completionStatus().complete ? '#4caf50' : '#ff9800' }}>
+            {completionStatus().complete ? 'Complete' : `${unmetCount()} unmet`}
+          </strong>
+        </span>
+      </Show>
       <Show when={props.showFps}>
         <FpsCounter />
       </Show>
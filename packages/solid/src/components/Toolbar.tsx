@@ -1,29 +1,21 @@
-import { Show, type Component } from 'solid-js';
+import { For, Show, type Component } from 'solid-js';
+import { getToolDefinition, type ToolDefinition } from 'osdlabel';
 import { useAnnotator } from '../state/annotator-context.js';
-import type { ToolType } from '@osdlabel/annotation';
-
-const TOOL_LABELS: Record<ToolType, string> = {
-  rectangle: 'Rect',
-  circle: 'Circle',
-  line: 'Line',
-  point: 'Point',
-  polyline: 'Polyline',
-  freeHandPath: 'Free Draw',
-};
 
 const Toolbar: Component = () => {
-  const { uiState, contextState, annotationState, constraintStatus, actions } = useAnnotator();
+  const { uiState, contextState, annotationState, constraintStatus, labelStatus, actions } =
+    useAnnotator();
 
   const activeContext = () => {
     if (!contextState.activeContextId) return undefined;
     return contextState.contexts.find((c) => c.id === contextState.activeContextId);
   };
 
-  // The currently selected annotation, looked up across the active image's
+  // The single selected annotation, looked up across the active image's
   // annotations. Drives the contextual "Convert to Rect" action.
   const selectedAnnotation = () => {
-    const id = uiState.selectedAnnotationId;
-    if (!id) return undefined;
+    const [id, ...others] = uiState.selectedAnnotationIds;
+    if (!id || others.length > 0) return undefined;
     const imageId = uiState.gridAssignments[uiState.activeCellIndex];
     if (!imageId) return undefined;
     return annotationState.byImage[imageId]?.[id];
@@ -32,10 +24,22 @@ const Toolbar: Component = () => {
   const canConvertSelectedToRect = () =>
     selectedAnnotation()?.geometry.type === 'circle' && constraintStatus().rectangle.enabled;
 
-  const allowedTools = (): ToolType[] => {
+  // One button per registered tool the active context enables, in the
+  // context's order.
+  const allowedTools = (): ToolDefinition[] => {
     const ctx = activeContext();
     if (!ctx) return [];
-    return ctx.tools.map((t) => t.type);
+    return ctx.tools.flatMap((t) => getToolDefinition(t.type) ?? []);
+  };
+
+  const labels = () => activeContext()?.labels ?? [];
+  const activeLabelColor = () =>
+    labels().find((l) => l.id === uiState.activeLabel)?.color ?? 'transparent';
+
+  const labelOptionText = (id: string, name: string) => {
+    const s = labelStatus()[id];
+    if (!s || s.maxCount === null) return name;
+    return `${name} ${s.currentCount}/${s.maxCount}`;
   };
 
   return (
@@ -84,7 +88,8 @@ const Toolbar: Component = () => {
       </button>
 
       {/* Drawing tool buttons — one per allowed tool in active context */}
-      {allowedTools().map((toolType) => {
+      {allowedTools().map((tool) => {
+        const toolType = tool.type;
         const status = () => constraintStatus()[toolType];
         const isActive = () => uiState.activeTool === toolType;
         const enabled = () => status().enabled;
@@ -115,11 +120,61 @@ const Toolbar: Component = () => {
               opacity: enabled() ? '1' : '0.5',
             }}
           >
-            {TOOL_LABELS[toolType]} {countLabel()}
+            <Show when={tool.icon}>
+              {(icon) => (
+                <img
+                  src={icon()}
+                  alt=""
+                  style={{
+                    width: '14px',
+                    height: '14px',
+                    'vertical-align': 'middle',
+                    'margin-right': '4px',
+                  }}
+                />
+              )}
+            </Show>
+            {tool.label} {countLabel()}
           </button>
         );
       })}
 
+      {/* Label picker — the label given to shapes drawn next */}
+      <Show when={labels().length > 0}>
+        <span
+          style={{
+            display: 'inline-block',
+            width: '10px',
+            height: '10px',
+            'border-radius': '2px',
+            'margin-left': '8px',
+            background: activeLabelColor(),
+          }}
+        />
+        <select
+          data-testid="label-picker"
+          value={uiState.activeLabel ?? ''}
+          onChange={(e) => actions.setActiveLabel(e.currentTarget.value || null)}
+          style={{
+            padding: '3px 6px',
+            background: '#333',
+            color: '#fff',
+            border: '1px solid #555',
+            'border-radius': '4px',
+            'font-size': '13px',
+          }}
+        >
+          <option value="">No label</option>
+          <For each={labels()}>
+            {(label) => (
+              <option value={label.id} disabled={!(labelStatus()[label.id]?.enabled ?? true)}>
+                {labelOptionText(label.id, label.name)}
+              </option>
+            )}
+          </For>
+        </select>
+      </Show>
+
       {/* Contextual action: convert the selected circle to its bounding rectangle */}
       <Show when={selectedAnnotation()?.geometry.type === 'circle'}>
         {(() => {
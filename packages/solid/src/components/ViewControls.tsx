@@ -351,6 +351,43 @@ export const ViewControls: Component = () => {
         </svg>
       </button>
 
+      <button
+        type="button"
+        title="Fit to Annotations (Shift+A)"
+        data-testid="view-fit-annotations"
+        disabled={!isActive()}
+        onClick={() => actions.fitActiveImageToAnnotations()}
+        style={{
+          width: '32px',
+          height: '32px',
+          'background-color': '#333',
+          border: 'none',
+          'border-radius': '4px',
+          color: 'white',
+          cursor: isActive() ? 'pointer' : 'default',
+          opacity: isActive() ? '1' : '0.5',
+          display: 'flex',
+          'align-items': 'center',
+          'justify-content': 'center',
+        }}
+      >
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          stroke-width="2"
+          stroke-linecap="round"
+          stroke-linejoin="round"
+        >
+          <path d="M3 7V5a2 2 0 0 1 2-2h2" />
+          <path d="M17 3h2a2 2 0 0 1 2 2v2" />
+          <path d="M21 17v2a2 2 0 0 1-2 2h-2" />
+          <path d="M7 21H5a2 2 0 0 1-2-2v-2" />
+        </svg>
+      </button>
+
       <Show
         when={
           cellTransform().rotation !== 0 ||
@@ -1,20 +1,36 @@
-import { onMount, onCleanup, createEffect, on, createSignal, For } from 'solid-js';
+import {
+  onMount,
+  onCleanup,
+  createEffect,
+  createMemo,
+  on,
+  createSignal,
+  untrack,
+  For,
+} from 'solid-js';
 import { Portal } from 'solid-js/web';
 import type { Component } from 'solid-js';
 import OpenSeadragon from 'openseadragon';
 import { DecorationLayer, FabricOverlay } from '@osdlabel/fabric-osd';
 import type { DomDecorationEntry } from '@osdlabel/fabric-osd';
-import { createFabricObjectFromRawData } from '@osdlabel/fabric-annotations';
 import type { OverlayMode } from '@osdlabel/fabric-osd';
-import type { AnnotationContextId } from '@osdlabel/annotation-context';
 import { DEFAULT_CELL_TRANSFORM } from '@osdlabel/viewer-api';
-import type { ImageSource } from '@osdlabel/viewer-api';
+import type { FocusRequest, ImageId, ImageSource } from '@osdlabel/viewer-api';
 import { openImage } from '@osdlabel/osd-helper';
 import { useAnnotationTool } from '../hooks/useAnnotationTool.js';
 import { useAnnotator } from '../state/annotator-context.js';
 import type { Annotation } from '@osdlabel/annotation';
-import type { OsdFields } from 'osdlabel';
-import { enableLiveDecorationUpdates } from 'osdlabel';
+import type { BoundingBox, OsdFields } from 'osdlabel';
+import {
+  CanvasReconciler,
+  DEFAULT_FOCUS_PADDING,
+  enableLinkedCrosshair,
+  enableLiveDecorationUpdates,
+  enableViewportCulling,
+  getFocusBounds,
+  getLinkedCellIndices,
+  shownAnnotationFilter,
+} from 'osdlabel';
 export interface ViewerCellProps {
   readonly imageSource: ImageSource | undefined;
   readonly isActive: boolean;
@@ -29,16 +45,37 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
     uiState,
     annotationState,
     contextState,
+    actions,
     testMode,
     decorationProviders,
     defaultPixelSpacing,
     renderDomDecoration,
+    viewLinks,
+    crosshair,
+    spatialIndex,
   } = useAnnotator();
   let containerRef: HTMLDivElement | undefined;
   let viewer: OpenSeadragon.Viewer | undefined;
   const [overlay, setOverlay] = createSignal<FabricOverlay>();
   const [decorationLayer, setDecorationLayer] = createSignal<DecorationLayer>();
   const [domEntries, setDomEntries] = createSignal<readonly DomDecorationEntry[]>([]);
+  // The viewport plus a margin, in image px; `undefined` until first measured.
+  const [cullRect, setCullRect] = createSignal<BoundingBox>();
+  let viewportCulling: ReturnType<typeof enableViewportCulling> | undefined;
+  // The image the viewer has open, and a focus request waiting for it.
+  let openedImageId: ImageId | undefined;
+  let pendingFocus: FocusRequest | undefined;
+  let unregisterViewLink: (() => void) | undefined;
+
+  const isLinked = () =>
+    uiState.viewLinkMode !== null && !uiState.unlinkedCells.includes(props.cellIndex);
+
+  /** Moves the other linked cells to this cell's view, while it is the active one. */
+  const leadLinkedViews = () => {
+    const mode = uiState.viewLinkMode;
+    if (!mode || !props.isActive || !isLinked()) return;
+    viewLinks.follow(props.cellIndex, getLinkedCellIndices(uiState), mode);
+  };
 
   onMount(() => {
     if (!containerRef) return;
@@ -53,13 +90,30 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
       visibilityRatio: 0.5,
       constrainDuringPan: true,
     });
+    unregisterViewLink = viewLinks.register(props.cellIndex, viewer);
+    viewer.addHandler('viewport-change', leadLinkedViews);
 
     viewer.addHandler('open', () => {
-      if (!viewer || overlay()) return;
-      const ov = new FabricOverlay(viewer, { testMode });
-      setOverlay(ov);
-      setDecorationLayer(new DecorationLayer(ov));
-      props.onOverlayReady?.(ov);
+      if (!viewer) return;
+      // Geometry rules such as `insideImage` need the image's pixel size.
+      const size = viewer.world.getItemAt(0)?.getContentSize();
+      if (size && props.imageSource) {
+        actions.setImageSize(props.imageSource.id, { width: size.x, height: size.y });
+      }
+      // A newly opened linked image joins the active cell's view.
+      const mode = uiState.viewLinkMode;
+      if (mode && isLinked() && !props.isActive) {
+        viewLinks.follow(uiState.activeCellIndex, [props.cellIndex], mode);
+      }
+      viewportCulling?.refresh();
+      openedImageId = props.imageSource?.id;
+      if (!overlay()) {
+        const ov = new FabricOverlay(viewer, { testMode });
+        setOverlay(ov);
+        setDecorationLayer(new DecorationLayer(ov));
+        props.onOverlayReady?.(ov);
+      }
+      applyFocus();
     });
 
     // Open initial image if provided
@@ -69,6 +123,7 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
   });
 
   onCleanup(() => {
+    unregisterViewLink?.();
     decorationLayer()?.destroy();
     setDecorationLayer(undefined);
     const ov = overlay();
@@ -85,6 +140,7 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
       (url, prevUrl) => {
         if (url !== prevUrl && viewer) {
           viewer.close();
+          openedImageId = undefined;
           if (props.imageSource) {
             openImage(viewer, props.imageSource);
           }
@@ -105,6 +161,14 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
     ov.applyImageFilters(cellTransform.exposure, cellTransform.inverted);
   });
 
+  // Bring the linked cells in line when linking starts, a cell joins, or
+  // another cell becomes the active one.
+  createEffect(() => {
+    void uiState.viewLinkMode;
+    void [...uiState.unlinkedCells];
+    if (props.isActive) leadLinkedViews();
+  });
+
   // Use annotation tool hook
   useAnnotationTool(
     overlay,
@@ -112,70 +176,97 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
     () => props.isActive,
   );
 
+  // Only annotations near the viewport are materialized. The cull rect moves
+  // as the user pans and zooms, and is measured again for each opened image.
+  createEffect(() => {
+    const ov = overlay();
+    if (!ov) return;
+    const culling = enableViewportCulling({ overlay: ov, onChange: setCullRect });
+    viewportCulling = culling;
+    onCleanup(() => {
+      culling.destroy();
+      viewportCulling = undefined;
+    });
+  });
+
   // Compute visible annotations for the current cell — used by both the
   // annotation sync effect (Fabric objects) and the decoration sync effect
-  // (text + line decorations).
+  // (text + line decorations). Selected annotations are kept even when
+  // culled, so panning away does not drop the selection.
   const visibleAnnotations = (): readonly Annotation<OsdFields>[] => {
     const imageId = props.imageSource?.id;
     if (!imageId) return [];
-    const activeContextId = contextState.activeContextId;
-    const displayedIds = contextState.displayedContextIds;
-    const visibleSet = new Set<AnnotationContextId>(displayedIds);
-    if (activeContextId) visibleSet.add(activeContextId);
     const imageAnns = annotationState.byImage[imageId] || {};
-    return visibleSet.size > 0
-      ? Object.values(imageAnns).filter((a) => visibleSet.has(a.contextId))
-      : Object.values(imageAnns);
+    const rect = cullRect();
+    let candidates = Object.values(imageAnns);
+    if (rect) {
+      const inView = spatialIndex().queryRect(imageId, rect);
+      const ids = new Set(inView.map((a) => a.id));
+      const selected = untrack(() => uiState.selectedAnnotationIds).flatMap((id) => {
+        const ann = imageAnns[id];
+        return ann && !ids.has(id) ? [ann] : [];
+      });
+      candidates = [...inView, ...selected];
+    }
+    return candidates.filter(shownAnnotationFilter(contextState));
   };
 
-  // Sync annotations from state to canvas (full clear-and-reload)
-  createEffect(() => {
+  // Sync annotations from state to canvas. The reconciler only touches
+  // objects whose annotation was added, removed, edited or restyled.
+  const reconciler = createMemo(() => {
     const ov = overlay();
+    return ov ? new CanvasReconciler(ov.canvas) : undefined;
+  });
+  createEffect(() => {
+    const canvasReconciler = reconciler();
     const imageId = props.imageSource?.id;
-    const activeContextId = contextState.activeContextId;
-    // Track this as reactive dependencies so the effect re-runs
-    void props.isActive;
-    void contextState.displayedContextIds;
+    if (!canvasReconciler || !imageId) return;
 
-    if (!ov || !imageId) return;
-
-    const matching = visibleAnnotations();
-
-    // Clear all existing annotation objects from canvas
-    const toRemove = ov.canvas.getObjects().filter((obj) => obj.id);
-    if (toRemove.length > 0) ov.canvas.remove(...toRemove);
-
-    // Async load from rawAnnotationData
-    const capturedImageId = imageId;
-    void (async () => {
-      if (props.imageSource?.id !== capturedImageId) return; // stale check
-
-      const promises = matching.map(async (ann) => {
-        const obj = await createFabricObjectFromRawData(ann);
-        if (obj) {
-          // Only active context annotations are interactive;
-          // mark non-active as _readOnly so setMode() respects it.
-          const isActiveCtx = ann.contextId === activeContextId;
-          obj._readOnly = !isActiveCtx;
-          obj.set({
-            selectable: isActiveCtx,
-            evented: isActiveCtx,
-          });
+    void canvasReconciler
+      .reconcile({
+        annotations: visibleAnnotations(),
+        contexts: contextState.contexts,
+        activeContextId: contextState.activeContextId,
+        stackingOrder: uiState.stackingOrder,
+      })
+      .then((applied) => {
+        if (applied && containerRef) {
+          containerRef.dataset.annotationCount = String(canvasReconciler.size);
         }
-        return obj;
       });
-      const objects = await Promise.all(promises);
-      const validObjects = objects.filter((obj) => obj !== null);
-      if (validObjects.length > 0) {
-        ov.canvas.add(...validObjects);
-      }
-      if (containerRef) {
-        containerRef.dataset.annotationCount = String(validObjects.length);
-      }
-      ov.canvas.requestRenderAll();
-    })();
   });
 
+  /** Fits the view to the requested annotations once their image is open. */
+  const applyFocus = () => {
+    const request = pendingFocus;
+    const ov = overlay();
+    if (!request || !ov || openedImageId !== request.imageId) return;
+    pendingFocus = undefined;
+    const bounds = getFocusBounds(annotationState, request);
+    if (!bounds) return;
+    ov.fitImageRect(bounds, DEFAULT_FOCUS_PADDING);
+    // Mirror the selection of a single focused annotation on the canvas.
+    const [id, ...others] = request.annotationIds ?? [];
+    const obj = id && others.length === 0 ? reconciler()?.getObject(id) : undefined;
+    if (obj?.selectable && uiState.activeTool === 'select') {
+      ov.canvas.setActiveObject(obj);
+      ov.canvas.requestRenderAll();
+    }
+  };
+  // Fit the view to annotations picked elsewhere, such as in an annotation
+  // list, or to all of them, once their image is open in this cell.
+  createEffect(
+    on(
+      () => uiState.focusRequest,
+      (request) => {
+        if (!request || request.cellIndex !== props.cellIndex) return;
+        if (request.imageId !== props.imageSource?.id) return;
+        pendingFocus = request;
+        applyFocus();
+      },
+    ),
+  );
+
   // Sync decorations from state to canvas. Pure derivation: runs providers
   // over visible annotations + the current image's pixelSpacing.
   createEffect(() => {
@@ -192,8 +283,8 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
     }
     const annotations = visibleAnnotations();
     const pixelSpacing = props.imageSource?.pixelSpacing ?? defaultPixelSpacing;
-    const selectedAnnotationId = uiState.selectedAnnotationId;
-    const ctx = { annotations, pixelSpacing, selectedAnnotationId };
+    const selectedAnnotationIds = uiState.selectedAnnotationIds;
+    const ctx = { annotations, pixelSpacing, selectedAnnotationIds };
     const decorations = providers.flatMap((p) => p(ctx));
     layer.setDecorations(decorations);
   });
@@ -209,13 +300,44 @@ const ViewerCell: Component<ViewerCellProps> = (props) => {
       overlay: ov,
       getVisibleAnnotations: visibleAnnotations,
       getPixelSpacing: () => props.imageSource?.pixelSpacing ?? defaultPixelSpacing,
-      getSelectedAnnotationId: () => uiState.selectedAnnotationId,
+      getSelectedAnnotationIds: () => uiState.selectedAnnotationIds,
       getProviders: () => decorationProviders ?? [],
       onDecorations: (decorations) => layer.setDecorations(decorations),
     });
     onCleanup(dispose);
   });
 
+  // Echo the pointer of the other cells as a crosshair, mapped onto this
+  // cell's image through the registrations.
+  let linkedCrosshair: ReturnType<typeof enableLinkedCrosshair> | undefined;
+  createEffect(() => {
+    const ov = overlay();
+    if (!ov) return;
+    const linked = enableLinkedCrosshair({
+      overlay: ov,
+      link: crosshair,
+      cellIndex: props.cellIndex,
+      isEnabled: () => uiState.linkedCrosshair,
+      getImageId: () => props.imageSource?.id,
+      getImageSize: () => {
+        const imageId = props.imageSource?.id;
+        return imageId ? uiState.imageSizes[imageId] : undefined;
+      },
+      getRegistrations: () => uiState.registrations,
+    });
+    linkedCrosshair = linked;
+    onCleanup(() => {
+      linked.destroy();
+      linkedCrosshair = undefined;
+    });
+  });
+  createEffect(
+    on(
+      [() => uiState.linkedCrosshair, () => props.imageSource?.id, () => uiState.registrations],
+      () => linkedCrosshair?.refresh(),
+    ),
+  );
+
   // Track DOM-decoration roots created by the layer. The subscription fires on
   // membership change only; content is rendered via portals into the stable
   // div the layer owns and positions.
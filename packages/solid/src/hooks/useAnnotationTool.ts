@@ -11,7 +11,10 @@ import {
   getScenePointFromEvent,
   processToolAddAnnotation,
   processToolUpdateAnnotation,
-  processObjectModified,
+  processObjectsModified,
+  resolveToolConstraint,
+  restoreFabricObjects,
+  shownAnnotationFilter,
 } from 'osdlabel';
 import type { ToolCallbacks } from '@osdlabel/fabric-annotations';
 import { useAnnotator } from '../state/annotator-context.js';
@@ -37,14 +40,28 @@ export function useAnnotationTool(
     activeToolKeyHandlerRef,
     shortcuts,
     vertexEditConfig,
+    spatialIndex,
   } = useAnnotator();
 
+  /** Rebuilds the canvas objects of `refs` from the annotations as stored. */
+  function restoreStored(
+    ov: FabricOverlay,
+    imgId: ImageId,
+    refs: readonly { readonly id: AnnotationId }[],
+  ): void {
+    const stored = refs.flatMap(({ id }) => {
+      const annotation = annotationState.byImage[imgId]?.[id];
+      return annotation ? [annotation] : [];
+    });
+    void restoreFabricObjects(ov.canvas, stored, contextState.contexts);
+  }
+
   // Auto-switch to select tool when active drawing tool becomes disabled (limit reached)
   createEffect(() => {
     const tool = uiState.activeTool;
     if (tool && tool !== 'select') {
       const status = constraintStatus();
-      if (!status[tool as ToolType].enabled) {
+      if (!status[tool as ToolType]?.enabled) {
         actions.setActiveTool('select');
       }
     }
@@ -57,14 +74,21 @@ export function useAnnotationTool(
 
     if (!ov || !imgId) return;
 
+    // A group transform (ActiveSelection) commits all members as one change.
     const handleObjectModified = (e: { target: FabricObject }) => {
-      const result = processObjectModified(e.target, annotationState, imgId);
-      if (result) {
-        actions.updateAnnotation(result.id, imgId, {
-          geometry: result.geometry!,
-          rawAnnotationData: result.rawAnnotationData,
-        });
-      }
+      const updates = processObjectsModified(e.target, annotationState, imgId).map((result) => ({
+        id: result.id,
+        imageId: imgId,
+        patch: { geometry: result.geometry!, rawAnnotationData: result.rawAnnotationData },
+      }));
+      // Edits within one vertex-edit session undo as one step.
+      const coalesceKey = e.target._editSession;
+      const accepted =
+        updates.length === 1
+          ? actions.updateAnnotation(updates[0]!.id, imgId, updates[0]!.patch, coalesceKey)
+          : actions.updateAnnotations(updates, coalesceKey);
+      // The geometry rules rejected the change, so put the objects back.
+      if (!accepted) restoreStored(ov, imgId, updates);
     };
 
     ov.canvas.on('object:modified', handleObjectModified);
@@ -129,28 +153,39 @@ export function useAnnotationTool(
         const activeContextId = contextState.activeContextId;
         if (!activeContextId) return undefined;
         const activeContext = contextState.contexts.find((c) => c.id === activeContextId);
-        return activeContext?.tools.find((t) => t.type === toolType);
+        return activeContext ? resolveToolConstraint(activeContext, toolType) : undefined;
       },
       canAddAnnotation: (toolType: ToolType) => {
         const status = constraintStatus();
-        return status[toolType].enabled;
+        return status[toolType]?.enabled ?? false;
       },
       addAnnotation: (params: AddAnnotationParams) => {
-        const processed = processToolAddAnnotation(params);
+        // Shapes drawn while a label is active get that label.
+        const label = params.label ?? uiState.activeLabel ?? undefined;
+        const processed = processToolAddAnnotation(
+          label !== undefined ? { ...params, label } : params,
+        );
         if (!processed) return;
-        actions.addAnnotation(processed);
+        // A rejected shape would otherwise stay on the canvas as drawn.
+        if (!actions.addAnnotation(processed)) ov.canvas.remove(params.fabricObject);
       },
       updateAnnotation: (id: AnnotationId, imageIdArg: ImageId, fabricObject: FabricObject) => {
         const patch = processToolUpdateAnnotation(id, imageIdArg, fabricObject, annotationState);
         if (!patch) return;
-        actions.updateAnnotation(id, imageIdArg, patch);
+        if (!actions.updateAnnotation(id, imageIdArg, patch)) {
+          restoreStored(ov, imageIdArg, [{ id }]);
+        }
       },
       deleteAnnotation: (id, imageIdArg) => actions.deleteAnnotation(id, imageIdArg),
-      setSelectedAnnotation: (id) => actions.setSelectedAnnotation(id),
+      deleteAnnotations: (ids, imageIdArg) => actions.deleteAnnotations(ids, imageIdArg),
+      setSelectedAnnotations: (ids) => actions.setSelectedAnnotations(ids),
       getAnnotation: (id, imageIdArg) => {
         const imageAnns = annotationState.byImage[imageIdArg];
         return imageAnns?.[id];
       },
+      getSnapSettings: () => uiState.snapping,
+      getSnapTargets: (imageIdArg, region) =>
+        spatialIndex().queryRect(imageIdArg, region).filter(shownAnnotationFilter(contextState)),
     };
 
     // Activate tool
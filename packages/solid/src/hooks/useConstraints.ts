@@ -6,12 +6,12 @@ export function useConstraints() {
 
   const isToolEnabled = (type: ToolType): boolean => {
     const status = constraintStatus();
-    return status[type].enabled;
+    return status[type]?.enabled ?? false;
   };
 
   const canAddAnnotation = (type: ToolType): boolean => {
     const status = constraintStatus();
-    return status[type].enabled;
+    return status[type]?.enabled ?? false;
   };
 
   return { isToolEnabled, canAddAnnotation };
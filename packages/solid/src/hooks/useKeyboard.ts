@@ -2,8 +2,19 @@ import { onMount, onCleanup } from 'solid-js';
 import { useAnnotator, type ActiveToolKeyHandlerRef } from '../state/annotator-context.js';
 import { useConstraints } from './useConstraints.js';
 import type { KeyboardShortcutMap } from '@osdlabel/viewer-api';
-import { mapKeyEventToActions, MAX_GRID_SIZE, DEFAULT_KEYBOARD_SHORTCUTS } from 'osdlabel';
-import type { AnnotationAction, UIAction } from 'osdlabel';
+import {
+  mapKeyEventToActions,
+  isEditableTarget,
+  MAX_GRID_SIZE,
+  DEFAULT_KEYBOARD_SHORTCUTS,
+} from 'osdlabel';
+import type {
+  AnnotationAction,
+  ClipboardAction,
+  HistoryAction,
+  UIAction,
+  ZOrderAction,
+} from 'osdlabel';
 
 export { MAX_GRID_SIZE, DEFAULT_KEYBOARD_SHORTCUTS };
 
@@ -12,18 +23,13 @@ export function useKeyboard(
   activeToolKeyHandlerRef: ActiveToolKeyHandlerRef,
   shouldSkipTargetPredicate?: (target: HTMLElement) => boolean,
 ) {
-  const { actions, uiState, activeImageId, constraintStatus } = useAnnotator();
+  const { actions, uiState, contextState, annotationState, activeImageId, constraintStatus } =
+    useAnnotator();
   const { isToolEnabled: _isToolEnabled } = useConstraints();
 
   const handleKeyDown = (e: KeyboardEvent) => {
-    // Suppress shortcuts if typing in input/textarea/contenteditable
-    const target = e.target as HTMLElement;
-    if (
-      target.tagName === 'INPUT' ||
-      target.tagName === 'TEXTAREA' ||
-      target.isContentEditable ||
-      shouldSkipTargetPredicate?.(target)
-    ) {
+    // Leave typing, and native copy / paste, in text fields alone
+    if (isEditableTarget(e.target) || shouldSkipTargetPredicate?.(e.target as HTMLElement)) {
       return;
     }
 
@@ -32,6 +38,7 @@ export function useKeyboard(
       if (consumed) return;
     }
 
+    const imageId = activeImageId();
     const mappedActions = mapKeyEventToActions(
       e.key,
       e.shiftKey,
@@ -41,15 +48,24 @@ export function useKeyboard(
         activeCellIndex: uiState.activeCellIndex,
         gridColumns: uiState.gridColumns,
         gridRows: uiState.gridRows,
-        selectedAnnotationId: uiState.selectedAnnotationId,
-        activeImageId: activeImageId(),
+        selectedAnnotationIds: uiState.selectedAnnotationIds,
+        activeImageId: imageId,
+        annotations: imageId ? annotationState.byImage[imageId] : undefined,
+        labels: contextState.contexts.find((c) => c.id === contextState.activeContextId)?.labels,
+        activeLabel: uiState.activeLabel,
+        hasClipboard: actions.hasClipboard(),
       },
       constraintStatus(),
+      e.ctrlKey || e.metaKey,
     );
 
+    let ran = false;
     for (const action of mappedActions) {
-      dispatchAction(actions, action);
+      if (dispatchAction(actions, action)) ran = true;
     }
+    // Keep the browser from also acting on Ctrl/Cmd shortcuts that did
+    // something (Ctrl+D bookmarks the page); the rest are left to it.
+    if ((e.ctrlKey || e.metaKey) && ran) e.preventDefault();
   };
 
   onMount(() => {
@@ -63,17 +79,20 @@ export function useKeyboard(
 
 function dispatchAction(
   actions: ReturnType<typeof import('../state/actions.js').createActions>,
-  action: UIAction | AnnotationAction,
-): void {
+  action: UIAction | AnnotationAction | HistoryAction | ClipboardAction | ZOrderAction,
+): boolean {
   switch (action.type) {
     case 'SET_ACTIVE_TOOL':
       actions.setActiveTool(action.payload);
       break;
+    case 'SET_ACTIVE_LABEL':
+      actions.setActiveLabel(action.payload);
+      break;
     case 'SET_ACTIVE_CELL':
       actions.setActiveCell(action.payload);
       break;
-    case 'SET_SELECTED_ANNOTATION':
-      actions.setSelectedAnnotation(action.payload);
+    case 'SET_SELECTED_ANNOTATIONS':
+      actions.setSelectedAnnotations(action.payload);
       break;
     case 'SET_GRID_DIMENSIONS':
       actions.setGridDimensions(action.payload.columns, action.payload.rows);
@@ -102,10 +121,43 @@ function dispatchAction(
     case 'RESET_VIEW':
       actions.resetActiveImageView();
       break;
+    case 'FIT_ALL_ANNOTATIONS':
+      actions.fitActiveImageToAnnotations();
+      break;
     case 'DELETE_ANNOTATION':
       actions.deleteAnnotation(action.payload.id, action.payload.imageId);
       break;
+    case 'DELETE_ANNOTATIONS': {
+      const imageId = action.payload[0]?.imageId;
+      if (imageId) {
+        actions.deleteAnnotations(
+          action.payload.map((ref) => ref.id),
+          imageId,
+        );
+      }
+      break;
+    }
+    case 'UNDO':
+      if (!actions.canUndo()) return false;
+      actions.undo();
+      break;
+    case 'REDO':
+      if (!actions.canRedo()) return false;
+      actions.redo();
+      break;
+    case 'COPY':
+      return actions.copySelected();
+    case 'CUT':
+      return actions.cutSelected();
+    case 'PASTE':
+      return actions.paste().length > 0;
+    case 'DUPLICATE':
+      return actions.duplicateSelected().length > 0;
+    case 'REORDER_ANNOTATIONS':
+      actions.reorderAnnotations(action.payload.ids, action.payload.imageId, action.payload.move);
+      break;
     default:
       break;
   }
+  return true;
 }
@@ -1,19 +1,57 @@
-import { type SetStoreFunction, produce } from 'solid-js/store';
-import type { AnnotationId, ToolType } from '@osdlabel/annotation';
-import type { AnnotationState, ImageId, UIState, ViewerControlId } from '@osdlabel/viewer-api';
+import { type SetStoreFunction, createStore, produce, unwrap } from 'solid-js/store';
+import type { AnnotationId, AnnotationStyle, AttributeValue, ToolType } from '@osdlabel/annotation';
+import type {
+  AffineMatrix,
+  AnnotationStackingOrder,
+  AnnotationState,
+  ImageId,
+  ImageRegistration,
+  ImageSize,
+  SnapSettings,
+  UIState,
+  ViewerControlId,
+  ViewLinkMode,
+} from '@osdlabel/viewer-api';
 import type {
   AnnotationContext,
   AnnotationContextId,
   ContextState,
+  GeometryViolationReport,
 } from '@osdlabel/annotation-context';
-import type { OsdAnnotation, OsdFields } from 'osdlabel';
+import type {
+  AnnotationAction,
+  AnnotationClipboard,
+  AnnotationPatch,
+  AnnotationUpdate,
+  GeometryRuleEnvironment,
+  OsdAnnotation,
+  OsdFields,
+  PasteOptions,
+  ZOrderMove,
+} from 'osdlabel';
 import {
   applyAnnotationAction,
+  applyGeometryRules,
+  applyGeometryRulesToUpdates,
   applyUIAction,
   applyContextAction,
+  applyHistoryAction,
   validateAddAnnotation,
+  validateAnnotationAttributes,
+  validateMoveToContext,
+  validateRelabel,
+  withDefaultAttributes,
   computeConstraintStatus,
   processConvertCircleToRectangle,
+  copyAnnotations,
+  prepareClipboardPaste,
+  createInitialHistoryState,
+  snapshotAnnotationsForAction,
+  getUndoAction,
+  getRedoActions,
+  canUndo as historyCanUndo,
+  canRedo as historyCanRedo,
+  getZOrderUpdates,
 } from 'osdlabel';
 
 export function createActions(
@@ -23,29 +61,156 @@ export function createActions(
   contextState: ContextState,
   uiState: UIState,
   annotationState: AnnotationState<OsdFields>,
+  onGeometryViolation?: ((report: GeometryViolationReport) => void) | undefined,
 ) {
-  function addAnnotation(annotation: Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>): void {
-    if (!validateAddAnnotation(annotation, contextState)) return;
-    setAnnotationState(
-      produce((draft) =>
-        applyAnnotationAction(draft, { type: 'ADD_ANNOTATION', payload: annotation }),
-      ),
-    );
+  const [historyState, setHistoryState] = createStore(createInitialHistoryState());
+  let clipboard: AnnotationClipboard | null = null;
+
+  /**
+   * Applies an annotation action and records its inverse in the undo history.
+   * Whole-document loads are not undoable and reset the history instead.
+   */
+  function commitAnnotationAction(action: AnnotationAction, coalesceKey?: string): void {
+    const inverse = snapshotAnnotationsForAction(unwrap(annotationState), action);
+    setAnnotationState(produce((draft) => applyAnnotationAction(draft, action)));
+    if (inverse === null) {
+      clearHistory();
+    } else if (inverse.length > 0) {
+      setHistoryState(
+        produce((draft) =>
+          applyHistoryAction(draft, {
+            type: 'RECORD_HISTORY',
+            payload: { action, inverse, timestamp: Date.now(), coalesceKey },
+          }),
+        ),
+      );
+    }
+  }
+
+  /** What tool geometry rules are checked against. */
+  function geometryRuleEnvironment(): GeometryRuleEnvironment {
+    return {
+      annotationState: unwrap(annotationState),
+      imageSizes: unwrap(uiState.imageSizes),
+      onViolation: onGeometryViolation,
+    };
   }
 
+  /**
+   * Adds an annotation unless its context or its tool's geometry rules
+   * reject it; the rules may also clamp its geometry. Returns whether it
+   * was added.
+   */
+  function addAnnotation(annotation: Omit<OsdAnnotation, 'createdAt' | 'updatedAt'>): boolean {
+    const withDefaults = withDefaultAttributes(annotation, contextState);
+    if (!validateAddAnnotation(withDefaults, contextState)) return false;
+    const checked = applyGeometryRules(withDefaults, contextState, geometryRuleEnvironment());
+    if (!checked) return false;
+    commitAnnotationAction({ type: 'ADD_ANNOTATION', payload: checked });
+    return true;
+  }
+
+  /**
+   * Updates an annotation. A new geometry is checked against the tool's
+   * geometry rules; returns false when they reject it. Updates passing the
+   * same `coalesceKey` in a row — one token per drag or slider scrub — are
+   * undone as one step.
+   */
   function updateAnnotation(
     id: AnnotationId,
     imageId: ImageId,
-    patch: Partial<Omit<OsdAnnotation, 'id' | 'imageId' | 'createdAt' | 'updatedAt'>>,
+    patch: AnnotationPatch,
+    coalesceKey?: string,
+  ): boolean {
+    const [checked] =
+      applyGeometryRulesToUpdates(
+        [{ id, imageId, patch }],
+        contextState,
+        geometryRuleEnvironment(),
+      ) ?? [];
+    if (!checked) return false;
+    commitAnnotationAction({ type: 'UPDATE_ANNOTATION', payload: checked }, coalesceKey);
+    return true;
+  }
+
+  /**
+   * Applies several updates as one change (one undo step), e.g. a group
+   * move. Returns false, applying none of them, when the geometry rules
+   * reject any. `coalesceKey` merges steps as for {@link updateAnnotation}.
+   */
+  function updateAnnotations(updates: readonly AnnotationUpdate[], coalesceKey?: string): boolean {
+    if (updates.length === 0) return true;
+    const checked = applyGeometryRulesToUpdates(updates, contextState, geometryRuleEnvironment());
+    if (!checked) return false;
+    commitAnnotationAction({ type: 'UPDATE_ANNOTATIONS', payload: checked }, coalesceKey);
+    return true;
+  }
+
+  /**
+   * Sets (or, with `undefined`, clears) the label of several annotations at
+   * once. Returns false, relabelling none, when the label does not allow one
+   * of their tools or would exceed its `maxCount`.
+   */
+  function relabelAnnotations(
+    ids: readonly AnnotationId[],
+    imageId: ImageId,
+    label: string | undefined,
+  ): boolean {
+    if (!validateRelabel(ids, imageId, label, contextState, annotationState)) return false;
+    return updateAnnotations(ids.map((id) => ({ id, imageId, patch: { label } })));
+  }
+
+  /**
+   * Sets (or, with `undefined`, clears) the style of several annotations at
+   * once. Cleared annotations fall back to their label and tool styles.
+   */
+  function restyleAnnotations(
+    ids: readonly AnnotationId[],
+    imageId: ImageId,
+    style: AnnotationStyle | undefined,
   ): void {
-    setAnnotationState(
-      produce((draft) =>
-        applyAnnotationAction(draft, {
-          type: 'UPDATE_ANNOTATION',
-          payload: { id, imageId, patch },
-        }),
-      ),
-    );
+    updateAnnotations(ids.map((id) => ({ id, imageId, patch: { style } })));
+  }
+
+  /**
+   * Moves annotations to the front or back of their image's stack, or one
+   * step forward or backward, as one change (persisted as `zIndex`).
+   */
+  function reorderAnnotations(
+    ids: readonly AnnotationId[],
+    imageId: ImageId,
+    move: ZOrderMove,
+  ): void {
+    updateAnnotations(getZOrderUpdates(annotationState.byImage[imageId] ?? {}, imageId, ids, move));
+  }
+
+  /**
+   * Replaces (or, with `undefined`, clears) an annotation's attributes.
+   * No-ops when a value does not match its context's attribute definition.
+   */
+  function setAnnotationAttributes(
+    id: AnnotationId,
+    imageId: ImageId,
+    attributes: Readonly<Record<string, AttributeValue>> | undefined,
+  ): void {
+    const annotation = annotationState.byImage[imageId]?.[id];
+    if (!annotation) return;
+    if (!validateAnnotationAttributes(annotation.contextId, attributes, contextState)) return;
+    updateAnnotation(id, imageId, { attributes });
+  }
+
+  /**
+   * Moves several annotations into another context at once. No-ops when the
+   * context is not scoped to the image, does not allow one of the
+   * annotations' tools, or would exceed a tool's `maxCount`.
+   */
+  function moveAnnotationsToContext(
+    ids: readonly AnnotationId[],
+    imageId: ImageId,
+    contextId: AnnotationContextId,
+  ): void {
+    if (!validateMoveToContext(ids, imageId, contextId, contextState, annotationState)) return;
+    updateAnnotations(ids.map((id) => ({ id, imageId, patch: { contextId } })));
   }
 
   /**
@@ -64,11 +229,144 @@ export function createActions(
   }
 
   function deleteAnnotation(id: AnnotationId, imageId: ImageId): void {
+    commitAnnotationAction({ type: 'DELETE_ANNOTATION', payload: { id, imageId } });
+    deselect([id]);
+  }
+
+  /** Deletes several annotations as one change (one undo step). */
+  function deleteAnnotations(ids: readonly AnnotationId[], imageId: ImageId): void {
+    if (ids.length === 0) return;
+    commitAnnotationAction({
+      type: 'DELETE_ANNOTATIONS',
+      payload: ids.map((id) => ({ id, imageId })),
+    });
+    deselect(ids);
+  }
+
+  /** The active cell's image, which the selection belongs to. */
+  function activeImageId(): ImageId | undefined {
+    return uiState.gridAssignments[uiState.activeCellIndex];
+  }
+
+  /** Copies the selected annotations to the clipboard. Returns whether any were copied. */
+  function copySelected(): boolean {
+    const imageId = activeImageId();
+    if (!imageId) return false;
+    const copied = copyAnnotations(unwrap(annotationState), imageId, uiState.selectedAnnotationIds);
+    if (copied) clipboard = copied;
+    return copied !== null;
+  }
+
+  /**
+   * Copies the selected annotations to the clipboard, then deletes them.
+   * Locked and hidden annotations are left alone.
+   */
+  function cutSelected(): boolean {
+    const imageId = activeImageId();
+    if (!imageId) return false;
+    const imageAnns = annotationState.byImage[imageId] ?? {};
+    const ids = uiState.selectedAnnotationIds.filter(
+      (id) => !imageAnns[id]?.locked && !imageAnns[id]?.hidden,
+    );
+    const copied = copyAnnotations(unwrap(annotationState), imageId, ids);
+    if (!copied) return false;
+    clipboard = copied;
+    deleteAnnotations(ids, imageId);
+    return true;
+  }
+
+  /**
+   * Pastes the clipboard onto `imageId` (the active image by default) as one
+   * change (one undo step). Annotations the target's contexts, constraints
+   * or geometry rules reject are left out. Pastes onto the active image are
+   * selected. Returns the new ids.
+   */
+  function paste(
+    imageId: ImageId | undefined = activeImageId(),
+    options?: PasteOptions,
+  ): AnnotationId[] {
+    return clipboard && imageId ? pasteClipboard(clipboard, imageId, options) : [];
+  }
+
+  /** Whether the clipboard holds annotations for {@link paste}. */
+  function hasClipboard(): boolean {
+    return clipboard !== null;
+  }
+
+  /**
+   * Pastes a copy of the selected annotations next to them, leaving the
+   * clipboard untouched. Returns the new ids.
+   */
+  function duplicateSelected(options?: PasteOptions): AnnotationId[] {
+    const imageId = activeImageId();
+    if (!imageId) return [];
+    const copied = copyAnnotations(unwrap(annotationState), imageId, uiState.selectedAnnotationIds);
+    return copied ? pasteClipboard(copied, imageId, options) : [];
+  }
+
+  function pasteClipboard(
+    source: AnnotationClipboard,
+    imageId: ImageId,
+    options: PasteOptions | undefined,
+  ): AnnotationId[] {
+    const { annotations } = prepareClipboardPaste(
+      source,
+      imageId,
+      contextState,
+      geometryRuleEnvironment(),
+      options,
+    );
+    if (annotations.length === 0) return [];
+    commitAnnotationAction({ type: 'ADD_ANNOTATIONS', payload: annotations });
+    const ids = annotations.map((a) => a.id);
+    if (imageId === activeImageId()) setSelectedAnnotations(ids);
+    return ids;
+  }
+
+  /** Drops `ids` from the selection, if any of them are selected. */
+  function deselect(ids: readonly AnnotationId[]): void {
+    const selected = uiState.selectedAnnotationIds;
+    if (!ids.some((id) => selected.includes(id))) return;
+    setSelectedAnnotations(selected.filter((id) => !ids.includes(id)));
+  }
+
+  /**
+   * Reverts the most recent annotation change (updates sharing a
+   * `coalesceKey` count as one change). Drops annotations the undo removed
+   * from the selection.
+   */
+  function undo(): void {
+    const action = getUndoAction(unwrap(historyState));
+    if (!action) return;
+    setAnnotationState(produce((draft) => applyAnnotationAction(draft, action)));
+    setHistoryState(produce((draft) => applyHistoryAction(draft, { type: 'UNDO' })));
+    deselect(action.payload.flatMap((s) => (s.annotation ? [] : [s.id])));
+  }
+
+  /** Re-applies the most recently undone annotation change. */
+  function redo(): void {
+    const forward = getRedoActions(unwrap(historyState));
+    if (forward.length === 0) return;
     setAnnotationState(
-      produce((draft) =>
-        applyAnnotationAction(draft, { type: 'DELETE_ANNOTATION', payload: { id, imageId } }),
-      ),
+      produce((draft) => {
+        for (const action of forward) applyAnnotationAction(draft, action);
+      }),
     );
+    setHistoryState(produce((draft) => applyHistoryAction(draft, { type: 'REDO' })));
+  }
+
+  /** Reactive: whether {@link undo} has anything to revert. */
+  function canUndo(): boolean {
+    return historyCanUndo(historyState);
+  }
+
+  /** Reactive: whether {@link redo} has anything to re-apply. */
+  function canRedo(): boolean {
+    return historyCanRedo(historyState);
+  }
+
+  function clearHistory(): void {
+    setHistoryState(produce((draft) => applyHistoryAction(draft, { type: 'CLEAR_HISTORY' })));
   }
 
   function setActiveTool(tool: ToolType | 'select' | null): void {
@@ -77,6 +375,25 @@ export function createActions(
     );
   }
 
+  /**
+   * Sets the label given to shapes drawn next, or clears it. The label must
+   * be the `id` of one of the active context's labels.
+   */
+  function setActiveLabel(labelId: string | null): void {
+    setUIState(
+      produce((draft) => applyUIAction(draft, { type: 'SET_ACTIVE_LABEL', payload: labelId })),
+    );
+  }
+
+  /** Records an image's pixel size, for geometry rules such as `insideImage`. */
+  function setImageSize(imageId: ImageId, size: ImageSize): void {
+    setUIState(
+      produce((draft) =>
+        applyUIAction(draft, { type: 'SET_IMAGE_SIZE', payload: { imageId, size } }),
+      ),
+    );
+  }
+
   function setActiveViewerControl(control: ViewerControlId | null): void {
     setUIState(
       produce((draft) =>
@@ -91,12 +408,18 @@ export function createActions(
     );
   }
 
-  function setSelectedAnnotation(id: AnnotationId | null): void {
+  /** Replaces the selection; an empty array clears it. */
+  function setSelectedAnnotations(ids: readonly AnnotationId[]): void {
     setUIState(
-      produce((draft) => applyUIAction(draft, { type: 'SET_SELECTED_ANNOTATION', payload: id })),
+      produce((draft) => applyUIAction(draft, { type: 'SET_SELECTED_ANNOTATIONS', payload: ids })),
     );
   }
 
+  /** Selects a single annotation, or clears the selection with `null`. */
+  function setSelectedAnnotation(id: AnnotationId | null): void {
+    setSelectedAnnotations(id === null ? [] : [id]);
+  }
+
   function assignImageToCell(cellIndex: number, imageId: ImageId): void {
     setUIState(
       produce((draft) =>
@@ -119,12 +442,14 @@ export function createActions(
     );
   }
 
+  /** Switches the active context. The active label belongs to the old one, so it is cleared. */
   function setActiveContext(contextId: AnnotationContextId | null): void {
     setContextState(
       produce((draft) =>
         applyContextAction(draft, { type: 'SET_ACTIVE_CONTEXT', payload: contextId }),
       ),
     );
+    setActiveLabel(null);
   }
 
   function setDisplayedContexts(contextIds: AnnotationContextId[]): void {
@@ -136,9 +461,105 @@ export function createActions(
   }
 
   function loadAnnotations(byImage: Record<ImageId, Record<AnnotationId, OsdAnnotation>>): void {
-    setAnnotationState(
+    commitAnnotationAction({ type: 'LOAD_ANNOTATIONS', payload: byImage });
+  }
+
+  /** Links the grid cells' views in `mode`, or unlinks them with `null`. */
+  function setViewLinkMode(mode: ViewLinkMode | null): void {
+    setUIState(
+      produce((draft) => applyUIAction(draft, { type: 'SET_VIEW_LINK_MODE', payload: mode })),
+    );
+  }
+
+  /** Adds a cell to, or leaves it out of, view linking. */
+  function toggleCellLink(cellIndex: number): void {
+    setUIState(
+      produce((draft) =>
+        applyUIAction(draft, { type: 'TOGGLE_CELL_LINK', payload: { cellIndex } }),
+      ),
+    );
+  }
+
+  /** Turns the crosshair that echoes the pointer across cells on or off. */
+  function setLinkedCrosshair(enabled: boolean): void {
+    setUIState(
+      produce((draft) => applyUIAction(draft, { type: 'SET_LINKED_CROSSHAIR', payload: enabled })),
+    );
+  }
+
+  /** Stacks overlapping annotations by their `zIndex`, or smallest on top. */
+  function setStackingOrder(order: AnnotationStackingOrder): void {
+    setUIState(
+      produce((draft) => applyUIAction(draft, { type: 'SET_STACKING_ORDER', payload: order })),
+    );
+  }
+
+  /**
+   * Changes how drawn and edited points snap, merging `settings` into the
+   * current ones.
+   */
+  function setSnapping(settings: Partial<SnapSettings>): void {
+    setUIState(
+      produce((draft) => applyUIAction(draft, { type: 'SET_SNAPPING', payload: settings })),
+    );
+  }
+
+  /**
+   * Records the affine transform mapping image `from` onto image `to`,
+   * replacing any registration of the pair. `null` removes it.
+   */
+  function setRegistration(from: ImageId, to: ImageId, matrix: AffineMatrix | null): void {
+    setUIState(
+      produce((draft) =>
+        applyUIAction(draft, { type: 'SET_REGISTRATION', payload: { from, to, matrix } }),
+      ),
+    );
+  }
+
+  /** Replaces every registration, e.g. with those of a loaded document. */
+  function setRegistrations(registrations: readonly ImageRegistration[]): void {
+    setUIState(
+      produce((draft) =>
+        applyUIAction(draft, { type: 'SET_REGISTRATIONS', payload: registrations }),
+      ),
+    );
+  }
+
+  /**
+   * Hides annotations from their cells, or shows them again, as one change.
+   * Hidden annotations are dropped from the selection.
+   */
+  function setAnnotationsHidden(
+    ids: readonly AnnotationId[],
+    imageId: ImageId,
+    hidden: boolean,
+  ): void {
+    if (hidden) deselect(ids);
+    updateAnnotations(ids.map((id) => ({ id, imageId, patch: { hidden } })));
+  }
+
+  /**
+   * Locks annotations against selecting, editing and deleting on the canvas,
+   * or unlocks them, as one change. Locked annotations are dropped from the
+   * selection.
+   */
+  function setAnnotationsLocked(
+    ids: readonly AnnotationId[],
+    imageId: ImageId,
+    locked: boolean,
+  ): void {
+    if (locked) deselect(ids);
+    updateAnnotations(ids.map((id) => ({ id, imageId, patch: { locked } })));
+  }
+
+  /**
+   * Selects an annotation and pans and zooms its cell to it. The image is
+   * shown in the active cell when no cell shows it yet.
+   */
+  function focusAnnotation(id: AnnotationId, imageId: ImageId): void {
+    setUIState(
       produce((draft) =>
-        applyAnnotationAction(draft, { type: 'LOAD_ANNOTATIONS', payload: byImage }),
+        applyUIAction(draft, { type: 'FOCUS_ANNOTATION', payload: { id, imageId } }),
       ),
     );
   }
@@ -212,21 +633,61 @@ export function createActions(
     );
   }
 
+  /** Fits the active cell's view to all of its image's shown annotations. */
+  function fitActiveImageToAnnotations(): void {
+    const cellIndex = uiState.activeCellIndex;
+    setUIState(
+      produce((draft) =>
+        applyUIAction(draft, { type: 'FIT_ALL_ANNOTATIONS', payload: { cellIndex } }),
+      ),
+    );
+  }
+
   return {
     addAnnotation,
     updateAnnotation,
+    updateAnnotations,
+    relabelAnnotations,
+    restyleAnnotations,
+    reorderAnnotations,
+    setAnnotationAttributes,
+    moveAnnotationsToContext,
     convertAnnotation,
     deleteAnnotation,
+    deleteAnnotations,
+    copySelected,
+    cutSelected,
+    paste,
+    hasClipboard,
+    duplicateSelected,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    clearHistory,
     setActiveTool,
+    setActiveLabel,
+    setImageSize,
     setActiveViewerControl,
     setActiveCell,
     setSelectedAnnotation,
+    setSelectedAnnotations,
     assignImageToCell,
     setGridDimensions,
     setContexts,
     setActiveContext,
     setDisplayedContexts,
     loadAnnotations,
+    setViewLinkMode,
+    toggleCellLink,
+    setLinkedCrosshair,
+    setStackingOrder,
+    setSnapping,
+    setRegistration,
+    setRegistrations,
+    setAnnotationsHidden,
+    setAnnotationsLocked,
+    focusAnnotation,
     rotateActiveImageCW,
     rotateActiveImageCCW,
     flipActiveImageH,
@@ -236,5 +697,6 @@ export function createActions(
     decreaseActiveImageExposure,
     setActiveImageExposure,
     resetActiveImageView,
+    fitActiveImageToAnnotations,
   };
 }
@@ -1,20 +1,45 @@
-import { createContext, useContext, createEffect, on, type JSX, type Accessor } from 'solid-js';
+import {
+  createContext,
+  useContext,
+  createEffect,
+  createMemo,
+  on,
+  untrack,
+  type JSX,
+  type Accessor,
+} from 'solid-js';
 import { produce } from 'solid-js/store';
 import type { AnnotationId } from '@osdlabel/annotation';
 import type { ImageId, PixelSpacing } from '@osdlabel/viewer-api';
 import type { AnnotationState, KeyboardShortcutMap, UIState } from '@osdlabel/viewer-api';
 import { getAllAnnotationsFlat } from '@osdlabel/viewer-api';
-import type { ConstraintStatus, ContextState } from '@osdlabel/annotation-context';
+import type {
+  CompletionStatus,
+  ConstraintStatus,
+  ContextState,
+  GeometryViolationReport,
+  LabelStatus,
+  MissingAttributes,
+} from '@osdlabel/annotation-context';
 import type { DecorationProvider, DomDecoration } from '@osdlabel/decoration';
+import { ViewLinkGroup } from '@osdlabel/osd-helper';
 import type { OsdAnnotation, OsdFields, VertexEditConfig } from 'osdlabel';
 import {
+  AnnotationSpatialIndex,
+  CrosshairLink,
   DEFAULT_KEYBOARD_SHORTCUTS,
   DEFAULT_VERTEX_EDIT_LONG_PRESS_MS,
   DEFAULT_VERTEX_EDIT_MOVE_TOLERANCE_PX,
 } from 'osdlabel';
 import { createAnnotationStore } from './annotation-store.js';
 import { createUIStore } from './ui-store.js';
-import { createContextStore, createConstraintStatus } from './context-store.js';
+import {
+  createContextStore,
+  createConstraintStatus,
+  createLabelStatus,
+  createMissingAttributes,
+  createCompletionStatus,
+} from './context-store.js';
 import { createActions } from './actions.js';
 import { useKeyboard } from '../hooks/useKeyboard.js';
 
@@ -27,6 +52,11 @@ interface AnnotatorContextValue {
   uiState: UIState;
   contextState: ContextState;
   constraintStatus: Accessor<ConstraintStatus>;
+  /** Per label of the active context, keyed by label id. */
+  labelStatus: Accessor<LabelStatus>;
+  /** Annotations in the active context with required attributes left empty. */
+  missingAttributes: Accessor<readonly MissingAttributes[]>;
+  completionStatus: Accessor<CompletionStatus>;
   actions: ReturnType<typeof createActions>;
   activeToolKeyHandlerRef: ActiveToolKeyHandlerRef;
   shortcuts: KeyboardShortcutMap;
@@ -36,6 +66,12 @@ interface AnnotatorContextValue {
   decorationProviders: readonly DecorationProvider<OsdFields>[];
   defaultPixelSpacing: PixelSpacing | undefined;
   renderDomDecoration: ((decoration: DomDecoration) => JSX.Element) | undefined;
+  /** The grid's viewers, which follow the active cell while views are linked. */
+  viewLinks: ViewLinkGroup;
+  /** Carries the pointer between cells for the linked crosshair. */
+  crosshair: CrosshairLink;
+  /** Annotation bounding boxes per image, re-synced on every annotation change. */
+  spatialIndex: Accessor<AnnotationSpatialIndex<OsdFields>>;
 }
 
 const KeyboardHandler = (props: {
@@ -57,6 +93,19 @@ export interface AnnotatorProviderProps {
   readonly onAnnotationsChange?: ((annotations: OsdAnnotation[]) => void) | undefined;
   /** Called when constraint status changes (after initial mount) */
   readonly onConstraintChange?: ((status: ConstraintStatus) => void) | undefined;
+  /** Called with the completion status on mount and whenever it changes */
+  readonly onCompletionChange?: ((status: CompletionStatus) => void) | undefined;
+  /**
+   * Called when an added or modified annotation breaks its tool's
+   * `geometryRules`, with what was broken and whether the change was
+   * rejected, clamped or kept.
+   */
+  readonly onGeometryViolation?: ((report: GeometryViolationReport) => void) | undefined;
+  /**
+   * Images whose per-image requirements (`minCount`) completion checks.
+   * Defaults to the images that have annotations or are shown in the grid.
+   */
+  readonly imageIds?: readonly ImageId[] | undefined;
   readonly keyboardShortcuts?: Partial<KeyboardShortcutMap> | undefined;
   /**
    * Long-press duration (ms) to enter polygon/polyline vertex-edit mode.
@@ -101,9 +150,41 @@ export function AnnotatorProvider(props: AnnotatorProviderProps) {
     contextState,
     uiState,
     annotationState,
+    (report) => props.onGeometryViolation?.(report),
   );
   const activeImageId = () => uiState.gridAssignments[uiState.activeCellIndex];
-  const constraintStatus = createConstraintStatus(contextState, annotationState, activeImageId);
+  const constraintStatus = createConstraintStatus(
+    contextState,
+    annotationState,
+    activeImageId,
+    () => uiState.activeLabel,
+  );
+  const labelStatus = createLabelStatus(contextState, annotationState, activeImageId);
+  const missingAttributes = createMissingAttributes(contextState, annotationState);
+  const completionStatus = createCompletionStatus(
+    contextState,
+    annotationState,
+    () =>
+      props.imageIds ?? [
+        ...new Set([
+          ...(Object.keys(annotationState.byImage) as ImageId[]),
+          ...Object.values(uiState.gridAssignments),
+        ]),
+      ],
+  );
+
+  // One index for the provider's lifetime; the memo notifies readers after
+  // each sync, so queries made under tracking re-run on annotation changes.
+  const index = new AnnotationSpatialIndex<OsdFields>();
+  const spatialIndex = createMemo(
+    () => {
+      void annotationState.changeCounter;
+      untrack(() => index.sync(annotationState));
+      return index;
+    },
+    index,
+    { equals: false },
+  );
 
   const activeToolKeyHandlerRef: ActiveToolKeyHandlerRef = { handler: null };
   const mergedShortcuts = { ...DEFAULT_KEYBOARD_SHORTCUTS, ...props.keyboardShortcuts };
@@ -151,11 +232,24 @@ export function AnnotatorProvider(props: AnnotatorProviderProps) {
     ),
   );
 
+  // Fire onCompletionChange with the initial status too, so a host can gate
+  // e.g. a Submit button from the start.
+  createEffect(
+    on(completionStatus, (status) => {
+      if (props.onCompletionChange) {
+        props.onCompletionChange(status);
+      }
+    }),
+  );
+
   const value: AnnotatorContextValue = {
     annotationState,
     uiState,
     contextState,
     constraintStatus,
+    labelStatus,
+    missingAttributes,
+    completionStatus,
     actions,
     activeToolKeyHandlerRef,
     shortcuts: mergedShortcuts,
@@ -165,6 +259,9 @@ export function AnnotatorProvider(props: AnnotatorProviderProps) {
     decorationProviders: props.decorationProviders ?? [],
     defaultPixelSpacing: props.defaultPixelSpacing,
     renderDomDecoration: props.renderDomDecoration,
+    viewLinks: new ViewLinkGroup(),
+    crosshair: new CrosshairLink(),
+    spatialIndex,
   };
 
   return (
@@ -2,9 +2,21 @@ import { createStore } from 'solid-js/store';
 import { createMemo } from 'solid-js';
 import type { ImageId } from '@osdlabel/viewer-api';
 import type { AnnotationState } from '@osdlabel/viewer-api';
-import type { ContextState, ConstraintStatus } from '@osdlabel/annotation-context';
+import type {
+  CompletionStatus,
+  ContextState,
+  ConstraintStatus,
+  LabelStatus,
+  MissingAttributes,
+} from '@osdlabel/annotation-context';
 import type { OsdFields } from 'osdlabel';
-import { createInitialContextState, computeConstraintStatus } from 'osdlabel';
+import {
+  createInitialContextState,
+  computeCompletionStatus,
+  computeConstraintStatus,
+  computeLabelStatus,
+  findMissingAttributes,
+} from 'osdlabel';
 
 export function createContextStore() {
   const [state, setState] = createStore<ContextState>(createInitialContextState());
@@ -15,8 +27,38 @@ export function createConstraintStatus(
   contextState: ContextState,
   annotationState: AnnotationState<OsdFields>,
   currentImageId: () => ImageId | undefined,
+  activeLabel: () => string | null = () => null,
 ) {
   return createMemo<ConstraintStatus>(() =>
-    computeConstraintStatus(contextState, annotationState, currentImageId()),
+    computeConstraintStatus(contextState, annotationState, currentImageId(), activeLabel()),
+  );
+}
+
+export function createLabelStatus(
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+  currentImageId: () => ImageId | undefined,
+) {
+  return createMemo<LabelStatus>(() =>
+    computeLabelStatus(contextState, annotationState, currentImageId()),
+  );
+}
+
+export function createMissingAttributes(
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+) {
+  return createMemo<readonly MissingAttributes[]>(() =>
+    findMissingAttributes(contextState, annotationState),
+  );
+}
+
+export function createCompletionStatus(
+  contextState: ContextState,
+  annotationState: AnnotationState<OsdFields>,
+  imageIds: () => readonly ImageId[],
+) {
+  return createMemo<CompletionStatus>(() =>
+    computeCompletionStatus(contextState, annotationState, imageIds()),
   );
 }
@@ -1,13 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { version as FABRIC_VERSION } from 'fabric';
 import { createRoot } from 'solid-js';
 import { createAnnotationStore } from '../../src/state/annotation-store';
 import { createActions } from '../../src/state/actions';
 import { createUIStore } from '../../src/state/ui-store';
 import { createContextStore } from '../../src/state/context-store';
-import { createAnnotationId } from '@osdlabel/annotation';
+import { rectangleAnnotation } from './test-helpers';
 import { createImageId } from '@osdlabel/viewer-api';
-import type { Annotation } from '@osdlabel/annotation';
 import { createAnnotationContextId } from '@osdlabel/annotation-context';
 
 describe('version counter', () => {
@@ -17,26 +15,22 @@ describe('version counter', () => {
   function createTestStore() {
     return createRoot((dispose) => {
       const { state: annotationState, setState: setAnnotationState } = createAnnotationStore();
-      const { setState: setUIState } = createUIStore();
+      const { state: uiState, setState: setUIState } = createUIStore();
       const { state: contextState, setState: setContextState } = createContextStore();
-      const actions = createActions(setAnnotationState, setUIState, setContextState, contextState);
+      const actions = createActions(
+        setAnnotationState,
+        setUIState,
+        setContextState,
+        contextState,
+        uiState,
+        annotationState,
+      );
       return { annotationState, actions, dispose };
     });
   }
 
-  function makeAnnotation(index: number): Omit<Annotation, 'createdAt' | 'updatedAt'> {
-    return {
-      id: createAnnotationId(`ann${index}`),
-      imageId,
-      contextId: dummyContextId,
-      toolType: 'rectangle',
-      geometry: { type: 'rectangle', origin: { x: 0, y: 0 }, width: 10, height: 10, rotation: 0 },
-      rawAnnotationData: {
-        format: 'fabric' as const,
-        fabricVersion: FABRIC_VERSION,
-        data: { type: 'Rect', left: 0, top: 0, width: 10, height: 10 },
-      },
-    };
+  function makeAnnotation(index: number) {
+    return rectangleAnnotation(`ann${index}`, imageId, dummyContextId);
   }
 
   it('starts at zero', () => {
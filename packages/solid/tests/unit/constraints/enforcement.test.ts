@@ -3,13 +3,19 @@ import { version as FABRIC_VERSION } from 'fabric';
 import { createRoot } from 'solid-js';
 import { createAnnotationStore } from '../../../src/state/annotation-store';
 import { createUIStore } from '../../../src/state/ui-store';
-import { createContextStore, createConstraintStatus } from '../../../src/state/context-store';
+import {
+  createContextStore,
+  createConstraintStatus,
+  createLabelStatus,
+  createCompletionStatus,
+} from '../../../src/state/context-store';
 import { createActions } from '../../../src/state/actions';
+import { rectangleAnnotation } from '../test-helpers';
 import { createAnnotationId } from '@osdlabel/annotation';
 import { createImageId } from '@osdlabel/viewer-api';
 import type { ImageId } from '@osdlabel/viewer-api';
 import { createAnnotationContextId } from '@osdlabel/annotation-context';
-import type { AnnotationContext } from '@osdlabel/annotation-context';
+import type { AnnotationContext, GeometryViolationReport } from '@osdlabel/annotation-context';
 
 describe('Constraint Enforcement', () => {
   function createTestStore(initialImageId: ImageId = imageId) {
@@ -17,14 +23,43 @@ describe('Constraint Enforcement', () => {
       const { state: annotationState, setState: setAnnotationState } = createAnnotationStore();
       const { state: uiState, setState: setUIState } = createUIStore();
       const { state: contextState, setState: setContextState } = createContextStore();
-
-      const actions = createActions(setAnnotationState, setUIState, setContextState, contextState);
+      const geometryViolations: GeometryViolationReport[] = [];
+
+      const actions = createActions(
+        setAnnotationState,
+        setUIState,
+        setContextState,
+        contextState,
+        uiState,
+        annotationState,
+        (report) => geometryViolations.push(report),
+      );
       // Assign image to cell 0 so constraint status has a currentImageId
       setUIState('gridAssignments', 0, initialImageId);
       const activeImageId = () => uiState.gridAssignments[uiState.activeCellIndex];
-      const constraintStatus = createConstraintStatus(contextState, annotationState, activeImageId);
-
-      return { annotationState, uiState, contextState, actions, constraintStatus, dispose };
+      const constraintStatus = createConstraintStatus(
+        contextState,
+        annotationState,
+        activeImageId,
+        () => uiState.activeLabel,
+      );
+      const labelStatus = createLabelStatus(contextState, annotationState, activeImageId);
+
+      const completionStatus = createCompletionStatus(contextState, annotationState, () => [
+        initialImageId,
+      ]);
+
+      return {
+        annotationState,
+        uiState,
+        contextState,
+        actions,
+        constraintStatus,
+        labelStatus,
+        completionStatus,
+        geometryViolations,
+        dispose,
+      };
     });
   }
 
@@ -480,4 +515,161 @@ describe('Constraint Enforcement', () => {
 
     dispose();
   });
+
+  describe('labels', () => {
+    const labelledContext: AnnotationContext = {
+      id: contextId1,
+      label: 'Labelled',
+      tools: [{ type: 'rectangle' }, { type: 'line' }],
+      labels: [
+        { id: 'tumor', name: 'Tumor', maxCount: 1 },
+        { id: 'vessel', name: 'Vessel', tools: ['line'] },
+      ],
+    };
+
+    function addRectangle(
+      actions: ReturnType<typeof createTestStore>['actions'],
+      id: string,
+      label?: string,
+    ) {
+      actions.addAnnotation(rectangleAnnotation(id, imageId, contextId1, label ? { label } : {}));
+    }
+
+    it('should count annotations per label, whichever tool drew them', () => {
+      const { actions, constraintStatus, labelStatus, dispose } = createTestStore();
+      actions.setContexts([labelledContext]);
+      actions.setActiveContext(contextId1);
+
+      expect(labelStatus().tumor).toEqual({
+        enabled: true,
+        currentCount: 0,
+        maxCount: 1,
+      });
+
+      addRectangle(actions, 'r1', 'tumor');
+      addRectangle(actions, 'r2');
+
+      expect(labelStatus().tumor).toEqual({ enabled: false, currentCount: 1, maxCount: 1 });
+      expect(labelStatus().vessel).toEqual({ enabled: true, currentCount: 0, maxCount: null });
+      expect(constraintStatus().rectangle.currentCount).toBe(2);
+
+      dispose();
+    });
+
+    it('should gate tools by the active label', () => {
+      const { actions, constraintStatus, dispose } = createTestStore();
+      actions.setContexts([labelledContext]);
+      actions.setActiveContext(contextId1);
+
+      actions.setActiveLabel('vessel');
+      expect(constraintStatus().rectangle.enabled).toBe(false);
+      expect(constraintStatus().line.enabled).toBe(true);
+
+      actions.setActiveLabel('tumor');
+      expect(constraintStatus().rectangle.enabled).toBe(true);
+      addRectangle(actions, 'r1', 'tumor');
+      expect(constraintStatus().rectangle.enabled).toBe(false);
+      expect(constraintStatus().line.enabled).toBe(false);
+
+      actions.setActiveLabel(null);
+      expect(constraintStatus().rectangle.enabled).toBe(true);
+
+      dispose();
+    });
+
+    it('should clear the active label when switching contexts', () => {
+      const { actions, uiState, dispose } = createTestStore();
+      actions.setContexts([labelledContext, context2]);
+      actions.setActiveContext(contextId1);
+      actions.setActiveLabel('tumor');
+
+      actions.setActiveContext(contextId2);
+      expect(uiState.activeLabel).toBeNull();
+
+      dispose();
+    });
+  });
+
+  describe('geometry rules', () => {
+    const rect = (id: string, x: number, width: number) =>
+      rectangleAnnotation(id, imageId, contextId1, { x, width });
+
+    it('should reject adds and updates that break a rule, reporting them', () => {
+      const { actions, annotationState, geometryViolations, dispose } = createTestStore();
+      actions.setContexts([
+        {
+          id: contextId1,
+          label: 'Rules',
+          tools: [{ type: 'rectangle', geometryRules: { minArea: 50 } }],
+        },
+      ]);
+      actions.setActiveContext(contextId1);
+
+      expect(actions.addAnnotation(rect('small', 0, 2))).toBe(false);
+      expect(annotationState.byImage[imageId]?.[createAnnotationId('small')]).toBeUndefined();
+      expect(geometryViolations).toEqual([
+        expect.objectContaining({ outcome: 'rejected', annotationId: createAnnotationId('small') }),
+      ]);
+
+      expect(actions.addAnnotation(rect('r1', 0, 10))).toBe(true);
+      expect(
+        actions.updateAnnotation(createAnnotationId('r1'), imageId, {
+          geometry: rect('r1', 0, 1).geometry,
+        }),
+      ).toBe(false);
+      expect(annotationState.byImage[imageId]?.[createAnnotationId('r1')]?.geometry).toMatchObject({
+        width: 10,
+      });
+      // Changes that leave the geometry alone are not checked.
+      expect(actions.updateAnnotation(createAnnotationId('r1'), imageId, { label: 'x' })).toBe(
+        true,
+      );
+
+      dispose();
+    });
+
+    it('should clamp shapes into the image once its size is known', () => {
+      const { actions, annotationState, geometryViolations, dispose } = createTestStore();
+      actions.setContexts([
+        {
+          id: contextId1,
+          label: 'Rules',
+          tools: [{ type: 'rectangle', geometryRules: { insideImage: true, policy: 'clamp' } }],
+        },
+      ]);
+      actions.setActiveContext(contextId1);
+      actions.setImageSize(imageId, { width: 100, height: 100 });
+
+      expect(actions.addAnnotation(rect('r1', 95, 10))).toBe(true);
+      const stored = annotationState.byImage[imageId]?.[createAnnotationId('r1')];
+      expect(stored?.geometry).toMatchObject({ origin: { x: 95, y: 0 }, width: 5 });
+      expect(stored?.rawAnnotationData).toBeUndefined();
+      expect(geometryViolations[0]?.outcome).toBe('clamped');
+
+      dispose();
+    });
+  });
+
+  it('should track completion as required annotations are added and removed', () => {
+    const { actions, completionStatus, dispose } = createTestStore();
+    actions.setContexts([
+      {
+        id: contextId1,
+        label: 'Required',
+        tools: [{ type: 'rectangle', minCount: 1, countScope: 'per-image' }],
+      },
+    ]);
+    actions.setActiveContext(contextId1);
+
+    expect(completionStatus().complete).toBe(false);
+    expect(completionStatus().byImage[imageId]?.unmet).toHaveLength(1);
+
+    actions.addAnnotation(rectangleAnnotation('r1', imageId, contextId1));
+    expect(completionStatus().complete).toBe(true);
+
+    actions.deleteAnnotation(createAnnotationId('r1'), imageId);
+    expect(completionStatus().complete).toBe(false);
+
+    dispose();
+  });
 });
@@ -6,11 +6,13 @@ import { DEFAULT_KEYBOARD_SHORTCUTS } from '../../../src/hooks/useKeyboard.js';
 
 // Mock useAnnotator
 const mockActions = {
-  updateAnnotation: vi.fn(),
+  updateAnnotation: vi.fn().mockReturnValue(true),
+  updateAnnotations: vi.fn().mockReturnValue(true),
   setActiveTool: vi.fn(),
-  addAnnotation: vi.fn(),
+  addAnnotation: vi.fn().mockReturnValue(true),
   deleteAnnotation: vi.fn(),
-  setSelectedAnnotation: vi.fn(),
+  deleteAnnotations: vi.fn(),
+  setSelectedAnnotations: vi.fn(),
 };
 
 const mockState = {
@@ -102,6 +104,16 @@ describe('useAnnotationTool', () => {
               geometry: expect.anything(),
               rawAnnotationData: expect.anything(),
             }),
+            undefined,
+          );
+
+          // Edits in one vertex-edit session share a coalesce key.
+          handler?.({ target: { ...mockObj, _editSession: 'vertex-edit:1' } });
+          expect(mockActions.updateAnnotation).toHaveBeenLastCalledWith(
+            'ann-1',
+            'img-1',
+            expect.anything(),
+            'vertex-edit:1',
           );
 
           dispose();
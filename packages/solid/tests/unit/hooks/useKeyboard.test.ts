@@ -5,8 +5,10 @@ import { useKeyboard, DEFAULT_KEYBOARD_SHORTCUTS } from '../../../src/hooks/useK
 // Mock annotator actions
 const mockActions = {
   setActiveTool: vi.fn(),
-  setSelectedAnnotation: vi.fn(),
+  setActiveLabel: vi.fn(),
+  setSelectedAnnotations: vi.fn(),
   deleteAnnotation: vi.fn(),
+  deleteAnnotations: vi.fn(),
   setActiveCell: vi.fn(),
   setGridDimensions: vi.fn(),
   rotateActiveImageCW: vi.fn(),
@@ -14,11 +16,21 @@ const mockActions = {
   flipActiveImageH: vi.fn(),
   flipActiveImageV: vi.fn(),
   resetActiveImageView: vi.fn(),
+  fitActiveImageToAnnotations: vi.fn(),
+  undo: vi.fn(),
+  redo: vi.fn(),
+  canUndo: vi.fn(() => true),
+  canRedo: vi.fn(() => true),
+  copySelected: vi.fn(() => true),
+  cutSelected: vi.fn(() => true),
+  paste: vi.fn(() => ['pasted']),
+  duplicateSelected: vi.fn(() => ['duplicate']),
+  hasClipboard: vi.fn(() => true),
 };
 
 // Mock UI state
 const mockUiState = {
-  selectedAnnotationId: null as string | null,
+  selectedAnnotationIds: [] as string[],
   gridAssignments: [
     'img-1',
     'img-2',
@@ -33,11 +45,34 @@ const mockUiState = {
   activeCellIndex: 0,
   gridColumns: 1,
   gridRows: 1,
+  activeLabel: null as string | null,
+};
+
+// Mock context state: one active context with a labelled hotkey
+const mockContextState = {
+  contexts: [
+    {
+      id: 'ctx-1',
+      label: 'Context',
+      tools: [{ type: 'rectangle' }],
+      labels: [{ id: 'tumor', name: 'Tumor', hotkey: 't' }],
+    },
+  ],
+  activeContextId: 'ctx-1',
+};
+
+// Mock annotation state: one locked and one hidden annotation on 'img-3'
+const mockAnnotationState = {
+  byImage: {
+    'img-3': { 'ann-locked': { locked: true }, 'ann-hidden': { hidden: true } },
+  } as Record<string, Record<string, { locked?: boolean; hidden?: boolean }>>,
 };
 
 // Mock context state
 const mockState = {
   uiState: mockUiState,
+  contextState: mockContextState,
+  annotationState: mockAnnotationState,
   actions: mockActions,
   activeImageId: () => mockUiState.gridAssignments[mockUiState.activeCellIndex],
 };
@@ -78,8 +113,13 @@ vi.mock('../../../src/hooks/useConstraints.js', () => ({
 }));
 
 // Helper to simulate a keyboard event
-function dispatchKeyDown(key: string, target?: Partial<HTMLElement>, shiftKey = false) {
-  const event = new KeyboardEvent('keydown', { key, shiftKey });
+function dispatchKeyDown(
+  key: string,
+  target?: Partial<HTMLElement>,
+  shiftKey = false,
+  ctrlKey = false,
+) {
+  const event = new KeyboardEvent('keydown', { key, shiftKey, ctrlKey, cancelable: true });
   if (target) {
     Object.defineProperty(event, 'target', { value: target, enumerable: true });
   } else {
@@ -89,6 +129,7 @@ function dispatchKeyDown(key: string, target?: Partial<HTMLElement>, shiftKey =
     });
   }
   window.dispatchEvent(event);
+  return event;
 }
 
 describe('useKeyboard', () => {
@@ -97,10 +138,11 @@ describe('useKeyboard', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockUiState.selectedAnnotationId = null;
+    mockUiState.selectedAnnotationIds = [];
     mockUiState.activeCellIndex = 0;
     mockUiState.gridColumns = 1;
     mockUiState.gridRows = 1;
+    mockUiState.activeLabel = null;
     mockConstraintStatus = makeConstraintStatus();
     mockConstraints.isToolEnabled.mockImplementation((type: string) => {
       const status = mockConstraintStatus as Record<string, { enabled: boolean }>;
@@ -243,6 +285,11 @@ describe('useKeyboard', () => {
       expect(mockActions.resetActiveImageView).toHaveBeenCalledTimes(2);
     });
 
+    it('should fit the active cell to its annotations on Shift+A', () => {
+      dispatchKeyDown('A', undefined, true);
+      expect(mockActions.fitActiveImageToAnnotations).toHaveBeenCalled();
+    });
+
     it('plain r should still trigger rectangle tool, not rotation', () => {
       dispatchKeyDown('r', undefined, false);
       expect(mockActions.rotateActiveImageCW).not.toHaveBeenCalled();
@@ -258,52 +305,74 @@ describe('useKeyboard', () => {
 
   describe('Cancel / Escape Shortcut', () => {
     it('should deselect annotation if one is selected', () => {
-      mockUiState.selectedAnnotationId = 'ann-1';
+      mockUiState.selectedAnnotationIds = ['ann-1'];
       dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.cancel);
 
-      expect(mockActions.setSelectedAnnotation).toHaveBeenCalledWith(null);
+      expect(mockActions.setSelectedAnnotations).toHaveBeenCalledWith([]);
       expect(mockActions.setActiveTool).not.toHaveBeenCalled();
     });
 
     it('should set active tool to null if no annotation is selected', () => {
-      mockUiState.selectedAnnotationId = null;
+      mockUiState.selectedAnnotationIds = [];
       dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.cancel);
 
       expect(mockActions.setActiveTool).toHaveBeenCalledWith(null);
-      expect(mockActions.setSelectedAnnotation).not.toHaveBeenCalled();
+      expect(mockActions.setSelectedAnnotations).not.toHaveBeenCalled();
     });
   });
 
   describe('Delete Shortcut', () => {
     it('should delete selected annotation on active cell image', () => {
-      mockUiState.selectedAnnotationId = 'ann-1';
+      mockUiState.selectedAnnotationIds = ['ann-1'];
       mockUiState.activeCellIndex = 0; // points to 'img-1'
 
       dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.delete);
 
       expect(mockActions.deleteAnnotation).toHaveBeenCalledWith('ann-1', 'img-1');
-      expect(mockActions.setSelectedAnnotation).toHaveBeenCalledWith(null);
+      expect(mockActions.setSelectedAnnotations).toHaveBeenCalledWith([]);
     });
 
     it('should also work with deleteAlt shortcut', () => {
-      mockUiState.selectedAnnotationId = 'ann-2';
+      mockUiState.selectedAnnotationIds = ['ann-2'];
       mockUiState.activeCellIndex = 1; // points to 'img-2'
 
       dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.deleteAlt);
 
       expect(mockActions.deleteAnnotation).toHaveBeenCalledWith('ann-2', 'img-2');
-      expect(mockActions.setSelectedAnnotation).toHaveBeenCalledWith(null);
+      expect(mockActions.setSelectedAnnotations).toHaveBeenCalledWith([]);
+    });
+
+    it('should delete a multi-selection as one change', () => {
+      mockUiState.selectedAnnotationIds = ['ann-1', 'ann-2'];
+      mockUiState.activeCellIndex = 0; // points to 'img-1'
+
+      dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.delete);
+
+      expect(mockActions.deleteAnnotations).toHaveBeenCalledWith(['ann-1', 'ann-2'], 'img-1');
+      expect(mockActions.deleteAnnotation).not.toHaveBeenCalled();
+      expect(mockActions.setSelectedAnnotations).toHaveBeenCalledWith([]);
+    });
+
+    it('should leave locked and hidden annotations selected and undeleted', () => {
+      mockUiState.selectedAnnotationIds = ['ann-1', 'ann-locked', 'ann-hidden'];
+      mockUiState.activeCellIndex = 2; // points to 'img-3'
+
+      dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.delete);
+
+      expect(mockActions.deleteAnnotation).toHaveBeenCalledWith('ann-1', 'img-3');
+      expect(mockActions.deleteAnnotations).not.toHaveBeenCalled();
+      expect(mockActions.setSelectedAnnotations).toHaveBeenCalledWith(['ann-locked', 'ann-hidden']);
     });
 
     it('should do nothing if no annotation is selected', () => {
-      mockUiState.selectedAnnotationId = null;
+      mockUiState.selectedAnnotationIds = [];
       dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.delete);
 
       expect(mockActions.deleteAnnotation).not.toHaveBeenCalled();
     });
 
     it('should do nothing if active image id is missing', () => {
-      mockUiState.selectedAnnotationId = 'ann-1';
+      mockUiState.selectedAnnotationIds = ['ann-1'];
       mockUiState.activeCellIndex = 10; // Out of bounds, undefined image
       dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.delete);
 
@@ -359,6 +428,80 @@ describe('useKeyboard', () => {
     });
   });
 
+  describe('History', () => {
+    it('should undo on Ctrl+Z', () => {
+      dispatchKeyDown('z', undefined, false, true);
+      expect(mockActions.undo).toHaveBeenCalled();
+      expect(mockActions.redo).not.toHaveBeenCalled();
+    });
+
+    it('should redo on Ctrl+Shift+Z', () => {
+      dispatchKeyDown('Z', undefined, true, true);
+      expect(mockActions.redo).toHaveBeenCalled();
+      expect(mockActions.undo).not.toHaveBeenCalled();
+    });
+
+    it('Ctrl+key should not trigger plain tool shortcuts', () => {
+      dispatchKeyDown(DEFAULT_KEYBOARD_SHORTCUTS.circleTool, undefined, false, true);
+      expect(mockActions.setActiveTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Clipboard', () => {
+    it('should copy, cut, paste and duplicate with Ctrl', () => {
+      mockUiState.selectedAnnotationIds = ['ann-1'];
+      const events = ['c', 'x', 'v', 'd'].map((key) =>
+        dispatchKeyDown(key, undefined, false, true),
+      );
+      expect(mockActions.copySelected).toHaveBeenCalledOnce();
+      expect(mockActions.cutSelected).toHaveBeenCalledOnce();
+      expect(mockActions.paste).toHaveBeenCalledOnce();
+      expect(mockActions.duplicateSelected).toHaveBeenCalledOnce();
+      expect(events.every((event) => event.defaultPrevented)).toBe(true);
+    });
+
+    it('should leave Ctrl+C/X/D to the browser with nothing selected', () => {
+      const events = ['c', 'x', 'd'].map((key) => dispatchKeyDown(key, undefined, false, true));
+      expect(mockActions.copySelected).not.toHaveBeenCalled();
+      expect(mockActions.cutSelected).not.toHaveBeenCalled();
+      expect(mockActions.duplicateSelected).not.toHaveBeenCalled();
+      expect(events.some((event) => event.defaultPrevented)).toBe(false);
+    });
+
+    it('should leave Ctrl+V to the browser with an empty clipboard', () => {
+      mockActions.hasClipboard.mockReturnValueOnce(false);
+      const event = dispatchKeyDown('v', undefined, false, true);
+      expect(mockActions.paste).not.toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('should not prevent the default when nothing could be undone', () => {
+      mockActions.canUndo.mockReturnValueOnce(false);
+      const event = dispatchKeyDown('z', undefined, false, true);
+      expect(mockActions.undo).not.toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('should ignore Ctrl+C in text fields', () => {
+      mockUiState.selectedAnnotationIds = ['ann-1'];
+      dispatchKeyDown('c', { tagName: 'INPUT' } as Partial<HTMLElement>, false, true);
+      expect(mockActions.copySelected).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Labels', () => {
+    it("should activate a label by the active context's hotkey", () => {
+      dispatchKeyDown('t');
+      expect(mockActions.setActiveLabel).toHaveBeenCalledWith('tumor');
+    });
+
+    it('should clear the label when its hotkey is pressed again', () => {
+      mockUiState.activeLabel = 'tumor';
+      dispatchKeyDown('t');
+      expect(mockActions.setActiveLabel).toHaveBeenCalledWith(null);
+    });
+  });
+
   it('should remove event listener on cleanup', () => {
     disposeRoot();
     vi.clearAllMocks();
@@ -1,16 +1,20 @@
-import { describe, it, expect } from 'vitest';
-import { version as FABRIC_VERSION } from 'fabric';
+import { describe, it, expect, vi } from 'vitest';
 import { createRoot } from 'solid-js';
 import { createAnnotationStore } from '../../../src/state/annotation-store';
 import { createUIStore } from '../../../src/state/ui-store';
-import { createContextStore, createConstraintStatus } from '../../../src/state/context-store';
+import {
+  createContextStore,
+  createConstraintStatus,
+  createMissingAttributes,
+} from '../../../src/state/context-store';
 import { createActions } from '../../../src/state/actions';
+import { rectangleAnnotation } from '../test-helpers';
 import { createAnnotationId } from '@osdlabel/annotation';
-import type { Annotation } from '@osdlabel/annotation';
 import { createImageId } from '@osdlabel/viewer-api';
 import type { ImageId } from '@osdlabel/viewer-api';
 import { createAnnotationContextId } from '@osdlabel/annotation-context';
 import type { AnnotationContext, AnnotationContextId } from '@osdlabel/annotation-context';
+import { sortByStacking } from 'osdlabel';
 
 describe('State Management', () => {
   function createTestStore() {
@@ -25,13 +29,23 @@ describe('State Management', () => {
         setContextState,
         contextState,
         uiState,
+        annotationState,
       );
       // Assign image to cell 0 so constraint status has a currentImageId
       setUIState('gridAssignments', 0, dummyImageId);
       const activeImageId = () => uiState.gridAssignments[uiState.activeCellIndex];
       const constraintStatus = createConstraintStatus(contextState, annotationState, activeImageId);
+      const missingAttributes = createMissingAttributes(contextState, annotationState);
 
-      return { annotationState, uiState, contextState, actions, constraintStatus, dispose };
+      return {
+        annotationState,
+        uiState,
+        contextState,
+        actions,
+        constraintStatus,
+        missingAttributes,
+        dispose,
+      };
     });
   }
 
@@ -39,18 +53,7 @@ describe('State Management', () => {
   const dummyImageId = createImageId('img1');
   const dummyContextId = createAnnotationContextId('ctx1');
 
-  const dummyAnnotation: Omit<Annotation, 'createdAt' | 'updatedAt'> = {
-    id: dummyAnnotationId,
-    imageId: dummyImageId,
-    contextId: dummyContextId,
-    toolType: 'rectangle',
-    geometry: { type: 'rectangle', origin: { x: 0, y: 0 }, width: 10, height: 10, rotation: 0 },
-    rawAnnotationData: {
-      format: 'fabric' as const,
-      fabricVersion: FABRIC_VERSION,
-      data: { type: 'Rect', left: 0, top: 0, width: 10, height: 10 },
-    },
-  };
+  const dummyAnnotation = rectangleAnnotation('ann1', dummyImageId, dummyContextId);
 
   it('addAnnotation adds to the correct image bucket and sets timestamps', () => {
     const { annotationState, actions, dispose } = createTestStore();
@@ -170,7 +173,7 @@ describe('State Management', () => {
   it('setSelectedAnnotation updates selected annotation ID', () => {
     const { uiState, actions, dispose } = createTestStore();
     actions.setSelectedAnnotation(dummyAnnotationId);
-    expect(uiState.selectedAnnotationId).toBe(dummyAnnotationId);
+    expect(uiState.selectedAnnotationIds).toEqual([dummyAnnotationId]);
     dispose();
   });
 
@@ -348,6 +351,27 @@ describe('State Management', () => {
     });
   });
 
+  describe('Linked View Actions', () => {
+    it('rotates linked cells with the active cell, except unlinked ones', () => {
+      const { uiState, actions, dispose } = createTestStore();
+      actions.setGridDimensions(3, 1);
+      actions.setViewLinkMode('image');
+      actions.toggleCellLink(2);
+      expect(uiState.unlinkedCells).toEqual([2]);
+
+      actions.setActiveCell(0);
+      actions.rotateActiveImageCW();
+      expect(uiState.cellTransforms[1]?.rotation).toBe(90);
+      expect(uiState.cellTransforms[2]?.rotation ?? 0).toBe(0);
+
+      actions.setViewLinkMode(null);
+      actions.rotateActiveImageCW();
+      expect(uiState.cellTransforms[0]?.rotation).toBe(180);
+      expect(uiState.cellTransforms[1]?.rotation).toBe(90);
+      dispose();
+    });
+  });
+
   describe('Displayed Contexts Actions', () => {
     const ctxId2 = createAnnotationContextId('ctx2');
     const ctxId3 = createAnnotationContextId('ctx3');
@@ -428,4 +452,346 @@ describe('State Management', () => {
       dispose();
     });
   });
+
+  describe('History Actions', () => {
+    it('undo reverts an add and redo re-applies it', () => {
+      const { annotationState, actions, dispose } = createTestStore();
+      expect(actions.canUndo()).toBe(false);
+
+      actions.addAnnotation(dummyAnnotation);
+      expect(actions.canUndo()).toBe(true);
+
+      actions.undo();
+      expect(annotationState.byImage[dummyImageId]?.[dummyAnnotationId]).toBeUndefined();
+      expect(actions.canUndo()).toBe(false);
+      expect(actions.canRedo()).toBe(true);
+
+      actions.redo();
+      expect(annotationState.byImage[dummyImageId]?.[dummyAnnotationId]).toBeDefined();
+      expect(actions.canRedo()).toBe(false);
+
+      dispose();
+    });
+
+    it('undo restores a deleted annotation with its original timestamps', () => {
+      const { annotationState, actions, dispose } = createTestStore();
+      actions.addAnnotation(dummyAnnotation);
+      const before = { ...annotationState.byImage[dummyImageId]![dummyAnnotationId]! };
+
+      actions.deleteAnnotation(dummyAnnotationId, dummyImageId);
+      actions.undo();
+
+      const restored = annotationState.byImage[dummyImageId]![dummyAnnotationId]!;
+      expect(restored.createdAt).toBe(before.createdAt);
+      expect(restored.updatedAt).toBe(before.updatedAt);
+
+      dispose();
+    });
+
+    it('coalesces updates sharing a coalesce key into one undo step', () => {
+      const { annotationState, actions, dispose } = createTestStore();
+      actions.addAnnotation(dummyAnnotation);
+
+      actions.updateAnnotation(dummyAnnotationId, dummyImageId, { label: 'a' }, 'scrub');
+      actions.updateAnnotation(dummyAnnotationId, dummyImageId, { label: 'b' }, 'scrub');
+      actions.updateAnnotation(dummyAnnotationId, dummyImageId, { label: 'c' }, 'scrub');
+
+      actions.undo();
+      expect(annotationState.byImage[dummyImageId]![dummyAnnotationId]!.label).toBeUndefined();
+
+      actions.redo();
+      expect(annotationState.byImage[dummyImageId]![dummyAnnotationId]!.label).toBe('c');
+
+      dispose();
+    });
+
+    it('keeps rapid updates without a coalesce key as separate undo steps', () => {
+      const { annotationState, actions, dispose } = createTestStore();
+      actions.addAnnotation(dummyAnnotation);
+
+      actions.updateAnnotation(dummyAnnotationId, dummyImageId, { label: 'a' });
+      actions.updateAnnotation(dummyAnnotationId, dummyImageId, { label: 'b' });
+
+      actions.undo();
+      expect(annotationState.byImage[dummyImageId]![dummyAnnotationId]!.label).toBe('a');
+
+      dispose();
+    });
+
+    it('undoing an add clears a selection that pointed at it', () => {
+      const { uiState, actions, dispose } = createTestStore();
+      actions.addAnnotation(dummyAnnotation);
+      actions.setSelectedAnnotation(dummyAnnotationId);
+
+      actions.undo();
+      expect(uiState.selectedAnnotationIds).toEqual([]);
+
+      dispose();
+    });
+
+    it('loadAnnotations resets the history', () => {
+      const { actions, dispose } = createTestStore();
+      actions.addAnnotation(dummyAnnotation);
+
+      actions.loadAnnotations({});
+      expect(actions.canUndo()).toBe(false);
+
+      dispose();
+    });
+  });
+  describe('Bulk Actions', () => {
+    const otherId = createAnnotationId('ann2');
+    const otherContextId = createAnnotationContextId('ctx2');
+    const ids = [dummyAnnotationId, otherId];
+
+    function createWithTwo() {
+      const store = createTestStore();
+      store.actions.setContexts([
+        { id: dummyContextId, label: 'A', tools: [{ type: 'rectangle' }] },
+        { id: otherContextId, label: 'B', tools: [{ type: 'rectangle', maxCount: 2 }] },
+      ]);
+      store.actions.addAnnotation(dummyAnnotation);
+      store.actions.addAnnotation({ ...dummyAnnotation, id: otherId });
+      store.actions.setSelectedAnnotations(ids);
+      return store;
+    }
+
+    it('relabelAnnotations and restyleAnnotations patch every annotation as one undo step', () => {
+      const { annotationState, actions, dispose } = createWithTwo();
+      actions.relabelAnnotations(ids, dummyImageId, 'Tumor');
+      actions.restyleAnnotations(ids, dummyImageId, {
+        strokeColor: '#ff0000',
+        strokeWidth: 2,
+        fillColor: '#ff0000',
+        fillOpacity: 0.2,
+        opacity: 1,
+      });
+
+      const anns = annotationState.byImage[dummyImageId];
+      expect(anns[dummyAnnotationId].label).toBe('Tumor');
+      expect(anns[otherId].style?.strokeColor).toBe('#ff0000');
+
+      actions.undo();
+      expect(anns[dummyAnnotationId].style).toBeUndefined();
+      expect(anns[otherId].style).toBeUndefined();
+      expect(anns[otherId].label).toBe('Tumor');
+
+      dispose();
+    });
+
+    it("relabelAnnotations rejects the whole batch when the label's limits would break", () => {
+      const { annotationState, actions, dispose } = createWithTwo();
+      actions.setContexts([
+        {
+          id: dummyContextId,
+          label: 'A',
+          tools: [{ type: 'rectangle' }],
+          labels: [
+            { id: 'tumor', name: 'Tumor', maxCount: 1 },
+            { id: 'vessel', name: 'Vessel', tools: ['line'] },
+          ],
+        },
+      ]);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(actions.relabelAnnotations(ids, dummyImageId, 'tumor')).toBe(false);
+      expect(actions.relabelAnnotations(ids, dummyImageId, 'vessel')).toBe(false);
+      const anns = annotationState.byImage[dummyImageId];
+      expect(anns[dummyAnnotationId].label).toBeUndefined();
+      expect(anns[otherId].label).toBeUndefined();
+      expect(actions.relabelAnnotations([otherId], dummyImageId, 'tumor')).toBe(true);
+      expect(anns[otherId].label).toBe('tumor');
+      warn.mockRestore();
+
+      dispose();
+    });
+
+    it('moveAnnotationsToContext respects the target context limits', () => {
+      const { annotationState, actions, dispose } = createWithTwo();
+      actions.moveAnnotationsToContext(ids, dummyImageId, otherContextId);
+      expect(annotationState.byImage[dummyImageId][otherId].contextId).toBe(otherContextId);
+
+      // The target context is now full.
+      const thirdId = createAnnotationId('ann3');
+      actions.addAnnotation({ ...dummyAnnotation, id: thirdId });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      actions.moveAnnotationsToContext([thirdId], dummyImageId, otherContextId);
+      expect(annotationState.byImage[dummyImageId][thirdId].contextId).toBe(dummyContextId);
+      warn.mockRestore();
+
+      dispose();
+    });
+
+    it('reorderAnnotations persists the stacking as zIndex, one undo step per move', () => {
+      const { annotationState, actions, dispose } = createWithTwo();
+      const stack = () =>
+        sortByStacking(Object.values(annotationState.byImage[dummyImageId])).map((a) => a.id);
+      actions.reorderAnnotations([otherId], dummyImageId, 'front');
+      expect(stack()).toEqual([dummyAnnotationId, otherId]);
+      actions.reorderAnnotations([otherId], dummyImageId, 'back');
+      expect(stack()).toEqual([otherId, dummyAnnotationId]);
+      expect(annotationState.byImage[dummyImageId][otherId].zIndex).toBeLessThan(0);
+
+      actions.undo();
+      expect(stack()).toEqual([dummyAnnotationId, otherId]);
+
+      dispose();
+    });
+
+    it('deleteAnnotations removes the annotations and clears them from the selection', () => {
+      const { annotationState, uiState, actions, dispose } = createWithTwo();
+      actions.deleteAnnotations(ids, dummyImageId);
+
+      expect(annotationState.byImage[dummyImageId]).toEqual({});
+      expect(uiState.selectedAnnotationIds).toEqual([]);
+
+      actions.undo();
+      expect(Object.keys(annotationState.byImage[dummyImageId])).toHaveLength(2);
+
+      dispose();
+    });
+  });
+
+  describe('Clipboard Actions', () => {
+    const otherImageId = createImageId('img2');
+
+    function createWithContext(maxCount?: number) {
+      const store = createTestStore();
+      store.actions.setContexts([
+        {
+          id: dummyContextId,
+          label: 'A',
+          tools: [{ type: 'rectangle', ...(maxCount !== undefined ? { maxCount } : {}) }],
+        },
+      ]);
+      store.actions.setActiveContext(dummyContextId);
+      store.actions.addAnnotation(dummyAnnotation);
+      store.actions.setSelectedAnnotation(dummyAnnotationId);
+      return store;
+    }
+
+    it('duplicateSelected adds an offset copy with a new id and selects it', () => {
+      const { annotationState, uiState, actions, dispose } = createWithContext();
+      const [copyId] = actions.duplicateSelected();
+
+      expect(copyId).toBeDefined();
+      expect(copyId).not.toBe(dummyAnnotationId);
+      const copy = annotationState.byImage[dummyImageId][copyId!];
+      expect(copy.geometry).toMatchObject({ origin: { x: 10, y: 10 }, width: 10 });
+      expect(copy.rawAnnotationData?.data).toMatchObject({ id: copyId, left: 10, top: 10 });
+      expect(uiState.selectedAnnotationIds).toEqual([copyId]);
+
+      actions.undo();
+      expect(annotationState.byImage[dummyImageId][copyId!]).toBeUndefined();
+      expect(uiState.selectedAnnotationIds).toEqual([]);
+
+      dispose();
+    });
+
+    it('pastes onto another image in place and leaves the selection alone', () => {
+      const { annotationState, uiState, actions, dispose } = createWithContext();
+      expect(actions.copySelected()).toBe(true);
+
+      const [pastedId] = actions.paste(otherImageId);
+      expect(annotationState.byImage[otherImageId][pastedId!].geometry).toEqual(
+        dummyAnnotation.geometry,
+      );
+      expect(uiState.selectedAnnotationIds).toEqual([dummyAnnotationId]);
+
+      dispose();
+    });
+
+    it('cutSelected removes the annotations and paste brings them back', () => {
+      const { annotationState, actions, dispose } = createWithContext();
+      expect(actions.cutSelected()).toBe(true);
+      expect(annotationState.byImage[dummyImageId]).toEqual({});
+
+      expect(actions.paste(otherImageId)).toHaveLength(1);
+      expect(Object.keys(annotationState.byImage[otherImageId])).toHaveLength(1);
+
+      dispose();
+    });
+
+    it('does not paste past a tool limit', () => {
+      const { annotationState, actions, dispose } = createWithContext(2);
+      actions.copySelected();
+
+      expect(actions.paste()).toHaveLength(1);
+      expect(actions.paste()).toEqual([]);
+      expect(Object.keys(annotationState.byImage[dummyImageId])).toHaveLength(2);
+
+      dispose();
+    });
+  });
+
+  describe('Attribute Actions', () => {
+    const attributeContext: AnnotationContext = {
+      id: dummyContextId,
+      label: 'Fracture',
+      tools: [{ type: 'rectangle' }],
+      attributes: [
+        { key: 'severity', type: 'enum', options: ['mild', 'severe'], required: true },
+        { key: 'displaced', type: 'boolean', default: false },
+        { key: 'length', type: 'number', min: 0, max: 100 },
+      ],
+    };
+
+    function createWithAttributes() {
+      const store = createTestStore();
+      store.actions.setContexts([attributeContext]);
+      store.actions.setActiveContext(dummyContextId);
+      return store;
+    }
+
+    it('addAnnotation fills in attribute defaults and rejects invalid values', () => {
+      const { annotationState, actions, dispose } = createWithAttributes();
+      actions.addAnnotation(dummyAnnotation);
+      expect(annotationState.byImage[dummyImageId][dummyAnnotationId].attributes).toEqual({
+        displaced: false,
+      });
+
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const badId = createAnnotationId('bad');
+      actions.addAnnotation({ ...dummyAnnotation, id: badId, attributes: { length: 200 } });
+      expect(annotationState.byImage[dummyImageId][badId]).toBeUndefined();
+      warn.mockRestore();
+
+      dispose();
+    });
+
+    it('setAnnotationAttributes writes valid values as an undo step and rejects invalid ones', () => {
+      const { annotationState, actions, dispose } = createWithAttributes();
+      actions.addAnnotation(dummyAnnotation);
+
+      actions.setAnnotationAttributes(dummyAnnotationId, dummyImageId, {
+        severity: 'mild',
+        length: 12.5,
+      });
+      const ann = () => annotationState.byImage[dummyImageId][dummyAnnotationId];
+      expect(ann().attributes).toEqual({ severity: 'mild', length: 12.5 });
+
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      actions.setAnnotationAttributes(dummyAnnotationId, dummyImageId, { severity: 'broken' });
+      expect(warn).toHaveBeenCalled();
+      expect(ann().attributes?.severity).toBe('mild');
+      warn.mockRestore();
+
+      actions.undo();
+      expect(ann().attributes).toEqual({ displaced: false });
+
+      dispose();
+    });
+
+    it('reports annotations missing required attributes', () => {
+      const { actions, missingAttributes, dispose } = createWithAttributes();
+      actions.addAnnotation(dummyAnnotation);
+      expect(missingAttributes()).toEqual([
+        { annotationId: dummyAnnotationId, imageId: dummyImageId, keys: ['severity'] },
+      ]);
+
+      actions.setAnnotationAttributes(dummyAnnotationId, dummyImageId, { severity: 'severe' });
+      expect(missingAttributes()).toEqual([]);
+
+      dispose();
+    });
+  });
 });
@@ -13,7 +13,7 @@ describe('UI Store', () => {
       expect(state.gridColumns).toBe(1);
       expect(state.gridRows).toBe(1);
       expect(state.gridAssignments).toEqual({});
-      expect(state.selectedAnnotationId).toBeNull();
+      expect(state.selectedAnnotationIds).toEqual([]);
 
       dispose();
     });
@@ -36,8 +36,8 @@ describe('UI Store', () => {
       expect(state.gridRows).toBe(4);
 
       const annotationId = createAnnotationId('test-id');
-      setState('selectedAnnotationId', annotationId);
-      expect(state.selectedAnnotationId).toBe(annotationId);
+      setState('selectedAnnotationIds', [annotationId]);
+      expect(state.selectedAnnotationIds).toEqual([annotationId]);
 
       dispose();
     });
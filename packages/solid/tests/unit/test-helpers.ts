@@ -0,0 +1,30 @@
+import { version as FABRIC_VERSION } from 'fabric';
+import { createAnnotationId } from '@osdlabel/annotation';
+import type { ImageId } from '@osdlabel/viewer-api';
+import type { AnnotationContextId } from '@osdlabel/annotation-context';
+import type { OsdAnnotation } from 'osdlabel';
+
+/**
+ * An axis-aligned rectangle annotation, 10 px tall at (`x`, 0), ready for
+ * `actions.addAnnotation`. `width` defaults to 10.
+ */
+export function rectangleAnnotation(
+  id: string,
+  imageId: ImageId,
+  contextId: AnnotationContextId,
+  { x = 0, width = 10, label }: { x?: number; width?: number; label?: string } = {},
+): Omit<OsdAnnotation, 'createdAt' | 'updatedAt'> {
+  return {
+    id: createAnnotationId(id),
+    imageId,
+    contextId,
+    toolType: 'rectangle',
+    geometry: { type: 'rectangle', origin: { x, y: 0 }, width, height: 10, rotation: 0 },
+    rawAnnotationData: {
+      format: 'fabric',
+      fabricVersion: FABRIC_VERSION,
+      data: { type: 'Rect', left: x, top: 0, width, height: 10 },
+    },
+    ...(label !== undefined ? { label } : {}),
+  };
+}
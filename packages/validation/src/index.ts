@@ -6,3 +6,42 @@ export {
 } from './schemas/annotation.js';
 export { ToolTypeSchema } from './schemas/tool.js';
 export { FabricRawAnnotationDataSchema } from './schemas/fabric-data.js';
+export { AnnotationStyleSchema } from './schemas/style.js';
+export {
+  AttributeValueSchema,
+  AttributesSchema,
+  AttributeDefinitionSchema,
+} from './schemas/attribute.js';
+export {
+  PixelSpacingSchema,
+  DocumentImageSchema,
+  AffineMatrixSchema,
+  ImageRegistrationSchema,
+  GeometryRulesSchema,
+  ToolConstraintSchema,
+  LabelDefinitionSchema,
+  AnnotationContextSchema,
+  DocumentGeneratorSchema,
+  AnnotationDocumentSchema,
+} from './schemas/document.js';
+export {
+  CocoImageSchema,
+  CocoCategorySchema,
+  CocoAnnotationSchema,
+  CocoDatasetSchema,
+} from './schemas/coco.js';
+export {
+  GeoJsonPositionSchema,
+  GeoJsonGeometrySchema,
+  GeoJsonFeatureSchema,
+  GeoJsonFeatureCollectionSchema,
+} from './schemas/geojson.js';
+export {
+  WebAnnotationFragmentSelectorSchema,
+  WebAnnotationSvgSelectorSchema,
+  WebAnnotationSelectorSchema,
+  WebAnnotationTargetSchema,
+  WebAnnotationBodySchema,
+  WebAnnotationSchema,
+  WebAnnotationPageSchema,
+} from './schemas/web-annotation.js';
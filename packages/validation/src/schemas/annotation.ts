@@ -2,6 +2,8 @@ import * as v from 'valibot';
 import { GeometrySchema } from './geometry.js';
 import { ToolTypeSchema } from './tool.js';
 import { FabricRawAnnotationDataSchema } from './fabric-data.js';
+import { AnnotationStyleSchema } from './style.js';
+import { AttributesSchema } from './attribute.js';
 
 /**
  * Schema for @see {@link import("@osdlabel/annotation/annotation").BaseAnnotation} — validates core annotation fields.
@@ -13,16 +15,23 @@ export const BaseAnnotationSchema = v.object({
   geometry: GeometrySchema,
   toolType: ToolTypeSchema,
   label: v.optional(v.string()),
-  metadata: v.optional(v.record(v.string(), v.unknown())),
+  style: v.optional(AnnotationStyleSchema),
+  attributes: v.optional(AttributesSchema),
+  locked: v.optional(v.boolean()),
+  hidden: v.optional(v.boolean()),
+  zIndex: v.optional(v.pipe(v.number(), v.integer())),
   createdAt: v.string(),
   updatedAt: v.string(),
 });
 
-/** Schema for @see {@link import("osdlabel").OsdAnnotation} - validates fields added by the Annotator. */
+/**
+ * Schema for @see {@link import("osdlabel").OsdAnnotation} - validates fields added by the Annotator.
+ * `rawAnnotationData` is optional, so geometry-only annotations pass.
+ */
 export const OsdFieldsSchema = v.object({
   imageId: v.pipe(v.string(), v.minLength(1)),
   contextId: v.pipe(v.string(), v.minLength(1)),
-  rawAnnotationData: FabricRawAnnotationDataSchema,
+  rawAnnotationData: v.optional(FabricRawAnnotationDataSchema),
 });
 
 export const OsdAnnotationSchema = v.intersect([BaseAnnotationSchema, OsdFieldsSchema]);
@@ -0,0 +1,54 @@
+import * as v from 'valibot';
+import { MAX_STRING_LENGTH, MAX_TEXT_LENGTH } from './constants.js';
+
+const FiniteNumber = v.pipe(v.number(), v.finite());
+const Key = v.pipe(v.string(), v.minLength(1), v.maxLength(MAX_STRING_LENGTH));
+
+/** Schema for @see {@link import("@osdlabel/annotation/annotation").AttributeValue}. */
+export const AttributeValueSchema = v.union([
+  v.pipe(v.string(), v.maxLength(MAX_TEXT_LENGTH)),
+  FiniteNumber,
+  v.boolean(),
+]);
+
+/** Schema for an annotation's `attributes` record. */
+export const AttributesSchema = v.record(Key, AttributeValueSchema);
+
+const definitionBase = {
+  key: Key,
+  label: v.optional(v.string()),
+  required: v.optional(v.boolean()),
+};
+
+/**
+ * Schema for @see {@link import("@osdlabel/annotation-context").AttributeDefinition}.
+ * Checks each definition's shape; whether values match it is up to
+ * `validateAttributes` from `@osdlabel/annotation-context`.
+ */
+export const AttributeDefinitionSchema = v.variant('type', [
+  v.object({
+    ...definitionBase,
+    type: v.literal('enum'),
+    options: v.pipe(v.array(v.string()), v.minLength(1)),
+    default: v.optional(v.string()),
+  }),
+  v.object({
+    ...definitionBase,
+    type: v.literal('boolean'),
+    default: v.optional(v.boolean()),
+  }),
+  v.object({
+    ...definitionBase,
+    type: v.literal('number'),
+    min: v.optional(FiniteNumber),
+    max: v.optional(FiniteNumber),
+    integer: v.optional(v.boolean()),
+    default: v.optional(FiniteNumber),
+  }),
+  v.object({
+    ...definitionBase,
+    type: v.literal('text'),
+    maxLength: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+    default: v.optional(v.string()),
+  }),
+]);
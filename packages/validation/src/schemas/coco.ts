@@ -0,0 +1,47 @@
+import * as v from 'valibot';
+
+const FiniteNumber = v.pipe(v.number(), v.finite());
+const CocoId = v.pipe(v.number(), v.integer());
+
+/** Schema for a COCO `images[]` entry. */
+export const CocoImageSchema = v.looseObject({
+  id: CocoId,
+  file_name: v.string(),
+  width: v.pipe(FiniteNumber, v.minValue(0)),
+  height: v.pipe(FiniteNumber, v.minValue(0)),
+});
+
+/** Schema for a COCO `categories[]` entry. */
+export const CocoCategorySchema = v.looseObject({
+  id: CocoId,
+  name: v.string(),
+  supercategory: v.optional(v.string()),
+  keypoints: v.optional(v.array(v.string())),
+});
+
+/**
+ * Schema for a COCO `annotations[]` entry. `segmentation` accepts both the
+ * polygon form (`number[][]`) and run-length encoding (crowd annotations);
+ * importers decide what to do with the latter.
+ */
+export const CocoAnnotationSchema = v.looseObject({
+  id: CocoId,
+  image_id: CocoId,
+  category_id: CocoId,
+  bbox: v.pipe(v.array(FiniteNumber), v.length(4)),
+  area: v.optional(FiniteNumber),
+  iscrowd: v.optional(v.picklist([0, 1])),
+  segmentation: v.optional(
+    v.union([v.array(v.array(FiniteNumber)), v.looseObject({ counts: v.unknown() })]),
+  ),
+  keypoints: v.optional(v.array(FiniteNumber)),
+  num_keypoints: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+});
+
+/** Schema for a COCO object-detection / keypoint dataset. */
+export const CocoDatasetSchema = v.looseObject({
+  info: v.optional(v.record(v.string(), v.unknown())),
+  images: v.array(CocoImageSchema),
+  annotations: v.array(CocoAnnotationSchema),
+  categories: v.array(CocoCategorySchema),
+});
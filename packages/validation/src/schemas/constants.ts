@@ -10,3 +10,4 @@ export const MAX_STROKE_WIDTH = 10_000;
 export const MAX_STRING_LENGTH = 256;
 export const MAX_POINTS_COUNT = 10_000;
 export const MAX_STROKE_DASH_ARRAY_LENGTH = 20;
+export const MAX_TEXT_LENGTH = 10_000;
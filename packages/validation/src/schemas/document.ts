@@ -0,0 +1,106 @@
+import * as v from 'valibot';
+import { OsdAnnotationSchema } from './annotation.js';
+import { ToolTypeSchema } from './tool.js';
+import { AnnotationStyleSchema } from './style.js';
+import { AttributeDefinitionSchema } from './attribute.js';
+
+/** Schema for @see {@link import("@osdlabel/viewer-api").PixelSpacing}. */
+export const PixelSpacingSchema = v.object({
+  x: v.pipe(v.number(), v.finite(), v.minValue(0)),
+  y: v.pipe(v.number(), v.finite(), v.minValue(0)),
+  unit: v.string(),
+});
+
+/** Schema for an entry of a document's image manifest. */
+export const DocumentImageSchema = v.object({
+  id: v.pipe(v.string(), v.minLength(1)),
+  tileSource: v.optional(v.string()),
+  label: v.optional(v.string()),
+  pixelSpacing: v.optional(PixelSpacingSchema),
+});
+
+/** Schema for @see {@link import("@osdlabel/viewer-api").AffineMatrix}. */
+export const AffineMatrixSchema = v.tuple([
+  v.pipe(v.number(), v.finite()),
+  v.pipe(v.number(), v.finite()),
+  v.pipe(v.number(), v.finite()),
+  v.pipe(v.number(), v.finite()),
+  v.pipe(v.number(), v.finite()),
+  v.pipe(v.number(), v.finite()),
+]);
+
+/** Schema for @see {@link import("@osdlabel/viewer-api").ImageRegistration}. */
+export const ImageRegistrationSchema = v.object({
+  from: v.pipe(v.string(), v.minLength(1)),
+  to: v.pipe(v.string(), v.minLength(1)),
+  matrix: AffineMatrixSchema,
+});
+
+/** Schema for @see {@link import("@osdlabel/annotation-context").GeometryRules}. */
+export const GeometryRulesSchema = v.looseObject({
+  minArea: v.optional(v.pipe(v.number(), v.minValue(0))),
+  maxArea: v.optional(v.pipe(v.number(), v.minValue(0))),
+  minLength: v.optional(v.pipe(v.number(), v.minValue(0))),
+  insideImage: v.optional(v.boolean()),
+  noSelfIntersection: v.optional(v.boolean()),
+  noOverlapWithSameLabel: v.optional(v.boolean()),
+  policy: v.optional(v.picklist(['reject', 'clamp', 'warn'])),
+});
+
+/** Schema for @see {@link import("@osdlabel/annotation-context").ToolConstraint}. */
+export const ToolConstraintSchema = v.looseObject({
+  type: ToolTypeSchema,
+  maxCount: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+  minCount: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+  required: v.optional(v.boolean()),
+  countScope: v.optional(v.picklist(['per-image', 'global'])),
+  defaultStyle: v.optional(v.partial(AnnotationStyleSchema)),
+  geometryRules: v.optional(GeometryRulesSchema),
+});
+
+/** Schema for @see {@link import("@osdlabel/annotation-context").LabelDefinition}. */
+export const LabelDefinitionSchema = v.looseObject({
+  id: v.pipe(v.string(), v.minLength(1)),
+  name: v.string(),
+  color: v.optional(v.string()),
+  hotkey: v.optional(v.string()),
+  tools: v.optional(v.array(ToolTypeSchema)),
+  maxCount: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+  minCount: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+  required: v.optional(v.boolean()),
+  countScope: v.optional(v.picklist(['per-image', 'global'])),
+});
+
+/**
+ * Schema for @see {@link import("@osdlabel/annotation-context").AnnotationContext}.
+ * Unknown keys pass through so host-specific context fields survive a round trip.
+ */
+export const AnnotationContextSchema = v.looseObject({
+  id: v.pipe(v.string(), v.minLength(1)),
+  label: v.string(),
+  tools: v.array(ToolConstraintSchema),
+  imageIds: v.optional(v.array(v.pipe(v.string(), v.minLength(1)))),
+  labelStyles: v.optional(v.record(v.string(), v.partial(AnnotationStyleSchema))),
+  labels: v.optional(v.array(LabelDefinitionSchema)),
+  attributes: v.optional(v.array(AttributeDefinitionSchema)),
+  metadata: v.optional(v.record(v.string(), v.unknown())),
+});
+
+/** Schema for the `generator` block of an annotation document. */
+export const DocumentGeneratorSchema = v.object({
+  name: v.string(),
+  fabricVersion: v.string(),
+});
+
+/**
+ * Schema for the current (envelope) annotation document layout. Older layouts
+ * must be migrated before they are validated against this schema.
+ */
+export const AnnotationDocumentSchema = v.object({
+  formatVersion: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  generator: DocumentGeneratorSchema,
+  images: v.array(DocumentImageSchema),
+  contexts: v.array(AnnotationContextSchema),
+  annotations: v.array(OsdAnnotationSchema),
+  registrations: v.optional(v.array(ImageRegistrationSchema)),
+});
@@ -6,7 +6,15 @@ import { MAX_COORDINATE, MAX_STRING_LENGTH, MAX_POINTS_COUNT } from './constants
 
 // ── Supported fabric types ──────────────────────────────────────────────
 
-const SUPPORTED_TYPES_LOWER = ['rect', 'circle', 'line', 'polyline', 'polygon'] as const;
+const SUPPORTED_TYPES_LOWER = [
+  'rect',
+  'circle',
+  'ellipse',
+  'line',
+  'polyline',
+  'polygon',
+  'path',
+] as const;
 
 function isSupportedFabricType(type: string): boolean {
   return SUPPORTED_TYPES_LOWER.includes(
@@ -74,6 +82,13 @@ function validateCircleRequirements(data: LooseData): boolean {
   return true;
 }
 
+function validateEllipseRequirements(data: LooseData): boolean {
+  if (normalizeType(data.type) === 'ellipse') {
+    return isFiniteNum(data.rx) && data.rx >= 0 && isFiniteNum(data.ry) && data.ry >= 0;
+  }
+  return true;
+}
+
 function validateLineRequirements(data: LooseData): boolean {
   if (normalizeType(data.type) === 'line') {
     for (const k of ['x1', 'y1', 'x2', 'y2'] as const) {
@@ -99,6 +114,21 @@ function validatePolylineRequirements(data: LooseData): boolean {
   return true;
 }
 
+function validatePathRequirements(data: LooseData): boolean {
+  if (normalizeType(data.type) === 'path') {
+    if (!Array.isArray(data.path)) return false;
+    if (data.path.length > MAX_POINTS_COUNT) return false;
+    for (const command of data.path as unknown[]) {
+      if (!Array.isArray(command) || typeof command[0] !== 'string') return false;
+      for (const val of command.slice(1) as unknown[]) {
+        if (!isFiniteNum(val)) return false;
+        if (Math.abs(val) > MAX_COORDINATE) return false;
+      }
+    }
+  }
+  return true;
+}
+
 // ── Fabric data object schema ───────────────────────────────────────────
 
 const FabricDataObjectSchema = v.pipe(
@@ -110,8 +140,10 @@ const FabricDataObjectSchema = v.pipe(
   v.check(validateStringProps),
   v.check(validateRectRequirements),
   v.check(validateCircleRequirements),
+  v.check(validateEllipseRequirements),
   v.check(validateLineRequirements),
   v.check(validatePolylineRequirements),
+  v.check(validatePathRequirements),
 );
 
 /** A schema for FabricRawAnnotationData. */
@@ -0,0 +1,48 @@
+import * as v from 'valibot';
+
+const FiniteNumber = v.pipe(v.number(), v.finite());
+
+/** Schema for a GeoJSON position (`[x, y, ...]`). */
+export const GeoJsonPositionSchema = v.pipe(v.array(FiniteNumber), v.minLength(2));
+
+/** A polygon's closed rings, outer boundary first. */
+const GeoJsonPolygonRingsSchema = v.pipe(
+  v.array(v.pipe(v.array(GeoJsonPositionSchema), v.minLength(4))),
+  v.minLength(1),
+);
+
+/**
+ * Schema for the GeoJSON geometries osdlabel converts: `Point`,
+ * `LineString`, `Polygon` and `MultiPolygon`. Other geometry types fail
+ * validation.
+ */
+export const GeoJsonGeometrySchema = v.variant('type', [
+  v.looseObject({ type: v.literal('Point'), coordinates: GeoJsonPositionSchema }),
+  v.looseObject({
+    type: v.literal('LineString'),
+    coordinates: v.pipe(v.array(GeoJsonPositionSchema), v.minLength(2)),
+  }),
+  v.looseObject({ type: v.literal('Polygon'), coordinates: GeoJsonPolygonRingsSchema }),
+  v.looseObject({
+    type: v.literal('MultiPolygon'),
+    coordinates: v.pipe(v.array(GeoJsonPolygonRingsSchema), v.minLength(1)),
+  }),
+]);
+
+/**
+ * Schema for a GeoJSON `Feature`. The geometry is left unchecked so a
+ * collection with some unsupported features can still be imported; validate
+ * each one with {@link GeoJsonGeometrySchema}.
+ */
+export const GeoJsonFeatureSchema = v.looseObject({
+  type: v.literal('Feature'),
+  id: v.optional(v.union([v.string(), v.number()])),
+  geometry: v.nullable(v.looseObject({ type: v.string() })),
+  properties: v.nullable(v.record(v.string(), v.unknown())),
+});
+
+/** Schema for a GeoJSON `FeatureCollection`. */
+export const GeoJsonFeatureCollectionSchema = v.looseObject({
+  type: v.literal('FeatureCollection'),
+  features: v.array(GeoJsonFeatureSchema),
+});
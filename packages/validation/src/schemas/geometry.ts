@@ -25,6 +25,15 @@ export const CircleGeometrySchema = v.object({
   radius: FiniteNumber,
 });
 
+/** A schema for validating @see {@link import("@osdlabel/annotation/geometry").EllipseGeometry}. */
+export const EllipseGeometrySchema = v.object({
+  type: v.literal('ellipse'),
+  center: PointSchema,
+  radiusX: FiniteNumber,
+  radiusY: FiniteNumber,
+  rotation: FiniteNumber,
+});
+
 /** A schema for validating @see {@link import("@osdlabel/annotation/geometry").LineGeometry}. */
 export const LineGeometrySchema = v.object({
   type: v.literal('line'),
@@ -52,11 +61,28 @@ export const PolygonGeometrySchema = v.object({
   points: PolyPointsSchema,
 });
 
+/** A closed ring (first point not repeated). */
+const RingSchema = v.pipe(v.array(PointSchema), v.minLength(3));
+
+/** A schema for validating @see {@link import("@osdlabel/annotation/geometry").PolygonWithHoles}. */
+export const PolygonWithHolesSchema = v.object({
+  outer: RingSchema,
+  holes: v.array(RingSchema),
+});
+
+/** A schema for validating @see {@link import("@osdlabel/annotation/geometry").MultiPolygonGeometry}. */
+export const MultiPolygonGeometrySchema = v.object({
+  type: v.literal('multiPolygon'),
+  polygons: v.pipe(v.array(PolygonWithHolesSchema), v.minLength(1)),
+});
+
 export const GeometrySchema = v.variant('type', [
   RectangleGeometrySchema,
   CircleGeometrySchema,
+  EllipseGeometrySchema,
   LineGeometrySchema,
   PointGeometrySchema,
   PolylineGeometrySchema,
   PolygonGeometrySchema,
+  MultiPolygonGeometrySchema,
 ]);
@@ -0,0 +1,18 @@
+import * as v from 'valibot';
+import { MAX_STRING_LENGTH, MAX_STROKE_DASH_ARRAY_LENGTH, MAX_STROKE_WIDTH } from './constants.js';
+
+const FiniteNumber = v.pipe(v.number(), v.finite());
+const Unit = v.pipe(FiniteNumber, v.minValue(0), v.maxValue(1));
+const Color = v.pipe(v.string(), v.minLength(1), v.maxLength(MAX_STRING_LENGTH));
+
+/** A schema for validating @see {@link import("@osdlabel/annotation/annotation").AnnotationStyle}. */
+export const AnnotationStyleSchema = v.object({
+  strokeColor: Color,
+  strokeWidth: v.pipe(FiniteNumber, v.minValue(0), v.maxValue(MAX_STROKE_WIDTH)),
+  strokeDashArray: v.optional(
+    v.pipe(v.array(v.pipe(FiniteNumber, v.minValue(0))), v.maxLength(MAX_STROKE_DASH_ARRAY_LENGTH)),
+  ),
+  fillColor: Color,
+  fillOpacity: Unit,
+  opacity: Unit,
+});
@@ -1,11 +1,9 @@
 import * as v from 'valibot';
+import { isToolType, type ToolType } from '@osdlabel/annotation';
 
-/** Schema for @see {@link import("@osdlabel/annotation/annotation-tools").ToolType} */
-export const ToolTypeSchema = v.union([
-  v.literal('rectangle'),
-  v.literal('circle'),
-  v.literal('line'),
-  v.literal('point'),
-  v.literal('polyline'),
-  v.literal('freeHandPath'),
-]);
+/**
+ * Schema for @see {@link import("@osdlabel/annotation/annotation-tools").ToolType}.
+ * Accepts the tool types registered at validation time — the built-ins plus
+ * any added with `registerTool`.
+ */
+export const ToolTypeSchema = v.custom<ToolType>(isToolType, 'Unknown tool type');
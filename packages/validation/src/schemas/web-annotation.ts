@@ -0,0 +1,53 @@
+import * as v from 'valibot';
+
+/** Schema for a W3C `FragmentSelector` (e.g. `xywh=pixel:10,20,30,40`). */
+export const WebAnnotationFragmentSelectorSchema = v.looseObject({
+  type: v.literal('FragmentSelector'),
+  conformsTo: v.optional(v.string()),
+  value: v.string(),
+});
+
+/** Schema for a W3C `SvgSelector` holding an inline SVG document. */
+export const WebAnnotationSvgSelectorSchema = v.looseObject({
+  type: v.literal('SvgSelector'),
+  value: v.string(),
+});
+
+/** Schema for the selectors osdlabel reads. */
+export const WebAnnotationSelectorSchema = v.variant('type', [
+  WebAnnotationFragmentSelectorSchema,
+  WebAnnotationSvgSelectorSchema,
+]);
+
+/** Schema for a `SpecificResource` target: an image plus a selector (or a list of them). */
+export const WebAnnotationTargetSchema = v.looseObject({
+  source: v.pipe(v.string(), v.minLength(1)),
+  selector: v.union([
+    v.array(v.looseObject({ type: v.string() })),
+    v.looseObject({ type: v.string() }),
+  ]),
+});
+
+/** Schema for an annotation body; only `TextualBody` values are read. */
+export const WebAnnotationBodySchema = v.looseObject({
+  type: v.optional(v.string()),
+  value: v.optional(v.string()),
+  purpose: v.optional(v.string()),
+});
+
+/** Schema for a W3C Web Annotation with a single image target. */
+export const WebAnnotationSchema = v.looseObject({
+  type: v.literal('Annotation'),
+  id: v.optional(v.string()),
+  // Array first: valibot's object schemas also accept arrays.
+  body: v.optional(v.union([v.array(WebAnnotationBodySchema), WebAnnotationBodySchema])),
+  target: WebAnnotationTargetSchema,
+  created: v.optional(v.string()),
+  modified: v.optional(v.string()),
+});
+
+/** Schema for an `AnnotationPage` of Web Annotations. */
+export const WebAnnotationPageSchema = v.looseObject({
+  type: v.literal('AnnotationPage'),
+  items: v.array(v.unknown()),
+});
@@ -5,6 +5,10 @@ import {
   BaseAnnotationSchema,
   OsdAnnotationSchema,
   FabricRawAnnotationDataSchema,
+  GeoJsonGeometrySchema,
+  AttributeDefinitionSchema,
+  LabelDefinitionSchema,
+  ToolConstraintSchema,
 } from '../../src/index.js';
 
 describe('Validation Schemas', () => {
@@ -30,6 +34,15 @@ describe('Validation Schemas', () => {
       expect(
         isValid(GeometrySchema, { type: 'line', start: { x: 0, y: 0 }, end: { x: 10, y: 10 } }),
       ).toBe(true);
+      expect(
+        isValid(GeometrySchema, {
+          type: 'ellipse',
+          center: { x: 10, y: 10 },
+          radiusX: 8,
+          radiusY: 4,
+          rotation: 15,
+        }),
+      ).toBe(true);
       expect(isValid(GeometrySchema, { type: 'point', position: { x: 5, y: 5 } })).toBe(true);
       expect(
         isValid(GeometrySchema, {
@@ -50,6 +63,27 @@ describe('Validation Schemas', () => {
           ],
         }),
       ).toBe(true);
+      expect(
+        isValid(GeometrySchema, {
+          type: 'multiPolygon',
+          polygons: [
+            {
+              outer: [
+                { x: 0, y: 0 },
+                { x: 10, y: 0 },
+                { x: 10, y: 10 },
+              ],
+              holes: [
+                [
+                  { x: 6, y: 2 },
+                  { x: 8, y: 2 },
+                  { x: 8, y: 4 },
+                ],
+              ],
+            },
+          ],
+        }),
+      ).toBe(true);
     });
 
     it('rejects invalid or incomplete geometries', () => {
@@ -64,7 +98,30 @@ describe('Validation Schemas', () => {
         }),
       ).toBe(false); // NaN coordinate
       expect(isValid(GeometrySchema, { type: 'circle', center: { x: 0, y: 0 } })).toBe(false); // Missing radius
+      expect(
+        isValid(GeometrySchema, {
+          type: 'ellipse',
+          center: { x: 0, y: 0 },
+          radiusX: 1,
+          radiusY: 1,
+        }),
+      ).toBe(false); // Missing rotation
       expect(isValid(GeometrySchema, { type: 'polyline', points: [{ x: 0, y: 0 }] })).toBe(false); // < 2 points
+      expect(isValid(GeometrySchema, { type: 'multiPolygon', polygons: [] })).toBe(false); // No polygons
+      expect(
+        isValid(GeometrySchema, {
+          type: 'multiPolygon',
+          polygons: [
+            {
+              outer: [
+                { x: 0, y: 0 },
+                { x: 10, y: 0 },
+              ],
+              holes: [],
+            },
+          ],
+        }),
+      ).toBe(false); // Ring with < 3 points
     });
   });
 
@@ -88,6 +145,104 @@ describe('Validation Schemas', () => {
     it('rejects invalid tool types', () => {
       expect(isValid(BaseAnnotationSchema, { ...validBase, toolType: 'unknown-tool' })).toBe(false);
     });
+
+    it('validates an optional style', () => {
+      const style = {
+        strokeColor: '#ff0000',
+        strokeWidth: 2,
+        strokeDashArray: [4, 2],
+        fillColor: '#ff0000',
+        fillOpacity: 0.1,
+        opacity: 1,
+      };
+      expect(isValid(BaseAnnotationSchema, { ...validBase, style })).toBe(true);
+      expect(
+        isValid(BaseAnnotationSchema, { ...validBase, style: { ...style, strokeWidth: -1 } }),
+      ).toBe(false);
+      expect(isValid(BaseAnnotationSchema, { ...validBase, style: { strokeColor: '#f00' } })).toBe(
+        false,
+      );
+    });
+
+    it('validates optional attribute values', () => {
+      const attributes = { class: 'benign', confirmed: true, grade: 2 };
+      expect(isValid(BaseAnnotationSchema, { ...validBase, attributes })).toBe(true);
+      expect(isValid(BaseAnnotationSchema, { ...validBase, attributes: { grade: null } })).toBe(
+        false,
+      );
+      expect(isValid(BaseAnnotationSchema, { ...validBase, attributes: { tags: ['a'] } })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('AttributeDefinitionSchema', () => {
+    it('accepts each attribute type', () => {
+      for (const definition of [
+        { key: 'class', type: 'enum', options: ['a', 'b'], required: true },
+        { key: 'flag', type: 'boolean', default: false },
+        { key: 'grade', type: 'number', min: 0, max: 5, integer: true },
+        { key: 'notes', type: 'text', maxLength: 100, label: 'Notes' },
+      ]) {
+        expect(isValid(AttributeDefinitionSchema, definition)).toBe(true);
+      }
+    });
+
+    it('rejects unknown types, empty keys and empty enums', () => {
+      expect(isValid(AttributeDefinitionSchema, { key: 'x', type: 'date' })).toBe(false);
+      expect(isValid(AttributeDefinitionSchema, { key: '', type: 'boolean' })).toBe(false);
+      expect(isValid(AttributeDefinitionSchema, { key: 'x', type: 'enum', options: [] })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('LabelDefinitionSchema', () => {
+    it('accepts a label with limits and allowed tools', () => {
+      expect(
+        isValid(LabelDefinitionSchema, {
+          id: 'tumor',
+          name: 'Tumor',
+          color: '#ff0000',
+          hotkey: 't',
+          tools: ['rectangle', 'circle'],
+          maxCount: 3,
+          minCount: 1,
+          required: true,
+          countScope: 'per-image',
+        }),
+      ).toBe(true);
+    });
+
+    it('rejects empty ids, unknown tools and negative limits', () => {
+      expect(isValid(LabelDefinitionSchema, { id: '', name: 'X' })).toBe(false);
+      expect(isValid(LabelDefinitionSchema, { id: 'x', name: 'X', tools: ['laser'] })).toBe(false);
+      expect(isValid(LabelDefinitionSchema, { id: 'x', name: 'X', maxCount: -1 })).toBe(false);
+    });
+  });
+
+  describe('ToolConstraintSchema', () => {
+    it('accepts geometry rules', () => {
+      const geometryRules = {
+        minArea: 25,
+        maxArea: 1e6,
+        minLength: 4.5,
+        insideImage: true,
+        noSelfIntersection: true,
+        noOverlapWithSameLabel: true,
+        policy: 'clamp',
+      };
+      expect(isValid(ToolConstraintSchema, { type: 'polyline', geometryRules })).toBe(true);
+    });
+
+    it('rejects negative limits and unknown policies', () => {
+      expect(
+        isValid(ToolConstraintSchema, { type: 'polyline', geometryRules: { minArea: -1 } }),
+      ).toBe(false);
+      expect(
+        isValid(ToolConstraintSchema, { type: 'polyline', geometryRules: { policy: 'ignore' } }),
+      ).toBe(false);
+    });
   });
 
   describe('OsdAnnotationSchema', () => {
@@ -113,6 +268,22 @@ describe('Validation Schemas', () => {
     it('rejects missing imageId', () => {
       expect(isValid(OsdAnnotationSchema, { ...validOsd, imageId: undefined })).toBe(false);
     });
+
+    it('accepts geometry-only annotations, with or without a style', () => {
+      const { rawAnnotationData: _raw, ...geometryOnly } = validOsd;
+      expect(isValid(OsdAnnotationSchema, geometryOnly)).toBe(true);
+      const style = {
+        strokeColor: '#00ff00',
+        strokeWidth: 2,
+        fillColor: '#00ff00',
+        fillOpacity: 0.2,
+        opacity: 1,
+      };
+      expect(isValid(OsdAnnotationSchema, { ...geometryOnly, style })).toBe(true);
+      expect(
+        isValid(OsdAnnotationSchema, { ...geometryOnly, style: { ...style, opacity: 2 } }),
+      ).toBe(false);
+    });
   });
 
   describe('RawAnnotationDataSchema', () => {
@@ -131,6 +302,22 @@ describe('Validation Schemas', () => {
 
     it('accepts valid fabric data', () => {
       expect(isValid(FabricRawAnnotationDataSchema, validRaw)).toBe(true);
+      expect(
+        isValid(FabricRawAnnotationDataSchema, {
+          ...validRaw,
+          data: { type: 'Ellipse', rx: 10, ry: 5, left: 0, top: 0 },
+        }),
+      ).toBe(true);
+      expect(
+        isValid(FabricRawAnnotationDataSchema, {
+          ...validRaw,
+          data: {
+            type: 'Path',
+            path: [['M', 0, 0], ['L', 10, 0], ['L', 10, 10], ['Z']],
+            fillRule: 'evenodd',
+          },
+        }),
+      ).toBe(true);
     });
 
     it('rejects unsupported formats or unknown types', () => {
@@ -156,6 +343,73 @@ describe('Validation Schemas', () => {
           data: { ...validRaw.data, width: -10 }, // Rect width must be >= 0
         }),
       ).toBe(false);
+
+      expect(
+        isValid(FabricRawAnnotationDataSchema, {
+          ...validRaw,
+          data: { type: 'ellipse', rx: 10 }, // Ellipse needs both radii
+        }),
+      ).toBe(false);
+
+      expect(
+        isValid(FabricRawAnnotationDataSchema, {
+          ...validRaw,
+          data: { type: 'path', path: [['M', 0, NaN]] }, // Path coordinates must be finite
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('GeoJsonGeometrySchema', () => {
+    it('accepts points, line strings, polygons and multi-polygons', () => {
+      expect(isValid(GeoJsonGeometrySchema, { type: 'Point', coordinates: [1, 2] })).toBe(true);
+      expect(
+        isValid(GeoJsonGeometrySchema, {
+          type: 'LineString',
+          coordinates: [
+            [0, 0],
+            [1, 1],
+          ],
+        }),
+      ).toBe(true);
+      expect(
+        isValid(GeoJsonGeometrySchema, {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [0, 0],
+              [1, 0],
+              [1, 1],
+              [0, 0],
+            ],
+          ],
+        }),
+      ).toBe(true);
+      expect(
+        isValid(GeoJsonGeometrySchema, {
+          type: 'MultiPolygon',
+          coordinates: [
+            [
+              [
+                [0, 0],
+                [1, 0],
+                [1, 1],
+                [0, 0],
+              ],
+            ],
+          ],
+        }),
+      ).toBe(true);
+    });
+
+    it('rejects unsupported types and degenerate coordinates', () => {
+      expect(isValid(GeoJsonGeometrySchema, { type: 'MultiPoint', coordinates: [[1, 2]] })).toBe(
+        false,
+      );
+      expect(isValid(GeoJsonGeometrySchema, { type: 'Point', coordinates: [1] })).toBe(false);
+      expect(isValid(GeoJsonGeometrySchema, { type: 'LineString', coordinates: [[0, 0]] })).toBe(
+        false,
+      );
     });
   });
 });
@@ -34,6 +34,58 @@ export const DEFAULT_CELL_TRANSFORM: CellTransform = {
   inverted: false,
 };
 
+/**
+ * How linked grid cells follow the active cell's viewport: `'image'` shows
+ * the same image region at the same image zoom, `'relative'` the same
+ * position and zoom relative to each image's full view.
+ */
+export type ViewLinkMode = 'image' | 'relative';
+
+/**
+ * How annotations stack on the canvas: by their `zIndex`, or largest first
+ * so small shapes stay on top of the ones around them and can be clicked.
+ */
+export type AnnotationStackingOrder = 'zIndex' | 'smallestOnTop';
+
+/**
+ * Where points placed while drawing or editing vertices snap to. Vertices
+ * and edges of other annotations attract the pointer within `tolerancePx`
+ * screen px; failing those, points fall on the `gridSize` grid (image px)
+ * and then on whole image pixels, when enabled.
+ */
+export interface SnapSettings {
+  readonly enabled: boolean;
+  readonly vertices: boolean;
+  readonly edges: boolean;
+  readonly tolerancePx: number;
+  readonly gridSize: number | null;
+  readonly pixels: boolean;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: false,
+  vertices: true,
+  edges: true,
+  tolerancePx: 8,
+  gridSize: null,
+  pixels: false,
+};
+
+// ── Registration ─────────────────────────────────────────────────────────
+
+/**
+ * A 2D affine transform `[a, b, c, d, e, f]`, mapping a point (x, y) to
+ * (a·x + c·y + e, b·x + d·y + f) — the layout of Canvas and Fabric matrices.
+ */
+export type AffineMatrix = readonly [number, number, number, number, number, number];
+
+/** Aligns one image with another: `matrix` maps `from` image px to `to` image px. */
+export interface ImageRegistration {
+  readonly from: ImageId;
+  readonly to: ImageId;
+  readonly matrix: AffineMatrix;
+}
+
 // ── State Types ──────────────────────────────────────────────────────────
 // Note: State container types intentionally omit `readonly` — SolidJS store
 // proxies enforce immutability at runtime, and `readonly` here would conflict
@@ -59,8 +111,52 @@ export interface UIState {
   gridColumns: number;
   gridRows: number;
   gridAssignments: Record<number, ImageId>;
-  selectedAnnotationId: AnnotationId | null;
+  /**
+   * Selected annotations on the active cell's image, in selection order.
+   * Empty when nothing is selected.
+   */
+  selectedAnnotationIds: AnnotationId[];
   cellTransforms: Record<number, CellTransform>;
+  /**
+   * Id of the active context's label that newly drawn annotations get, or
+   * `null` to draw them unlabelled.
+   */
+  activeLabel: string | null;
+  /** Pixel size of each image opened so far, used by geometry rules such as `insideImage`. */
+  imageSizes: Record<ImageId, ImageSize>;
+  /**
+   * How linked cells follow the active cell's pan, zoom, rotation and flip,
+   * or `null` when every cell's view is independent.
+   */
+  viewLinkMode: ViewLinkMode | null;
+  /** Cells left out of view linking. */
+  unlinkedCells: number[];
+  /** Whether the pointer in one cell is echoed as a crosshair in the others. */
+  linkedCrosshair: boolean;
+  /** How overlapping annotations stack on the canvas. */
+  stackingOrder: AnnotationStackingOrder;
+  /** How drawn and edited points snap; held `Alt` turns it off for a moment. */
+  snapping: SnapSettings;
+  /**
+   * Registrations between image pairs, at most one per pair in either
+   * direction. Images without one line up pixel for pixel.
+   */
+  registrations: ImageRegistration[];
+  /** The latest request for a cell to frame annotations, or `null`. */
+  focusRequest: FocusRequest | null;
+}
+
+/**
+ * Asks cell `cellIndex`, once it shows `imageId`, to pan and zoom to the
+ * bounds of `annotationIds` — or of all the image's shown annotations when
+ * omitted. `seq` grows with every request, so repeating one is still seen
+ * as new.
+ */
+export interface FocusRequest {
+  readonly cellIndex: number;
+  readonly imageId: ImageId;
+  readonly annotationIds?: readonly AnnotationId[] | undefined;
+  readonly seq: number;
 }
 
 /** Root state for the annotation system */
@@ -86,6 +182,12 @@ export interface PixelSpacing {
   readonly unit: string;
 }
 
+/** Width and height of an image, in image px */
+export interface ImageSize {
+  readonly width: number;
+  readonly height: number;
+}
+
 /** Image source descriptor */
 export interface ImageSource {
   readonly id: ImageId;
@@ -107,6 +209,7 @@ export interface KeyboardShortcutMap {
   readonly selectTool: string;
   readonly rectangleTool: string;
   readonly circleTool: string;
+  readonly ellipseTool: string;
   readonly lineTool: string;
   readonly pointTool: string;
   readonly polylineTool: string;
@@ -135,7 +238,34 @@ export interface KeyboardShortcutMap {
   readonly flipHorizontal: string;
   readonly flipVertical: string;
   readonly resetView: string;
+  /** Fit the active cell to all of its image's annotations (with Shift). */
+  readonly fitAllAnnotations: string;
   readonly toggleNegative: string;
   readonly increaseExposure: string;
   readonly decreaseExposure: string;
+  /** Undo the last annotation change (with Ctrl / Cmd). */
+  readonly undo: string;
+  /** Redo the last undone annotation change (with Ctrl / Cmd + Shift). */
+  readonly redo: string;
+  /** Copy the selected annotations (with Ctrl / Cmd). */
+  readonly copy: string;
+  /** Cut the selected annotations (with Ctrl / Cmd). */
+  readonly cut: string;
+  /** Paste copied annotations onto the active image (with Ctrl / Cmd). */
+  readonly paste: string;
+  /** Duplicate the selected annotations in place (with Ctrl / Cmd). */
+  readonly duplicate: string;
+  /** Bring the selected annotations to the front (with Ctrl / Cmd). */
+  readonly bringToFront: string;
+  /** Send the selected annotations to the back (with Ctrl / Cmd). */
+  readonly sendToBack: string;
+  /** Raise the selected annotations one step (with Ctrl / Cmd). */
+  readonly bringForward: string;
+  /** Lower the selected annotations one step (with Ctrl / Cmd). */
+  readonly sendBackward: string;
+  /**
+   * Activation keys by tool type, overriding each registered tool's default
+   * `shortcut`. Takes precedence over the named built-in entries above.
+   */
+  readonly tools?: Readonly<Partial<Record<ToolType, string>>> | undefined;
 }